@@ -0,0 +1,299 @@
+import { PutItemCommand, UpdateItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { outboxItem } from "../outbox/outbox";
+import { HoldService } from "../holds/holds";
+import { EXIT_CODES, exitCodeOf, run, UsageError } from "./cli";
+import { InsufficientBalanceError, OutboxStatus, TransactionFailedError, UserNotFoundError } from "../types";
+
+describe("cli", () => {
+  let db: InMemoryDynamoDB;
+  let out: string[];
+  let err: string[];
+  let createClient: jest.Mock;
+
+  const cli = (...argv: string[]) =>
+    run(argv, { out: (line) => out.push(line), err: (line) => err.push(line) }, createClient);
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    out = [];
+    err = [];
+    createClient = jest.fn().mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("migrate and tables status", () => {
+    it("should report missing tables until the schema is migrated", async () => {
+      expect(await cli("tables", "status")).toBe(EXIT_CODES.UNAVAILABLE);
+      expect(out).toContain(`${Config.DB_USERS_TABLE.padEnd(14)}missing`);
+
+      expect(await cli("migrate", "--json")).toBe(EXIT_CODES.OK);
+      expect(JSON.parse(out[out.length - 1]).applied).toContain("001-users-and-transactions");
+
+      expect(await cli("tables", "status")).toBe(EXIT_CODES.OK);
+    });
+
+    it("should only print the planned calls with --dry-run", async () => {
+      expect(await cli("migrate", "up", "--dry-run")).toBe(EXIT_CODES.OK);
+
+      expect(out).toContain(`001-users-and-transactions: CreateTable ${Config.DB_USERS_TABLE}`);
+      expect(out[out.length - 1]).toMatch(/^Would apply 001-users-and-transactions/);
+      expect((await db.listTables({})).TableNames).toEqual([]);
+    });
+
+    it("should list the applied and pending migrations", async () => {
+      await cli("migrate");
+      out = [];
+
+      expect(await cli("migrate", "status")).toBe(EXIT_CODES.OK);
+      expect(out[0]).toMatch(/^001-users-and-transactions +\d{4}-\d{2}-\d{2}T/);
+      expect(await cli("migrate", "down")).toBe(EXIT_CODES.USAGE);
+    });
+  });
+
+  describe("schema diff", () => {
+    it("should only exit non-zero with --ci when a difference is blocking", async () => {
+      expect(await cli("schema", "diff")).toBe(EXIT_CODES.OK);
+      expect(out).toContain(`${Config.DB_USERS_TABLE.padEnd(18)}missing`);
+      expect(await cli("schema", "diff", "--ci")).toBe(EXIT_CODES.SCHEMA_DRIFT);
+
+      await createSchema(db);
+      out = [];
+
+      expect(await cli("schema", "diff", "--ci", "--json")).toBe(EXIT_CODES.OK);
+      expect(JSON.parse(out[0]).blocking).toBe(false);
+    });
+  });
+
+  describe("with the schema", () => {
+    beforeEach(async () => {
+      await createSchema(db);
+      await db.send(
+        new PutItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          // seeded, see npm run seed
+          Item: { userId: { S: "1" }, balance: { N: "100" }, openingBalance: { N: "100" }, currency: { S: "USD" } },
+        })
+      );
+    });
+
+    it("should seed the requested number of users", async () => {
+      expect(await cli("seed", "--count", "3")).toBe(EXIT_CODES.OK);
+
+      expect(out).toEqual(["Seeded 3 users"]);
+      // user 1 was overwritten by the seed
+      expect(db.dump(Config.DB_USERS_TABLE)).toHaveLength(3);
+    });
+
+    it("should refuse a count above a single batch", async () => {
+      expect(await cli("seed", "--count", "26")).toBe(EXIT_CODES.USAGE);
+    });
+
+    it("should print a user's balance", async () => {
+      expect(await cli("balance", "1")).toBe(EXIT_CODES.OK);
+      expect(out).toEqual(["100.00 USD"]);
+    });
+
+    it("should set, show and remove a credit limit, and the overdraft left", async () => {
+      expect(await cli("credit-limit", "1", "50")).toBe(EXIT_CODES.OK);
+      await cli("debit", "1", "120", "--key", "k1");
+      out = [];
+
+      await cli("credit-limit", "1");
+      await cli("balance", "1", "--overdraft");
+      await cli("credit-limit", "1", "none");
+      expect(out).toEqual([
+        "Credit limit of user 1: 50.00 USD",
+        "-20.00 USD (30.00 USD overdraft left)",
+        "No credit limit for user 1",
+      ]);
+    });
+
+    it("should print JSON with --json", async () => {
+      await cli("balance", "1", "--json");
+
+      expect(JSON.parse(out[0])).toEqual({ userId: "1", balance: "100.00 USD" });
+    });
+
+    it("should credit and debit, and replay a key without applying it again", async () => {
+      expect(await cli("credit", "1", "10", "--key", "k1")).toBe(EXIT_CODES.OK);
+      expect(out).toEqual(["Credited 10.00 USD for user 1 (key k1)", "Balance: 110.00 USD"]);
+
+      out = [];
+      expect(await cli("credit", "1", "10", "--key", "k1")).toBe(EXIT_CODES.OK);
+      expect(out).toContain("Already applied, nothing changed");
+
+      await cli("debit", "1", "0.50", "--key", "k2", "--json");
+      expect(JSON.parse(out[out.length - 1])).toMatchObject({ type: "debit", resultingBalance: "109.5" });
+    });
+
+    it("should list the user's history", async () => {
+      await cli("credit", "1", "10", "--key", "k1");
+      out = [];
+
+      expect(await cli("history", "1")).toBe(EXIT_CODES.OK);
+      expect(out).toEqual([expect.stringMatching(/^\S+Z {2}credit {2}10\.00 USD {2}k1$/)]);
+    });
+
+    it.each([
+      [["balance", "2"], EXIT_CODES.NOT_FOUND],
+      [["debit", "1", "1000", "--key", "k1"], EXIT_CODES.REJECTED],
+      [["credit", "1", "ten", "--key", "k1"], EXIT_CODES.INVALID_INPUT],
+      [["history", "1", "--type", "withdrawal"], EXIT_CODES.INVALID_INPUT],
+    ])("should exit %p with %p", async (argv, exitCode) => {
+      expect(await cli(...argv)).toBe(exitCode);
+      expect(err[0]).toMatch(/^Error: /);
+    });
+
+    it("should reconcile the balances, and require a reason to repair", async () => {
+      expect(await cli("reconcile")).toBe(EXIT_CODES.OK);
+      expect(out).toEqual(["Checked 1 wallets, 0 mismatches"]);
+
+      expect(await cli("reconcile", "--repair")).toBe(EXIT_CODES.USAGE);
+    });
+
+    it("should exit with LEDGER_MISMATCH while a mismatch isn't repaired", async () => {
+      await db.send(
+        new UpdateItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Key: { userId: { S: "1" } },
+          UpdateExpression: "SET balance = :balance",
+          ExpressionAttributeValues: { ":balance": { N: "90" } },
+        })
+      );
+
+      expect(await cli("reconcile", "--user", "1")).toBe(EXIT_CODES.LEDGER_MISMATCH);
+      expect(out[0]).toBe("User 1 USD: balance 90.00, transactions add up to 100.00, difference -10.00");
+    });
+
+    it("should print the trial balance", async () => {
+      await cli("credit", "1", "10", "--key", "k1");
+
+      expect(await cli("journal", "trial-balance")).toBe(EXIT_CODES.OK);
+      expect(out.slice(2)).toEqual([
+        `${"cash".padEnd(18)}USD -10.00`,
+        `${"user:1".padEnd(18)}USD 10.00`,
+        `${"total".padEnd(18)}USD 0.00`,
+      ]);
+    });
+
+    it("should release the funds of the expired holds", async () => {
+      // placed long enough ago to have expired
+      const placedAt = Date.now() - 2 * Config.HOLD_EXPIRY_SECONDS * 1000;
+      await new HoldService(db, Config, { now: () => placedAt }).placeHold({ holdId: "h1", userId: "1", amount: "40" });
+
+      expect(await cli("holds", "expire")).toBe(EXIT_CODES.OK);
+      expect(await cli("holds", "expire")).toBe(EXIT_CODES.OK);
+      expect(out).toEqual(["Released 1 expired holds, 0 failed", "Released 0 expired holds, 0 failed"]);
+      expect(db.dump(Config.DB_USERS_TABLE)[0].availableBalance).toEqual({ N: "100" });
+    });
+
+    it("should report the expired holds it couldn't release", async () => {
+      const placedAt = Date.now() - 2 * Config.HOLD_EXPIRY_SECONDS * 1000;
+      await new HoldService(db, Config, { now: () => placedAt }).placeHold({ holdId: "h1", userId: "1", amount: "40" });
+      await db.send(
+        new UpdateItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Key: { userId: { S: "1" } },
+          UpdateExpression: "REMOVE availableBalance",
+        })
+      );
+
+      expect(await cli("holds", "expire")).toBe(EXIT_CODES.UNAVAILABLE);
+      expect(out).toEqual([expect.stringMatching(/^Hold h1 not released: /), "Released 0 expired holds, 1 failed"]);
+    });
+
+    it("should dispatch the outbox to stdout", async () => {
+      const write = jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+      await cli("credit", "1", "10", "--key", "k1");
+      out = [];
+
+      expect(await cli("outbox", "dispatch")).toBe(EXIT_CODES.OK);
+      expect(out).toEqual(["Delivered 1 events, 0 to retry, 0 failed"]);
+      expect(JSON.parse(String(write.mock.calls[0][0]))).toMatchObject({ eventId: "TransactionPosted:k1" });
+      expect(await cli("outbox", "dispatch", "--watch", "--interval", "0")).toBe(EXIT_CODES.USAGE);
+    });
+
+    it("should list the dead letters and replay one", async () => {
+      const { Put } = outboxItem(Config, {
+        eventId: "TransactionPosted:k1",
+        type: "TransactionPosted",
+        payload: {},
+        createdAt: new Date(Date.UTC(2024, 0, 1)),
+      });
+      await db.send(
+        new PutItemCommand({
+          TableName: Put.TableName,
+          Item: { ...Put.Item, status: { S: OutboxStatus.FAILED }, attempts: { N: "10" }, lastError: { S: "503" } },
+        })
+      );
+
+      expect(await cli("outbox", "failed")).toBe(EXIT_CODES.OK);
+      expect(out).toEqual(["2024-01-01T00:00:00.000Z  TransactionPosted:k1  10 attempts  503", "1 failed events"]);
+
+      expect(await cli("outbox", "replay", "TransactionPosted:k1")).toBe(EXIT_CODES.OK);
+      expect(await cli("outbox", "replay", "TransactionPosted:k1")).toBe(EXIT_CODES.CONFLICT);
+      expect(await cli("outbox", "replay", "TransactionPosted:k2")).toBe(EXIT_CODES.NOT_FOUND);
+    });
+
+    it("should print errors as JSON with --json", async () => {
+      await cli("balance", "2", "--json");
+
+      expect(JSON.parse(err[0])).toEqual({ error: "UserNotFoundError", message: "User with ID 2 not found" });
+    });
+  });
+
+  describe("usage", () => {
+    it.each([
+      [[]],
+      [["unknown"]],
+      [["balance"]],
+      [["balance", "1", "2"]],
+      [["credit", "1", "10"]],
+      [["balance", "1", "--unknown"]],
+      [["tables", "drop"]],
+      [["schema", "apply"]],
+      [["journal", "post"]],
+      [["outbox", "replay"]],
+      [["holds", "place"]],
+    ])("should exit with a usage error for %p", async (argv) => {
+      expect(await cli(...argv)).toBe(EXIT_CODES.USAGE);
+    });
+
+    it("should show the help", async () => {
+      expect(await cli("--help")).toBe(EXIT_CODES.OK);
+      expect(out[0]).toMatch(/^Usage: cli <command>/);
+    });
+
+    it("should pass the endpoint and region to the client", async () => {
+      await createSchema(db);
+
+      await cli("tables", "status", "--endpoint", "http://localhost:8000", "--region", "eu-west-1");
+
+      expect(createClient).toHaveBeenCalledWith(
+        expect.objectContaining({ endpoint: "http://localhost:8000", region: "eu-west-1" })
+      );
+    });
+  });
+
+  describe("exitCodeOf", () => {
+    it("should follow the domain error", () => {
+      expect(exitCodeOf(new UsageError("missing"))).toBe(EXIT_CODES.USAGE);
+      expect(exitCodeOf(new UserNotFoundError("1"))).toBe(EXIT_CODES.NOT_FOUND);
+      expect(exitCodeOf(new InsufficientBalanceError())).toBe(EXIT_CODES.REJECTED);
+      expect(exitCodeOf(new TransactionFailedError("throttled", 3))).toBe(EXIT_CODES.UNAVAILABLE);
+      expect(exitCodeOf(new Error("connection refused"))).toBe(EXIT_CODES.FAILURE);
+    });
+  });
+});
@@ -0,0 +1,529 @@
+import { parseArgs } from "util";
+import { randomUUID } from "crypto";
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { Config } from "../config";
+import { createClient } from "../db/client";
+import { seed } from "../db/seed";
+import { checkTableExists } from "../schema";
+import { MigrationService } from "../schema/migrator";
+import { SchemaDriftService } from "../schema/drift";
+import { ReconciliationService } from "../reconcile/reconcile";
+import { JournalService } from "../journal/journal";
+import { HoldService } from "../holds/holds";
+import { OutboxService } from "../outbox/outbox";
+import { createOutboxSink } from "../outbox/sinks";
+import { WebhookService, webhookSink } from "../webhooks/webhooks";
+import { withLogContext } from "../logger/logger";
+import { UserService } from "../user/user";
+import { createTransactWithReceiptFn } from "../transact/transact";
+import { TransactionHistoryService } from "../transact/history";
+import { formatBalance } from "../money/money";
+import { ERROR_STATUS } from "../server/errors";
+import { InvalidTransactionTypeError, TransactionType } from "../types";
+
+export const EXIT_CODES = {
+  OK: 0,
+  // anything that isn't a domain error, e.g. DynamoDB is unreachable
+  FAILURE: 1,
+  USAGE: 2,
+  INVALID_INPUT: 3,
+  NOT_FOUND: 4,
+  CONFLICT: 5,
+  // a well-formed request breaking a business rule, e.g. an insufficient balance
+  REJECTED: 6,
+  // transient failures after retries, or missing tables
+  UNAVAILABLE: 7,
+  // with --ci, a table differs from its declared definition in a way that breaks the code
+  SCHEMA_DRIFT: 8,
+  // a balance doesn't add up to its transactions and wasn't repaired, or the journal doesn't add up to zero
+  LEDGER_MISMATCH: 9,
+} as const;
+
+// exit codes follow the HTTP status of the domain error (see ERROR_STATUS), so both agree
+const STATUS_EXIT_CODES: Record<number, number> = {
+  400: EXIT_CODES.INVALID_INPUT,
+  404: EXIT_CODES.NOT_FOUND,
+  409: EXIT_CODES.CONFLICT,
+  422: EXIT_CODES.REJECTED,
+  503: EXIT_CODES.UNAVAILABLE,
+};
+
+// how often outbox dispatch --watch polls, unless told otherwise
+const DEFAULT_POLL_INTERVAL_SECONDS = 1;
+
+const USAGE = `Usage: cli <command> [options]
+
+Commands:
+  migrate [up] [--dry-run]                 apply the pending schema migrations, or only print their calls
+  migrate status                           list the migrations and when they were applied
+  seed [--count N]                         create N test users (default ${Config.USER_SEED_SIZE})
+  balance <userId> [--currency C] [--overdraft]
+                                           show a user's balance, with the overdraft left
+  credit-limit <userId> [amount|none]      show or set the overdraft of a user's default currency balance
+  credit <userId> <amount> --key K [--currency C]
+  debit <userId> <amount> --key K [--currency C]
+  history <userId> [--limit N] [--cursor C] [--type credit|debit]
+  tables status                            check that every table exists
+  schema diff [--ci]                       compare the tables with their declared definitions
+  reconcile [--user ID] [--repair --reason R]
+                                           compare balances with their transactions, correcting the ledger with --repair
+  journal trial-balance                    add up every journal account, they must come to zero
+  holds expire                             release the funds of the expired holds, run it periodically
+  outbox dispatch [--watch [--interval S]] deliver the pending events to the OUTBOX_SINK and the webhooks, or keep polling until interrupted
+  outbox failed [--type T]                 list the dead letters, events whose last delivery failed
+  outbox replay <eventId>                  deliver a dead letter again
+
+Options:
+  --json             print results as JSON
+  --overdraft        with balance, show what is left of the credit limit
+  --dry-run          with migrate up, print the DynamoDB calls without making them
+  --ci               with schema diff, exit with ${EXIT_CODES.SCHEMA_DRIFT} when a difference is blocking
+  --watch            with outbox dispatch, poll every --interval seconds (default ${DEFAULT_POLL_INTERVAL_SECONDS})
+  --endpoint URL     DynamoDB endpoint, DB_ENDPOINT by default
+  --region R         DynamoDB region, DB_REGION by default
+  -h, --help         show this help`;
+
+// a command line that can't be run, e.g. a missing argument
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export type Output = {
+  out: (line: string) => void;
+  err: (line: string) => void;
+};
+
+type Options = {
+  json?: boolean;
+  endpoint?: string;
+  region?: string;
+  count?: string;
+  key?: string;
+  currency?: string;
+  limit?: string;
+  cursor?: string;
+  type?: string;
+  "dry-run"?: boolean;
+  ci?: boolean;
+  user?: string;
+  repair?: boolean;
+  reason?: string;
+  overdraft?: boolean;
+  watch?: boolean;
+  interval?: string;
+  help?: boolean;
+};
+
+// what a command prints, as JSON with --json or as lines of text otherwise
+type CommandResult = {
+  data: unknown;
+  text: string[];
+  exitCode?: number;
+};
+
+type Command = (client: DynamoDB, args: string[], options: Options) => Promise<CommandResult>;
+
+const commands: Record<string, Command> = {
+  migrate: async (client, args, options) => {
+    const [subcommand = "up", ...rest] = args;
+    if (rest.length > 0) {
+      throw new UsageError(`Unexpected argument: ${rest[0]}`);
+    }
+
+    const migrations = new MigrationService(client, Config);
+    if (subcommand === "status") {
+      const status = await migrations.status();
+      return {
+        data: { migrations: status },
+        text: status.map((migration) => `${migration.id.padEnd(30)}${migration.appliedAt ?? "pending"}`),
+      };
+    }
+    if (subcommand !== "up") {
+      throw new UsageError(`Unknown migrate subcommand: ${subcommand}`);
+    }
+
+    const run = await migrations.up({ dryRun: options["dry-run"] });
+    const text = run.calls.flatMap((call) => [
+      `${call.migrationId ?? "setup"}: ${call.operation} ${call.input.TableName}`,
+      ...(run.dryRun ? JSON.stringify(call.input, null, 2).split("\n") : []),
+    ]);
+    if (run.applied.length === 0) {
+      text.push("No pending migrations");
+    } else {
+      text.push(`${run.dryRun ? "Would apply" : "Applied"} ${run.applied.join(", ")}`);
+    }
+
+    return { data: run, text };
+  },
+
+  seed: async (client, _, options) => {
+    const count = options.count === undefined ? Config.USER_SEED_SIZE : Number(options.count);
+    // seed writes a single batch
+    if (!Number.isInteger(count) || count < 1 || count > Config.USER_SEED_SIZE) {
+      throw new UsageError(`--count must be between 1 and ${Config.USER_SEED_SIZE}`);
+    }
+
+    await seed(client, count);
+    return { data: { seeded: count }, text: [`Seeded ${count} users`] };
+  },
+
+  balance: async (client, args, options) => {
+    const [userId] = expectArgs(args, ["userId"]);
+    const balance = await new UserService(client, Config).getUserBalance({
+      userId,
+      currency: options.currency,
+      includeOverdraft: options.overdraft,
+    });
+
+    return { data: { userId, balance }, text: [balance] };
+  },
+
+  "credit-limit": async (client, args) => {
+    const [userId, amount, ...rest] = args;
+    if (userId === undefined) {
+      throw new UsageError("Missing <userId>");
+    }
+    if (rest.length > 0) {
+      throw new UsageError(`Unexpected argument: ${rest[0]}`);
+    }
+    const userService = new UserService(client, Config);
+
+    const limit = amount === undefined
+      ? await userService.getCreditLimit(userId)
+      : await userService.setCreditLimit({ userId, creditLimit: amount === "none" ? undefined : amount });
+
+    const text = limit.creditLimit === undefined
+      ? [`No credit limit for user ${userId}`]
+      : [`Credit limit of user ${userId}: ${formatBalance(limit.creditLimit, limit.currency)} ${limit.currency}`];
+    return { data: limit, text };
+  },
+
+  credit: (client, args, options) => transact(client, TransactionType.CREDIT, args, options),
+  debit: (client, args, options) => transact(client, TransactionType.DEBIT, args, options),
+
+  history: async (client, args, options) => {
+    const [userId] = expectArgs(args, ["userId"]);
+    if (options.type !== undefined && !Object.values(TransactionType).includes(options.type as TransactionType)) {
+      throw new InvalidTransactionTypeError();
+    }
+    const page = await new TransactionHistoryService(client, Config).listTransactions({
+      userId,
+      limit: options.limit === undefined ? undefined : Number(options.limit),
+      cursor: options.cursor,
+      type: options.type as TransactionType | undefined,
+    });
+
+    const text = page.transactions.map((transaction) => {
+      const currency = transaction.currency ?? Config.DEFAULT_CURRENCY;
+      return [
+        transaction.timestamp.toISOString(),
+        transaction.type.padEnd(6),
+        `${formatBalance(transaction.amount, currency)} ${currency}`,
+        transaction.idempotentKey,
+      ].join("  ");
+    });
+    if (page.transactions.length === 0) {
+      text.push(`No transactions for user ${userId}`);
+    }
+    if (page.cursor) {
+      text.push(`More: --cursor ${page.cursor}`);
+    }
+
+    return { data: page, text };
+  },
+
+  tables: async (client, args) => {
+    const [subcommand] = expectArgs(args, ["status"]);
+    if (subcommand !== "status") {
+      throw new UsageError(`Unknown tables subcommand: ${subcommand}`);
+    }
+    return tablesStatus(client);
+  },
+
+  schema: async (client, args, options) => {
+    const [subcommand] = expectArgs(args, ["diff"]);
+    if (subcommand !== "diff") {
+      throw new UsageError(`Unknown schema subcommand: ${subcommand}`);
+    }
+
+    const report = await new SchemaDriftService(client, Config).diff();
+    const text = report.tables.flatMap((table) => [
+      `${table.tableName.padEnd(18)}${table.status}`,
+      ...table.differences.map(
+        (difference) =>
+          `  ${difference.severity.padEnd(10)}${difference.path}: expected ${difference.expected ?? "none"}, got ${difference.actual ?? "none"}`
+      ),
+    ]);
+
+    return { data: report, text, exitCode: options.ci && report.blocking ? EXIT_CODES.SCHEMA_DRIFT : EXIT_CODES.OK };
+  },
+
+  reconcile: async (client, args, options) => {
+    expectArgs(args, []);
+    // the reason is recorded on every correcting entry
+    if (options.repair && !options.reason) {
+      throw new UsageError("--reason is required with --repair, it's recorded on the correcting entries");
+    }
+
+    const report = await new ReconciliationService(client, Config).reconcile({
+      userId: options.user,
+      repair: options.repair ? { reason: options.reason! } : undefined,
+    });
+
+    const text = report.mismatches.map((mismatch) => {
+      const { userId, currency } = mismatch;
+      const balance = mismatch.balance === undefined ? "none" : formatBalance(mismatch.balance, currency);
+      return [
+        `User ${userId} ${currency}: balance ${balance}, transactions add up to ${formatBalance(mismatch.expected, currency)}`,
+        `difference ${formatBalance(mismatch.difference, currency)}`,
+        ...(mismatch.adjustmentKey ? [`repaired by ${mismatch.adjustmentKey}`] : []),
+      ].join(", ");
+    });
+    text.push(`Checked ${report.checked} wallets, ${report.mismatches.length} mismatches`);
+
+    const unrepaired = report.mismatches.some((mismatch) => !mismatch.adjustmentKey);
+    return { data: report, text, exitCode: unrepaired ? EXIT_CODES.LEDGER_MISMATCH : EXIT_CODES.OK };
+  },
+
+  journal: async (client, args) => {
+    const [subcommand] = expectArgs(args, ["trial-balance"]);
+    if (subcommand !== "trial-balance") {
+      throw new UsageError(`Unknown journal subcommand: ${subcommand}`);
+    }
+
+    const report = await new JournalService(client, Config).trialBalance();
+    const text = [
+      ...report.accounts.map(
+        ({ account, currency, balance }) => `${account.padEnd(18)}${currency} ${formatBalance(balance, currency)}`
+      ),
+      ...report.totals.map(
+        ({ currency, balance }) => `${"total".padEnd(18)}${currency} ${formatBalance(balance, currency)}`
+      ),
+    ];
+
+    return { data: report, text, exitCode: report.balanced ? EXIT_CODES.OK : EXIT_CODES.LEDGER_MISMATCH };
+  },
+
+  holds: async (client, args) => {
+    const [subcommand] = expectArgs(args, ["expire"]);
+    if (subcommand !== "expire") {
+      throw new UsageError(`Unknown holds subcommand: ${subcommand}`);
+    }
+
+    const report = await new HoldService(client, Config).releaseExpiredHolds();
+    const text = report.failures.map(({ holdId, error }) => `Hold ${holdId} not released: ${error}`);
+    text.push(`Released ${report.released} expired holds, ${report.failures.length} failed`);
+
+    // the failed holds stay active until the next run
+    return { data: report, text, exitCode: report.failures.length > 0 ? EXIT_CODES.UNAVAILABLE : EXIT_CODES.OK };
+  },
+
+  outbox: async (client, args, options) => {
+    const [subcommand, ...rest] = args;
+    const outbox = new OutboxService(client, Config);
+
+    if (subcommand === "failed") {
+      expectArgs(rest, []);
+      const events = await outbox.failedEvents(options.type);
+      const text = events.map((event) =>
+        [event.createdAt.toISOString(), event.eventId, `${event.attempts} attempts`, event.lastError ?? ""].join("  ")
+      );
+      text.push(`${events.length} failed events`);
+      return { data: { events }, text };
+    }
+    if (subcommand === "replay") {
+      const [eventId] = expectArgs(rest, ["eventId"]);
+      const event = await outbox.replay(eventId);
+      return { data: event, text: [`Replaying ${event.eventId}, it's delivered by the next dispatch`] };
+    }
+    if (subcommand !== "dispatch") {
+      throw new UsageError(subcommand === undefined ? "Missing <subcommand>" : `Unknown outbox subcommand: ${subcommand}`);
+    }
+    expectArgs(rest, []);
+    const interval = options.interval === undefined ? DEFAULT_POLL_INTERVAL_SECONDS : Number(options.interval);
+    if (!Number.isFinite(interval) || interval <= 0) {
+      throw new UsageError("--interval must be a positive number of seconds");
+    }
+
+    const sink = webhookSink(new WebhookService(client, Config), createOutboxSink(Config));
+    let report;
+    if (options.watch) {
+      // until Ctrl-C, or the process manager stops it
+      const controller = new AbortController();
+      const stop = () => controller.abort();
+      process.once("SIGINT", stop);
+      process.once("SIGTERM", stop);
+      try {
+        report = await outbox.poll(sink, { intervalMs: interval * 1000, signal: controller.signal });
+      } finally {
+        process.off("SIGINT", stop);
+        process.off("SIGTERM", stop);
+      }
+    } else {
+      report = await outbox.dispatch(sink);
+    }
+
+    return {
+      data: report,
+      text: [`Delivered ${report.delivered} events, ${report.retrying} to retry, ${report.failed} failed`],
+    };
+  },
+};
+
+// Runs a command line, without the node and script arguments, and resolves to its exit code.
+// It never rejects, errors are printed to err
+export async function run(
+  argv: string[],
+  output: Output,
+  clientFor: (options: { endpoint?: string; region?: string }) => DynamoDB = configuredClient
+): Promise<number> {
+  let options: Options = {};
+
+  try {
+    const parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean" },
+        endpoint: { type: "string" },
+        region: { type: "string" },
+        count: { type: "string" },
+        key: { type: "string" },
+        currency: { type: "string" },
+        limit: { type: "string" },
+        cursor: { type: "string" },
+        type: { type: "string" },
+        "dry-run": { type: "boolean" },
+        ci: { type: "boolean" },
+        watch: { type: "boolean" },
+        interval: { type: "string" },
+        user: { type: "string" },
+        repair: { type: "boolean" },
+        reason: { type: "string" },
+        overdraft: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    options = parsed.values;
+    const [name, ...args] = parsed.positionals;
+
+    if (options.help || !name) {
+      output.out(USAGE);
+      return options.help ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+    }
+
+    // not inherited properties like "constructor"
+    const command = Object.prototype.hasOwnProperty.call(commands, name) ? commands[name] : undefined;
+    if (!command) {
+      throw new UsageError(`Unknown command: ${name}`);
+    }
+
+    // one correlationId for everything the command logs
+    const result = await withLogContext({ correlationId: randomUUID() }, () => command(clientFor(options), args, options));
+    if (options.json) {
+      output.out(JSON.stringify(result.data));
+    } else {
+      result.text.forEach((line) => output.out(line));
+    }
+    return result.exitCode ?? EXIT_CODES.OK;
+  } catch (error) {
+    const exitCode = exitCodeOf(error);
+    const name = error instanceof Error ? error.name : "Error";
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (options.json) {
+      output.err(JSON.stringify({ error: name, message }));
+    } else {
+      output.err(`Error: ${message}`);
+      if (exitCode === EXIT_CODES.USAGE) {
+        output.err(USAGE);
+      }
+    }
+    return exitCode;
+  }
+}
+
+export function exitCodeOf(error: unknown): number {
+  // parseArgs throws a TypeError with an ERR_PARSE_ARGS_* code for unknown options and missing values
+  if (error instanceof UsageError || String((error as { code?: unknown })?.code).startsWith("ERR_PARSE_ARGS")) {
+    return EXIT_CODES.USAGE;
+  }
+
+  const status = error instanceof Error ? ERROR_STATUS[error.name] : undefined;
+  return (status && STATUS_EXIT_CODES[status]) || EXIT_CODES.FAILURE;
+}
+
+// the DynamoDB of the configuration, with the endpoint and region overridden
+function configuredClient({ endpoint, region }: { endpoint?: string; region?: string }): DynamoDB {
+  return createClient({
+    DB_ENDPOINT: endpoint ?? Config.DB_ENDPOINT,
+    DB_REGION: region ?? Config.DB_REGION,
+  });
+}
+
+async function transact(
+  client: DynamoDB,
+  type: TransactionType,
+  args: string[],
+  options: Options
+): Promise<CommandResult> {
+  const [userId, amount] = expectArgs(args, ["userId", "amount"]);
+  if (!options.key) {
+    throw new UsageError("--key is required, it makes retrying the command safe");
+  }
+
+  const receipt = await createTransactWithReceiptFn(client)({
+    idempotentKey: options.key,
+    userId,
+    amount,
+    type,
+    currency: options.currency,
+  });
+
+  const currency = receipt.currency ?? Config.DEFAULT_CURRENCY;
+  const verb = type === TransactionType.CREDIT ? "Credited" : "Debited";
+  const text = [`${verb} ${formatBalance(receipt.amount, currency)} ${currency} for user ${userId} (key ${receipt.idempotentKey})`];
+  if (receipt.resultingBalance !== undefined) {
+    text.push(`Balance: ${formatBalance(receipt.resultingBalance, currency)} ${currency}`);
+  }
+  if (receipt.replayed) {
+    text.push("Already applied, nothing changed");
+  }
+
+  return { data: receipt, text };
+}
+
+async function tablesStatus(client: DynamoDB): Promise<CommandResult> {
+  const tableNames = [
+    Config.DB_USERS_TABLE,
+    Config.DB_WALLETS_TABLE,
+    Config.DB_TRANSACTIONS_TABLE,
+    Config.DB_HOLDS_TABLE,
+    Config.DB_JOURNAL_TABLE,
+    Config.DB_LIMIT_COUNTERS_TABLE,
+    Config.DB_OUTBOX_TABLE,
+    Config.DB_WEBHOOKS_TABLE,
+  ];
+  const exists = await Promise.all(tableNames.map((tableName) => checkTableExists(tableName, client)));
+  const tables = Object.fromEntries(tableNames.map((tableName, i) => [tableName, exists[i]]));
+
+  return {
+    data: { tables },
+    text: tableNames.map((tableName, i) => `${tableName.padEnd(14)}${exists[i] ? "ok" : "missing"}`),
+    exitCode: exists.every(Boolean) ? EXIT_CODES.OK : EXIT_CODES.UNAVAILABLE,
+  };
+}
+
+// the positional arguments of a command, throws UsageError when one is missing
+function expectArgs(args: string[], names: string[]): string[] {
+  if (args.length < names.length) {
+    throw new UsageError(`Missing ${names.slice(args.length).map((name) => `<${name}>`).join(" ")}`);
+  }
+  if (args.length > names.length) {
+    throw new UsageError(`Unexpected argument: ${args[names.length]}`);
+  }
+  return args;
+}
@@ -0,0 +1,14 @@
+import { run } from "./cli";
+
+// only run this script if it's executed directly and it's not imported as a module
+if (process.argv[1] === __filename) {
+  // results go to stdout, the services' own logging to stderr so --json output stays parseable
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+
+  run(process.argv.slice(2), {
+    out: (line) => process.stdout.write(`${line}\n`),
+    err: (line) => process.stderr.write(`${line}\n`),
+  }).then((exitCode) => process.exit(exitCode));
+}
@@ -0,0 +1,105 @@
+import { ConfigError, loadConfig } from "./config";
+
+describe("loadConfig", () => {
+  it("should default to the local profile", () => {
+    const config = loadConfig({});
+
+    expect(config).toMatchObject({
+      DB_USERS_TABLE: "Users",
+      DB_ENDPOINT: "http://localhost:18000",
+      DB_REGION: "us-east-1",
+      DEFAULT_CURRENCY: "USD",
+      HTTP_PORT: 3000,
+    });
+  });
+
+  it("should prefix the tables of the test profile", () => {
+    const config = loadConfig({ APP_PROFILE: "test" });
+
+    expect(config.DB_USERS_TABLE).toBe("test-Users");
+    expect(config.DB_WALLETS_TABLE).toBe("test-Wallets");
+  });
+
+  it("should read the prod region from AWS_REGION, without an endpoint", () => {
+    const config = loadConfig({ APP_PROFILE: "prod", AWS_REGION: "eu-west-1" });
+
+    expect(config.DB_REGION).toBe("eu-west-1");
+    expect(config.DB_ENDPOINT).toBeUndefined();
+  });
+
+  it("should use the prod profile in Lambda", () => {
+    const config = loadConfig({ AWS_LAMBDA_FUNCTION_NAME: "transact", AWS_REGION: "ap-southeast-1" });
+
+    expect(config.DB_ENDPOINT).toBeUndefined();
+  });
+
+  it("should parse environment variables over the config file over the profile", () => {
+    const readFile = jest.fn().mockReturnValue(
+      JSON.stringify({ DEFAULT_CURRENCY: "EUR", HTTP_PORT: 8080, DB_TABLE_PREFIX: "staging-" })
+    );
+
+    const config = loadConfig(
+      { APP_CONFIG_FILE: "config.json", HTTP_PORT: "9090", DEFAULT_BALANCE: "0", LOG_REDACT_AMOUNTS: "true" },
+      readFile
+    );
+
+    expect(readFile).toHaveBeenCalledWith("config.json");
+    expect(config).toMatchObject({
+      DEFAULT_CURRENCY: "EUR",
+      HTTP_PORT: 9090,
+      DEFAULT_BALANCE: 0,
+      DB_USERS_TABLE: "staging-Users",
+      LOG_REDACT_AMOUNTS: true,
+    });
+  });
+
+  it("should report every invalid setting at once", () => {
+    const error = (() => {
+      try {
+        loadConfig({
+          APP_PROFILE: "prod",
+          HTTP_PORT: "http",
+          DEFAULT_CURRENCY: "usd",
+          USER_SEED_SIZE: "26",
+          LOG_REDACT_AMOUNTS: "yes",
+        });
+      } catch (e) {
+        return e as ConfigError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error!.problems).toEqual([
+      "DB_REGION is required",
+      'DEFAULT_CURRENCY must be an ISO 4217 code like USD, got "usd"',
+      'USER_SEED_SIZE must be an integer between 1 and 25, got "26"',
+      'HTTP_PORT must be an integer between 1 and 65535, got "http"',
+      'LOG_REDACT_AMOUNTS must be true or false, got "yes"',
+    ]);
+    expect(error!.message).toMatch(/^Invalid configuration \(profile prod\):\n {2}- DB_REGION is required/);
+  });
+
+  it("should reject an unknown profile", () => {
+    expect(() => loadConfig({ APP_PROFILE: "staging" })).toThrow("APP_PROFILE must be one of local, test, prod");
+  });
+
+  it("should reject an endpoint that isn't a URL", () => {
+    expect(() => loadConfig({ DB_ENDPOINT: "localhost:18000 " })).toThrow(ConfigError);
+  });
+
+  it("should reject unknown settings in the config file", () => {
+    const readFile = () => JSON.stringify({ DB_USER_TABLE: "Users" });
+
+    expect(() => loadConfig({ APP_CONFIG_FILE: "config.json" }, readFile)).toThrow(
+      "DB_USER_TABLE in config.json is not a setting"
+    );
+  });
+
+  it("should reject a config file that can't be read", () => {
+    const readFile = () => {
+      throw new Error("ENOENT: no such file or directory");
+    };
+
+    expect(() => loadConfig({ APP_CONFIG_FILE: "missing.json" }, readFile)).toThrow(/missing.json can't be read/);
+  });
+});
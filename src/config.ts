@@ -1,9 +1,229 @@
+import { readFileSync } from "fs";
 import { TConfig } from "./types";
 
-export const Config: TConfig = {
-    DB_USERS_TABLE: 'Users',
-    DB_TRANSACTIONS_TABLE: 'Transactions',
-    DEFAULT_BALANCE: 100,
-    DEFAULT_CURRENCY: "USD",
-    USER_SEED_SIZE: 25, // max per batch in DynamoDB is 25
-};
\ No newline at end of file
+export type ConfigProfile = "local" | "test" | "prod";
+
+export const PROFILES: Record<ConfigProfile, Partial<TConfig>> = {
+  // the DynamoDB of docker-compose.yaml
+  local: {
+    DB_ENDPOINT: "http://localhost:18000",
+    DB_REGION: "us-east-1",
+    WEBHOOK_REQUIRE_HTTPS: false,
+  },
+  // same DynamoDB, but its own tables so tests don't touch the local data
+  test: {
+    DB_ENDPOINT: "http://localhost:18000",
+    DB_REGION: "us-east-1",
+    DB_TABLE_PREFIX: "test-",
+    WEBHOOK_REQUIRE_HTTPS: false,
+  },
+  // real AWS, the region must come from DB_REGION or AWS_REGION (set in Lambda)
+  prod: {},
+};
+
+// shared by every profile
+const DEFAULTS: Partial<TConfig> = {
+  DB_USERS_TABLE: "Users",
+  DB_TRANSACTIONS_TABLE: "Transactions",
+  DB_HOLDS_TABLE: "Holds",
+  DB_WALLETS_TABLE: "Wallets",
+  DB_MIGRATIONS_TABLE: "SchemaMigrations",
+  DB_JOURNAL_TABLE: "Journal",
+  DB_LIMIT_COUNTERS_TABLE: "LimitCounters",
+  DB_OUTBOX_TABLE: "Outbox",
+  DB_WEBHOOKS_TABLE: "Webhooks",
+  DEFAULT_BALANCE: 100,
+  DEFAULT_CURRENCY: "USD",
+  USER_SEED_SIZE: 25, // max per batch in DynamoDB is 25
+  HOLD_EXPIRY_SECONDS: 7 * 24 * 60 * 60, // a week, like most card authorizations
+  HTTP_PORT: 3000,
+  DEBIT_VELOCITY_WINDOW_SECONDS: 60,
+  OUTBOX_SINK: "stdout",
+  OUTBOX_MAX_ATTEMPTS: 10,
+  OUTBOX_RETENTION_SECONDS: 7 * 24 * 60 * 60,
+  LOG_FORMAT: "console",
+  LOG_LEVEL: "debug",
+  WEBHOOK_REQUIRE_HTTPS: true,
+};
+
+type Field =
+  | { type: "string"; required: boolean; pattern?: RegExp; hint?: string }
+  | { type: "url"; required: boolean }
+  | { type: "boolean"; required: boolean }
+  | { type: "integer" | "number"; required: boolean; min: number; max?: number };
+
+// how each setting is validated. The environment variables have the same names
+const FIELDS: Record<keyof TConfig, Field> = {
+  DB_USERS_TABLE: { type: "string", required: true },
+  DB_TRANSACTIONS_TABLE: { type: "string", required: true },
+  DB_HOLDS_TABLE: { type: "string", required: true },
+  DB_WALLETS_TABLE: { type: "string", required: true },
+  DB_MIGRATIONS_TABLE: { type: "string", required: true },
+  DB_JOURNAL_TABLE: { type: "string", required: true },
+  DB_LIMIT_COUNTERS_TABLE: { type: "string", required: true },
+  DB_OUTBOX_TABLE: { type: "string", required: true },
+  DB_WEBHOOKS_TABLE: { type: "string", required: true },
+  DB_TABLE_PREFIX: { type: "string", required: false },
+  DB_ENDPOINT: { type: "url", required: false },
+  DB_REGION: { type: "string", required: true, pattern: /^[a-z]{2}(-[a-z]+)+-\d+$/, hint: "an AWS region like us-east-1" },
+  DEFAULT_BALANCE: { type: "number", required: true, min: 0 },
+  DEFAULT_CURRENCY: { type: "string", required: true, pattern: /^[A-Z]{3}$/, hint: "an ISO 4217 code like USD" },
+  USER_SEED_SIZE: { type: "integer", required: true, min: 1, max: 25 },
+  HOLD_EXPIRY_SECONDS: { type: "integer", required: true, min: 1 },
+  HTTP_PORT: { type: "integer", required: true, min: 1, max: 65535 },
+  DEBIT_LIMIT_PER_TRANSACTION: { type: "number", required: false, min: 0 },
+  DEBIT_LIMIT_DAILY: { type: "number", required: false, min: 0 },
+  DEBIT_LIMIT_MONTHLY: { type: "number", required: false, min: 0 },
+  DEBIT_VELOCITY_MAX_COUNT: { type: "integer", required: false, min: 1 },
+  DEBIT_VELOCITY_WINDOW_SECONDS: { type: "integer", required: true, min: 1 },
+  OUTBOX_SINK: { type: "string", required: true, pattern: /^(stdout|file|http)$/, hint: "stdout, file or http" },
+  OUTBOX_FILE: { type: "string", required: false },
+  OUTBOX_URL: { type: "url", required: false },
+  OUTBOX_MAX_ATTEMPTS: { type: "integer", required: true, min: 1 },
+  OUTBOX_RETENTION_SECONDS: { type: "integer", required: true, min: 1 },
+  LOG_FORMAT: { type: "string", required: true, pattern: /^(console|json)$/, hint: "console or json" },
+  LOG_LEVEL: { type: "string", required: true, pattern: /^(debug|info|warn|error)$/, hint: "debug, info, warn or error" },
+  LOG_REDACT_AMOUNTS: { type: "boolean", required: false },
+  WEBHOOK_REQUIRE_HTTPS: { type: "boolean", required: true },
+  WEBHOOK_ALLOWED_HOSTS: { type: "string", required: false },
+};
+
+// the table names the prefix applies to
+const TABLE_FIELDS = [
+  "DB_USERS_TABLE",
+  "DB_TRANSACTIONS_TABLE",
+  "DB_HOLDS_TABLE",
+  "DB_WALLETS_TABLE",
+  "DB_MIGRATIONS_TABLE",
+  "DB_JOURNAL_TABLE",
+  "DB_LIMIT_COUNTERS_TABLE",
+  "DB_OUTBOX_TABLE",
+  "DB_WEBHOOKS_TABLE",
+] as const;
+
+/**
+ * Error thrown at startup when the configuration is invalid, listing every problem at once
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(profile: string, problems: string[]) {
+    super(`Invalid configuration (profile ${profile}):\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// Loads the configuration of the APP_PROFILE profile, local by default or prod in Lambda.
+// Each setting comes from, by priority: its environment variable, the JSON file at APP_CONFIG_FILE, the profile.
+// DB_TABLE_PREFIX is prepended to every table name.
+// Throws ConfigError when a setting is missing or invalid
+export function loadConfig(env: Env, readFile: (path: string) => string = (path) => readFileSync(path, "utf8")): TConfig {
+  // deployed functions are on real AWS
+  const profile = env.APP_PROFILE || (env.AWS_LAMBDA_FUNCTION_NAME ? "prod" : "local");
+  if (!isProfile(profile)) {
+    throw new ConfigError(profile, [`APP_PROFILE must be one of ${Object.keys(PROFILES).join(", ")}`]);
+  }
+
+  const file = env.APP_CONFIG_FILE ? readConfigFile(profile, env.APP_CONFIG_FILE, readFile) : {};
+  const sources: Record<string, unknown> = {
+    ...DEFAULTS,
+    // the region Lambda and the AWS CLI set, when there is no region of our own
+    ...(env.AWS_REGION && { DB_REGION: env.AWS_REGION }),
+    ...PROFILES[profile],
+    ...file,
+    ...Object.fromEntries(Object.keys(FIELDS).filter((name) => env[name] !== undefined).map((name) => [name, env[name]])),
+  };
+
+  const problems: string[] = [];
+  const config: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(FIELDS)) {
+    const result = parseField(name, field, sources[name]);
+    if ("problem" in result) {
+      problems.push(result.problem);
+    } else if (result.value !== undefined) {
+      config[name] = result.value;
+    }
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(profile, problems);
+  }
+
+  const prefix = (config.DB_TABLE_PREFIX as string | undefined) ?? "";
+  for (const name of TABLE_FIELDS) {
+    config[name] = `${prefix}${config[name]}`;
+  }
+
+  return config as TConfig;
+}
+
+function isProfile(profile: string): profile is ConfigProfile {
+  return Object.prototype.hasOwnProperty.call(PROFILES, profile);
+}
+
+function readConfigFile(profile: string, path: string, readFile: (path: string) => string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFile(path));
+  } catch (error) {
+    throw new ConfigError(profile, [`APP_CONFIG_FILE ${path} can't be read: ${(error as Error).message}`]);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError(profile, [`APP_CONFIG_FILE ${path} must contain a JSON object`]);
+  }
+
+  const unknown = Object.keys(parsed).filter((name) => !Object.prototype.hasOwnProperty.call(FIELDS, name));
+  if (unknown.length > 0) {
+    throw new ConfigError(profile, unknown.map((name) => `${name} in ${path} is not a setting`));
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// the value of a setting, or the reason it's invalid. Environment values are always strings
+function parseField(name: string, field: Field, value: unknown): { value: unknown } | { problem: string } {
+  if (value === undefined || value === "") {
+    return field.required ? { problem: `${name} is required` } : { value: undefined };
+  }
+
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string" || (field.pattern && !field.pattern.test(value))) {
+        return { problem: `${name} must be ${field.hint ?? "a string"}, got ${JSON.stringify(value)}` };
+      }
+      return { value };
+    case "url":
+      // "localhost:18000" parses with "localhost:" as its scheme
+      if (typeof value !== "string" || !URL.canParse(value) || !/^https?:$/.test(new URL(value).protocol)) {
+        return { problem: `${name} must be an http(s) URL, got ${JSON.stringify(value)}` };
+      }
+      return { value };
+    case "boolean":
+      if (value === true || value === "true") {
+        return { value: true };
+      }
+      if (value === false || value === "false") {
+        return { value: false };
+      }
+      return { problem: `${name} must be true or false, got ${JSON.stringify(value)}` };
+    case "integer":
+    case "number": {
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      const range = field.max === undefined ? `at least ${field.min}` : `between ${field.min} and ${field.max}`;
+      if (
+        typeof n !== "number" ||
+        !Number.isFinite(n) ||
+        (field.type === "integer" && !Number.isInteger(n)) ||
+        n < field.min ||
+        (field.max !== undefined && n > field.max)
+      ) {
+        return { problem: `${name} must be ${field.type === "integer" ? "an integer" : "a number"} ${range}, got ${JSON.stringify(value)}` };
+      }
+      return { value: n };
+    }
+  }
+}
+
+// the configuration of the process, validated when it starts
+export const Config: TConfig = loadConfig(process.env);
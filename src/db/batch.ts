@@ -0,0 +1,45 @@
+import { AttributeValue, BatchGetItemCommand, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { sleep as defaultSleep, Sleep } from "../transact/retry";
+
+// the most keys a BatchGetItem call can read
+export const MAX_BATCH_GET_KEYS = 100;
+
+// how many times the keys DynamoDB left unprocessed are requested again
+const MAX_UNPROCESSED_ROUNDS = 5;
+
+// Reads the items of the keys from one table, 100 keys per call, missing items are left out.
+// DynamoDB may leave keys unprocessed when throttled, those are read again with a growing delay
+export async function batchGetItems(
+  client: DynamoDBClient,
+  tableName: string,
+  keys: Record<string, AttributeValue>[],
+  options: { ProjectionExpression?: string; sleep?: Sleep } = {}
+): Promise<Record<string, AttributeValue>[]> {
+  const sleep = options.sleep ?? defaultSleep;
+  const items: Record<string, AttributeValue>[] = [];
+
+  for (let start = 0; start < keys.length; start += MAX_BATCH_GET_KEYS) {
+    let pending = keys.slice(start, start + MAX_BATCH_GET_KEYS);
+
+    for (let round = 0; pending.length > 0; round++) {
+      if (round > MAX_UNPROCESSED_ROUNDS) {
+        throw new Error(`${pending.length} keys of ${tableName} were left unprocessed after ${round} rounds`);
+      }
+      if (round > 0) {
+        await sleep(50 * 2 ** (round - 1));
+      }
+
+      const response = await client.send(
+        new BatchGetItemCommand({
+          RequestItems: {
+            [tableName]: { Keys: pending, ProjectionExpression: options.ProjectionExpression, ConsistentRead: true },
+          },
+        })
+      );
+      items.push(...(response.Responses?.[tableName] ?? []));
+      pending = response.UnprocessedKeys?.[tableName]?.Keys ?? [];
+    }
+  }
+
+  return items;
+}
@@ -1,4 +1,11 @@
 import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { TConfig } from "../types";
 
-// singleton client for local DynamoDB
-export const client = new DynamoDB({ endpoint: "http://localhost:18000", region: "us-east-1" });
+// DynamoDB's limit on the items of a TransactWriteItems call
+export const MAX_TRANSACT_ITEMS = 100;
+
+// builds the DynamoDB client of a configuration, e.g. createClient(Config).
+// Credentials come from the usual AWS sources, like the environment or a profile
+export function createClient(config: Pick<TConfig, "DB_ENDPOINT" | "DB_REGION">): DynamoDB {
+  return new DynamoDB({ endpoint: config.DB_ENDPOINT, region: config.DB_REGION });
+}
@@ -0,0 +1,738 @@
+import { AttributeValue, DynamoDBServiceException } from "@aws-sdk/client-dynamodb";
+import { addDecimals, compareDecimals } from "../money/money";
+
+// Parser and evaluator for the DynamoDB expression language, used by InMemoryDynamoDB.
+// Covers condition, filter and key condition expressions, update expressions and projections:
+// https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.html
+
+export type Item = Record<string, AttributeValue>;
+
+// the ValidationException DynamoDB answers with when a request is malformed
+export function validationError(message: string): DynamoDBServiceException {
+  return new DynamoDBServiceException({
+    name: "ValidationException",
+    $fault: "client",
+    $metadata: { httpStatusCode: 400 },
+    message,
+  });
+}
+
+type PathElement = string | number;
+
+export type Operand =
+  | { kind: "path"; path: PathElement[] }
+  | { kind: "value"; name: string }
+  | { kind: "call"; name: string; args: Operand[] }
+  | { kind: "arithmetic"; operator: "+" | "-"; left: Operand; right: Operand };
+
+export type Condition =
+  | { kind: "compare"; operator: string; left: Operand; right: Operand }
+  | { kind: "between"; operand: Operand; low: Operand; high: Operand }
+  | { kind: "in"; operand: Operand; list: Operand[] }
+  | { kind: "function"; name: string; args: Operand[] }
+  | { kind: "and" | "or"; left: Condition; right: Condition }
+  | { kind: "not"; condition: Condition };
+
+export type UpdateAction =
+  | { kind: "SET"; path: PathElement[]; value: Operand }
+  | { kind: "REMOVE"; path: PathElement[] }
+  | { kind: "ADD" | "DELETE"; path: PathElement[]; value: Operand };
+
+type Token = { type: "name" | "value" | "identifier" | "number" | "symbol"; text: string };
+
+const COMPARATORS = ["=", "<>", "<", "<=", ">", ">="];
+const CONDITION_FUNCTIONS = ["attribute_exists", "attribute_not_exists", "attribute_type", "begins_with", "contains"];
+const UPDATE_CLAUSES = ["SET", "REMOVE", "ADD", "DELETE"];
+
+// Resolves the #name and :value placeholders of one request.
+// Like DynamoDB, it rejects placeholders that are missing or that no expression used
+export class ExpressionAttributes {
+  private _names: Record<string, string>;
+  private _values: Record<string, AttributeValue>;
+  private _usedNames = new Set<string>();
+  private _usedValues = new Set<string>();
+
+  constructor(names: Record<string, string> = {}, values: Record<string, AttributeValue> = {}) {
+    this._names = names;
+    this._values = values;
+  }
+
+  name(placeholder: string): string {
+    const name = this._names[placeholder];
+    if (name === undefined) {
+      throw validationError(
+        `Value provided in ExpressionAttributeNames unused in expressions or missing: ${placeholder}`
+      );
+    }
+    this._usedNames.add(placeholder);
+    return name;
+  }
+
+  value(placeholder: string): AttributeValue {
+    const value = this._values[placeholder];
+    if (value === undefined) {
+      throw validationError(
+        `An expression attribute value used in expression is not defined; attribute value: ${placeholder}`
+      );
+    }
+    this._usedValues.add(placeholder);
+    return value;
+  }
+
+  // to be called once every expression of the request was parsed
+  assertAllUsed(): void {
+    const unusedNames = Object.keys(this._names).filter((name) => !this._usedNames.has(name));
+    if (unusedNames.length > 0) {
+      throw validationError(
+        `Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames.join(", ")}}`
+      );
+    }
+
+    const unusedValues = Object.keys(this._values).filter((value) => !this._usedValues.has(value));
+    if (unusedValues.length > 0) {
+      throw validationError(
+        `Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues.join(", ")}}`
+      );
+    }
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(#[A-Za-z0-9_]+)|(:[A-Za-z0-9_]+)|([A-Za-z_][A-Za-z0-9_]*)|(\d+)|(<>|<=|>=|[=<>(),.[\]+-]))/y;
+  let position = 0;
+
+  while (position < expression.length) {
+    if (/^\s*$/.test(expression.slice(position))) {
+      break;
+    }
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw validationError(`Invalid expression: unexpected character at ${position}: ${expression}`);
+    }
+
+    const [, name, value, identifier, number, symbol] = match;
+    if (name) tokens.push({ type: "name", text: name });
+    else if (value) tokens.push({ type: "value", text: value });
+    else if (identifier) tokens.push({ type: "identifier", text: identifier });
+    else if (number) tokens.push({ type: "number", text: number });
+    else tokens.push({ type: "symbol", text: symbol });
+
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+// recursive descent parser over the tokens of one expression
+class Parser {
+  private _tokens: Token[];
+  private _position = 0;
+  private _expression: string;
+  private _attributes: ExpressionAttributes;
+
+  constructor(expression: string, attributes: ExpressionAttributes) {
+    this._expression = expression;
+    this._tokens = tokenize(expression);
+    this._attributes = attributes;
+  }
+
+  parseCondition(): Condition {
+    const condition = this.or();
+    this.expectEnd();
+    return condition;
+  }
+
+  parseUpdate(): UpdateAction[] {
+    const actions: UpdateAction[] = [];
+    const seen = new Set<string>();
+
+    while (!this.atEnd()) {
+      const clause = this.next().text.toUpperCase();
+      if (!UPDATE_CLAUSES.includes(clause)) {
+        this.fail(`unexpected ${clause}`);
+      }
+      if (seen.has(clause)) {
+        this.fail(`the ${clause} section can only be used once`);
+      }
+      seen.add(clause);
+
+      do {
+        const path = this.path();
+        if (clause === "SET") {
+          this.expect("=");
+          actions.push({ kind: "SET", path, value: this.setValue() });
+        } else if (clause === "REMOVE") {
+          actions.push({ kind: "REMOVE", path });
+        } else {
+          actions.push({ kind: clause as "ADD" | "DELETE", path, value: this.operand() });
+        }
+      } while (this.accept(","));
+    }
+
+    if (actions.length === 0) {
+      this.fail("the update expression is empty");
+    }
+
+    return actions;
+  }
+
+  parseProjection(): PathElement[][] {
+    const paths = [this.path()];
+    while (this.accept(",")) {
+      paths.push(this.path());
+    }
+    this.expectEnd();
+    return paths;
+  }
+
+  private or(): Condition {
+    let left = this.and();
+    while (this.acceptKeyword("OR")) {
+      left = { kind: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Condition {
+    let left = this.not();
+    while (this.acceptKeyword("AND")) {
+      left = { kind: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Condition {
+    if (this.acceptKeyword("NOT")) {
+      return { kind: "not", condition: this.not() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Condition {
+    if (this.accept("(")) {
+      const condition = this.or();
+      this.expect(")");
+      return condition;
+    }
+
+    const left = this.operand();
+    const token = this.peek();
+
+    if (token?.type === "symbol" && COMPARATORS.includes(token.text)) {
+      this.next();
+      return { kind: "compare", operator: token.text, left, right: this.operand() };
+    }
+
+    if (this.acceptKeyword("BETWEEN")) {
+      const low = this.operand();
+      if (!this.acceptKeyword("AND")) {
+        this.fail("BETWEEN needs AND");
+      }
+      return { kind: "between", operand: left, low, high: this.operand() };
+    }
+
+    if (this.acceptKeyword("IN")) {
+      this.expect("(");
+      const list = [this.operand()];
+      while (this.accept(",")) {
+        list.push(this.operand());
+      }
+      this.expect(")");
+      return { kind: "in", operand: left, list };
+    }
+
+    if (left.kind === "call" && CONDITION_FUNCTIONS.includes(left.name)) {
+      return { kind: "function", name: left.name, args: left.args };
+    }
+
+    return this.fail("expected a condition");
+  }
+
+  // the right hand side of a SET action
+  private setValue(): Operand {
+    const left = this.operand();
+    const token = this.peek();
+    if (token?.type === "symbol" && (token.text === "+" || token.text === "-")) {
+      this.next();
+      return { kind: "arithmetic", operator: token.text, left, right: this.operand() };
+    }
+    return left;
+  }
+
+  private operand(): Operand {
+    const token = this.peek();
+    if (!token) {
+      return this.fail("expected an operand");
+    }
+
+    if (token.type === "value") {
+      this.next();
+      this._attributes.value(token.text);
+      return { kind: "value", name: token.text };
+    }
+
+    if (token.type === "identifier" && this._tokens[this._position + 1]?.text === "(") {
+      this.next();
+      this.next();
+      const args: Operand[] = [];
+      if (!this.accept(")")) {
+        do {
+          args.push(token.text === "if_not_exists" || token.text === "list_append" ? this.setValue() : this.operand());
+        } while (this.accept(","));
+        this.expect(")");
+      }
+      return { kind: "call", name: token.text, args };
+    }
+
+    return { kind: "path", path: this.path() };
+  }
+
+  private path(): PathElement[] {
+    const path: PathElement[] = [this.pathName()];
+
+    for (;;) {
+      if (this.accept(".")) {
+        path.push(this.pathName());
+      } else if (this.accept("[")) {
+        const index = this.next();
+        if (index?.type !== "number") {
+          this.fail("expected a list index");
+        }
+        path.push(Number(index.text));
+        this.expect("]");
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private pathName(): string {
+    const token = this.next();
+    if (token?.type === "name") {
+      return this._attributes.name(token.text);
+    }
+    if (token?.type === "identifier") {
+      return token.text;
+    }
+    return this.fail("expected an attribute name");
+  }
+
+  private peek(): Token | undefined {
+    return this._tokens[this._position];
+  }
+
+  private next(): Token {
+    const token = this._tokens[this._position++];
+    if (!token) {
+      this.fail("unexpected end of expression");
+    }
+    return token;
+  }
+
+  private atEnd(): boolean {
+    return this._position >= this._tokens.length;
+  }
+
+  private accept(symbol: string): boolean {
+    const token = this.peek();
+    if (token?.type === "symbol" && token.text === symbol) {
+      this._position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === "identifier" && token.text.toUpperCase() === keyword) {
+      this._position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(symbol: string): void {
+    if (!this.accept(symbol)) {
+      this.fail(`expected ${symbol}`);
+    }
+  }
+
+  private expectEnd(): void {
+    if (!this.atEnd()) {
+      this.fail(`unexpected ${this.peek()!.text}`);
+    }
+  }
+
+  private fail(reason: string): never {
+    throw validationError(`Invalid expression: ${reason}: ${this._expression}`);
+  }
+}
+
+export function parseCondition(expression: string, attributes: ExpressionAttributes): Condition {
+  return new Parser(expression, attributes).parseCondition();
+}
+
+export function parseUpdate(expression: string, attributes: ExpressionAttributes): UpdateAction[] {
+  return new Parser(expression, attributes).parseUpdate();
+}
+
+export function parseProjection(expression: string, attributes: ExpressionAttributes): PathElement[][] {
+  return new Parser(expression, attributes).parseProjection();
+}
+
+// the attribute at the path, undefined when any part of it is missing
+export function resolvePath(item: Item, path: PathElement[]): AttributeValue | undefined {
+  let current: AttributeValue | undefined = { M: item };
+  for (const element of path) {
+    if (typeof element === "number") {
+      current = current?.L?.[element];
+    } else {
+      current = current?.M?.[element];
+    }
+    if (current === undefined) {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+export function evaluateCondition(item: Item | undefined, condition: Condition, attributes: ExpressionAttributes): boolean {
+  const target = item ?? {};
+
+  switch (condition.kind) {
+    case "and":
+      return evaluateCondition(item, condition.left, attributes) && evaluateCondition(item, condition.right, attributes);
+    case "or":
+      return evaluateCondition(item, condition.left, attributes) || evaluateCondition(item, condition.right, attributes);
+    case "not":
+      return !evaluateCondition(item, condition.condition, attributes);
+    case "compare": {
+      const left = evaluateOperand(target, condition.left, attributes);
+      const right = evaluateOperand(target, condition.right, attributes);
+      return compare(left, condition.operator, right);
+    }
+    case "between": {
+      const value = evaluateOperand(target, condition.operand, attributes);
+      return (
+        compare(value, ">=", evaluateOperand(target, condition.low, attributes)) &&
+        compare(value, "<=", evaluateOperand(target, condition.high, attributes))
+      );
+    }
+    case "in": {
+      const value = evaluateOperand(target, condition.operand, attributes);
+      return condition.list.some((operand) => compare(value, "=", evaluateOperand(target, operand, attributes)));
+    }
+    case "function":
+      return evaluateFunction(target, condition.name, condition.args, attributes);
+  }
+}
+
+function evaluateFunction(item: Item, name: string, args: Operand[], attributes: ExpressionAttributes): boolean {
+  const [first, second] = args;
+  const path = first?.kind === "path" ? first.path : undefined;
+  if (!path) {
+    throw validationError(`Invalid expression: ${name} needs an attribute path`);
+  }
+  const value = resolvePath(item, path);
+
+  switch (name) {
+    case "attribute_exists":
+      return value !== undefined;
+    case "attribute_not_exists":
+      return value === undefined;
+    case "attribute_type":
+      return value !== undefined && typeOf(value) === evaluateOperand(item, second, attributes)?.S;
+    case "begins_with": {
+      const prefix = evaluateOperand(item, second, attributes);
+      return value?.S !== undefined && prefix?.S !== undefined && value.S.startsWith(prefix.S);
+    }
+    case "contains": {
+      const operand = evaluateOperand(item, second, attributes);
+      if (value?.S !== undefined) return operand?.S !== undefined && value.S.includes(operand.S);
+      if (value?.SS) return operand?.S !== undefined && value.SS.includes(operand.S);
+      if (value?.NS) return operand?.N !== undefined && value.NS.some((n) => compareDecimals(n, operand.N!) === 0);
+      if (value?.L) return operand !== undefined && value.L.some((element) => equals(element, operand));
+      return false;
+    }
+    default:
+      throw validationError(`Invalid expression: unknown function ${name}`);
+  }
+}
+
+export function evaluateOperand(item: Item, operand: Operand | undefined, attributes: ExpressionAttributes): AttributeValue | undefined {
+  if (!operand) {
+    return undefined;
+  }
+
+  switch (operand.kind) {
+    case "value":
+      return attributes.value(operand.name);
+    case "path":
+      return resolvePath(item, operand.path);
+    case "arithmetic": {
+      const left = evaluateOperand(item, operand.left, attributes);
+      const right = evaluateOperand(item, operand.right, attributes);
+      if (left === undefined || right === undefined) {
+        throw validationError("The provided expression refers to an attribute that does not exist in the item");
+      }
+      if (left.N === undefined || right.N === undefined) {
+        throw validationError("An operand in the update expression has an incorrect data type");
+      }
+      return { N: addDecimals(left.N, operand.operator === "+" ? right.N : negate(right.N)) };
+    }
+    case "call":
+      return evaluateCall(item, operand, attributes);
+  }
+}
+
+function evaluateCall(
+  item: Item,
+  call: { name: string; args: Operand[] },
+  attributes: ExpressionAttributes
+): AttributeValue | undefined {
+  const [first, second] = call.args;
+
+  switch (call.name) {
+    case "if_not_exists":
+      if (first?.kind !== "path") {
+        throw validationError("Invalid expression: if_not_exists needs an attribute path");
+      }
+      return resolvePath(item, first.path) ?? evaluateOperand(item, second, attributes);
+    case "list_append": {
+      const left = evaluateOperand(item, first, attributes);
+      const right = evaluateOperand(item, second, attributes);
+      if (!left?.L || !right?.L) {
+        throw validationError("An operand in the update expression has an incorrect data type");
+      }
+      return { L: [...left.L, ...right.L] };
+    }
+    case "size": {
+      const value = evaluateOperand(item, first, attributes);
+      if (value === undefined) return undefined;
+      const size =
+        value.S?.length ?? value.B?.length ?? value.SS?.length ?? value.NS?.length ?? value.BS?.length ??
+        value.L?.length ?? (value.M ? Object.keys(value.M).length : undefined);
+      return size === undefined ? undefined : { N: size.toString() };
+    }
+    default:
+      throw validationError(`Invalid expression: unknown function ${call.name}`);
+  }
+}
+
+// Applies the actions to a copy of the item. Key attributes can't be updated
+export function applyUpdate(
+  item: Item,
+  actions: UpdateAction[],
+  attributes: ExpressionAttributes,
+  keyAttributes: string[]
+): Item {
+  // every value is computed from the item as it was before the update
+  const values = actions.map((action) =>
+    action.kind === "REMOVE" ? undefined : evaluateOperand(item, action.value, attributes)
+  );
+  const updated = cloneItem(item);
+
+  actions.forEach((action, i) => {
+    if (action.path.length === 1 && keyAttributes.includes(action.path[0] as string)) {
+      throw validationError(`Cannot update attribute ${action.path[0]}. This attribute is part of the key`);
+    }
+
+    const value = values[i];
+    const current = resolvePath(updated, action.path);
+
+    switch (action.kind) {
+      case "SET":
+        if (value === undefined) {
+          throw validationError("The provided expression refers to an attribute that does not exist in the item");
+        }
+        setPath(updated, action.path, value);
+        break;
+      case "REMOVE":
+        removePath(updated, action.path);
+        break;
+      case "ADD":
+        if (value?.N !== undefined) {
+          if (current !== undefined && current.N === undefined) {
+            throw validationError("An operand in the update expression has an incorrect data type");
+          }
+          setPath(updated, action.path, { N: addDecimals(current?.N ?? "0", value.N) });
+        } else if (value?.SS || value?.NS) {
+          setPath(updated, action.path, unionSets(current, value));
+        } else {
+          throw validationError("Incorrect operand type for operator or function; operator: ADD");
+        }
+        break;
+      case "DELETE": {
+        if (!value?.SS && !value?.NS) {
+          throw validationError("Incorrect operand type for operator or function; operator: DELETE");
+        }
+        const remaining = differenceOfSets(current, value);
+        if (remaining) setPath(updated, action.path, remaining);
+        else removePath(updated, action.path);
+        break;
+      }
+    }
+  });
+
+  return updated;
+}
+
+// keeps only the projected attributes of the item
+export function project(item: Item, paths: PathElement[][]): Item {
+  const projected: Item = {};
+  for (const path of paths) {
+    const value = resolvePath(item, path);
+    if (value !== undefined) {
+      setPath(projected, path, value, true);
+    }
+  }
+  return projected;
+}
+
+function setPath(item: Item, path: PathElement[], value: AttributeValue, createParents = false): void {
+  let container: AttributeValue = { M: item };
+  for (const element of path.slice(0, -1)) {
+    let next: AttributeValue | undefined =
+      typeof element === "number" ? container.L?.[element] : container.M?.[element];
+    if (next === undefined && createParents) {
+      next = typeof element === "number" ? { L: [] } : { M: {} };
+      if (typeof element === "number") container.L![element] = next;
+      else container.M![element] = next;
+    }
+    if (next === undefined) {
+      throw validationError("The document path provided in the update expression is invalid for update");
+    }
+    container = next;
+  }
+
+  const last = path[path.length - 1];
+  if (typeof last === "number") {
+    if (!container.L) {
+      throw validationError("The document path provided in the update expression is invalid for update");
+    }
+    container.L[Math.min(last, container.L.length)] = value;
+  } else {
+    if (!container.M) {
+      throw validationError("The document path provided in the update expression is invalid for update");
+    }
+    container.M[last] = value;
+  }
+}
+
+function removePath(item: Item, path: PathElement[]): void {
+  const parent = path.length === 1 ? { M: item } : resolvePath(item, path.slice(0, -1));
+  const last = path[path.length - 1];
+  if (typeof last === "number") {
+    parent?.L?.splice(last, 1);
+  } else if (parent?.M) {
+    delete parent.M[last];
+  }
+}
+
+function unionSets(current: AttributeValue | undefined, value: AttributeValue): AttributeValue {
+  if (value.SS) {
+    return { SS: [...new Set([...(current?.SS ?? []), ...value.SS])] };
+  }
+  const numbers = [...(current?.NS ?? [])];
+  for (const n of value.NS!) {
+    if (!numbers.some((existing) => compareDecimals(existing, n) === 0)) numbers.push(n);
+  }
+  return { NS: numbers };
+}
+
+function differenceOfSets(current: AttributeValue | undefined, value: AttributeValue): AttributeValue | undefined {
+  if (value.SS) {
+    const remaining = (current?.SS ?? []).filter((s) => !value.SS!.includes(s));
+    return remaining.length > 0 ? { SS: remaining } : undefined;
+  }
+  const remaining = (current?.NS ?? []).filter((n) => !value.NS!.some((removed) => compareDecimals(n, removed) === 0));
+  return remaining.length > 0 ? { NS: remaining } : undefined;
+}
+
+// Comparisons only hold between values of the same type, a missing attribute is only "<>" to anything
+export function compare(left: AttributeValue | undefined, operator: string, right: AttributeValue | undefined): boolean {
+  if (left === undefined || right === undefined) {
+    return operator === "<>";
+  }
+
+  if (operator === "=") return equals(left, right);
+  if (operator === "<>") return !equals(left, right);
+
+  const order = orderOf(left, right);
+  if (order === undefined) return false;
+
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    default:
+      throw validationError(`Invalid expression: unknown comparator ${operator}`);
+  }
+}
+
+// ordering of two scalars of the same type, undefined when they can't be ordered
+export function orderOf(left: AttributeValue, right: AttributeValue): number | undefined {
+  if (left.N !== undefined && right.N !== undefined) {
+    return compareDecimals(left.N, right.N);
+  }
+  if (left.S !== undefined && right.S !== undefined) {
+    return left.S < right.S ? -1 : left.S > right.S ? 1 : 0;
+  }
+  if (left.B !== undefined && right.B !== undefined) {
+    return Buffer.compare(Buffer.from(left.B), Buffer.from(right.B));
+  }
+  return undefined;
+}
+
+export function equals(left: AttributeValue, right: AttributeValue): boolean {
+  return JSON.stringify(canonical(left)) === JSON.stringify(canonical(right));
+}
+
+// a representation where equal values are identical, numbers by value and sets unordered
+function canonical(value: AttributeValue): unknown {
+  if (value.N !== undefined) return { N: addDecimals(value.N, "0") };
+  if (value.NS) return { NS: value.NS.map((n) => addDecimals(n, "0")).sort() };
+  if (value.SS) return { SS: [...value.SS].sort() };
+  if (value.B !== undefined) return { B: Buffer.from(value.B).toString("base64") };
+  if (value.BS) return { BS: value.BS.map((b) => Buffer.from(b).toString("base64")).sort() };
+  if (value.L) return { L: value.L.map(canonical) };
+  if (value.M) {
+    return {
+      M: Object.keys(value.M)
+        .sort()
+        .map((key) => [key, canonical(value.M![key])]),
+    };
+  }
+  return value;
+}
+
+export function typeOf(value: AttributeValue): string {
+  return Object.keys(value).find((key) => (value as unknown as Record<string, unknown>)[key] !== undefined) ?? "";
+}
+
+// a deep copy, so stored items can't be changed through the responses
+export function cloneItem(item: Item): Item {
+  return Object.fromEntries(Object.entries(item).map(([key, value]) => [key, cloneValue(value)]));
+}
+
+function cloneValue(value: AttributeValue): AttributeValue {
+  if (value.M) return { M: cloneItem(value.M) };
+  if (value.L) return { L: value.L.map(cloneValue) };
+  if (value.SS) return { SS: [...value.SS] };
+  if (value.NS) return { NS: [...value.NS] };
+  if (value.BS) return { BS: value.BS.map((b) => new Uint8Array(b)) };
+  if (value.B !== undefined) return { B: new Uint8Array(value.B) };
+  return { ...value } as AttributeValue;
+}
+
+function negate(n: string): string {
+  return n.startsWith("-") ? n.slice(1) : `-${n}`;
+}
@@ -0,0 +1,294 @@
+import {
+  ConditionalCheckFailedException,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  ResourceInUseException,
+  ResourceNotFoundException,
+  TransactionCanceledException,
+  TransactWriteItemsCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "./memory";
+
+describe("InMemoryDynamoDB", () => {
+  let db: InMemoryDynamoDB;
+
+  beforeEach(async () => {
+    db = new InMemoryDynamoDB();
+    await db.createTable({
+      TableName: "users",
+      AttributeDefinitions: [{ AttributeName: "userId", AttributeType: "S" }],
+      KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+    });
+    await db.createTable({
+      TableName: "transactions",
+      AttributeDefinitions: [
+        { AttributeName: "id", AttributeType: "S" },
+        { AttributeName: "userId", AttributeType: "S" },
+        { AttributeName: "timestamp", AttributeType: "N" },
+      ],
+      KeySchema: [{ AttributeName: "id", KeyType: "HASH" }],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: "userIdIndex",
+          KeySchema: [
+            { AttributeName: "userId", KeyType: "HASH" },
+            { AttributeName: "timestamp", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+      ],
+    });
+  });
+
+  describe("tables", () => {
+    it("should list the created tables", async () => {
+      const result = await db.listTables({});
+
+      expect(result.TableNames).toEqual(["transactions", "users"]);
+    });
+
+    it("should throw ResourceInUseException when the table exists", async () => {
+      await expect(
+        db.createTable({
+          TableName: "users",
+          AttributeDefinitions: [{ AttributeName: "userId", AttributeType: "S" }],
+          KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+        })
+      ).rejects.toThrow(ResourceInUseException);
+    });
+
+    it("should add an index to an existing table, one at a time", async () => {
+      const index = (name: string) => ({
+        Create: {
+          IndexName: name,
+          KeySchema: [{ AttributeName: "userId", KeyType: "HASH" as const }],
+          Projection: { ProjectionType: "ALL" as const },
+        },
+      });
+
+      await expect(
+        db.updateTable({ TableName: "users", GlobalSecondaryIndexUpdates: [index("a"), index("b")] })
+      ).rejects.toMatchObject({ name: "ValidationException" });
+      const { TableDescription } = await db.updateTable({ TableName: "users", GlobalSecondaryIndexUpdates: [index("a")] });
+
+      expect(TableDescription?.GlobalSecondaryIndexes).toEqual([
+        expect.objectContaining({ IndexName: "a", IndexStatus: "ACTIVE" }),
+      ]);
+    });
+
+    it("should throw ResourceNotFoundException for a missing table", async () => {
+      await expect(
+        db.send(new GetItemCommand({ TableName: "missing", Key: { userId: { S: "1" } } }))
+      ).rejects.toThrow(ResourceNotFoundException);
+    });
+  });
+
+  describe("items", () => {
+    it("should put and get an item, storing numbers as DynamoDB returns them", async () => {
+      await db.send(new PutItemCommand({ TableName: "users", Item: { userId: { S: "1" }, balance: { N: "010.50" } } }));
+
+      const result = await db.send(new GetItemCommand({ TableName: "users", Key: { userId: { S: "1" } } }));
+
+      expect(result.Item).toEqual({ userId: { S: "1" }, balance: { N: "10.5" } });
+    });
+
+    it("should reject a key that doesn't match the schema", async () => {
+      await expect(
+        db.send(new GetItemCommand({ TableName: "users", Key: { id: { S: "1" } } }))
+      ).rejects.toMatchObject({ name: "ValidationException" });
+    });
+
+    it("should apply an update expression and return the new values", async () => {
+      await db.send(new PutItemCommand({ TableName: "users", Item: { userId: { S: "1" }, balance: { N: "100" } } }));
+
+      const result = await db.send(
+        new UpdateItemCommand({
+          TableName: "users",
+          Key: { userId: { S: "1" } },
+          UpdateExpression: "SET #balance = if_not_exists(#balance, :zero) - :amount",
+          ConditionExpression: "#balance >= :amount",
+          ExpressionAttributeNames: { "#balance": "balance" },
+          ExpressionAttributeValues: { ":amount": { N: "30.25" }, ":zero": { N: "0" } },
+          ReturnValues: "ALL_NEW",
+        })
+      );
+
+      expect(result.Attributes).toEqual({ userId: { S: "1" }, balance: { N: "69.75" } });
+    });
+
+    it("should throw ConditionalCheckFailedException with the old item when asked", async () => {
+      await db.send(new PutItemCommand({ TableName: "users", Item: { userId: { S: "1" }, balance: { N: "10" } } }));
+
+      const error = await db
+        .send(
+          new UpdateItemCommand({
+            TableName: "users",
+            Key: { userId: { S: "1" } },
+            UpdateExpression: "SET #balance = #balance - :amount",
+            ConditionExpression: "#balance >= :amount",
+            ExpressionAttributeNames: { "#balance": "balance" },
+            ExpressionAttributeValues: { ":amount": { N: "20" } },
+            ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+          })
+        )
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConditionalCheckFailedException);
+      expect(error.Item).toEqual({ userId: { S: "1" }, balance: { N: "10" } });
+    });
+
+    it("should reject unused expression attribute values", async () => {
+      await expect(
+        db.send(
+          new PutItemCommand({
+            TableName: "users",
+            Item: { userId: { S: "1" } },
+            ConditionExpression: "attribute_not_exists(userId)",
+            ExpressionAttributeValues: { ":unused": { N: "1" } },
+          })
+        )
+      ).rejects.toMatchObject({ name: "ValidationException" });
+    });
+  });
+
+  describe("transactWriteItems", () => {
+    it("should apply nothing when a condition fails, with a reason for every item", async () => {
+      await db.send(new PutItemCommand({ TableName: "users", Item: { userId: { S: "1" }, balance: { N: "10" } } }));
+
+      const error = await db
+        .send(
+          new TransactWriteItemsCommand({
+            TransactItems: [
+              {
+                Put: {
+                  TableName: "transactions",
+                  Item: { id: { S: "t1" }, userId: { S: "1" }, timestamp: { N: "1" } },
+                  ConditionExpression: "attribute_not_exists(id)",
+                },
+              },
+              {
+                Update: {
+                  TableName: "users",
+                  Key: { userId: { S: "1" } },
+                  UpdateExpression: "SET balance = balance - :amount",
+                  ConditionExpression: "balance >= :amount",
+                  ExpressionAttributeValues: { ":amount": { N: "20" } },
+                  ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+                },
+              },
+            ],
+          })
+        )
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TransactionCanceledException);
+      expect(error.CancellationReasons).toEqual([
+        { Code: "None" },
+        expect.objectContaining({ Code: "ConditionalCheckFailed", Item: { userId: { S: "1" }, balance: { N: "10" } } }),
+      ]);
+      expect(db.dump("transactions")).toEqual([]);
+    });
+
+    it("should reject two operations on the same item", async () => {
+      const update = {
+        TableName: "users",
+        Key: { userId: { S: "1" } },
+        UpdateExpression: "SET balance = :one",
+        ExpressionAttributeValues: { ":one": { N: "1" } },
+      };
+
+      await expect(
+        db.send(new TransactWriteItemsCommand({ TransactItems: [{ Update: update }, { Update: update }] }))
+      ).rejects.toMatchObject({ name: "ValidationException" });
+    });
+  });
+
+  describe("batchWriteItem", () => {
+    it("should reject more than 25 requests", async () => {
+      const requests = Array.from({ length: 26 }).map((_, i) => ({
+        PutRequest: { Item: { userId: { S: `${i}` } } },
+      }));
+
+      await expect(db.batchWriteItem({ RequestItems: { users: requests } })).rejects.toMatchObject({
+        name: "ValidationException",
+      });
+    });
+  });
+
+  describe("batchGetItem", () => {
+    it("should return the items that exist, and reject more than 100 keys", async () => {
+      await db.send(new PutItemCommand({ TableName: "users", Item: { userId: { S: "1" }, balance: { N: "5" } } }));
+
+      const { Responses } = await db.batchGetItem({
+        RequestItems: { users: { Keys: [{ userId: { S: "1" } }, { userId: { S: "2" } }], ProjectionExpression: "userId" } },
+      });
+      expect(Responses).toEqual({ users: [{ userId: { S: "1" } }] });
+
+      const keys = Array.from({ length: 101 }).map((_, i) => ({ userId: { S: `${i}` } }));
+      await expect(db.batchGetItem({ RequestItems: { users: { Keys: keys } } })).rejects.toMatchObject({
+        name: "ValidationException",
+      });
+    });
+  });
+
+  describe("query", () => {
+    beforeEach(async () => {
+      for (const [id, userId, timestamp] of [["a", "1", "3"], ["b", "1", "1"], ["c", "2", "2"], ["d", "1", "2"]]) {
+        await db.send(
+          new PutItemCommand({
+            TableName: "transactions",
+            Item: { id: { S: id }, userId: { S: userId }, timestamp: { N: timestamp } },
+          })
+        );
+      }
+    });
+
+    it("should query an index in range key order, newest first when asked", async () => {
+      const result = await db.send(
+        new QueryCommand({
+          TableName: "transactions",
+          IndexName: "userIdIndex",
+          KeyConditionExpression: "userId = :userId",
+          ExpressionAttributeValues: { ":userId": { S: "1" } },
+          ScanIndexForward: false,
+        })
+      );
+
+      expect(result.Items.map((item: any) => item.id.S)).toEqual(["a", "d", "b"]);
+    });
+
+    it("should page with Limit and ExclusiveStartKey", async () => {
+      const query = {
+        TableName: "transactions",
+        IndexName: "userIdIndex",
+        KeyConditionExpression: "userId = :userId",
+        ExpressionAttributeValues: { ":userId": { S: "1" } },
+        Limit: 2,
+      };
+
+      const first = await db.send(new QueryCommand(query));
+      const second = await db.send(new QueryCommand({ ...query, ExclusiveStartKey: first.LastEvaluatedKey }));
+
+      expect(first.Items.map((item: any) => item.id.S)).toEqual(["b", "d"]);
+      expect(first.LastEvaluatedKey).toEqual({ id: { S: "d" }, userId: { S: "1" }, timestamp: { N: "2" } });
+      expect(second.Items.map((item: any) => item.id.S)).toEqual(["a"]);
+      expect(second.LastEvaluatedKey).toBeUndefined();
+    });
+
+    it("should require an equality on the hash key", async () => {
+      await expect(
+        db.send(
+          new QueryCommand({
+            TableName: "transactions",
+            IndexName: "userIdIndex",
+            KeyConditionExpression: "#timestamp > :from",
+            ExpressionAttributeNames: { "#timestamp": "timestamp" },
+            ExpressionAttributeValues: { ":from": { N: "1" } },
+          })
+        )
+      ).rejects.toMatchObject({ name: "ValidationException" });
+    });
+  });
+});
@@ -0,0 +1,888 @@
+import {
+  AttributeDefinition,
+  AttributeValue,
+  BatchGetItemCommand,
+  BatchGetItemCommandInput,
+  BatchWriteItemCommand,
+  BatchWriteItemCommandInput,
+  CancellationReason,
+  ConditionalCheckFailedException,
+  ConsumedCapacity,
+  CreateTableCommand,
+  CreateTableCommandInput,
+  DeleteItemCommand,
+  DeleteItemCommandInput,
+  DeleteTableCommand,
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  DynamoDB,
+  GetItemCommand,
+  GetItemCommandInput,
+  GlobalSecondaryIndexDescription,
+  KeySchemaElement,
+  ListTablesCommand,
+  ListTablesCommandInput,
+  PutItemCommand,
+  PutItemCommandInput,
+  QueryCommand,
+  QueryCommandInput,
+  ResourceInUseException,
+  ResourceNotFoundException,
+  ReturnValue,
+  ScanCommand,
+  ScanCommandInput,
+  ServiceOutputTypes,
+  TableDescription,
+  TransactionCanceledException,
+  TransactWriteItem,
+  TransactWriteItemsCommand,
+  TransactWriteItemsCommandInput,
+  TimeToLiveSpecification,
+  UpdateItemCommand,
+  UpdateItemCommandInput,
+  UpdateTableCommand,
+  UpdateTableCommandInput,
+  UpdateTimeToLiveCommand,
+  UpdateTimeToLiveCommandInput,
+} from "@aws-sdk/client-dynamodb";
+import {
+  applyUpdate,
+  cloneItem,
+  Condition,
+  evaluateCondition,
+  ExpressionAttributes,
+  Item,
+  orderOf,
+  parseCondition,
+  parseProjection,
+  parseUpdate,
+  project,
+  validationError,
+} from "./expression";
+import { addDecimals } from "../money/money";
+import { MAX_TRANSACT_ITEMS } from "./client";
+
+type Table = {
+  description: TableDescription;
+  items: Map<string, Item>;
+  // recorded only, expired items are not deleted
+  timeToLive?: TimeToLiveSpecification;
+};
+
+// a write to a single item, prepared so its condition can be checked before anything is applied
+type PreparedWrite = {
+  table: Table;
+  key: Item;
+  condition?: Condition;
+  attributes: ExpressionAttributes;
+  // the item after the write, undefined when it's deleted
+  apply: (current: Item | undefined) => Item | undefined;
+  returnOldOnConditionFailure: boolean;
+};
+
+// the same limits as DynamoDB, see also MAX_TRANSACT_ITEMS
+const MAX_BATCH_WRITE_ITEMS = 25;
+const MAX_BATCH_GET_KEYS = 100;
+
+const metadata = () => ({ httpStatusCode: 200 });
+
+// The write capacity units per table, one per item written like items of up to 1 KB.
+// Only returned when the command asks for TOTAL, reads don't report any
+function consumedCapacity(
+  input: { ReturnConsumedCapacity?: string },
+  units: [tableName: string, capacityUnits: number][]
+): ConsumedCapacity[] | undefined {
+  if (input.ReturnConsumedCapacity !== "TOTAL") {
+    return undefined;
+  }
+  return units.map(([tableName, capacityUnits]) => ({ TableName: tableName, CapacityUnits: capacityUnits }));
+}
+
+// In-process stand-in for DynamoDB, for tests that need conditions, transactions and indexes
+// to behave like the real thing without running DynamoDB Local.
+// It's a DynamoDB client, so it can be passed anywhere one is expected.
+// Only the commands this project uses are supported, any other one throws
+export class InMemoryDynamoDB extends DynamoDB {
+  private _tables = new Map<string, Table>();
+
+  constructor() {
+    // never sends a request, the region and credentials only satisfy the client's configuration
+    super({ region: "local", credentials: { accessKeyId: "local", secretAccessKey: "local" } });
+  }
+
+  // every operation of the client ends up here, the aggregated methods like batchWriteItem send a command too
+  override async send(command: unknown, ...rest: unknown[]): Promise<ServiceOutputTypes | void> {
+    const callback = rest.find((arg) => typeof arg === "function");
+
+    try {
+      const output = this.execute(command);
+      if (callback) {
+        callback(undefined, output);
+        return;
+      }
+      return output;
+    } catch (error) {
+      if (callback) {
+        callback(error);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // a copy of every item of the table, for assertions
+  dump(tableName: string): Item[] {
+    return [...this.getTable(tableName).items.values()].map(cloneItem);
+  }
+
+  private execute(command: unknown) {
+    if (command instanceof GetItemCommand) return this.get(command.input);
+    if (command instanceof PutItemCommand) return this.put(command.input);
+    if (command instanceof UpdateItemCommand) return this.update(command.input);
+    if (command instanceof DeleteItemCommand) return this.remove(command.input);
+    if (command instanceof TransactWriteItemsCommand) return this.transactWrite(command.input);
+    if (command instanceof BatchWriteItemCommand) return this.batchWrite(command.input);
+    if (command instanceof BatchGetItemCommand) return this.batchGet(command.input);
+    if (command instanceof QueryCommand) return this.queryItems(command.input);
+    if (command instanceof ScanCommand) return this.scanItems(command.input);
+    if (command instanceof CreateTableCommand) return this.create(command.input);
+    if (command instanceof ListTablesCommand) return this.list(command.input);
+    if (command instanceof DescribeTableCommand) return this.describe(command.input.TableName);
+    if (command instanceof DeleteTableCommand) return this.drop(command.input.TableName);
+    if (command instanceof UpdateTableCommand) return this.alter(command.input);
+    if (command instanceof UpdateTimeToLiveCommand) return this.setTimeToLive(command.input);
+    if (command instanceof DescribeTimeToLiveCommand) return this.timeToLiveOf(command.input.TableName);
+
+    const name = command && typeof command === "object" ? command.constructor.name : typeof command;
+    throw new Error(`InMemoryDynamoDB does not support ${name}`);
+  }
+
+  private get(input: GetItemCommandInput) {
+    const table = this.getTable(input.TableName);
+    const attributes = new ExpressionAttributes(input.ExpressionAttributeNames);
+    const projection = input.ProjectionExpression && parseProjection(input.ProjectionExpression, attributes);
+    attributes.assertAllUsed();
+
+    const item = table.items.get(this.keyOf(table, this.validateKey(table, input.Key)));
+    return {
+      Item: item && (projection ? project(item, projection) : cloneItem(item)),
+      $metadata: metadata(),
+    };
+  }
+
+  private put(input: PutItemCommandInput) {
+    const write = this.preparePut(input);
+    const old = this.applyWrite(write);
+    return {
+      Attributes: input.ReturnValues === "ALL_OLD" ? old : undefined,
+      ConsumedCapacity: consumedCapacity(input, [[write.table.description.TableName!, 1]])?.[0],
+      $metadata: metadata(),
+    };
+  }
+
+  private update(input: UpdateItemCommandInput) {
+    const write = this.prepareUpdate(input);
+    const old = this.applyWrite(write);
+    const updated = write.table.items.get(this.keyOf(write.table, write.key))!;
+    return {
+      Attributes: returnedAttributes(input, old, cloneItem(updated)),
+      ConsumedCapacity: consumedCapacity(input, [[write.table.description.TableName!, 1]])?.[0],
+      $metadata: metadata(),
+    };
+  }
+
+  private remove(input: DeleteItemCommandInput) {
+    const write = this.prepareDelete(input);
+    const old = this.applyWrite(write);
+    return {
+      Attributes: input.ReturnValues === "ALL_OLD" ? old : undefined,
+      ConsumedCapacity: consumedCapacity(input, [[write.table.description.TableName!, 1]])?.[0],
+      $metadata: metadata(),
+    };
+  }
+
+  // All or nothing: every condition is checked against the current items before any write is applied
+  private transactWrite(input: TransactWriteItemsCommandInput) {
+    const transactItems = input.TransactItems ?? [];
+    if (transactItems.length === 0 || transactItems.length > MAX_TRANSACT_ITEMS) {
+      throw validationError(
+        `Member must have length less than or equal to ${MAX_TRANSACT_ITEMS} and greater than or equal to 1`
+      );
+    }
+
+    const writes = transactItems.map((transactItem) => this.prepareTransactItem(transactItem));
+
+    const targets = new Set<string>();
+    for (const write of writes) {
+      const target = `${write.table.description.TableName}/${this.keyOf(write.table, write.key)}`;
+      if (targets.has(target)) {
+        throw validationError("Transaction request cannot include multiple operations on one item");
+      }
+      targets.add(target);
+    }
+
+    const results = writes.map((write): { reason: CancellationReason; next?: Item } => {
+      const current = write.table.items.get(this.keyOf(write.table, write.key));
+      if (write.condition && !evaluateCondition(current, write.condition, write.attributes)) {
+        return {
+          reason: {
+            Code: "ConditionalCheckFailed",
+            Message: "The conditional request failed",
+            Item: write.returnOldOnConditionFailure && current ? cloneItem(current) : undefined,
+          },
+        };
+      }
+
+      try {
+        return { reason: { Code: "None" }, next: write.apply(current) };
+      } catch (error) {
+        return { reason: { Code: "ValidationError", Message: (error as Error).message } };
+      }
+    });
+
+    if (results.some((result) => result.reason.Code !== "None")) {
+      const codes = results.map((result) => result.reason.Code).join(", ");
+      throw new TransactionCanceledException({
+        message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${codes}]`,
+        $metadata: { httpStatusCode: 400 },
+        CancellationReasons: results.map((result) => result.reason),
+      });
+    }
+
+    writes.forEach((write, i) => this.store(write.table, write.key, results[i].next));
+
+    // a transactional write costs twice a standard one
+    const units = new Map<string, number>();
+    for (const write of writes) {
+      const tableName = write.table.description.TableName!;
+      units.set(tableName, (units.get(tableName) ?? 0) + 2);
+    }
+    return { ConsumedCapacity: consumedCapacity(input, [...units.entries()]), $metadata: metadata() };
+  }
+
+  // every key is read, nothing is left unprocessed
+  private batchGet(input: BatchGetItemCommandInput) {
+    const requests = Object.entries(input.RequestItems ?? {});
+    const total = requests.reduce((sum, [, request]) => sum + (request.Keys?.length ?? 0), 0);
+    if (total === 0 || total > MAX_BATCH_GET_KEYS) {
+      throw validationError(`Too many items requested for the BatchGetItem call, the limit is ${MAX_BATCH_GET_KEYS}`);
+    }
+
+    const responses: Record<string, Item[]> = {};
+    for (const [tableName, request] of requests) {
+      responses[tableName] = (request.Keys ?? [])
+        .map((key) =>
+          this.get({
+            TableName: tableName,
+            Key: key,
+            ProjectionExpression: request.ProjectionExpression,
+            ExpressionAttributeNames: request.ExpressionAttributeNames,
+          }).Item
+        )
+        .filter((item): item is Item => !!item);
+    }
+
+    return { Responses: responses, UnprocessedKeys: {}, $metadata: metadata() };
+  }
+
+  private batchWrite(input: BatchWriteItemCommandInput) {
+    const requests = Object.entries(input.RequestItems ?? {});
+    const total = requests.reduce((sum, [, tableRequests]) => sum + tableRequests.length, 0);
+    if (total === 0 || total > MAX_BATCH_WRITE_ITEMS) {
+      throw validationError(
+        `Too many items requested for the BatchWriteItem call, the limit is ${MAX_BATCH_WRITE_ITEMS}`
+      );
+    }
+
+    // checks every request before writing any of them
+    const writes = requests.flatMap(([tableName, tableRequests]) =>
+      tableRequests.map((request) => {
+        if (request.PutRequest) {
+          return this.preparePut({ TableName: tableName, Item: request.PutRequest.Item });
+        }
+        return this.prepareDelete({ TableName: tableName, Key: request.DeleteRequest?.Key });
+      })
+    );
+    writes.forEach((write) => this.applyWrite(write));
+
+    return {
+      UnprocessedItems: {},
+      ConsumedCapacity: consumedCapacity(
+        input,
+        requests.map(([tableName, tableRequests]) => [tableName, tableRequests.length])
+      ),
+      $metadata: metadata(),
+    };
+  }
+
+  private queryItems(input: QueryCommandInput) {
+    const table = this.getTable(input.TableName);
+    const keySchema = this.keySchemaOf(table, input.IndexName);
+    const attributes = new ExpressionAttributes(input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+
+    if (!input.KeyConditionExpression) {
+      throw validationError("Either the KeyConditions or KeyConditionExpression parameter must be specified");
+    }
+    const keyCondition = parseCondition(input.KeyConditionExpression, attributes);
+    assertKeyCondition(keyCondition, keySchema);
+    const filter = input.FilterExpression && parseCondition(input.FilterExpression, attributes);
+    const projection = input.ProjectionExpression && parseProjection(input.ProjectionExpression, attributes);
+    attributes.assertAllUsed();
+
+    const matching = this.indexItems(table, input.IndexName)
+      .filter((item) => evaluateCondition(item, keyCondition, attributes))
+      .sort((a, b) => this.compareItems(table, keySchema, a, b));
+    if (input.ScanIndexForward === false) {
+      matching.reverse();
+    }
+
+    return this.page(table, keySchema, matching, input, filter || undefined, projection || undefined, attributes);
+  }
+
+  private scanItems(input: ScanCommandInput) {
+    const table = this.getTable(input.TableName);
+    const keySchema = this.keySchemaOf(table, input.IndexName);
+    const attributes = new ExpressionAttributes(input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+    const filter = input.FilterExpression && parseCondition(input.FilterExpression, attributes);
+    const projection = input.ProjectionExpression && parseProjection(input.ProjectionExpression, attributes);
+    attributes.assertAllUsed();
+
+    const items = this.indexItems(table, input.IndexName).sort((a, b) => this.compareItems(table, keySchema, a, b));
+
+    return this.page(table, keySchema, items, input, filter || undefined, projection || undefined, attributes);
+  }
+
+  private create(input: CreateTableCommandInput) {
+    if (!input.TableName || !input.KeySchema || !input.AttributeDefinitions) {
+      throw validationError("TableName, KeySchema and AttributeDefinitions are required");
+    }
+    if (this._tables.has(input.TableName)) {
+      throw new ResourceInUseException({
+        message: `Table already exists: ${input.TableName}`,
+        $metadata: { httpStatusCode: 400 },
+      });
+    }
+
+    const indexes = input.GlobalSecondaryIndexes ?? [];
+    for (const keySchema of [input.KeySchema, ...indexes.map((index) => index.KeySchema ?? [])]) {
+      assertKeySchema(keySchema, input.AttributeDefinitions);
+    }
+
+    const description: TableDescription = {
+      TableName: input.TableName,
+      TableStatus: "ACTIVE",
+      CreationDateTime: new Date(),
+      KeySchema: input.KeySchema,
+      AttributeDefinitions: input.AttributeDefinitions,
+      GlobalSecondaryIndexes: input.GlobalSecondaryIndexes?.map(
+        (index): GlobalSecondaryIndexDescription => ({
+          IndexName: index.IndexName,
+          KeySchema: index.KeySchema,
+          Projection: index.Projection,
+          IndexStatus: "ACTIVE",
+          ProvisionedThroughput: index.ProvisionedThroughput,
+        })
+      ),
+      BillingModeSummary: { BillingMode: input.BillingMode ?? "PROVISIONED" },
+      ProvisionedThroughput: input.ProvisionedThroughput,
+      ItemCount: 0,
+    };
+    this._tables.set(input.TableName, { description, items: new Map() });
+
+    return { TableDescription: description, $metadata: metadata() };
+  }
+
+  private list(input: ListTablesCommandInput) {
+    const names = [...this._tables.keys()]
+      .sort()
+      .filter((name) => !input.ExclusiveStartTableName || name > input.ExclusiveStartTableName);
+    const page = input.Limit ? names.slice(0, input.Limit) : names;
+
+    return {
+      TableNames: page,
+      LastEvaluatedTableName: page.length < names.length ? page[page.length - 1] : undefined,
+      $metadata: metadata(),
+    };
+  }
+
+  private describe(tableName: string | undefined) {
+    const table = this.getTable(tableName);
+    return {
+      Table: { ...table.description, ItemCount: table.items.size },
+      $metadata: metadata(),
+    };
+  }
+
+  // like DynamoDB, an update creates or deletes at most one index, and the table stays usable
+  private alter(input: UpdateTableCommandInput) {
+    const table = this.getTable(input.TableName);
+    const description = table.description;
+    const attributeDefinitions = [...(description.AttributeDefinitions ?? [])];
+    for (const definition of input.AttributeDefinitions ?? []) {
+      const i = attributeDefinitions.findIndex((existing) => existing.AttributeName === definition.AttributeName);
+      if (i === -1) {
+        attributeDefinitions.push(definition);
+      } else {
+        attributeDefinitions[i] = definition;
+      }
+    }
+
+    const indexUpdates = input.GlobalSecondaryIndexUpdates ?? [];
+    if (indexUpdates.filter((update) => update.Create || update.Delete).length > 1) {
+      throw validationError("Only 1 online index can be created or deleted simultaneously per table");
+    }
+
+    let indexes = [...(description.GlobalSecondaryIndexes ?? [])];
+    for (const update of indexUpdates) {
+      if (update.Create) {
+        if (indexes.some((index) => index.IndexName === update.Create!.IndexName)) {
+          throw validationError(`Attempting to create an index which already exists: ${update.Create.IndexName}`);
+        }
+        assertKeySchema(update.Create.KeySchema ?? [], attributeDefinitions);
+        indexes.push({
+          IndexName: update.Create.IndexName,
+          KeySchema: update.Create.KeySchema,
+          Projection: update.Create.Projection,
+          IndexStatus: "ACTIVE",
+          ProvisionedThroughput: update.Create.ProvisionedThroughput,
+        });
+      } else if (update.Delete) {
+        if (!indexes.some((index) => index.IndexName === update.Delete!.IndexName)) {
+          throw validationError(`Requested resource not found: Index ${update.Delete.IndexName}`);
+        }
+        indexes = indexes.filter((index) => index.IndexName !== update.Delete!.IndexName);
+      } else if (update.Update) {
+        const index = indexes.find((existing) => existing.IndexName === update.Update!.IndexName);
+        if (!index) {
+          throw validationError(`Requested resource not found: Index ${update.Update.IndexName}`);
+        }
+        index.ProvisionedThroughput = update.Update.ProvisionedThroughput;
+      }
+    }
+
+    table.description = {
+      ...description,
+      AttributeDefinitions: attributeDefinitions,
+      GlobalSecondaryIndexes: indexes.length > 0 ? indexes : undefined,
+      BillingModeSummary: input.BillingMode ? { BillingMode: input.BillingMode } : description.BillingModeSummary,
+      ProvisionedThroughput:
+        input.BillingMode === "PAY_PER_REQUEST" ? undefined : input.ProvisionedThroughput ?? description.ProvisionedThroughput,
+    };
+
+    return { TableDescription: table.description, $metadata: metadata() };
+  }
+
+  private setTimeToLive(input: UpdateTimeToLiveCommandInput) {
+    const table = this.getTable(input.TableName);
+    const specification = input.TimeToLiveSpecification;
+    if (!specification?.AttributeName) {
+      throw validationError("TimeToLiveSpecification is required");
+    }
+    if (!!table.timeToLive?.Enabled === !!specification.Enabled) {
+      throw validationError(`TimeToLive is already ${specification.Enabled ? "enabled" : "disabled"}`);
+    }
+
+    table.timeToLive = specification;
+    return { TimeToLiveSpecification: specification, $metadata: metadata() };
+  }
+
+  private timeToLiveOf(tableName: string | undefined) {
+    const table = this.getTable(tableName);
+    return {
+      TimeToLiveDescription: table.timeToLive?.Enabled
+        ? { TimeToLiveStatus: "ENABLED", AttributeName: table.timeToLive.AttributeName }
+        : { TimeToLiveStatus: "DISABLED" },
+      $metadata: metadata(),
+    };
+  }
+
+  private drop(tableName: string | undefined) {
+    const table = this.getTable(tableName);
+    this._tables.delete(tableName!);
+    return {
+      TableDescription: { ...table.description, TableStatus: "DELETING" },
+      $metadata: metadata(),
+    };
+  }
+
+  private prepareTransactItem(transactItem: TransactWriteItem): PreparedWrite {
+    if (transactItem.Put) return this.preparePut(transactItem.Put);
+    if (transactItem.Update) return this.prepareUpdate(transactItem.Update);
+    if (transactItem.Delete) return this.prepareDelete(transactItem.Delete);
+
+    const check = transactItem.ConditionCheck;
+    if (!check?.ConditionExpression) {
+      throw validationError("TransactItems can only contain one of Check, Put, Update or Delete");
+    }
+    const table = this.getTable(check.TableName);
+    const attributes = new ExpressionAttributes(check.ExpressionAttributeNames, check.ExpressionAttributeValues);
+    const condition = parseCondition(check.ConditionExpression, attributes);
+    attributes.assertAllUsed();
+    const key = this.validateKey(table, check.Key);
+
+    return {
+      table,
+      key,
+      condition,
+      attributes,
+      apply: (current) => current,
+      returnOldOnConditionFailure: check.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private preparePut(input: {
+    TableName?: string;
+    Item?: Item;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Item;
+    ReturnValuesOnConditionCheckFailure?: string;
+  }): PreparedWrite {
+    const table = this.getTable(input.TableName);
+    const item = normalizeItem(input.Item ?? {});
+    this.validateItem(table, item);
+    const { condition, attributes } = this.parseWriteCondition(input);
+
+    return {
+      table,
+      key: this.keyAttributes(table, item),
+      condition,
+      attributes,
+      apply: () => item,
+      returnOldOnConditionFailure: input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private prepareUpdate(input: {
+    TableName?: string;
+    Key?: Item;
+    UpdateExpression?: string;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Item;
+    ReturnValuesOnConditionCheckFailure?: string;
+  }): PreparedWrite {
+    const table = this.getTable(input.TableName);
+    const key = this.validateKey(table, input.Key);
+    const attributes = new ExpressionAttributes(input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+    if (!input.UpdateExpression) {
+      throw validationError("UpdateExpression is required");
+    }
+    const actions = parseUpdate(input.UpdateExpression, attributes);
+    const condition = input.ConditionExpression
+      ? parseCondition(input.ConditionExpression, attributes)
+      : undefined;
+    attributes.assertAllUsed();
+    const keyNames = (table.description.KeySchema ?? []).map((element) => element.AttributeName!);
+
+    return {
+      table,
+      key,
+      condition,
+      attributes,
+      // an update creates the item when it doesn't exist yet
+      apply: (current) => {
+        const updated = normalizeItem(applyUpdate(current ?? cloneItem(key), actions, attributes, keyNames));
+        this.validateItem(table, updated);
+        return updated;
+      },
+      returnOldOnConditionFailure: input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private prepareDelete(input: {
+    TableName?: string;
+    Key?: Item;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Item;
+    ReturnValuesOnConditionCheckFailure?: string;
+  }): PreparedWrite {
+    const table = this.getTable(input.TableName);
+    const key = this.validateKey(table, input.Key);
+    const { condition, attributes } = this.parseWriteCondition(input);
+
+    return {
+      table,
+      key,
+      condition,
+      attributes,
+      apply: () => undefined,
+      returnOldOnConditionFailure: input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private parseWriteCondition(input: {
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Item;
+  }) {
+    const attributes = new ExpressionAttributes(input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+    const condition = input.ConditionExpression
+      ? parseCondition(input.ConditionExpression, attributes)
+      : undefined;
+    attributes.assertAllUsed();
+    return { condition, attributes };
+  }
+
+  // checks the condition and applies a single write, returns the old item
+  private applyWrite(write: PreparedWrite): Item | undefined {
+    const current = write.table.items.get(this.keyOf(write.table, write.key));
+    if (write.condition && !evaluateCondition(current, write.condition, write.attributes)) {
+      throw new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: { httpStatusCode: 400 },
+        Item: write.returnOldOnConditionFailure && current ? cloneItem(current) : undefined,
+      });
+    }
+
+    this.store(write.table, write.key, write.apply(current));
+    return current && cloneItem(current);
+  }
+
+  private store(table: Table, key: Item, item: Item | undefined): void {
+    if (item) {
+      table.items.set(this.keyOf(table, key), cloneItem(item));
+    } else {
+      table.items.delete(this.keyOf(table, key));
+    }
+  }
+
+  private page(
+    table: Table,
+    keySchema: KeySchemaElement[],
+    items: Item[],
+    input: { ExclusiveStartKey?: Item; Limit?: number; ScanIndexForward?: boolean },
+    filter: Condition | undefined,
+    projection: ReturnType<typeof parseProjection> | undefined,
+    attributes: ExpressionAttributes
+  ) {
+    let start = 0;
+    if (input.ExclusiveStartKey) {
+      const startKey = input.ExclusiveStartKey;
+      const descending = input.ScanIndexForward === false;
+      // the first item after the start key, which may have been deleted since
+      start = items.findIndex((item) => {
+        const order = this.compareItems(table, keySchema, item, startKey);
+        return descending ? order < 0 : order > 0;
+      });
+      if (start === -1) {
+        start = items.length;
+      }
+    }
+
+    const evaluated = input.Limit ? items.slice(start, start + input.Limit) : items.slice(start);
+    const hasMore = start + evaluated.length < items.length;
+    const last = evaluated[evaluated.length - 1];
+
+    // like DynamoDB, the limit applies before the filter
+    const returned = evaluated
+      .filter((item) => !filter || evaluateCondition(item, filter, attributes))
+      .map((item) => (projection ? project(item, projection) : cloneItem(item)));
+
+    return {
+      Items: returned,
+      Count: returned.length,
+      ScannedCount: evaluated.length,
+      LastEvaluatedKey: hasMore && last ? this.positionOf(table, keySchema, last) : undefined,
+      $metadata: metadata(),
+    };
+  }
+
+  // the key of the table and of the index, which is where a query or scan resumes from
+  private positionOf(table: Table, keySchema: KeySchemaElement[], item: Item): Item {
+    const names = new Set([...(table.description.KeySchema ?? []), ...keySchema].map((key) => key.AttributeName!));
+    return Object.fromEntries([...names].map((name) => [name, item[name]]));
+  }
+
+  // orders items by the index's hash and range keys, then by the table's key
+  private compareItems(table: Table, keySchema: KeySchemaElement[], a: Item, b: Item): number {
+    for (const element of [...sortKeysFirst(keySchema), ...(table.description.KeySchema ?? [])]) {
+      const left = a[element.AttributeName!];
+      const right = b[element.AttributeName!];
+      if (!left || !right) continue;
+      const order = orderOf(left, right) ?? 0;
+      if (order !== 0) return order;
+    }
+    return 0;
+  }
+
+  // the items in the index, a secondary index only has the items that have its keys
+  private indexItems(table: Table, indexName: string | undefined): Item[] {
+    const items = [...table.items.values()];
+    if (!indexName) {
+      return items;
+    }
+
+    const index = this.indexOf(table, indexName);
+    const indexKeys = (index.KeySchema ?? []).map((element) => element.AttributeName!);
+    const projected = items.filter((item) => indexKeys.every((name) => item[name] !== undefined));
+
+    const projection = index.Projection;
+    if (!projection || projection.ProjectionType === "ALL") {
+      return projected;
+    }
+    const tableKeys = (table.description.KeySchema ?? []).map((element) => element.AttributeName!);
+    const kept = [...tableKeys, ...indexKeys, ...(projection.NonKeyAttributes ?? [])];
+    return projected.map((item) => Object.fromEntries(kept.filter((name) => item[name]).map((name) => [name, item[name]])));
+  }
+
+  private keySchemaOf(table: Table, indexName: string | undefined): KeySchemaElement[] {
+    return indexName ? this.indexOf(table, indexName).KeySchema ?? [] : table.description.KeySchema ?? [];
+  }
+
+  private indexOf(table: Table, indexName: string): GlobalSecondaryIndexDescription {
+    const index = table.description.GlobalSecondaryIndexes?.find((gsi) => gsi.IndexName === indexName);
+    if (!index) {
+      throw validationError(`The table does not have the specified index: ${indexName}`);
+    }
+    return index;
+  }
+
+  private getTable(tableName: string | undefined): Table {
+    const table = tableName ? this._tables.get(tableName) : undefined;
+    if (!table) {
+      throw new ResourceNotFoundException({
+        message: "Requested resource not found",
+        $metadata: { httpStatusCode: 400 },
+      });
+    }
+    return table;
+  }
+
+  // a key must have exactly the attributes of the table's key schema
+  private validateKey(table: Table, key: Item | undefined): Item {
+    const keySchema = table.description.KeySchema ?? [];
+    if (!key || Object.keys(key).length !== keySchema.length) {
+      throw validationError("The provided key element does not match the schema");
+    }
+    const normalized = normalizeItem(key);
+    this.validateItem(table, normalized);
+    return normalized;
+  }
+
+  // key attributes, of the table and its indexes, must have the declared type
+  private validateItem(table: Table, item: Item): void {
+    const definitions = table.description.AttributeDefinitions ?? [];
+    const tableKeys = (table.description.KeySchema ?? []).map((element) => element.AttributeName!);
+
+    for (const definition of definitions) {
+      const value = item[definition.AttributeName!];
+      if (value === undefined) {
+        if (tableKeys.includes(definition.AttributeName!)) {
+          throw validationError(
+            `One or more parameter values were invalid: Missing the key ${definition.AttributeName} in the item`
+          );
+        }
+        continue;
+      }
+      if ((value as unknown as Record<string, unknown>)[definition.AttributeType!] === undefined) {
+        throw validationError(
+          `One or more parameter values were invalid: Type mismatch for key ${definition.AttributeName}`
+        );
+      }
+      if (value.S === "") {
+        throw validationError(
+          `One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty string value. Key: ${definition.AttributeName}`
+        );
+      }
+    }
+  }
+
+  private keyAttributes(table: Table, item: Item): Item {
+    return Object.fromEntries(
+      (table.description.KeySchema ?? []).map((element) => [element.AttributeName!, item[element.AttributeName!]])
+    );
+  }
+
+  private keyOf(table: Table, key: Item | undefined): string {
+    const keySchema = table.description.KeySchema ?? [];
+    return JSON.stringify(keySchema.map((element) => key?.[element.AttributeName!]));
+  }
+}
+
+// what UpdateItem returns, depending on ReturnValues
+function returnedAttributes(input: UpdateItemCommandInput, old: Item | undefined, updated: Item): Item | undefined {
+  const returnValues = input.ReturnValues as ReturnValue | undefined;
+  if (!returnValues || returnValues === "NONE") return undefined;
+  if (returnValues === "ALL_OLD") return old;
+  if (returnValues === "ALL_NEW") return updated;
+
+  // UPDATED_OLD and UPDATED_NEW only return the attributes that changed
+  const source = returnValues === "UPDATED_OLD" ? old ?? {} : updated;
+  const before = old ?? {};
+  const changed = Object.keys({ ...before, ...updated }).filter(
+    (name) => JSON.stringify(before[name]) !== JSON.stringify(updated[name])
+  );
+  return Object.fromEntries(changed.filter((name) => source[name]).map((name) => [name, source[name]]));
+}
+
+// the hash key first, then the range key
+function sortKeysFirst(keySchema: KeySchemaElement[]): KeySchemaElement[] {
+  return [...keySchema].sort((a) => (a.KeyType === "HASH" ? -1 : 1));
+}
+
+// numbers are stored the way DynamoDB returns them, e.g. "010.50" is "10.5"
+function normalizeItem(item: Item): Item {
+  return Object.fromEntries(Object.entries(item).map(([name, value]) => [name, normalizeValue(value)]));
+}
+
+function normalizeValue(value: AttributeValue): AttributeValue {
+  if (value.N !== undefined) return { N: normalizeNumber(value.N) };
+  if (value.NS) return { NS: value.NS.map(normalizeNumber) };
+  if (value.M) return { M: normalizeItem(value.M) };
+  if (value.L) return { L: value.L.map(normalizeValue) };
+  return value;
+}
+
+function normalizeNumber(n: string): string {
+  if (n.trim() === "" || isNaN(Number(n))) {
+    throw validationError("The parameter cannot be converted to a numeric value");
+  }
+  return addDecimals(n, "0");
+}
+
+// a key condition must select one partition, and can only narrow down the range key
+function assertKeyCondition(condition: Condition, keySchema: KeySchemaElement[]): void {
+  const hashKey = keySchema.find((element) => element.KeyType === "HASH")?.AttributeName;
+  const rangeKey = keySchema.find((element) => element.KeyType === "RANGE")?.AttributeName;
+  const conditions = condition.kind === "and" ? flattenAnd(condition) : [condition];
+
+  const attributeOf = (c: Condition): string | undefined => {
+    const operand = c.kind === "compare" ? c.left : c.kind === "between" ? c.operand : c.kind === "function" ? c.args[0] : undefined;
+    return operand?.kind === "path" && operand.path.length === 1 ? (operand.path[0] as string) : undefined;
+  };
+
+  let hasHashKey = false;
+  for (const c of conditions) {
+    const attribute = attributeOf(c);
+    if (attribute === hashKey && c.kind === "compare" && c.operator === "=") {
+      hasHashKey = true;
+    } else if (
+      attribute === undefined ||
+      attribute !== rangeKey ||
+      (c.kind === "compare" && c.operator === "<>") ||
+      (c.kind === "function" && c.name !== "begins_with")
+    ) {
+      throw validationError("Query key condition not supported");
+    }
+  }
+
+  if (!hasHashKey) {
+    throw validationError("Query condition missed key schema element");
+  }
+}
+
+function flattenAnd(condition: Condition): Condition[] {
+  return condition.kind === "and" ? [...flattenAnd(condition.left), ...flattenAnd(condition.right)] : [condition];
+}
+
+function assertKeySchema(keySchema: KeySchemaElement[], definitions: AttributeDefinition[]): void {
+  for (const element of keySchema) {
+    if (!definitions.some((definition) => definition.AttributeName === element.AttributeName)) {
+      throw validationError(
+        `One or more parameter values were invalid: Some index key attributes are not defined in AttributeDefinitions. Keys: [${element.AttributeName}]`
+      );
+    }
+  }
+}
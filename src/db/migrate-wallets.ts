@@ -0,0 +1,132 @@
+import {
+  AttributeValue,
+  DynamoDB,
+  ScanCommand,
+  TransactionCanceledException,
+  TransactWriteItemsCommand,
+} from "@aws-sdk/client-dynamodb";
+import { Config } from "../config";
+import { TConfig } from "../types";
+import { createClient } from "./client";
+
+// Moves the balance of users created before wallets existed, in another currency than the default one,
+// to a wallet in the Wallets table. The user item is then a wallet in the default currency like any other.
+// Safe to run again, a user whose balance changed during the migration is skipped and picked up next time.
+// @returns the number of users migrated
+export async function migrateLegacyWallets(client: DynamoDB, config: TConfig): Promise<number> {
+  let migrated = 0;
+  let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+
+  do {
+    const response = await client.send(
+      new ScanCommand({
+        TableName: config.DB_USERS_TABLE,
+        FilterExpression: "attribute_exists(#currency) AND #currency <> :default",
+        ExpressionAttributeNames: {
+          "#currency": "currency",
+        },
+        ExpressionAttributeValues: {
+          ":default": { S: config.DEFAULT_CURRENCY },
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    for (const item of response.Items ?? []) {
+      if (await migrateUser(client, config, item)) {
+        migrated++;
+      }
+    }
+
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return migrated;
+}
+
+// moves one user's balance, false when the user changed since it was read
+async function migrateUser(
+  client: DynamoDB,
+  config: TConfig,
+  item: Record<string, AttributeValue>
+): Promise<boolean> {
+  const userId = item.userId.S!;
+  const currency = item.currency.S!;
+  const balance = item.balance?.N;
+  const available = item.availableBalance?.N ?? balance;
+
+  try {
+    await client.send(
+      new TransactWriteItemsCommand({
+        TransactItems: [
+          // First item: Reset the user item to the default currency, only if it's still the one we read
+          {
+            Update: {
+              TableName: config.DB_USERS_TABLE,
+              Key: { userId: { S: userId } },
+              UpdateExpression: "SET #currency = :default REMOVE #balance, #availableBalance",
+              ConditionExpression: balance
+                ? "#currency = :legacy AND #balance = :balance"
+                : "#currency = :legacy AND attribute_not_exists(#balance)",
+              ExpressionAttributeNames: {
+                "#currency": "currency",
+                "#balance": "balance",
+                "#availableBalance": "availableBalance",
+              },
+              ExpressionAttributeValues: {
+                ":default": { S: config.DEFAULT_CURRENCY },
+                ":legacy": { S: currency },
+                ...(balance && { ":balance": { N: balance } }),
+              },
+            },
+          },
+          // Second item: Add the balance to the wallet in its currency, which may already exist
+          ...(balance
+            ? [
+              {
+                Update: {
+                  TableName: config.DB_WALLETS_TABLE,
+                  Key: { userId: { S: userId }, currency: { S: currency } },
+                  UpdateExpression:
+                    "SET #balance = if_not_exists(#balance, :zero) + :balance, " +
+                    "#availableBalance = if_not_exists(#availableBalance, if_not_exists(#balance, :zero)) + :available",
+                  ExpressionAttributeNames: {
+                    "#balance": "balance",
+                    "#availableBalance": "availableBalance",
+                  },
+                  ExpressionAttributeValues: {
+                    ":zero": { N: "0" },
+                    ":balance": { N: balance },
+                    ":available": { N: available! },
+                  },
+                },
+              },
+            ]
+            : []),
+        ],
+      })
+    );
+
+    return true;
+  } catch (error) {
+    if (
+      error instanceof TransactionCanceledException &&
+      error.CancellationReasons?.[0]?.Code === "ConditionalCheckFailed"
+    ) {
+      console.warn(`User ${userId} changed during the migration, skipping`);
+      return false;
+    }
+
+    throw error;
+  }
+}
+
+// Only run the migration if this file is executed directly
+if (require.main === module) {
+  migrateLegacyWallets(createClient(Config), Config)
+    .then((migrated) => console.info(`Migrated ${migrated} users to wallets`))
+    .catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+}
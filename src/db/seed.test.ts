@@ -134,6 +134,7 @@ describe("seed", () => {
     
     // Verify first item has numeric balance
     expect(items[0].PutRequest.Item.balance.N).toBeDefined();
+    expect(items[0].PutRequest.Item.openingBalance).toEqual(items[0].PutRequest.Item.balance);
     
     // Verify second item has null balance
     expect(items[1].PutRequest.Item.balance).toBeUndefined();
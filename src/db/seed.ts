@@ -1,18 +1,27 @@
 import { BatchWriteItemCommandInput, DynamoDB } from "@aws-sdk/client-dynamodb";
 import { Config } from "../config";
-import { client } from "./client";
+import { createClient } from "./client";
+import { formatAmount, scaleOf } from "../money/money";
+
+// a random balance below 10,000, in whole minor units of the currency
+function randomBalance(currency: string): string {
+  const units = Math.floor(Math.random() * 10_000 * 10 ** scaleOf(currency));
+  return formatAmount(BigInt(units), currency);
+}
 
 // seed the users database.
 // @param size is the number of documents to create in the database
 export async function seed(client: DynamoDB, size: number): Promise<void> {
   const putRequests = Array.from({ length: size }).map((_, i) => {
-    const haveBalance = Math.random() > 0.5;
+    const balance = Math.random() > 0.5 ? randomBalance(Config.DEFAULT_CURRENCY) : undefined;
     return {
       PutRequest: {
         Item: {
           userId: { S: `${i + 1}` },
-          ...(haveBalance && {
-            balance: { N: (Math.random() * 10_000).toFixed(2) },
+          // openingBalance is what reconciliation expects before any transaction
+          ...(balance !== undefined && {
+            balance: { N: balance },
+            openingBalance: { N: balance },
           }),
           currency: { S: Config.DEFAULT_CURRENCY },
         },
@@ -42,7 +51,7 @@ export async function seed(client: DynamoDB, size: number): Promise<void> {
 
 // Only run the seed function if this file is executed directly
 if (require.main === module) {
-  seed(client, Config.USER_SEED_SIZE)
+  seed(createClient(Config), Config.USER_SEED_SIZE)
     .then(() => console.info("Seed completed"))
     .catch((err) => {
       console.error(err);
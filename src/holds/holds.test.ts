@@ -0,0 +1,356 @@
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { HoldService } from "./holds";
+import { jsonWriter, StructuredLogger } from "../logger/logger";
+import {
+  HoldCaptureExceedsAmountError,
+  HoldExpiredError,
+  HoldNotActiveError,
+  HoldNotFoundError,
+  HoldStatus,
+  IdempotencyKeyMismatchError,
+  InsufficientBalanceError,
+  InvalidAmountError,
+  InvalidHoldExpiryError,
+  TConfig,
+  TransactionType,
+  UserNotFoundError,
+} from "../types";
+
+// Mock the DynamoDB client
+jest.mock("@aws-sdk/client-dynamodb", () => {
+  const mockSend = jest.fn();
+  return {
+    DynamoDB: jest.fn().mockImplementation(() => ({
+      send: mockSend,
+    })),
+    GetItemCommand: jest.fn().mockImplementation((params) => params),
+    ScanCommand: jest.fn().mockImplementation((params) => params),
+    TransactWriteItemsCommand: jest.fn().mockImplementation((params) => params),
+    TransactionCanceledException: class TransactionCanceledException extends Error {
+      CancellationReasons?: { Code?: string; Item?: any }[];
+      constructor(message: string) {
+        super(message);
+        this.name = "TransactionCanceledException";
+      }
+    },
+  };
+});
+
+const { TransactionCanceledException } = jest.requireMock("@aws-sdk/client-dynamodb");
+
+const cancelledWith = (reasons: { Code?: string; Item?: any }[]) => {
+  const error = new TransactionCanceledException("Transaction cancelled");
+  error.CancellationReasons = reasons;
+  return error;
+};
+
+describe("HoldService", () => {
+  let holdService: HoldService;
+  let mockClient: DynamoDB;
+  let mockConfig: TConfig;
+  const now = 1_000_000;
+
+  const holdItem = (overrides: Record<string, any> = {}) => ({
+    holdId: { S: "hold1" },
+    userId: { S: "user123" },
+    amount: { N: "40" },
+    status: { S: HoldStatus.ACTIVE },
+    createdAt: { N: (now - 1000).toString() },
+    expiresAt: { N: (now + 60_000).toString() },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockConfig = {
+      DB_USERS_TABLE: "users-table",
+      DB_TRANSACTIONS_TABLE: "transactions-table",
+      DB_HOLDS_TABLE: "holds-table",
+      DB_WALLETS_TABLE: "wallets-table",
+      DB_JOURNAL_TABLE: "journal-table",
+      DB_OUTBOX_TABLE: "outbox-table",
+      DEFAULT_CURRENCY: "USD",
+      HOLD_EXPIRY_SECONDS: 60,
+    } as TConfig;
+
+    mockClient = new DynamoDB({});
+    (mockClient.send as jest.Mock).mockReset();
+    holdService = new HoldService(mockClient, mockConfig, { now: () => now });
+  });
+
+  describe("placeHold", () => {
+    const input = { holdId: "hold1", userId: "user123", amount: "40" };
+
+    it("should throw InvalidAmountError when amount is invalid", async () => {
+      await expect(holdService.placeHold({ ...input, amount: "0" })).rejects.toThrow(
+        InvalidAmountError
+      );
+    });
+
+    it.each([[Number.NaN], [0], [-60], [1.5]])(
+      "should throw InvalidHoldExpiryError when expiresInSeconds is %p",
+      async (expiresInSeconds) => {
+        await expect(holdService.placeHold({ ...input, expiresInSeconds })).rejects.toThrow(
+          InvalidHoldExpiryError
+        );
+        expect(mockClient.send).not.toHaveBeenCalled();
+      }
+    );
+
+    it("should lower the available balance and record the hold", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({});
+
+      const hold = await holdService.placeHold(input);
+
+      expect(hold).toEqual({
+        holdId: "hold1",
+        userId: "user123",
+        amount: "40",
+        currency: "USD",
+        status: HoldStatus.ACTIVE,
+        capturedAmount: undefined,
+        createdAt: new Date(now),
+        expiresAt: new Date(now + 60_000),
+      });
+
+      const [reserve, insertHold] = (mockClient.send as jest.Mock).mock.calls[1][0]
+        .TransactItems;
+      expect(reserve.Update.TableName).toBe("users-table");
+      expect(reserve.Update.UpdateExpression).toBe(
+        "SET #availableBalance = if_not_exists(#availableBalance, #balance) - :amount"
+      );
+      expect(reserve.Update.ConditionExpression).toBe(
+        "attribute_exists(#balance) AND (" +
+          "(attribute_not_exists(#availableBalance) AND #balance >= :amount) OR " +
+          "#availableBalance >= :amount) AND " +
+          "(attribute_not_exists(#currency) OR #currency = :currency)"
+      );
+      expect(insertHold.Put.Item.currency).toEqual({ S: "USD" });
+      expect(insertHold.Put.TableName).toBe("holds-table");
+      expect(insertHold.Put.ConditionExpression).toBe("attribute_not_exists(holdId)");
+    });
+
+    it("should reserve the funds of the wallet in the requested currency", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({});
+
+      const hold = await holdService.placeHold({ ...input, currency: "EUR" });
+
+      expect(hold.currency).toBe("EUR");
+      const [reserve] = (mockClient.send as jest.Mock).mock.calls[1][0].TransactItems;
+      expect(reserve.Update.TableName).toBe("wallets-table");
+      expect(reserve.Update.Key).toEqual({
+        userId: { S: "user123" },
+        currency: { S: "EUR" },
+      });
+    });
+
+    it("should throw InsufficientBalanceError when the available balance is too low", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockRejectedValueOnce(
+          cancelledWith([
+            { Code: "ConditionalCheckFailed", Item: { balance: { N: "10" } } },
+            { Code: "None" },
+          ])
+        );
+
+      await expect(holdService.placeHold(input)).rejects.toThrow(InsufficientBalanceError);
+    });
+
+    it("should throw UserNotFoundError when the user does not exist", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockRejectedValueOnce(
+          cancelledWith([{ Code: "ConditionalCheckFailed" }, { Code: "None" }])
+        );
+
+      await expect(holdService.placeHold(input)).rejects.toThrow(UserNotFoundError);
+    });
+
+    it("should return the existing hold when placed again", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({ Item: holdItem() });
+
+      const hold = await holdService.placeHold(input);
+
+      expect(hold.holdId).toBe("hold1");
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject the same holdId for a different amount", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({ Item: holdItem() });
+
+      await expect(holdService.placeHold({ ...input, amount: "41" })).rejects.toThrow(
+        IdempotencyKeyMismatchError
+      );
+    });
+  });
+
+  describe("captureHold", () => {
+    it("should debit the captured amount and release the rest", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: holdItem() })
+        .mockResolvedValueOnce({});
+
+      const hold = await holdService.captureHold({ holdId: "hold1", amount: "25" });
+
+      expect(hold.status).toBe(HoldStatus.CAPTURED);
+      expect(hold.capturedAmount).toBe("25");
+
+      const [settle, debit, ledger] = (mockClient.send as jest.Mock).mock.calls[1][0]
+        .TransactItems;
+      expect(settle.Update.ConditionExpression).toBe("#status = :active AND expiresAt > :now");
+      expect(debit.Update.UpdateExpression).toBe(
+        "SET #balance = #balance - :captured, #availableBalance = #availableBalance + :released"
+      );
+      expect(debit.Update.ExpressionAttributeValues).toEqual({
+        ":captured": { N: "25" },
+        ":released": { N: "15" },
+      });
+      expect(ledger.Put.Item).toMatchObject({
+        idempotencyKey: { S: "hold1:capture" },
+        userId: { S: "user123" },
+        amount: { N: "25" },
+        type: { S: TransactionType.DEBIT },
+        holdId: { S: "hold1" },
+      });
+    });
+
+    it("should throw HoldCaptureExceedsAmountError when capturing more than held", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({ Item: holdItem() });
+
+      await expect(
+        holdService.captureHold({ holdId: "hold1", amount: "50" })
+      ).rejects.toThrow(HoldCaptureExceedsAmountError);
+    });
+
+    it("should release an expired hold instead of capturing it", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: holdItem({ expiresAt: { N: now.toString() } }) })
+        .mockResolvedValueOnce({});
+
+      await expect(holdService.captureHold({ holdId: "hold1" })).rejects.toThrow(
+        HoldExpiredError
+      );
+
+      const [settle, release] = (mockClient.send as jest.Mock).mock.calls[1][0]
+        .TransactItems;
+      expect(settle.Update.ExpressionAttributeValues[":status"]).toEqual({
+        S: HoldStatus.EXPIRED,
+      });
+      expect(release.Update.UpdateExpression).toBe(
+        "SET #availableBalance = #availableBalance + :amount"
+      );
+    });
+
+    it("should do nothing when the hold was already captured", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: holdItem({ status: { S: HoldStatus.CAPTURED }, capturedAmount: { N: "40" } }),
+      });
+
+      const hold = await holdService.captureHold({ holdId: "hold1" });
+
+      expect(hold.status).toBe(HoldStatus.CAPTURED);
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw HoldNotActiveError when the hold was released", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: holdItem({ status: { S: HoldStatus.RELEASED } }),
+      });
+
+      await expect(holdService.captureHold({ holdId: "hold1" })).rejects.toThrow(
+        HoldNotActiveError
+      );
+    });
+
+    it("should throw HoldNotFoundError when the hold does not exist", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({ Item: undefined });
+
+      await expect(holdService.captureHold({ holdId: "hold1" })).rejects.toThrow(
+        HoldNotFoundError
+      );
+    });
+
+    it("should throw HoldNotActiveError when the hold was released concurrently", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: holdItem() })
+        .mockRejectedValueOnce(
+          cancelledWith([{ Code: "ConditionalCheckFailed" }, { Code: "None" }, { Code: "None" }])
+        )
+        .mockResolvedValueOnce({ Item: holdItem({ status: { S: HoldStatus.RELEASED } }) });
+
+      await expect(holdService.captureHold({ holdId: "hold1" })).rejects.toThrow(
+        HoldNotActiveError
+      );
+    });
+  });
+
+  describe("releaseHold", () => {
+    it("should return the held funds", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: holdItem() })
+        .mockResolvedValueOnce({});
+
+      const hold = await holdService.releaseHold({ holdId: "hold1" });
+
+      expect(hold.status).toBe(HoldStatus.RELEASED);
+      const [, release] = (mockClient.send as jest.Mock).mock.calls[1][0].TransactItems;
+      expect(release.Update.ExpressionAttributeValues).toEqual({ ":amount": { N: "40" } });
+    });
+
+    it("should throw HoldNotActiveError when the hold was captured", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: holdItem({ status: { S: HoldStatus.CAPTURED } }),
+      });
+
+      await expect(holdService.releaseHold({ holdId: "hold1" })).rejects.toThrow(
+        HoldNotActiveError
+      );
+    });
+  });
+
+  describe("releaseExpiredHolds", () => {
+    it("should release every expired active hold", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({
+          Items: [holdItem({ holdId: { S: "hold1" } })],
+          LastEvaluatedKey: { holdId: { S: "hold1" } },
+        })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Items: [holdItem({ holdId: { S: "hold2" } })] })
+        .mockResolvedValueOnce({});
+
+      const report = await holdService.releaseExpiredHolds();
+
+      expect(report).toEqual({ released: 2, failures: [] });
+      const scan = (mockClient.send as jest.Mock).mock.calls[0][0];
+      expect(scan.FilterExpression).toBe("#status = :active AND expiresAt <= :now");
+      expect((mockClient.send as jest.Mock).mock.calls[2][0].ExclusiveStartKey).toEqual({
+        holdId: { S: "hold1" },
+      });
+    });
+
+    it("should log a hold that fails and go on with the next", async () => {
+      const lines: string[] = [];
+      const logger = new StructuredLogger(jsonWriter((line) => lines.push(line)));
+      holdService = new HoldService(mockClient, mockConfig, { now: () => now, logger });
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Items: [holdItem(), holdItem({ holdId: { S: "hold2" } })] })
+        // the wallet of hold1 is gone
+        .mockRejectedValueOnce(cancelledWith([{ Code: "None" }, { Code: "ConditionalCheckFailed" }]))
+        .mockResolvedValueOnce({});
+
+      const report = await holdService.releaseExpiredHolds();
+
+      expect(report).toEqual({ released: 1, failures: [{ holdId: "hold1", error: expect.any(String) }] });
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        expect.objectContaining({ level: "error", message: "Expired hold not released", holdId: "hold1" }),
+      ]);
+    });
+  });
+});
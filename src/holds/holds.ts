@@ -0,0 +1,549 @@
+import {
+  AttributeValue,
+  DynamoDB,
+  GetItemCommand,
+  ScanCommand,
+  TransactionCanceledException,
+  TransactWriteItem,
+  TransactWriteItemsCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  CaptureHoldInput,
+  ExpiredHoldsReport,
+  Hold,
+  HoldCaptureExceedsAmountError,
+  HoldExpiredError,
+  HoldNotActiveError,
+  HoldNotFoundError,
+  HoldStatus,
+  InvalidHoldExpiryError,
+  InvalidHoldIdError,
+  PlaceHoldInput,
+  ReleaseHoldInput,
+  TConfig,
+  TransactionFailedError,
+  TransactionType,
+  UserNotFoundError,
+  WalletNotFoundError,
+} from "../types";
+import {
+  assertSameRequest,
+  fingerprint,
+  holdFields,
+  storedHoldFields,
+  transactionFields,
+} from "../transact/idempotency";
+import { cancellationCodes, DEFAULT_RETRY_POLICY, withRetry } from "../transact/retry";
+import { addDecimals, canonicalAmount, compareDecimals, parseAmount } from "../money/money";
+import { allOf, creditLimitOf, debitFloor, insufficientBalance, walletTarget } from "../wallet/wallet";
+import { journalItems, userEntry } from "../journal/journal";
+import { transactionPostedItem } from "../outbox/outbox";
+import { checkDebitLimits, limitCounters, limitFailure } from "../limits/limits";
+import { createLogger, Logger } from "../logger/logger";
+
+// how many times a hold is placed again when the user's credit limit changed since it was pinned
+const MAX_CREDIT_LIMIT_ATTEMPTS = 3;
+
+export type HoldServiceOptions = {
+  // injectable clock, in milliseconds since epoch
+  now?: () => number;
+  // createLogger(config) by default
+  logger?: Logger;
+};
+
+// Class to reserve funds now and settle them later, like a card authorization.
+// A hold lowers the user's availableBalance without touching the ledger balance.
+// Capturing it debits the balance, releasing it (or letting it expire) returns the funds.
+export class HoldService {
+  private _client: DynamoDB;
+  private _tableName: string;
+  private _config: TConfig;
+  private _transactionsTableName: string;
+  private _expirySeconds: number;
+  private _now: () => number;
+  private _logger: Logger;
+
+  constructor(client: DynamoDB, config: TConfig, options: HoldServiceOptions = {}) {
+    this._client = client;
+    this._tableName = config.DB_HOLDS_TABLE;
+    this._config = config;
+    this._transactionsTableName = config.DB_TRANSACTIONS_TABLE;
+    this._expirySeconds = config.HOLD_EXPIRY_SECONDS;
+    this._now = options.now ?? Date.now;
+    this._logger = options.logger ?? createLogger(config);
+  }
+
+  // Get the hold item from DynamoDB
+  async getHoldItem(holdId: string) {
+    const response = await this._client.send(
+      new GetItemCommand({
+        TableName: this._tableName,
+        Key: {
+          holdId: { S: holdId },
+        },
+      })
+    );
+
+    return response.Item;
+  }
+
+  async getHold(holdId: string): Promise<Hold | undefined> {
+    const item = await this.getHoldItem(holdId);
+    return item && toHold(item, this._config.DEFAULT_CURRENCY);
+  }
+
+  // input validation
+  validatePlaceHold(input: PlaceHoldInput): void {
+    if (!input.holdId) {
+      throw new InvalidHoldIdError();
+    }
+
+    if (!input.userId) {
+      throw new UserNotFoundError(input.userId);
+    }
+
+    // throws InvalidAmountError unless it fits the currency
+    parseAmount(input.amount, input.currency ?? this._config.DEFAULT_CURRENCY);
+
+    // a hold that is already expired would still reserve the funds
+    if (
+      input.expiresInSeconds !== undefined &&
+      (!Number.isInteger(input.expiresInSeconds) || input.expiresInSeconds <= 0)
+    ) {
+      throw new InvalidHoldExpiryError();
+    }
+  }
+
+  // input validation
+  validateCaptureHold(input: CaptureHoldInput): void {
+    if (!input.holdId) {
+      throw new InvalidHoldIdError();
+    }
+
+    // the amount is checked once the currency of the hold is known
+  }
+
+  // reserves the amount from the user's available balance.
+  // holdId is the idempotency key, placing the same hold again returns it
+  async placeHold(input: PlaceHoldInput): Promise<Hold> {
+    this.validatePlaceHold(input);
+
+    const existing = await this.getHoldItem(input.holdId);
+    if (existing) {
+      this.assertReplayMatches(input, existing);
+      return toHold(existing, this._config.DEFAULT_CURRENCY);
+    }
+
+    const createdAt = this._now();
+    const currency = input.currency ?? this._config.DEFAULT_CURRENCY;
+    const amount = canonicalAmount(input.amount, currency);
+    const wallet = walletTarget(this._config, input.userId, currency);
+    const expiresInSeconds = input.expiresInSeconds ?? this._expirySeconds;
+    const item: Record<string, AttributeValue> = {
+      holdId: { S: input.holdId },
+      userId: { S: input.userId },
+      amount: { N: amount },
+      currency: { S: currency },
+      status: { S: HoldStatus.ACTIVE },
+      createdAt: { N: createdAt.toString() },
+      expiresAt: { N: (createdAt + expiresInSeconds * 1000).toString() },
+    };
+
+    // like a debit, the credit limit is only known once the reservation fails without it
+    let creditLimit: string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const floor = debitFloor(wallet, amount, creditLimit);
+
+      try {
+        await this.writeTransaction([
+          // First item: Reserve the funds, the available balance starts as the balance.
+          // Like a debit, the overdraft of the credit limit can be reserved too
+          {
+            Update: {
+              TableName: wallet.TableName,
+              Key: wallet.Key,
+              UpdateExpression: "SET #availableBalance = if_not_exists(#availableBalance, #balance) - :amount",
+              ConditionExpression: allOf(
+                "attribute_exists(#balance) AND (" +
+                  `(attribute_not_exists(#availableBalance) AND #balance >= ${floor.operand}) OR ` +
+                  `#availableBalance >= ${floor.operand})`,
+                floor.ConditionExpression,
+                wallet.ConditionExpression
+              ),
+              ExpressionAttributeNames: {
+                "#balance": "balance",
+                "#availableBalance": "availableBalance",
+                ...floor.ExpressionAttributeNames,
+                ...wallet.ExpressionAttributeNames,
+              },
+              ExpressionAttributeValues: {
+                ":amount": { N: amount },
+                ...floor.ExpressionAttributeValues,
+                ...wallet.ExpressionAttributeValues,
+              },
+              // without the old item, the condition failed because the user does not exist
+              ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+            },
+          },
+          // Second item: Record the hold, once
+          {
+            Put: {
+              TableName: this._tableName,
+              Item: item,
+              ConditionExpression: "attribute_not_exists(holdId)",
+            },
+          },
+        ]);
+
+        return toHold(item, this._config.DEFAULT_CURRENCY);
+      } catch (error) {
+        if (error instanceof TransactionCanceledException) {
+          const [userReason, holdReason] = error.CancellationReasons ?? [];
+
+          // the same hold was placed concurrently
+          if (holdReason?.Code === "ConditionalCheckFailed") {
+            const concurrent = await this.getHoldItem(input.holdId);
+            if (concurrent) {
+              this.assertReplayMatches(input, concurrent);
+              return toHold(concurrent, this._config.DEFAULT_CURRENCY);
+            }
+          }
+
+          if (userReason?.Code === "ConditionalCheckFailed") {
+            // a user that exists but has no balance can't have funds reserved either
+            if (!userReason.Item && wallet.primary) {
+              throw new UserNotFoundError(input.userId);
+            }
+            if (!userReason.Item || (userReason.Item.currency?.S ?? currency) !== currency) {
+              throw new WalletNotFoundError(input.userId, currency);
+            }
+            // try again against the user's credit limit
+            const itemCreditLimit = creditLimitOf(this._config, currency, userReason.Item);
+            if (itemCreditLimit !== creditLimit && attempt < MAX_CREDIT_LIMIT_ATTEMPTS) {
+              creditLimit = itemCreditLimit;
+              continue;
+            }
+            throw insufficientBalance(this._config, currency, userReason.Item);
+          }
+
+          throw new TransactionFailedError(error.message, 1, cancellationCodes(error));
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  // turns all or part of the hold into a DEBIT, the rest is released.
+  // An expired hold is released and can't be captured anymore
+  async captureHold(input: CaptureHoldInput): Promise<Hold> {
+    this.validateCaptureHold(input);
+
+    const hold = await this.getExistingHold(input.holdId);
+    if (hold.status === HoldStatus.CAPTURED) {
+      // already captured, nothing to do
+      return hold;
+    }
+    if (hold.status !== HoldStatus.ACTIVE) {
+      throw new HoldNotActiveError(hold.holdId, hold.status);
+    }
+
+    const now = this._now();
+    if (hold.expiresAt.getTime() <= now) {
+      await this.settle(hold, HoldStatus.EXPIRED);
+      throw new HoldExpiredError(hold.holdId);
+    }
+
+    const capturedAmount = input.amount !== undefined
+      ? canonicalAmount(input.amount, hold.currency)
+      : hold.amount;
+    if (compareDecimals(capturedAmount, hold.amount) > 0) {
+      throw new HoldCaptureExceedsAmountError(hold.holdId, hold.amount);
+    }
+    // the capture is the debit, so it's what counts towards the user's spending limits
+    checkDebitLimits(this._config, capturedAmount, hold.currency);
+    const counters = limitCounters(this._config, hold.userId, capturedAmount, hold.currency, now);
+    const releasedAmount = addDecimals(hold.amount, `-${capturedAmount}`);
+    const captureKey = `${hold.holdId}:capture`;
+    const wallet = walletTarget(this._config, hold.userId, hold.currency);
+    const capture: Record<string, AttributeValue> = {
+      idempotencyKey: { S: captureKey },
+      userId: { S: hold.userId },
+      amount: { N: capturedAmount },
+      type: { S: TransactionType.DEBIT },
+      currency: { S: hold.currency },
+      holdId: { S: hold.holdId },
+      fingerprint: {
+        S: fingerprint(
+          transactionFields(
+            {
+              idempotentKey: captureKey,
+              userId: hold.userId,
+              amount: capturedAmount,
+              type: TransactionType.DEBIT,
+              currency: hold.currency,
+            },
+            this._config.DEFAULT_CURRENCY
+          )
+        ),
+      },
+      timestamp: { N: now.toString() },
+    };
+
+    try {
+      await this.writeTransaction([
+        // First item: Settle the hold, only if nothing else did in the meantime
+        {
+          Update: {
+            TableName: this._tableName,
+            Key: { holdId: { S: hold.holdId } },
+            UpdateExpression: "SET #status = :captured, capturedAmount = :capturedAmount, settledAt = :now",
+            ConditionExpression: "#status = :active AND expiresAt > :now",
+            ExpressionAttributeNames: {
+              "#status": "status",
+            },
+            ExpressionAttributeValues: {
+              ":captured": { S: HoldStatus.CAPTURED },
+              ":active": { S: HoldStatus.ACTIVE },
+              ":capturedAmount": { N: capturedAmount },
+              ":now": { N: now.toString() },
+            },
+          },
+        },
+        // Second item: Debit the captured amount, the rest becomes available again.
+        // The held funds were already taken out of the available balance
+        {
+          Update: {
+            TableName: wallet.TableName,
+            Key: wallet.Key,
+            UpdateExpression:
+              "SET #balance = #balance - :captured, #availableBalance = #availableBalance + :released",
+            ConditionExpression: "attribute_exists(#availableBalance)",
+            ExpressionAttributeNames: {
+              "#balance": "balance",
+              "#availableBalance": "availableBalance",
+            },
+            ExpressionAttributeValues: {
+              ":captured": { N: capturedAmount },
+              ":released": { N: releasedAmount },
+            },
+          },
+        },
+        // Third item: Record the debit in the ledger
+        {
+          Put: {
+            TableName: this._transactionsTableName,
+            Item: capture,
+            ConditionExpression: "attribute_not_exists(idempotencyKey)",
+          },
+        },
+        // Then the lines of the journal entry, paying the captured amount out to the funding account
+        ...journalItems(
+          this._config,
+          userEntry(captureKey, hold.userId, TransactionType.DEBIT, capturedAmount, hold.currency),
+          now.toString()
+        ),
+        // And the event of the debit, and what it adds to the spending limits
+        transactionPostedItem(this._config, capture),
+        ...counters.map((counter) => counter.item),
+      ]);
+
+      return {
+        ...hold,
+        status: HoldStatus.CAPTURED,
+        capturedAmount,
+      };
+    } catch (error) {
+      if (error instanceof TransactionCanceledException) {
+        // unless the hold changed in the meantime, the debit would go over a spending limit and the hold stays active
+        const reasons = error.CancellationReasons ?? [];
+        const limitExceeded = limitFailure(counters, reasons.slice(reasons.length - counters.length));
+        if (limitExceeded && reasons[0]?.Code !== "ConditionalCheckFailed") {
+          throw limitExceeded;
+        }
+        return this.resolveConflict(hold.holdId, HoldStatus.CAPTURED, error);
+      }
+
+      throw error;
+    }
+  }
+
+  // returns the held funds to the user's available balance
+  async releaseHold(input: ReleaseHoldInput): Promise<Hold> {
+    if (!input.holdId) {
+      throw new InvalidHoldIdError();
+    }
+
+    const hold = await this.getExistingHold(input.holdId);
+    if (hold.status === HoldStatus.RELEASED || hold.status === HoldStatus.EXPIRED) {
+      // already released, nothing to do
+      return hold;
+    }
+    if (hold.status !== HoldStatus.ACTIVE) {
+      throw new HoldNotActiveError(hold.holdId, hold.status);
+    }
+
+    return this.settle(hold, HoldStatus.RELEASED);
+  }
+
+  // Releases every active hold past its expiry, reporting how many were released and which failed.
+  // A hold that fails is logged and left for the next sweep, the others are still released.
+  // Meant to be run periodically, an expired hold keeps its funds reserved until then
+  async releaseExpiredHolds(): Promise<ExpiredHoldsReport> {
+    const now = this._now();
+    const report: ExpiredHoldsReport = { released: 0, failures: [] };
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+
+    do {
+      const response = await this._client.send(
+        new ScanCommand({
+          TableName: this._tableName,
+          FilterExpression: "#status = :active AND expiresAt <= :now",
+          ExpressionAttributeNames: {
+            "#status": "status",
+          },
+          ExpressionAttributeValues: {
+            ":active": { S: HoldStatus.ACTIVE },
+            ":now": { N: now.toString() },
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      for (const item of response.Items ?? []) {
+        const hold = toHold(item, this._config.DEFAULT_CURRENCY);
+        try {
+          await this.settle(hold, HoldStatus.EXPIRED);
+          report.released++;
+        } catch (error) {
+          // captured or released since the scan
+          if (error instanceof HoldNotActiveError) {
+            continue;
+          }
+          this._logger.error("Expired hold not released", { holdId: hold.holdId, userId: hold.userId, error });
+          report.failures.push({ holdId: hold.holdId, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return report;
+  }
+
+  // throws IdempotencyKeyMismatchError when the stored hold was placed for a different request
+  private assertReplayMatches(input: PlaceHoldInput, existing: Record<string, AttributeValue>): void {
+    assertSameRequest(
+      input.holdId,
+      holdFields(input, this._config.DEFAULT_CURRENCY),
+      storedHoldFields(existing, this._config.DEFAULT_CURRENCY)
+    );
+  }
+
+  // the hold, which must exist
+  private async getExistingHold(holdId: string): Promise<Hold> {
+    const hold = await this.getHold(holdId);
+    if (!hold) {
+      throw new HoldNotFoundError(holdId);
+    }
+
+    return hold;
+  }
+
+  // ends an active hold without capturing it, returning its funds
+  private async settle(hold: Hold, status: HoldStatus.RELEASED | HoldStatus.EXPIRED): Promise<Hold> {
+    const wallet = walletTarget(this._config, hold.userId, hold.currency);
+
+    try {
+      await this.writeTransaction([
+        // First item: Settle the hold, only if nothing else did in the meantime
+        {
+          Update: {
+            TableName: this._tableName,
+            Key: { holdId: { S: hold.holdId } },
+            UpdateExpression: "SET #status = :status, settledAt = :now",
+            ConditionExpression: "#status = :active",
+            ExpressionAttributeNames: {
+              "#status": "status",
+            },
+            ExpressionAttributeValues: {
+              ":status": { S: status },
+              ":active": { S: HoldStatus.ACTIVE },
+              ":now": { N: this._now().toString() },
+            },
+          },
+        },
+        // Second item: Return the funds
+        {
+          Update: {
+            TableName: wallet.TableName,
+            Key: wallet.Key,
+            UpdateExpression: "SET #availableBalance = #availableBalance + :amount",
+            ConditionExpression: "attribute_exists(#availableBalance)",
+            ExpressionAttributeNames: {
+              "#availableBalance": "availableBalance",
+            },
+            ExpressionAttributeValues: {
+              ":amount": { N: hold.amount },
+            },
+          },
+        },
+      ]);
+
+      return { ...hold, status };
+    } catch (error) {
+      if (error instanceof TransactionCanceledException) {
+        return this.resolveConflict(hold.holdId, status, error);
+      }
+
+      throw error;
+    }
+  }
+
+  // A settlement was cancelled because the hold changed in the meantime.
+  // It's fine if it ended up the way we wanted, otherwise it's no longer active
+  private async resolveConflict(
+    holdId: string,
+    wanted: HoldStatus,
+    error: TransactionCanceledException
+  ): Promise<Hold> {
+    const [holdReason] = error.CancellationReasons ?? [];
+    if (holdReason?.Code !== "ConditionalCheckFailed") {
+      throw new TransactionFailedError(error.message, 1, cancellationCodes(error));
+    }
+
+    const hold = await this.getExistingHold(holdId);
+    if (hold.status === wanted) {
+      return hold;
+    }
+    if (hold.status === HoldStatus.ACTIVE) {
+      // still active, so the capture failed because it expired
+      throw new HoldExpiredError(holdId);
+    }
+
+    throw new HoldNotActiveError(holdId, hold.status);
+  }
+
+  // Perform the items as an atomic operation, retrying transient conflicts
+  private async writeTransaction(items: TransactWriteItem[]): Promise<void> {
+    await withRetry(
+      () => this._client.send(new TransactWriteItemsCommand({ TransactItems: items })),
+      DEFAULT_RETRY_POLICY
+    );
+  }
+}
+
+// maps a Holds table item to a typed hold, holds placed before wallets existed are in the default currency
+export function toHold(item: Record<string, AttributeValue>, defaultCurrency: string): Hold {
+  return {
+    holdId: item.holdId?.S ?? "",
+    userId: item.userId?.S ?? "",
+    amount: item.amount?.N ?? "0",
+    currency: item.currency?.S ?? defaultCurrency,
+    status: item.status?.S as HoldStatus,
+    capturedAmount: item.capturedAmount?.N,
+    createdAt: new Date(Number(item.createdAt?.N ?? 0)),
+    expiresAt: new Date(Number(item.expiresAt?.N ?? 0)),
+  };
+}
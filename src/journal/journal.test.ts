@@ -0,0 +1,183 @@
+import { PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { TransactService } from "../transact/transact";
+import {
+  IdempotencyKeyMismatchError,
+  InsufficientBalanceError,
+  InvalidJournalEntryError,
+  JournalEntry,
+  TransactionType,
+  UnbalancedEntryError,
+  UserNotFoundError,
+} from "../types";
+import { createPostEntryFn, JournalService } from "./journal";
+
+describe("JournalService", () => {
+  let db: InMemoryDynamoDB;
+  let service: JournalService;
+
+  const putUser = (userId: string, balance: string) =>
+    db.send(
+      new PutItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Item: { userId: { S: userId }, currency: { S: Config.DEFAULT_CURRENCY }, balance: { N: balance } },
+      })
+    );
+
+  const balanceOf = (userId: string) =>
+    db.dump(Config.DB_USERS_TABLE).find((user) => user.userId.S === userId)?.balance?.N;
+
+  // user 1 pays user 2, with a fee
+  const payment: JournalEntry = {
+    entryId: "payment-1",
+    lines: [
+      { account: "user:1", side: TransactionType.DEBIT, amount: "10" },
+      { account: "user:2", side: TransactionType.CREDIT, amount: "9.5" },
+      { account: "fees", side: TransactionType.CREDIT, amount: "0.5" },
+    ],
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    service = new JournalService(db, Config);
+
+    await putUser("1", "100");
+    await putUser("2", "0");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("post", () => {
+    it("should write every line and the users' balances in one go", async () => {
+      await createPostEntryFn(db)(payment);
+
+      expect(balanceOf("1")).toBe("90");
+      expect(balanceOf("2")).toBe("9.5");
+      expect(db.dump(Config.DB_JOURNAL_TABLE)).toHaveLength(3);
+      // the user lines show in the history like any other transaction
+      expect(db.dump(Config.DB_TRANSACTIONS_TABLE).map((item) => [item.idempotencyKey.S, item.entryId?.S])).toEqual([
+        ["payment-1:0", "payment-1"],
+        ["payment-1:1", "payment-1"],
+      ]);
+    });
+
+    it("should do nothing on a replay, and refuse different lines under the same entryId", async () => {
+      const post = createPostEntryFn(db);
+      await post(payment);
+
+      await post({ ...payment, lines: [...payment.lines] });
+      expect(balanceOf("1")).toBe("90");
+
+      // a bigger fee
+      const different = {
+        ...payment,
+        lines: [payment.lines[0], { ...payment.lines[1], amount: "9" }, { ...payment.lines[2], amount: "1" }],
+      };
+      await expect(post(different)).rejects.toThrow(IdempotencyKeyMismatchError);
+    });
+
+    it("should treat a concurrent replay as a replay", async () => {
+      await service.post(payment);
+
+      await expect(service.post(payment)).resolves.toEqual({ attempts: 1 });
+      expect(db.dump(Config.DB_JOURNAL_TABLE)).toHaveLength(3);
+    });
+
+    it("should write nothing when a user can't pay", async () => {
+      await putUser("1", "5");
+
+      await expect(service.post(payment)).rejects.toThrow(InsufficientBalanceError);
+
+      expect(balanceOf("2")).toBe("0");
+      expect(db.dump(Config.DB_JOURNAL_TABLE)).toEqual([]);
+    });
+
+    it("should throw UserNotFoundError when a user doesn't exist", async () => {
+      const lines = [payment.lines[0], { ...payment.lines[1], account: "user:3" }, payment.lines[2]];
+
+      await expect(service.post({ ...payment, lines })).rejects.toThrow(new UserNotFoundError("3"));
+    });
+  });
+
+  describe("validate", () => {
+    it("should refuse an entry whose debits don't add up to its credits", () => {
+      const entry = { ...payment, lines: payment.lines.slice(0, 2) };
+
+      expect(() => service.validate(entry)).toThrow(new UnbalancedEntryError("payment-1", "10", "9.5"));
+    });
+
+    it.each([
+      ["no credit line", [{ account: "cash", side: TransactionType.DEBIT, amount: "1" }]],
+      [
+        "an unknown account",
+        [
+          { account: "cash", side: TransactionType.DEBIT, amount: "1" },
+          { account: "bank", side: TransactionType.CREDIT, amount: "1" },
+        ],
+      ],
+      [
+        "the same user twice",
+        [
+          { account: "user:1", side: TransactionType.DEBIT, amount: "1" },
+          { account: "user:1", side: TransactionType.CREDIT, amount: "1" },
+        ],
+      ],
+    ])("should refuse an entry with %s", (_, lines) => {
+      expect(() => service.validate({ entryId: "entry", lines })).toThrow(InvalidJournalEntryError);
+    });
+  });
+
+  describe("trialBalance", () => {
+    it("should add up to zero with transactions, transfers and entries", async () => {
+      const transactService = new TransactService(db, Config);
+      await transactService.transact({ idempotentKey: "k1", userId: "2", amount: "20", type: TransactionType.CREDIT });
+      await transactService.transfer({ idempotentKey: "k2", fromUserId: "2", toUserId: "1", amount: "5" });
+      await service.post(payment);
+
+      const report = await service.trialBalance();
+
+      expect(report).toEqual({
+        accounts: [
+          { account: "cash", currency: "USD", debits: "20", credits: "0", balance: "-20" },
+          { account: "fees", currency: "USD", debits: "0", credits: "0.5", balance: "0.5" },
+          { account: "user:1", currency: "USD", debits: "10", credits: "5", balance: "-5" },
+          { account: "user:2", currency: "USD", debits: "5", credits: "29.5", balance: "24.5" },
+        ],
+        totals: [{ currency: "USD", debits: "35", credits: "35", balance: "0" }],
+        balanced: true,
+      });
+    });
+
+    it("should not be balanced when a line was written outside of the journal", async () => {
+      await service.post(payment);
+      await db.send(
+        new PutItemCommand({
+          TableName: Config.DB_JOURNAL_TABLE,
+          Item: {
+            entryId: { S: "manual" },
+            line: { N: "0" },
+            account: { S: "cash" },
+            side: { S: TransactionType.DEBIT },
+            amount: { N: "1" },
+            currency: { S: "USD" },
+          },
+        })
+      );
+
+      const report = await service.trialBalance();
+
+      expect(report.balanced).toBe(false);
+      expect(report.totals).toEqual([{ currency: "USD", debits: "11", credits: "10", balance: "-1" }]);
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import {
+  AttributeValue,
+  DynamoDB,
+  Put,
+  QueryCommand,
+  ScanCommand,
+  TransactionCanceledException,
+  TransactWriteItem,
+  TransactWriteItemsCommand,
+} from "@aws-sdk/client-dynamodb";
+import { Config } from "../config";
+import { MAX_TRANSACT_ITEMS } from "../db/client";
+import {
+  InvalidIdempotencyKeyError,
+  InvalidJournalEntryError,
+  JournalEntry,
+  LimitExceededError,
+  PostEntryFunction,
+  TConfig,
+  TransactionFailedError,
+  TransactionType,
+  TransactResult,
+  TrialBalance,
+  UnbalancedEntryError,
+  UserNotFoundError,
+  WalletNotFoundError,
+} from "../types";
+import { addDecimals, canonicalAmount, compareDecimals, parseAmount } from "../money/money";
+import {
+  allOf,
+  creditLimitOf,
+  creditWallet,
+  debitWallet,
+  insufficientBalance,
+  isMissingWallet,
+  walletTarget,
+} from "../wallet/wallet";
+import { assertSameRequest, entryFields, fingerprint, storedEntryFields } from "../transact/idempotency";
+import { cancellationCodes, DEFAULT_RETRY_POLICY, RetryPolicy, Sleep, withRetry } from "../transact/retry";
+import { transactionPostedItem } from "../outbox/outbox";
+import { checkDebitLimits, LimitCounter, limitCounters } from "../limits/limits";
+
+// the accounts that aren't a user's wallet
+export const SYSTEM_ACCOUNTS = ["cash", "fees", "suspense"] as const;
+
+export type SystemAccount = (typeof SYSTEM_ACCOUNTS)[number];
+
+// where the money credited to or debited from a user comes from or goes to, see TransactService.transact
+export const FUNDING_ACCOUNT: SystemAccount = "cash";
+
+// what's left unexplained, e.g. the differences booked by the reconciliation
+export const SUSPENSE_ACCOUNT: SystemAccount = "suspense";
+
+const USER_ACCOUNT_PREFIX = "user:";
+
+// how many times a posting is written again when a user's credit limit changed since it was pinned
+const MAX_CREDIT_LIMIT_ATTEMPTS = 3;
+
+export type JournalServiceOptions = {
+  // overrides of DEFAULT_RETRY_POLICY for transient transaction conflicts
+  retryPolicy?: Partial<RetryPolicy>;
+  // injectable so tests can run the backoff without waiting
+  sleep?: Sleep;
+  random?: () => number;
+};
+
+// what an item of a posting writes, to tell why it was cancelled
+type ItemRole =
+  | { kind: "wallet"; userId: string; side: TransactionType }
+  | { kind: "user"; userId: string }
+  | { kind: "limit"; counter: LimitCounter }
+  | { kind: "record" };
+
+// the account of a user's wallet
+export function userAccount(userId: string): string {
+  return `${USER_ACCOUNT_PREFIX}${userId}`;
+}
+
+// the user of a wallet account, undefined for a system account
+export function accountUserId(account: string): string | undefined {
+  return account.startsWith(USER_ACCOUNT_PREFIX) ? account.slice(USER_ACCOUNT_PREFIX.length) : undefined;
+}
+
+export function oppositeSide(side: TransactionType): TransactionType {
+  return side === TransactionType.CREDIT ? TransactionType.DEBIT : TransactionType.CREDIT;
+}
+
+// The entry of a change to one user's wallet, balanced by the opposite line on a system account.
+// Crediting a user debits the system account
+export function userEntry(
+  entryId: string,
+  userId: string,
+  side: TransactionType,
+  amount: string,
+  currency: string,
+  account: SystemAccount = FUNDING_ACCOUNT
+): JournalEntry {
+  return {
+    entryId,
+    currency,
+    lines: [
+      { account: userAccount(userId), side, amount },
+      { account, side: oppositeSide(side), amount },
+    ],
+  };
+}
+
+// Puts of the lines of an entry, failing if the entry was already posted.
+// Callers write them with the balance changes, in the same TransactWriteItems call
+export function journalItems(config: TConfig, entry: JournalEntry, timestamp: string): { Put: Put }[] {
+  const currency = entry.currency ?? config.DEFAULT_CURRENCY;
+  const entryFingerprint = fingerprint(entryFields(entry, config.DEFAULT_CURRENCY));
+
+  return entry.lines.map((line, index) => ({
+    Put: {
+      TableName: config.DB_JOURNAL_TABLE,
+      Item: {
+        entryId: { S: entry.entryId },
+        line: { N: String(index) },
+        account: { S: line.account },
+        side: { S: line.side },
+        amount: { N: canonicalAmount(line.amount, currency) },
+        currency: { S: currency },
+        fingerprint: { S: entryFingerprint },
+        timestamp: { N: timestamp },
+      },
+      ConditionExpression: "attribute_not_exists(entryId)",
+    },
+  }));
+}
+
+// Class to post balanced entries to the journal. The lines on user accounts change the users' wallets
+// and are recorded in the Transactions table like any other transaction, so they show in the history
+// and have a TransactionPosted event
+export class JournalService {
+  private _client: DynamoDB;
+  private _config: TConfig;
+  private _tableName: string;
+  private _retryPolicy: RetryPolicy;
+  private _sleep?: Sleep;
+  private _random?: () => number;
+
+  constructor(client: DynamoDB, config: TConfig, options: JournalServiceOptions = {}) {
+    this._client = client;
+    this._config = config;
+    this._tableName = config.DB_JOURNAL_TABLE;
+    this._retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    this._sleep = options.sleep;
+    this._random = options.random;
+  }
+
+  // input validation, throws UnbalancedEntryError when the debits don't add up to the credits
+  validate(entry: JournalEntry): void {
+    if (!entry.entryId) {
+      throw new InvalidIdempotencyKeyError();
+    }
+
+    const currency = entry.currency ?? this._config.DEFAULT_CURRENCY;
+    const lines = entry.lines ?? [];
+    if (!lines.some((line) => line.side === TransactionType.DEBIT) ||
+      !lines.some((line) => line.side === TransactionType.CREDIT)) {
+      throw new InvalidJournalEntryError("it needs at least one debit line and one credit line");
+    }
+
+    const users = new Set<string>();
+    let debits = "0";
+    let credits = "0";
+    for (const line of lines) {
+      // requests coming over HTTP aren't checked by the type system
+      if (!Object.values(TransactionType).includes(line.side)) {
+        throw new InvalidJournalEntryError(`unknown side ${line.side}`);
+      }
+
+      const userId = accountUserId(line.account ?? "");
+      if (userId === undefined && !(SYSTEM_ACCOUNTS as readonly string[]).includes(line.account)) {
+        throw new InvalidJournalEntryError(`unknown account ${line.account}`);
+      }
+      if (userId !== undefined) {
+        if (!userId) {
+          throw new InvalidJournalEntryError(`unknown account ${line.account}`);
+        }
+        // a wallet can only be updated once per TransactWriteItems call
+        if (users.has(userId)) {
+          throw new InvalidJournalEntryError(`account ${line.account} is on more than one line`);
+        }
+        users.add(userId);
+      }
+
+      // throws InvalidAmountError unless it fits the currency
+      parseAmount(line.amount, currency);
+      if (line.side === TransactionType.DEBIT) {
+        debits = addDecimals(debits, line.amount);
+      } else {
+        credits = addDecimals(credits, line.amount);
+      }
+    }
+
+    if (compareDecimals(debits, credits) !== 0) {
+      throw new UnbalancedEntryError(entry.entryId, debits, credits);
+    }
+
+    if (this.buildItems(entry, "0").items.length > MAX_TRANSACT_ITEMS) {
+      throw new InvalidJournalEntryError("it has too many lines to be written at once");
+    }
+  }
+
+  // the lines of an entry, sorted by line, empty when it wasn't posted
+  async getEntry(entryId: string): Promise<Record<string, AttributeValue>[]> {
+    const response = await this._client.send(
+      new QueryCommand({
+        TableName: this._tableName,
+        KeyConditionExpression: "entryId = :entryId",
+        ExpressionAttributeValues: { ":entryId": { S: entryId } },
+        ConsistentRead: true,
+      })
+    );
+
+    return response.Items ?? [];
+  }
+
+  // throws IdempotencyKeyMismatchError when the stored entry has different lines
+  assertReplayMatches(entry: JournalEntry, existing: Record<string, AttributeValue>[]): void {
+    assertSameRequest(
+      entry.entryId,
+      entryFields(entry, this._config.DEFAULT_CURRENCY),
+      storedEntryFields(existing),
+      existing[0]?.fingerprint?.S
+    );
+  }
+
+  // Writes every line, and the wallet changes of the user lines, as an atomic operation.
+  // Debited users may use the overdraft of their credit limit, see debitWallet,
+  // and each user line debited counts towards that user's spending limits like transact.
+  // this method will not perform any validation
+  async post(entry: JournalEntry): Promise<TransactResult> {
+    const currency = entry.currency ?? this._config.DEFAULT_CURRENCY;
+    for (const line of entry.lines) {
+      if (line.side === TransactionType.DEBIT && accountUserId(line.account) !== undefined) {
+        checkDebitLimits(this._config, canonicalAmount(line.amount, currency), currency);
+      }
+    }
+
+    const timestamp = Date.now().toString();
+    // the credit limits by userId, only known once a debit fails without them
+    const creditLimits = new Map<string, string | undefined>();
+    let attempts = 0;
+
+    for (let posting = 1; ; posting++) {
+      const { items, roles } = this.buildItems(entry, timestamp, creditLimits);
+
+      try {
+        await withRetry(
+          async (attempt) => {
+            attempts = attempt;
+            await this._client.send(new TransactWriteItemsCommand({ TransactItems: items }));
+          },
+          this._retryPolicy,
+          { sleep: this._sleep, random: this._random }
+        );
+
+        return { attempts };
+      } catch (error) {
+        if (!(error instanceof TransactionCanceledException)) {
+          throw error;
+        }
+
+        const reasons = error.CancellationReasons ?? [];
+        const failed = (index: number) => reasons[index]?.Code === "ConditionalCheckFailed";
+
+        // the entry was already posted, either earlier or by a concurrent request
+        if (roles.some((role, index) => role.kind === "record" && failed(index))) {
+          const existing = await this.getEntry(entry.entryId);
+          if (existing.length > 0) {
+            this.assertReplayMatches(entry, existing);
+            return { attempts };
+          }
+        }
+
+        let retry = false;
+        for (const [index, role] of roles.entries()) {
+          if (!failed(index) || role.kind === "record") {
+            continue;
+          }
+          if (role.kind === "user") {
+            throw new UserNotFoundError(role.userId);
+          }
+          // the debit would go over one of the user's spending limits
+          if (role.kind === "limit") {
+            throw new LimitExceededError(role.counter.limit, role.counter.max);
+          }
+
+          const item = reasons[index].Item;
+          if (isMissingWallet(this._config, role.userId, currency, item)) {
+            throw new WalletNotFoundError(role.userId, currency);
+          }
+          // without the old item, the condition failed because the user does not exist
+          if (!item) {
+            throw new UserNotFoundError(role.userId);
+          }
+          // a credit only fails on the wallet's currency, see isMissingWallet
+          if (role.side === TransactionType.CREDIT) {
+            throw new WalletNotFoundError(role.userId, currency);
+          }
+
+          // try again against the user's credit limit
+          const creditLimit = creditLimitOf(this._config, currency, item);
+          if (creditLimit !== creditLimits.get(role.userId) && posting < MAX_CREDIT_LIMIT_ATTEMPTS) {
+            creditLimits.set(role.userId, creditLimit);
+            retry = true;
+            continue;
+          }
+          throw insufficientBalance(this._config, currency, item);
+        }
+
+        if (retry) {
+          continue;
+        }
+        throw new TransactionFailedError(error.message, attempts, cancellationCodes(error));
+      }
+    }
+  }
+
+  // Adds up the lines of every account. Each entry is balanced, so the accounts of a currency add up to zero,
+  // anything else means lines were written or lost outside of the journal
+  async trialBalance(): Promise<TrialBalance> {
+    const totals = new Map<string, Map<string, { debits: string; credits: string }>>();
+
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const response = await this._client.send(
+        new ScanCommand({
+          TableName: this._tableName,
+          ProjectionExpression: "#account, #side, #amount, #currency",
+          ExpressionAttributeNames: { "#account": "account", "#side": "side", "#amount": "amount", "#currency": "currency" },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+      for (const item of response.Items ?? []) {
+        const accounts = totals.get(item.currency.S!) ?? new Map();
+        totals.set(item.currency.S!, accounts);
+        const account = accounts.get(item.account.S!) ?? { debits: "0", credits: "0" };
+        accounts.set(item.account.S!, account);
+
+        if (item.side.S === TransactionType.DEBIT) {
+          account.debits = addDecimals(account.debits, item.amount.N!);
+        } else {
+          account.credits = addDecimals(account.credits, item.amount.N!);
+        }
+      }
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    const report: TrialBalance = { accounts: [], totals: [], balanced: true };
+    for (const currency of [...totals.keys()].sort()) {
+      let debits = "0";
+      let credits = "0";
+      const accounts = totals.get(currency)!;
+      for (const account of [...accounts.keys()].sort()) {
+        const total = accounts.get(account)!;
+        report.accounts.push({ account, currency, ...total, balance: addDecimals(total.credits, `-${total.debits}`) });
+        debits = addDecimals(debits, total.debits);
+        credits = addDecimals(credits, total.credits);
+      }
+
+      const balance = addDecimals(credits, `-${debits}`);
+      report.totals.push({ currency, debits, credits, balance });
+      report.balanced = report.balanced && compareDecimals(balance, "0") === 0;
+    }
+
+    return report;
+  }
+
+  // the items of a posting, with what each one writes. Debits use the credit limits pinned by userId
+  private buildItems(
+    entry: JournalEntry,
+    timestamp: string,
+    creditLimits: Map<string, string | undefined> = new Map()
+  ): { items: TransactWriteItem[]; roles: ItemRole[] } {
+    const currency = entry.currency ?? this._config.DEFAULT_CURRENCY;
+    const entryFingerprint = fingerprint(entryFields(entry, this._config.DEFAULT_CURRENCY));
+    const items: TransactWriteItem[] = [];
+    const roles: ItemRole[] = [];
+
+    entry.lines.forEach((line, index) => {
+      const userId = accountUserId(line.account);
+      if (userId === undefined) {
+        return;
+      }
+
+      const amount = canonicalAmount(line.amount, currency);
+      const primary = walletTarget(this._config, userId, currency).primary;
+      if (line.side === TransactionType.CREDIT) {
+        const credit = creditWallet(this._config, userId, amount, currency);
+        // the user must already exist, a wallet in another currency is created by its first credit
+        items.push({
+          Update: {
+            ...credit.Update,
+            ConditionExpression: allOf(primary ? "attribute_exists(userId)" : undefined, credit.Update.ConditionExpression),
+          },
+        });
+        roles.push({ kind: "wallet", userId, side: line.side });
+        if (!primary) {
+          items.push({
+            ConditionCheck: {
+              TableName: this._config.DB_USERS_TABLE,
+              Key: { userId: { S: userId } },
+              ConditionExpression: "attribute_exists(userId)",
+            },
+          });
+          roles.push({ kind: "user", userId });
+        }
+      } else {
+        items.push(debitWallet(this._config, userId, amount, currency, creditLimits.get(userId)));
+        roles.push({ kind: "wallet", userId, side: line.side });
+      }
+
+      // the user's side of the entry, like a transaction, and its event
+      const transaction: Record<string, AttributeValue> = {
+        idempotencyKey: { S: `${entry.entryId}:${index}` },
+        userId: { S: userId },
+        amount: { N: amount },
+        type: { S: line.side },
+        currency: { S: currency },
+        entryId: { S: entry.entryId },
+        fingerprint: { S: entryFingerprint },
+        timestamp: { N: timestamp },
+      };
+      items.push({
+        Put: {
+          TableName: this._config.DB_TRANSACTIONS_TABLE,
+          Item: transaction,
+          ConditionExpression: "attribute_not_exists(idempotencyKey)",
+        },
+      });
+      roles.push({ kind: "record" });
+      items.push(transactionPostedItem(this._config, transaction));
+      roles.push({ kind: "record" });
+
+      // and what a debit adds to the user's spending limits
+      if (line.side === TransactionType.DEBIT) {
+        for (const counter of limitCounters(this._config, userId, amount, currency, Number(timestamp))) {
+          items.push(counter.item);
+          roles.push({ kind: "limit", counter });
+        }
+      }
+    });
+
+    for (const item of journalItems(this._config, entry, timestamp)) {
+      items.push(item);
+      roles.push({ kind: "record" });
+    }
+
+    return { items, roles };
+  }
+}
+
+// wrapper that creates a facade function for posting a journal entry
+export function createPostEntryFn(client: DynamoDB): PostEntryFunction {
+  const journalService = new JournalService(client, Config);
+
+  return async (entry: JournalEntry) => {
+    // input validation
+    journalService.validate(entry);
+
+    // check if the entry was already posted
+    const existing = await journalService.getEntry(entry.entryId);
+    if (existing.length > 0) {
+      // an identical replay does nothing, different lines under the same entryId throw
+      journalService.assertReplayMatches(entry, existing);
+      return;
+    }
+
+    // proceed with the posting, users' existence and balances are checked atomically
+    await journalService.post(entry);
+  };
+}
@@ -0,0 +1,42 @@
+// The parts of the Lambda event and result payloads the handlers use.
+// See https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-develop-integrations-lambda.html
+
+// REST APIs, and HTTP APIs configured with payload format 1.0
+export type ApiGatewayProxyEventV1 = {
+  version?: "1.0";
+  httpMethod: string;
+  path: string;
+  headers: Record<string, string | undefined> | null;
+  queryStringParameters: Record<string, string | undefined> | null;
+  multiValueQueryStringParameters?: Record<string, string[] | undefined> | null;
+  body: string | null;
+  isBase64Encoded: boolean;
+};
+
+// HTTP APIs with payload format 2.0, the default
+export type ApiGatewayProxyEventV2 = {
+  version: "2.0";
+  routeKey: string;
+  rawPath: string;
+  rawQueryString: string;
+  headers?: Record<string, string | undefined>;
+  body?: string;
+  isBase64Encoded: boolean;
+  requestContext: {
+    stage: string;
+    http: {
+      method: string;
+      path: string;
+    };
+  };
+};
+
+export type ApiGatewayProxyEvent = ApiGatewayProxyEventV1 | ApiGatewayProxyEventV2;
+
+// understood by both payload formats
+export type ApiGatewayProxyResult = {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+  isBase64Encoded: false;
+};
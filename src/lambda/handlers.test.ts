@@ -0,0 +1,183 @@
+import { PutItemCommand, UpdateItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { HoldService } from "../holds/holds";
+import { HoldStatus, InsufficientBalanceError, UserNotFoundError } from "../types";
+import {
+  createApiGatewayHandler,
+  createExpireHoldsHandler,
+  createGetUserBalanceHandler,
+  createTransactHandler,
+  toHttpRequest,
+} from "./handlers";
+import v1GetBalance from "./fixtures/api-gateway-v1-get-balance.json";
+import v1PostTransaction from "./fixtures/api-gateway-v1-post-transaction.json";
+import v2ListTransactions from "./fixtures/api-gateway-v2-list-transactions.json";
+import v2PostTransaction from "./fixtures/api-gateway-v2-post-transaction.json";
+import directGetBalance from "./fixtures/direct-get-balance.json";
+import directTransact from "./fixtures/direct-transact.json";
+import scheduledExpireHolds from "./fixtures/scheduled-expire-holds.json";
+
+describe("lambda handlers", () => {
+  let db: InMemoryDynamoDB;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    await db.send(
+      new PutItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Item: { userId: { S: "1" }, balance: { N: "100" }, currency: { S: "USD" } },
+      })
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("createApiGatewayHandler", () => {
+    it("should serve a REST API event", async () => {
+      const handler = createApiGatewayHandler(db);
+
+      const result = await handler(v1GetBalance as any);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers["Content-Type"]).toBe("application/json");
+      expect(JSON.parse(result.body)).toEqual({ userId: "1", balance: "100.00 USD" });
+    });
+
+    it("should read the Idempotency-Key header whatever its case", async () => {
+      const handler = createApiGatewayHandler(db);
+
+      const result = await handler(v1PostTransaction as any);
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body)).toMatchObject({ idempotentKey: "lambda-v1-1", amount: "10.50" });
+    });
+
+    it("should serve an HTTP API event with a base64 encoded body", async () => {
+      const handler = createApiGatewayHandler(db);
+
+      const result = await handler(v2PostTransaction as any);
+
+      expect(result.statusCode).toBe(201);
+      const balance = await createApiGatewayHandler(db)(v1GetBalance as any);
+      expect(JSON.parse(balance.body).balance).toBe("125.00 USD");
+    });
+
+    it("should route an HTTP API event on a named stage", async () => {
+      const handler = createApiGatewayHandler(db);
+      await handler(v2PostTransaction as any);
+
+      const result = await handler(v2ListTransactions as any);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).transactions).toEqual([
+        expect.objectContaining({ idempotentKey: "lambda-v2-1", type: "credit" }),
+      ]);
+    });
+
+    it("should turn a domain error into its response", async () => {
+      const handler = createApiGatewayHandler(db);
+
+      const result = await handler({ ...v1GetBalance, path: "/users/2/balance" } as any);
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body)).toEqual({
+        error: "UserNotFoundError",
+        message: "User with ID 2 not found",
+      });
+    });
+
+    it("should return 400 for a body that isn't JSON", async () => {
+      const handler = createApiGatewayHandler(db);
+
+      const result = await handler({ ...v1PostTransaction, body: "amount=10" } as any);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe("InvalidRequestBodyError");
+    });
+  });
+
+  describe("toHttpRequest", () => {
+    it("should keep repeated query parameters of a REST API event", () => {
+      const request = toHttpRequest({
+        ...v1GetBalance,
+        queryStringParameters: { type: "debit" },
+        multiValueQueryStringParameters: { type: ["credit", "debit"] },
+      } as any);
+
+      expect(request.query.getAll("type")).toEqual(["credit", "debit"]);
+    });
+
+    it("should strip the stage of an HTTP API event", () => {
+      expect(toHttpRequest(v2ListTransactions as any).path).toBe("/users/1/transactions");
+    });
+  });
+
+  describe("direct invocation", () => {
+    it("should return the user's balance", async () => {
+      const handler = createGetUserBalanceHandler(db);
+
+      await expect(handler(directGetBalance)).resolves.toEqual({ userId: "1", balance: "100.00 USD" });
+    });
+
+    it("should apply a transaction once", async () => {
+      const handler = createTransactHandler(db);
+
+      await handler(directTransact);
+      await expect(handler(directTransact)).resolves.toEqual({ ...directTransact, currency: "USD" });
+
+      await expect(createGetUserBalanceHandler(db)(directGetBalance)).resolves.toMatchObject({
+        balance: "105.00 USD",
+      });
+    });
+
+    it("should throw domain errors as they are", async () => {
+      await expect(createGetUserBalanceHandler(db)({ userId: "2" })).rejects.toThrow(UserNotFoundError);
+      await expect(
+        createTransactHandler(db)({ ...directTransact, type: "debit", amount: "1000" })
+      ).rejects.toThrow(InsufficientBalanceError);
+    });
+
+    it("should release the expired holds on schedule", async () => {
+      const placedAt = Date.now() - 2 * Config.HOLD_EXPIRY_SECONDS * 1000;
+      await new HoldService(db, Config, { now: () => placedAt }).placeHold({ holdId: "h1", userId: "1", amount: "40" });
+
+      await expect(createExpireHoldsHandler(db)(scheduledExpireHolds)).resolves.toEqual({ released: 1, failures: [] });
+      await expect(new HoldService(db, Config).getHold("h1")).resolves.toMatchObject({ status: HoldStatus.EXPIRED });
+    });
+
+    it("should fail the invocation once the sweep is over when a hold wasn't released", async () => {
+      const placedAt = Date.now() - 2 * Config.HOLD_EXPIRY_SECONDS * 1000;
+      await new HoldService(db, Config, { now: () => placedAt }).placeHold({ holdId: "h1", userId: "1", amount: "40" });
+      // the funds can't be returned to a wallet without an available balance
+      await db.send(
+        new UpdateItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Key: { userId: { S: "1" } },
+          UpdateExpression: "REMOVE availableBalance",
+        })
+      );
+
+      await expect(createExpireHoldsHandler(db)(scheduledExpireHolds)).rejects.toThrow(
+        "Released 0 expired holds, 1 failed: h1"
+      );
+      await expect(new HoldService(db, Config).getHold("h1")).resolves.toMatchObject({ status: HoldStatus.ACTIVE });
+    });
+
+    it("should reject an event that isn't an object", async () => {
+      await expect(createTransactHandler(db)("deposit")).rejects.toMatchObject({
+        name: "InvalidRequestBodyError",
+      });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { Config } from "../config";
+import { createUserBalanceFn } from "../user/user";
+import { createTransactFn } from "../transact/transact";
+import { HoldService } from "../holds/holds";
+import { createRouter, dispatch } from "../server/server";
+import { errorResponse } from "../server/errors";
+import { asObject, stringField, toTransactionInput } from "../server/request";
+import { HttpRequest, RouteResponse } from "../server/router";
+import { ExpiredHoldsReport, Transaction } from "../types";
+import { createLogger, Logger } from "../logger/logger";
+import { ApiGatewayProxyEvent, ApiGatewayProxyResult } from "./events";
+
+// API Gateway proxy integration, for REST APIs and both HTTP API payload formats.
+// It serves the same routes as the HTTP server, with the same error responses
+export function createApiGatewayHandler(client: DynamoDB, logger: Logger = createLogger(Config)) {
+  const router = createRouter(client, logger);
+
+  return async (event: ApiGatewayProxyEvent): Promise<ApiGatewayProxyResult> => {
+    let request: HttpRequest;
+    try {
+      request = toHttpRequest(event);
+    } catch (error) {
+      return toResult(errorResponse(error, logger));
+    }
+
+    return toResult(await dispatch(router, request, logger));
+  };
+}
+
+// Direct invocation with a GetUserBalanceInput, e.g. from another function or a Step Functions task.
+// Errors are thrown as they are, so the invocation fails with their name as errorType
+export function createGetUserBalanceHandler(client: DynamoDB) {
+  const getUserBalance = createUserBalanceFn(client, Config);
+
+  return async (event: unknown): Promise<{ userId: string; balance: string }> => {
+    const input = asObject(event);
+    const userId = stringField(input, "userId") ?? "";
+    const balance = await getUserBalance({ userId, currency: stringField(input, "currency") });
+
+    return { userId, balance };
+  };
+}
+
+// Direct invocation with a TransactionInput, errors are thrown like createGetUserBalanceHandler's
+export function createTransactHandler(client: DynamoDB) {
+  const transact = createTransactFn(client);
+
+  return async (event: unknown): Promise<Omit<Transaction, "timestamp">> => {
+    const body = asObject(event);
+    const input = toTransactionInput(body, stringField(body, "idempotentKey"));
+
+    // a replay resolves like the original request did
+    await transact(input);
+
+    return { ...input, currency: input.currency ?? Config.DEFAULT_CURRENCY };
+  };
+}
+
+// Scheduled invocation, e.g. an EventBridge rule every minute, releasing the funds of the expired holds.
+// The event carries nothing it needs. When a hold couldn't be released, the invocation fails
+// once every other hold was, so it shows up in the function's errors
+export function createExpireHoldsHandler(client: DynamoDB, logger: Logger = createLogger(Config)) {
+  const holdService = new HoldService(client, Config, { logger });
+
+  return async (): Promise<ExpiredHoldsReport> => {
+    const report = await holdService.releaseExpiredHolds();
+    if (report.failures.length > 0) {
+      const holdIds = report.failures.map((failure) => failure.holdId).join(", ");
+      throw new Error(`Released ${report.released} expired holds, ${report.failures.length} failed: ${holdIds}`);
+    }
+
+    return report;
+  };
+}
+
+export function toHttpRequest(event: ApiGatewayProxyEvent): HttpRequest {
+  const body = decodeBody(event.body ?? undefined, event.isBase64Encoded);
+
+  if (event.version === "2.0") {
+    return {
+      method: event.requestContext.http.method,
+      path: withoutStage(event.rawPath, event.requestContext.stage),
+      query: new URLSearchParams(event.rawQueryString),
+      headers: lowerCaseNames(event.headers ?? {}),
+      body,
+    };
+  }
+
+  // single values are only the last of repeated parameters, prefer all of them
+  const query = new URLSearchParams();
+  if (event.multiValueQueryStringParameters) {
+    for (const [name, values] of Object.entries(event.multiValueQueryStringParameters)) {
+      values?.forEach((value) => query.append(name, value));
+    }
+  } else {
+    for (const [name, value] of Object.entries(event.queryStringParameters ?? {})) {
+      if (value !== undefined) query.append(name, value);
+    }
+  }
+
+  return {
+    method: event.httpMethod,
+    path: event.path,
+    query,
+    headers: lowerCaseNames(event.headers ?? {}),
+    body,
+  };
+}
+
+function toResult(response: RouteResponse): ApiGatewayProxyResult {
+  return {
+    statusCode: response.status,
+    headers: { "Content-Type": "application/json", ...response.headers },
+    body: JSON.stringify(response.body),
+    isBase64Encoded: false,
+  };
+}
+
+function decodeBody(body: string | undefined, isBase64Encoded: boolean): string | undefined {
+  return body !== undefined && isBase64Encoded ? Buffer.from(body, "base64").toString("utf8") : body;
+}
+
+// HTTP APIs on a named stage have it in the raw path, e.g. /prod/users/1/balance
+function withoutStage(path: string, stage: string): string {
+  const prefix = `/${stage}`;
+  if (stage === "$default" || !(path === prefix || path.startsWith(`${prefix}/`))) {
+    return path;
+  }
+  return path.slice(prefix.length) || "/";
+}
+
+// REST APIs keep the header names as sent
+function lowerCaseNames(headers: Record<string, string | undefined>): Record<string, string | undefined> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
@@ -0,0 +1,19 @@
+import { Config } from "../config";
+import { createClient } from "../db/client";
+import {
+  createApiGatewayHandler,
+  createExpireHoldsHandler,
+  createGetUserBalanceHandler,
+  createTransactHandler,
+} from "./handlers";
+
+// Created once per execution environment, so warm starts reuse the client and its connections.
+// In Lambda the configuration defaults to the prod profile, in the function's region
+const client = createClient(Config);
+
+// the deployed handlers, e.g. "index.apiGateway"
+export const apiGateway = createApiGatewayHandler(client);
+export const getUserBalance = createGetUserBalanceHandler(client);
+export const transact = createTransactHandler(client);
+// on a schedule, so expired holds give their funds back
+export const expireHolds = createExpireHoldsHandler(client);
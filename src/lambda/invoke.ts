@@ -0,0 +1,43 @@
+import { readFileSync } from "fs";
+import { Config } from "../config";
+import { createClient } from "../db/client";
+import {
+  createApiGatewayHandler,
+  createExpireHoldsHandler,
+  createGetUserBalanceHandler,
+  createTransactHandler,
+} from "./handlers";
+import { ApiGatewayProxyEvent } from "./events";
+
+// the handlers of index.ts, against the configured DynamoDB, the local one by default.
+// The direct ones check their event themselves, an API Gateway event file is trusted to be one
+const client = createClient(Config);
+const apiGateway = createApiGatewayHandler(client);
+const handlers: Record<string, (event: unknown) => Promise<unknown>> = {
+  apiGateway: (event) => apiGateway(event as ApiGatewayProxyEvent),
+  getUserBalance: createGetUserBalanceHandler(client),
+  transact: createTransactHandler(client),
+  expireHolds: createExpireHoldsHandler(client),
+};
+
+// invokes a handler with an event file, e.g. one of the fixtures
+async function main(handlerName: string | undefined, eventPath: string | undefined) {
+  const handler = handlerName ? handlers[handlerName] : undefined;
+  if (!handler || !eventPath) {
+    throw new Error(`Usage: invoke <${Object.keys(handlers).join("|")}> <event.json>`);
+  }
+
+  const event: unknown = JSON.parse(readFileSync(eventPath, "utf8"));
+  const result = await handler(event);
+  console.log(JSON.stringify(result, null, 2));
+}
+
+// only run this script if it's executed directly and it's not imported as a module
+if (process.argv[1] === __filename) {
+  main(process.argv[2], process.argv[3])
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("Invocation failed:", error);
+      process.exit(1);
+    });
+}
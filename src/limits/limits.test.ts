@@ -0,0 +1,230 @@
+import { PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { TransactService } from "../transact/transact";
+import { HoldService } from "../holds/holds";
+import { JournalService } from "../journal/journal";
+import { HoldStatus, LimitExceededError, TConfig, TransactionInput, TransactionType } from "../types";
+import { checkDebitLimits, limitCounters } from "./limits";
+
+describe("limits", () => {
+  const config: TConfig = {
+    ...Config,
+    DEBIT_LIMIT_PER_TRANSACTION: 50,
+    DEBIT_LIMIT_DAILY: 100,
+    DEBIT_LIMIT_MONTHLY: 150,
+    DEBIT_VELOCITY_MAX_COUNT: 3,
+    DEBIT_VELOCITY_WINDOW_SECONDS: 60,
+  };
+  // 2024-01-31T23:59:00Z
+  const timestamp = Date.UTC(2024, 0, 31, 23, 59);
+
+  describe("checkDebitLimits", () => {
+    it("should refuse an amount over a limit on its own", () => {
+      expect(() => checkDebitLimits(config, "50.01", "USD")).toThrow(
+        new LimitExceededError("perTransaction", "50 USD")
+      );
+      expect(() => checkDebitLimits({ ...config, DEBIT_LIMIT_PER_TRANSACTION: undefined }, "100.01", "USD")).toThrow(
+        new LimitExceededError("daily", "100 USD")
+      );
+    });
+
+    it("should only limit amounts in the default currency", () => {
+      expect(() => checkDebitLimits(config, "1000", "EUR")).not.toThrow();
+    });
+  });
+
+  describe("limitCounters", () => {
+    it("should count the day, the month and the velocity window in UTC", () => {
+      const counters = limitCounters(config, "1", "20", "USD", timestamp);
+
+      expect(counters.map(({ limit, counter }) => [limit, counter])).toEqual([
+        ["daily", "daily:USD:2024-01-31"],
+        ["monthly", "monthly:USD:2024-01"],
+        ["velocity", `velocity:60:${timestamp}`],
+      ]);
+      // expired a day after the window is over
+      expect(counters[0].item.Update?.ExpressionAttributeValues).toMatchObject({
+        ":room": { N: "80" },
+        ":expiresAt": { N: String(Date.UTC(2024, 1, 2) / 1000) },
+      });
+      expect(counters[1].item.Update?.ExpressionAttributeValues?.[":expiresAt"]).toEqual({
+        N: String(Date.UTC(2024, 1, 2) / 1000),
+      });
+    });
+
+    it("should have no counters without limits", () => {
+      expect(limitCounters(Config, "1", "20", "USD", timestamp)).toEqual([]);
+    });
+  });
+
+  describe("with TransactService", () => {
+    let db: InMemoryDynamoDB;
+    let transactService: TransactService;
+    let now: number;
+
+    const debit = (key: string, amount: string, currency?: string): TransactionInput => ({
+      idempotentKey: key,
+      userId: "1",
+      amount,
+      type: TransactionType.DEBIT,
+      currency,
+    });
+
+    const balanceOf = (userId: string) =>
+      db.dump(Config.DB_USERS_TABLE).find((user) => user.userId.S === userId)?.balance?.N;
+
+    beforeEach(async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      jest.spyOn(console, "debug").mockImplementation(() => {});
+      now = timestamp;
+      jest.spyOn(Date, "now").mockImplementation(() => now);
+
+      db = new InMemoryDynamoDB();
+      await createSchema(db);
+      transactService = new TransactService(db, config);
+      await db.send(
+        new PutItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Item: { userId: { S: "1" }, currency: { S: "USD" }, balance: { N: "1000" } },
+        })
+      );
+      await transactService.transact({ ...debit("eur", "500", "EUR"), type: TransactionType.CREDIT });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should refuse a debit over the per-transaction limit without writing", async () => {
+      await expect(transactService.transact(debit("k1", "60"))).rejects.toThrow(
+        new LimitExceededError("perTransaction", "50 USD")
+      );
+
+      expect(db.dump(Config.DB_LIMIT_COUNTERS_TABLE)).toEqual([]);
+    });
+
+    it("should refuse the debit that would go over the daily total, leaving the balance as it was", async () => {
+      now = Date.UTC(2024, 0, 15, 23, 59);
+      await transactService.transact(debit("k1", "50"));
+      await transactService.transact(debit("k2", "40"));
+
+      await expect(transactService.transact(debit("k3", "10.01"))).rejects.toThrow(
+        new LimitExceededError("daily", "100 USD")
+      );
+      expect(balanceOf("1")).toBe("910");
+
+      // the next day starts from zero, the month keeps counting
+      now += 60_000;
+      await transactService.transact(debit("k4", "50"));
+      await expect(transactService.transact(debit("k5", "10.01"))).rejects.toThrow(
+        new LimitExceededError("monthly", "150 USD")
+      );
+    });
+
+    it("should cap the number of debits per window, in any currency", async () => {
+      now = Date.UTC(2024, 0, 31, 12);
+      await transactService.transact(debit("k1", "1"));
+      await transactService.transact(debit("k2", "1", "EUR"));
+      await transactService.transact(debit("k3", "1"));
+
+      await expect(transactService.transact(debit("k4", "1", "EUR"))).rejects.toThrow(
+        new LimitExceededError("velocity", "3 debits per 60 seconds")
+      );
+
+      now += 60_000;
+      await expect(transactService.transact(debit("k4", "1", "EUR"))).resolves.toEqual({ attempts: 1 });
+    });
+
+    it("should not let concurrent debits go over a limit together", async () => {
+      const results = await Promise.allSettled([
+        transactService.transact(debit("k1", "50")),
+        transactService.transact(debit("k2", "50")),
+        transactService.transact(debit("k3", "50")),
+      ]);
+
+      expect(results.filter((result) => result.status === "rejected")).toEqual([
+        { status: "rejected", reason: expect.any(LimitExceededError) },
+      ]);
+      expect(balanceOf("1")).toBe("900");
+    });
+
+    it("should count the source side of a transfer", async () => {
+      await db.send(
+        new PutItemCommand({ TableName: Config.DB_USERS_TABLE, Item: { userId: { S: "2" }, balance: { N: "0" } } })
+      );
+      await transactService.transact(debit("k1", "50"));
+      await transactService.transact(debit("k2", "50"));
+
+      await expect(
+        transactService.transfer({ idempotentKey: "t1", fromUserId: "1", toUserId: "2", amount: "1" })
+      ).rejects.toThrow(LimitExceededError);
+      await expect(
+        transactService.transfer({ idempotentKey: "t2", fromUserId: "2", toUserId: "1", amount: "60" })
+      ).rejects.toThrow(new LimitExceededError("perTransaction", "50 USD"));
+    });
+
+    it("should count the reversal of a credit, not of a debit", async () => {
+      await transactService.transact({ ...debit("c1", "60"), type: TransactionType.CREDIT });
+      await transactService.transact(debit("k1", "50"));
+      await transactService.transact(debit("k2", "40"));
+
+      await expect(
+        transactService.reverseTransaction({ originalIdempotencyKey: "c1", reversalKey: "r1", amount: "10.01" })
+      ).rejects.toThrow(new LimitExceededError("daily", "100 USD"));
+      await expect(
+        transactService.reverseTransaction({ originalIdempotencyKey: "c1", reversalKey: "r2" })
+      ).rejects.toThrow(new LimitExceededError("perTransaction", "50 USD"));
+      await transactService.reverseTransaction({ originalIdempotencyKey: "k1", reversalKey: "r3" });
+      expect(balanceOf("1")).toBe("1020");
+    });
+
+    it("should count the capture of a hold, leaving the hold active when it's refused", async () => {
+      const holdService = new HoldService(db, config, { now: () => now });
+      await transactService.transact(debit("k1", "50"));
+      await transactService.transact(debit("k2", "40"));
+      await holdService.placeHold({ holdId: "h1", userId: "1", amount: "60" });
+
+      await expect(holdService.captureHold({ holdId: "h1" })).rejects.toThrow(
+        new LimitExceededError("perTransaction", "50 USD")
+      );
+      await expect(holdService.captureHold({ holdId: "h1", amount: "10.01" })).rejects.toThrow(
+        new LimitExceededError("daily", "100 USD")
+      );
+      expect(await holdService.getHold("h1")).toMatchObject({ status: HoldStatus.ACTIVE });
+
+      await holdService.captureHold({ holdId: "h1", amount: "10" });
+      expect(balanceOf("1")).toBe("900");
+    });
+
+    it("should count the debited users of a journal entry", async () => {
+      const journalService = new JournalService(db, config);
+      const entry = (entryId: string, amount: string) => ({
+        entryId,
+        lines: [
+          { account: "user:1", side: TransactionType.DEBIT, amount },
+          { account: "fees", side: TransactionType.CREDIT, amount },
+        ],
+      });
+      await journalService.post(entry("e1", "50"));
+      await journalService.post(entry("e2", "40"));
+
+      await expect(journalService.post(entry("e3", "60"))).rejects.toThrow(
+        new LimitExceededError("perTransaction", "50 USD")
+      );
+      await expect(journalService.post(entry("e4", "10.01"))).rejects.toThrow(
+        new LimitExceededError("daily", "100 USD")
+      );
+      expect(balanceOf("1")).toBe("910");
+    });
+
+    it("should not count credits", async () => {
+      for (const key of ["k1", "k2", "k3", "k4"]) {
+        await transactService.transact({ ...debit(key, "50"), type: TransactionType.CREDIT });
+      }
+
+      expect(balanceOf("1")).toBe("1200");
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { CancellationReason, TransactWriteItem } from "@aws-sdk/client-dynamodb";
+import { LimitExceededError, LimitName, TConfig } from "../types";
+import { addDecimals, compareDecimals } from "../money/money";
+
+// how long a counter is kept once its window is over, before TTL deletes it
+const COUNTER_GRACE_SECONDS = 24 * 60 * 60;
+
+// A counter of what a user debited in a window, and the limit it enforces.
+// A debit adds to its counters in the same TransactWriteItems, each with a condition
+// that fails when the debit would go over the limit, so concurrent debits can't exceed it
+export type LimitCounter = {
+  limit: LimitName;
+  // the sort key of the counter item, e.g. "daily:USD:2024-01-31"
+  counter: string;
+  // describes the limit, see LimitExceededError
+  max: string;
+  item: TransactWriteItem;
+};
+
+// the limits on the amount of a debit, only debits in the default currency have them
+function amountLimits(config: TConfig, currency: string): { limit: LimitName; max: string }[] {
+  if (currency !== config.DEFAULT_CURRENCY) {
+    return [];
+  }
+
+  const limits: [LimitName, number | undefined][] = [
+    ["perTransaction", config.DEBIT_LIMIT_PER_TRANSACTION],
+    ["daily", config.DEBIT_LIMIT_DAILY],
+    ["monthly", config.DEBIT_LIMIT_MONTHLY],
+  ];
+  return limits.flatMap(([limit, max]) => (max === undefined ? [] : [{ limit, max: String(max) }]));
+}
+
+// Throws LimitExceededError when the amount alone is over a limit, before anything is written.
+// Totals over a window are only known to DynamoDB, see limitCounters
+export function checkDebitLimits(config: TConfig, amount: string, currency: string): void {
+  for (const { limit, max } of amountLimits(config, currency)) {
+    if (compareDecimals(amount, max) > 0) {
+      throw new LimitExceededError(limit, `${max} ${currency}`);
+    }
+  }
+}
+
+// The counters a debit of the amount adds to, at the timestamp in milliseconds.
+// Windows are fixed, in UTC: the calendar day, the calendar month, and DEBIT_VELOCITY_WINDOW_SECONDS
+// since the epoch. The amount must have passed checkDebitLimits
+export function limitCounters(
+  config: TConfig,
+  userId: string,
+  amount: string,
+  currency: string,
+  timestamp: number
+): LimitCounter[] {
+  const now = new Date(timestamp);
+  const counters: LimitCounter[] = [];
+
+  for (const { limit, max } of amountLimits(config, currency)) {
+    if (limit === "perTransaction") {
+      continue;
+    }
+
+    const [counter, windowEnd] = limit === "daily"
+      ? [`daily:${currency}:${now.toISOString().slice(0, 10)}`, Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)]
+      : [`monthly:${currency}:${now.toISOString().slice(0, 7)}`, Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)];
+
+    counters.push({
+      limit,
+      counter,
+      max: `${max} ${currency}`,
+      item: {
+        Update: {
+          TableName: config.DB_LIMIT_COUNTERS_TABLE,
+          Key: { userId: { S: userId }, counter: { S: counter } },
+          UpdateExpression: "SET #expiresAt = :expiresAt ADD #total :amount",
+          // conditions can't add, so the total must leave room for the amount
+          ConditionExpression: "attribute_not_exists(#total) OR #total <= :room",
+          ExpressionAttributeNames: { "#total": "total", "#expiresAt": "expiresAt" },
+          ExpressionAttributeValues: {
+            ":amount": { N: amount },
+            ":room": { N: addDecimals(max, `-${amount}`) },
+            ":expiresAt": { N: expiresAt(windowEnd) },
+          },
+        },
+      },
+    });
+  }
+
+  const maxCount = config.DEBIT_VELOCITY_MAX_COUNT;
+  if (maxCount !== undefined) {
+    const windowMs = config.DEBIT_VELOCITY_WINDOW_SECONDS * 1000;
+    const windowStart = timestamp - (timestamp % windowMs);
+    const counter = `velocity:${config.DEBIT_VELOCITY_WINDOW_SECONDS}:${windowStart}`;
+
+    counters.push({
+      limit: "velocity",
+      counter,
+      max: `${maxCount} debits per ${config.DEBIT_VELOCITY_WINDOW_SECONDS} seconds`,
+      item: {
+        Update: {
+          TableName: config.DB_LIMIT_COUNTERS_TABLE,
+          Key: { userId: { S: userId }, counter: { S: counter } },
+          UpdateExpression: "SET #expiresAt = :expiresAt ADD #count :one",
+          ConditionExpression: "attribute_not_exists(#count) OR #count < :maxCount",
+          ExpressionAttributeNames: { "#count": "count", "#expiresAt": "expiresAt" },
+          ExpressionAttributeValues: {
+            ":one": { N: "1" },
+            ":maxCount": { N: String(maxCount) },
+            ":expiresAt": { N: expiresAt(windowStart + windowMs) },
+          },
+        },
+      },
+    });
+  }
+
+  return counters;
+}
+
+// the error of the first counter whose condition failed, reasons are the cancellation reasons of the counters
+export function limitFailure(counters: LimitCounter[], reasons: CancellationReason[]): LimitExceededError | undefined {
+  const index = reasons.findIndex((reason) => reason?.Code === "ConditionalCheckFailed");
+  const counter = index === -1 ? undefined : counters[index];
+
+  return counter && new LimitExceededError(counter.limit, counter.max);
+}
+
+// the TTL of a counter, in seconds since epoch like DynamoDB expects
+function expiresAt(windowEnd: number): string {
+  return String(Math.floor(windowEnd / 1000) + COUNTER_GRACE_SECONDS);
+}
@@ -0,0 +1,89 @@
+import { Config } from "../config";
+import { consoleWriter, createLogger, jsonWriter, REDACTED, StructuredLogger, withLogContext } from "./logger";
+
+describe("logger", () => {
+  let lines: string[];
+  const entries = () => lines.map((line) => JSON.parse(line));
+  const jsonLogger = (options = {}) => new StructuredLogger(jsonWriter((line) => lines.push(line)), options);
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should write an entry as a line of JSON, with the context's, its own and the entry's fields", async () => {
+    const logger = jsonLogger().child({ userId: "1" });
+
+    await withLogContext({ correlationId: "c1" }, async () => {
+      await Promise.resolve();
+      logger.info("Debited", { idempotencyKey: "k1" });
+    });
+    logger.info("Done");
+
+    expect(lines[0]).toMatch(/\n$/);
+    expect(entries()).toEqual([
+      {
+        timestamp: expect.any(String),
+        level: "info",
+        message: "Debited",
+        correlationId: "c1",
+        userId: "1",
+        idempotencyKey: "k1",
+      },
+      { timestamp: expect.any(String), level: "info", message: "Done", userId: "1" },
+    ]);
+  });
+
+  it("should drop the entries below its level", () => {
+    const logger = jsonLogger({ level: "warn" });
+
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("warn");
+    logger.error("error");
+
+    expect(entries().map((entry) => entry.level)).toEqual(["warn", "error"]);
+  });
+
+  it("should write an error's name and message, not its other fields", () => {
+    const error = Object.assign(new Error("Transaction cancelled"), { CancellationReasons: [{ Item: {} }] });
+
+    jsonLogger().error("Transaction failed", { error });
+
+    expect(entries()[0].error).toEqual({ name: "Error", message: "Transaction cancelled", stack: expect.any(String) });
+  });
+
+  it("should redact the amounts at any depth when told to", () => {
+    jsonLogger({ redactAmounts: true }).info("Debited", {
+      userId: "1",
+      amount: "10",
+      input: { amount: "10", currency: "USD" },
+      wallets: [{ balance: "90" }],
+    });
+    jsonLogger().info("Debited", { amount: "10" });
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        userId: "1",
+        amount: REDACTED,
+        input: { amount: REDACTED, currency: "USD" },
+        wallets: [{ balance: REDACTED }],
+      }),
+      expect.objectContaining({ amount: "10" }),
+    ]);
+  });
+
+  it("should call the console like before when the format isn't json", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const debug = jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    createLogger(Config).warn("No balance for user 1, returning default");
+    consoleWriter("debug", "Transaction canceled", { reasons: ["ConditionalCheckFailed"] });
+
+    expect(warn).toHaveBeenCalledWith("No balance for user 1, returning default");
+    expect(debug).toHaveBeenCalledWith("Transaction canceled", { reasons: ["ConditionalCheckFailed"] });
+  });
+});
@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { TConfig } from "../types";
+
+export type LogLevel = TConfig["LOG_LEVEL"];
+
+export type LogFields = Record<string, unknown>;
+
+// Where services log to, injected through their constructors like the DynamoDB client.
+// fields are attached to the entry, e.g. { userId, idempotencyKey, error }
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // a logger adding the fields to every entry of its own
+  child(fields: LogFields): Logger;
+}
+
+export type LoggerOptions = {
+  // entries below it are dropped, debug by default
+  level?: LogLevel;
+  redactAmounts?: boolean;
+  // added to every entry
+  fields?: LogFields;
+};
+
+// from the most verbose
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// what a redacted amount is replaced with
+export const REDACTED = "[redacted]";
+
+// the fields holding amounts and balances, at any depth
+const AMOUNT_FIELDS = new Set([
+  "amount",
+  "balance",
+  "availableBalance",
+  "resultingBalance",
+  "creditLimit",
+  "available",
+  "expected",
+  "difference",
+]);
+
+// the fields of the request being served, see withLogContext
+const context = new AsyncLocalStorage<LogFields>();
+
+// Runs fn with the fields added to every entry logged until it settles, on top of the current ones.
+// The server runs each request in one with its correlationId
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+// the fields of the current withLogContext, none outside of one
+export function logContext(): LogFields {
+  return context.getStore() ?? {};
+}
+
+// replaces the amount fields of plain objects and arrays, leaving everything else as it is
+function redactAmounts(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactAmounts);
+  }
+  if (!value || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([name, field]) => [
+      name,
+      AMOUNT_FIELDS.has(name) && field !== undefined ? REDACTED : redactAmounts(field),
+    ])
+  );
+}
+
+// an error as JSON, without the items and metadata some SDK errors carry
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, ...(error.stack && { stack: error.stack }) };
+}
+
+// Writes an entry somewhere, the fields already merged and redacted. See consoleWriter and jsonWriter
+export type LogWriter = (level: LogLevel, message: string, fields: LogFields) => void;
+
+// console.debug, info, warn and error like before loggers were injected, the fields follow the message when there are any
+export const consoleWriter: LogWriter = (level, message, fields) => {
+  if (Object.keys(fields).length === 0) {
+    console[level](message);
+  } else {
+    console[level](message, fields);
+  }
+};
+
+// Each entry as a line of JSON, for log pipelines. stderr by default, stdout is the CLI's output
+export function jsonWriter(writeLine: (line: string) => void = (line) => process.stderr.write(line)): LogWriter {
+  return (level, message, fields) => {
+    const entry = { timestamp: new Date().toISOString(), level, message, ...fields };
+    writeLine(`${JSON.stringify(entry, (_, value) => (value instanceof Error ? serializeError(value) : value))}\n`);
+  };
+}
+
+// Class to log entries at or above a level, with the fields of the context, its own and the entry's
+export class StructuredLogger implements Logger {
+  private _writer: LogWriter;
+  private _level: LogLevel;
+  private _redactAmounts: boolean;
+  private _fields: LogFields;
+
+  constructor(writer: LogWriter, options: LoggerOptions = {}) {
+    this._writer = writer;
+    this._level = options.level ?? "debug";
+    this._redactAmounts = options.redactAmounts ?? false;
+    this._fields = options.fields ?? {};
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new StructuredLogger(this._writer, {
+      level: this._level,
+      redactAmounts: this._redactAmounts,
+      fields: { ...this._fields, ...fields },
+    });
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(this._level)) {
+      return;
+    }
+    const all = { ...logContext(), ...this._fields, ...fields };
+    this._writer(level, message, this._redactAmounts ? (redactAmounts(all) as LogFields) : all);
+  }
+}
+
+// the logger of LOG_FORMAT, writing to the console like before when it isn't set
+export function createLogger(config: Partial<Pick<TConfig, "LOG_FORMAT" | "LOG_LEVEL" | "LOG_REDACT_AMOUNTS">>): Logger {
+  return new StructuredLogger(config.LOG_FORMAT === "json" ? jsonWriter() : consoleWriter, {
+    level: config.LOG_LEVEL,
+    redactAmounts: config.LOG_REDACT_AMOUNTS,
+  });
+}
@@ -0,0 +1,166 @@
+import { DynamoDB, GetItemCommand, PutItemCommand, ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { seed } from "../db/seed";
+import { Config } from "../config";
+import { TransactService } from "../transact/transact";
+import { InsufficientBalanceError, TransactionType } from "../types";
+import {
+  COMMAND_DURATION_SECONDS,
+  COMMANDS_TOTAL,
+  CommandTrace,
+  CONSUMED_CAPACITY_UNITS_TOTAL,
+  countOutcomes,
+  instrumentClient,
+  OK,
+  OPERATIONS_TOTAL,
+  RETRIES_TOTAL,
+  TRANSACTION_CANCELLATIONS_TOTAL,
+} from "./instrument";
+import { InMemoryMetricsSink } from "./metrics";
+
+describe("instrumentClient", () => {
+  let db: InMemoryDynamoDB;
+  let metrics: InMemoryMetricsSink;
+  let now: number;
+  let traces: CommandTrace[];
+  let client: InMemoryDynamoDB;
+
+  const transact = (key: string, amount: string, type: TransactionType) =>
+    new TransactService(client, Config).transact({ idempotentKey: key, userId: "1", amount, type });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    await db.send(
+      new PutItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Item: { userId: { S: "1" }, currency: { S: Config.DEFAULT_CURRENCY }, balance: { N: "100" } },
+      })
+    );
+
+    metrics = new InMemoryMetricsSink();
+    now = 0;
+    traces = [];
+    // every command takes 10ms
+    client = instrumentClient(db, metrics, { now: () => (now += 10), onCommand: (trace) => traces.push(trace) });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should record the latency and outcome of every command, and trace it", async () => {
+    await client.send(new GetItemCommand({ TableName: Config.DB_USERS_TABLE, Key: { userId: { S: "1" } } }));
+    await client.getItem({ TableName: Config.DB_USERS_TABLE, Key: { userId: { S: "2" } } });
+
+    expect(metrics.histogram(COMMAND_DURATION_SECONDS, { command: "GetItem" })).toMatchObject({ count: 2, sum: 0.02 });
+    expect(metrics.counter(COMMANDS_TOTAL, { command: "GetItem", outcome: OK })).toBe(2);
+    expect(traces[0]).toEqual({
+      command: "GetItem",
+      tableNames: [Config.DB_USERS_TABLE],
+      durationMs: 10,
+      outcome: OK,
+      error: undefined,
+    });
+  });
+
+  it("should count a refused debit by error class and by the table whose condition failed", async () => {
+    await transact("k1", "10", TransactionType.CREDIT);
+    await expect(transact("k2", "500", TransactionType.DEBIT)).rejects.toThrow(InsufficientBalanceError);
+
+    expect(metrics.counter(COMMANDS_TOTAL, { command: "TransactWriteItems", outcome: OK })).toBe(1);
+    expect(metrics.counter(COMMANDS_TOTAL, { command: "TransactWriteItems", outcome: "TransactionCanceledException" })).toBe(1);
+    expect(
+      metrics.counter(TRANSACTION_CANCELLATIONS_TOTAL, {
+        command: "TransactWriteItems",
+        table: Config.DB_USERS_TABLE,
+        code: "ConditionalCheckFailed",
+      })
+    ).toBe(1);
+    expect(traces.find((trace) => trace.outcome !== OK)).toMatchObject({
+      command: "TransactWriteItems",
+      tableNames: expect.arrayContaining([Config.DB_USERS_TABLE, Config.DB_TRANSACTIONS_TABLE]),
+      error: expect.objectContaining({ name: "TransactionCanceledException" }),
+    });
+  });
+
+  it("should ask for the consumed capacity and add it up per table", async () => {
+    await transact("k1", "10", TransactionType.CREDIT);
+    await seed(client, 2);
+
+    // two units per item written by a transaction, one per item of a batch
+    expect(
+      metrics.counter(CONSUMED_CAPACITY_UNITS_TOTAL, { command: "TransactWriteItems", table: Config.DB_USERS_TABLE })
+    ).toBe(2);
+    expect(
+      metrics.counter(CONSUMED_CAPACITY_UNITS_TOTAL, { command: "TransactWriteItems", table: Config.DB_OUTBOX_TABLE })
+    ).toBe(2);
+    expect(
+      metrics.counter(CONSUMED_CAPACITY_UNITS_TOTAL, { command: "BatchWriteItem", table: Config.DB_USERS_TABLE })
+    ).toBe(2);
+  });
+
+  it("should count the retries of the SDK", async () => {
+    const throttled = new ProvisionedThroughputExceededException({ message: "Rate exceeded", $metadata: { attempts: 3 } });
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({ $metadata: { httpStatusCode: 200, attempts: 2 } })
+      .mockRejectedValueOnce(throttled);
+    const stub = instrumentClient({ send } as unknown as DynamoDB, metrics);
+    const get = () => stub.send(new GetItemCommand({ TableName: Config.DB_USERS_TABLE, Key: { userId: { S: "1" } } }));
+
+    await get();
+    await expect(get()).rejects.toThrow(throttled);
+
+    expect(metrics.counter(RETRIES_TOTAL, { command: "GetItem" })).toBe(3);
+    expect(metrics.counter(COMMANDS_TOTAL, { command: "GetItem", outcome: "ProvisionedThroughputExceededException" })).toBe(1);
+  });
+
+  it("should ask for the consumed capacity on a copy, leaving the caller's command as it is", async () => {
+    const send = jest.fn().mockResolvedValue({ $metadata: { httpStatusCode: 200 } });
+    const stub = instrumentClient({ send } as unknown as DynamoDB, metrics);
+    const command = new GetItemCommand({ TableName: Config.DB_USERS_TABLE, Key: { userId: { S: "1" } } });
+
+    await stub.send(command);
+
+    const sent = send.mock.calls[0][0];
+    expect(sent).toBeInstanceOf(GetItemCommand);
+    expect(sent).not.toBe(command);
+    expect(sent.input).toEqual({ ...command.input, ReturnConsumedCapacity: "TOTAL" });
+    expect(command.input.ReturnConsumedCapacity).toBeUndefined();
+  });
+
+  it("should leave a command asking for its own consumed capacity as it is", async () => {
+    const command = new GetItemCommand({
+      TableName: Config.DB_USERS_TABLE,
+      Key: { userId: { S: "1" } },
+      ReturnConsumedCapacity: "NONE",
+    });
+
+    await client.send(command);
+
+    expect(metrics.counter(CONSUMED_CAPACITY_UNITS_TOTAL, { command: "GetItem", table: Config.DB_USERS_TABLE })).toBe(0);
+  });
+});
+
+describe("countOutcomes", () => {
+  it("should count every call of the function by its outcome", async () => {
+    const metrics = new InMemoryMetricsSink();
+    const transact = countOutcomes(metrics, "transact", async (amount: number) => {
+      if (amount > 100) {
+        throw new InsufficientBalanceError();
+      }
+      return amount;
+    });
+
+    await expect(transact(10)).resolves.toBe(10);
+    await expect(transact(500)).rejects.toThrow(InsufficientBalanceError);
+
+    expect(metrics.counter(OPERATIONS_TOTAL, { operation: "transact", outcome: OK })).toBe(1);
+    expect(metrics.counter(OPERATIONS_TOTAL, { operation: "transact", outcome: "InsufficientBalanceError" })).toBe(1);
+  });
+});
@@ -0,0 +1,223 @@
+import { performance } from "perf_hooks";
+import {
+  ConsumedCapacity,
+  DynamoDB,
+  DynamoDBServiceException,
+  ServiceInputTypes,
+  ServiceOutputTypes,
+  TransactGetItem,
+  TransactionCanceledException,
+  TransactWriteItem,
+} from "@aws-sdk/client-dynamodb";
+import { MetricsSink } from "./metrics";
+
+// the metrics recorded by instrumentClient
+export const COMMAND_DURATION_SECONDS = "dynamodb_command_duration_seconds";
+export const COMMANDS_TOTAL = "dynamodb_commands_total";
+export const CONSUMED_CAPACITY_UNITS_TOTAL = "dynamodb_consumed_capacity_units_total";
+export const RETRIES_TOTAL = "dynamodb_retries_total";
+export const TRANSACTION_CANCELLATIONS_TOTAL = "dynamodb_transaction_cancellations_total";
+// recorded by countOutcomes
+export const OPERATIONS_TOTAL = "wallet_operations_total";
+
+// the outcome of a command that didn't throw, any other is the name of its error class
+export const OK = "ok";
+
+// the commands taking ReturnConsumedCapacity
+const CAPACITY_COMMANDS = new Set([
+  "GetItem",
+  "PutItem",
+  "UpdateItem",
+  "DeleteItem",
+  "Query",
+  "Scan",
+  "BatchGetItem",
+  "BatchWriteItem",
+  "TransactGetItems",
+  "TransactWriteItems",
+  "ExecuteStatement",
+  "BatchExecuteStatement",
+  "ExecuteTransaction",
+]);
+
+// What the tracing hook gets once a command settled
+export type CommandTrace = {
+  // e.g. TransactWriteItems
+  command: string;
+  // every table the command reads or writes
+  tableNames: string[];
+  durationMs: number;
+  // OK, or the name of the error class, e.g. ConditionalCheckFailedException
+  outcome: string;
+  error?: unknown;
+};
+
+export type InstrumentOptions = {
+  // in milliseconds, injectable so tests get known durations
+  now?: () => number;
+  // ReturnConsumedCapacity TOTAL is asked for on a copy of the commands that don't say, true by default
+  consumedCapacity?: boolean;
+  // called after every command, e.g. to end a tracing span
+  onCommand?: (trace: CommandTrace) => void;
+};
+
+// What instrumentClient reads of a command, e.g. a GetItemCommand. Its constructor makes a copy with another input
+type SdkCommand = {
+  input: ServiceInputTypes;
+  constructor: new (input: ServiceInputTypes) => SdkCommand;
+};
+
+type Send = (command: SdkCommand, ...rest: unknown[]) => Promise<ServiceOutputTypes>;
+
+// the name of a command without its Command suffix, like the DynamoDB operation
+function commandName(command: SdkCommand): string {
+  return command.constructor.name.replace(/Command$/, "");
+}
+
+// the table of an item of TransactWriteItems or TransactGetItems
+function transactItemTable(item: TransactWriteItem | TransactGetItem | undefined): string | undefined {
+  if (!item) {
+    return undefined;
+  }
+  if ("Get" in item) {
+    return item.Get?.TableName;
+  }
+  return (item.Put ?? item.Update ?? item.Delete ?? item.ConditionCheck)?.TableName;
+}
+
+function transactItemsOf(input: ServiceInputTypes): (TransactWriteItem | TransactGetItem)[] {
+  return "TransactItems" in input ? input.TransactItems ?? [] : [];
+}
+
+function tableNamesOf(input: ServiceInputTypes): string[] {
+  if ("TableName" in input && input.TableName) {
+    return [input.TableName];
+  }
+  if ("RequestItems" in input && input.RequestItems) {
+    return Object.keys(input.RequestItems);
+  }
+  const tableNames = transactItemsOf(input).map(transactItemTable);
+  return [...new Set(tableNames.filter((tableName): tableName is string => Boolean(tableName)))];
+}
+
+// a single command answers with one ConsumedCapacity, batches and transactions with one per table
+function consumedCapacities(output: ServiceOutputTypes | undefined): ConsumedCapacity[] {
+  const consumed = output && "ConsumedCapacity" in output ? output.ConsumedCapacity : undefined;
+  if (!consumed) {
+    return [];
+  }
+  return Array.isArray(consumed) ? consumed : [consumed];
+}
+
+// the retries made by the SDK itself, e.g. on throttling. Read from the $metadata of the output or error
+function retriesOf(output: ServiceOutputTypes | undefined, error: unknown): number {
+  const metadata = error instanceof DynamoDBServiceException ? error.$metadata : output?.$metadata;
+  const attempts = metadata?.attempts;
+  return attempts !== undefined && attempts > 1 ? attempts - 1 : 0;
+}
+
+// the outcome of a call that threw error, the name of its class
+export function outcomeOf(error: unknown): string {
+  return error instanceof Error ? error.name : "Error";
+}
+
+// Wraps the client so every command records its latency, outcome, consumed capacity and retries in the sink.
+// Everything else is the client's own, so the result is passed to the services like the client.
+// The aggregated methods, e.g. batchWriteItem, go through send too.
+// Commands sent with a callback are passed through without being recorded
+export function instrumentClient<T extends DynamoDB>(client: T, sink: MetricsSink, options: InstrumentOptions = {}): T {
+  const now = options.now ?? (() => performance.now());
+  const askCapacity = options.consumedCapacity ?? true;
+  // the commands this wrapper gets are the ones the client's send takes
+  const clientSend = client.send.bind(client) as unknown as Send;
+
+  const send: Send = async (command, ...rest) => {
+    if (rest.some((arg) => typeof arg === "function")) {
+      return clientSend(command, ...rest);
+    }
+
+    const name = commandName(command);
+    // a copy is sent, the caller's command is left as it is
+    const asked = "ReturnConsumedCapacity" in command.input && command.input.ReturnConsumedCapacity;
+    const sent =
+      askCapacity && CAPACITY_COMMANDS.has(name) && !asked
+        ? new command.constructor({ ...command.input, ReturnConsumedCapacity: "TOTAL" })
+        : command;
+
+    const start = now();
+    let outcome = OK;
+    let output: ServiceOutputTypes | undefined;
+    let error: unknown;
+    try {
+      output = await clientSend(sent, ...rest);
+      return output;
+    } catch (caught) {
+      error = caught;
+      outcome = outcomeOf(caught);
+      throw caught;
+    } finally {
+      const durationMs = now() - start;
+      record(sink, name, sent.input, outcome, durationMs, output, error);
+      options.onCommand?.({ command: name, tableNames: tableNamesOf(sent.input), durationMs, outcome, error });
+    }
+  };
+
+  return new Proxy(client, {
+    get: (target, property, receiver) => (property === "send" ? send : Reflect.get(target, property, receiver)),
+  });
+}
+
+// Wraps a facade function so every call counts its outcome in OPERATIONS_TOTAL, OK or the name of the error class.
+// A refused debit is an InsufficientBalanceError there, the commands only show a TransactionCanceledException
+export function countOutcomes<A extends unknown[], R>(
+  sink: MetricsSink,
+  operation: string,
+  fn: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  return async (...args) => {
+    try {
+      const result = await fn(...args);
+      sink.increment(OPERATIONS_TOTAL, { operation, outcome: OK });
+      return result;
+    } catch (error) {
+      sink.increment(OPERATIONS_TOTAL, { operation, outcome: outcomeOf(error) });
+      throw error;
+    }
+  };
+}
+
+// output is undefined when the command threw error
+function record(
+  sink: MetricsSink,
+  command: string,
+  input: ServiceInputTypes,
+  outcome: string,
+  durationMs: number,
+  output: ServiceOutputTypes | undefined,
+  error: unknown
+): void {
+  sink.observe(COMMAND_DURATION_SECONDS, { command }, durationMs / 1000);
+  sink.increment(COMMANDS_TOTAL, { command, outcome });
+
+  const retries = retriesOf(output, error);
+  if (retries > 0) {
+    sink.increment(RETRIES_TOTAL, { command }, retries);
+  }
+
+  for (const { TableName, CapacityUnits } of consumedCapacities(output)) {
+    if (TableName && CapacityUnits !== undefined) {
+      sink.increment(CONSUMED_CAPACITY_UNITS_TOTAL, { command, table: TableName }, CapacityUnits);
+    }
+  }
+
+  // The reasons line up with the items, so a failed condition is told apart by its table,
+  // e.g. an insufficient balance on the Users table from a replayed key on the Transactions table
+  if (error instanceof TransactionCanceledException) {
+    (error.CancellationReasons ?? []).forEach((reason, i) => {
+      if (reason.Code && reason.Code !== "None") {
+        const table = transactItemTable(transactItemsOf(input)[i]) ?? "unknown";
+        sink.increment(TRANSACTION_CANCELLATIONS_TOTAL, { command, table, code: reason.Code });
+      }
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { InMemoryMetricsSink } from "./metrics";
+import { toPrometheusText } from "./prometheus";
+
+describe("metrics", () => {
+  describe("InMemoryMetricsSink", () => {
+    it("should add up counters by name and labels, in any order", () => {
+      const sink = new InMemoryMetricsSink();
+
+      sink.increment("requests_total", { method: "GET", status: "200" });
+      sink.increment("requests_total", { status: "200", method: "GET" }, 2);
+      sink.increment("requests_total", { method: "GET", status: "500" });
+
+      expect(sink.counter("requests_total", { method: "GET", status: "200" })).toBe(3);
+      expect(sink.counter("requests_total", { method: "GET", status: "500" })).toBe(1);
+      expect(sink.counter("requests_total", { method: "POST", status: "200" })).toBe(0);
+    });
+
+    it("should count the observations of a histogram in cumulative buckets", () => {
+      const sink = new InMemoryMetricsSink([1, 0.125]);
+
+      for (const value of [0.0625, 0.125, 0.5, 2]) {
+        sink.observe("duration_seconds", {}, value);
+      }
+
+      expect(sink.histogram("duration_seconds")).toEqual({
+        name: "duration_seconds",
+        labels: {},
+        buckets: [0.125, 1],
+        counts: [2, 3],
+        sum: 2.6875,
+        count: 4,
+      });
+      expect(sink.histogram("duration_seconds", { command: "GetItem" })).toBeUndefined();
+    });
+  });
+
+  describe("toPrometheusText", () => {
+    it("should write each metric under its type, with escaped label values", () => {
+      const sink = new InMemoryMetricsSink([0.1]);
+      sink.increment("errors_total", { error: 'say "hi"\\n' });
+      sink.observe("duration_seconds", { command: "GetItem" }, 0.0625);
+      sink.observe("duration_seconds", { command: "GetItem" }, 0.25);
+      sink.increment("errors_total", { error: "Error" }, 2);
+
+      expect(toPrometheusText(sink)).toBe(
+        [
+          "# TYPE duration_seconds histogram",
+          'duration_seconds_bucket{command="GetItem",le="0.1"} 1',
+          'duration_seconds_bucket{command="GetItem",le="+Inf"} 2',
+          'duration_seconds_sum{command="GetItem"} 0.3125',
+          'duration_seconds_count{command="GetItem"} 2',
+          "# TYPE errors_total counter",
+          'errors_total{error="say \\"hi\\"\\\\n"} 1',
+          'errors_total{error="Error"} 2',
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should be empty without metrics", () => {
+      expect(toPrometheusText(new InMemoryMetricsSink())).toBe("");
+    });
+  });
+});
@@ -0,0 +1,98 @@
+// e.g. { command: "TransactWriteItems", outcome: "ok" }
+export type MetricLabels = Record<string, string>;
+
+// Where metrics are recorded, injected like the logger. See InMemoryMetricsSink
+export interface MetricsSink {
+  // adds value, 1 by default, to a counter
+  increment(name: string, labels: MetricLabels, value?: number): void;
+  // records a value of a distribution, e.g. a latency in seconds
+  observe(name: string, labels: MetricLabels, value: number): void;
+}
+
+// Where the exporters read the metrics recorded so far, e.g. toPrometheusText
+export interface MetricsSource {
+  counters(): CounterSample[];
+  histograms(): HistogramSample[];
+}
+
+export type CounterSample = {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+};
+
+export type HistogramSample = {
+  name: string;
+  labels: MetricLabels;
+  // the upper bounds of the buckets, the last one being +Inf implicitly
+  buckets: number[];
+  // how many values were at or below each bound, cumulative like Prometheus' buckets
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+// Prometheus' default buckets, in seconds
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// the same name and labels in any order are the same series
+function seriesKey(name: string, labels: MetricLabels): string {
+  return JSON.stringify([name, Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))]);
+}
+
+// Class to keep the metrics of the process in memory, the source of the Prometheus exporter of the server.
+// Values are added up as they come, so its size only grows with the number of series
+export class InMemoryMetricsSink implements MetricsSink, MetricsSource {
+  private _buckets: number[];
+  private _counters = new Map<string, CounterSample>();
+  private _histograms = new Map<string, HistogramSample>();
+
+  constructor(buckets: number[] = DEFAULT_BUCKETS) {
+    this._buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  increment(name: string, labels: MetricLabels, value = 1): void {
+    const key = seriesKey(name, labels);
+    const counter = this._counters.get(key) ?? { name, labels: { ...labels }, value: 0 };
+    counter.value += value;
+    this._counters.set(key, counter);
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const key = seriesKey(name, labels);
+    const histogram = this._histograms.get(key) ?? {
+      name,
+      labels: { ...labels },
+      buckets: this._buckets,
+      counts: this._buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this._buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        histogram.counts[i]++;
+      }
+    });
+    histogram.sum += value;
+    histogram.count++;
+    this._histograms.set(key, histogram);
+  }
+
+  // the value of a counter, 0 when it was never incremented
+  counter(name: string, labels: MetricLabels = {}): number {
+    return this._counters.get(seriesKey(name, labels))?.value ?? 0;
+  }
+
+  // the distribution of a histogram, undefined when nothing was observed
+  histogram(name: string, labels: MetricLabels = {}): HistogramSample | undefined {
+    return this._histograms.get(seriesKey(name, labels));
+  }
+
+  counters(): CounterSample[] {
+    return [...this._counters.values()];
+  }
+
+  histograms(): HistogramSample[] {
+    return [...this._histograms.values()];
+  }
+}
@@ -0,0 +1,51 @@
+import { HistogramSample, MetricLabels, MetricsSource } from "./metrics";
+
+// the Content-Type of the text format, for the /metrics response
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// backslashes, double quotes and line feeds are escaped in label values
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  return value === Infinity ? "+Inf" : String(value);
+}
+
+// the _bucket, _sum and _count lines of a histogram series
+function histogramLines({ name, labels, buckets, counts, sum, count }: HistogramSample): string[] {
+  return [
+    ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[i]}`),
+    `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+    `${name}_sum${formatLabels(labels)} ${sum}`,
+    `${name}_count${formatLabels(labels)} ${count}`,
+  ];
+}
+
+// The metrics of the source in the Prometheus text exposition format, each metric under its # TYPE line.
+// See https://prometheus.io/docs/instrumenting/exposition_formats/
+export function toPrometheusText(source: MetricsSource): string {
+  const metrics = new Map<string, { type: string; lines: string[] }>();
+  const add = (name: string, type: string, lines: string[]) => {
+    const metric = metrics.get(name) ?? { type, lines: [] };
+    metric.lines.push(...lines);
+    metrics.set(name, metric);
+  };
+
+  for (const { name, labels, value } of source.counters()) {
+    add(name, "counter", [`${name}${formatLabels(labels)} ${formatValue(value)}`]);
+  }
+  for (const histogram of source.histograms()) {
+    add(histogram.name, "histogram", histogramLines(histogram));
+  }
+
+  return [...metrics.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, { type, lines }]) => [`# TYPE ${name} ${type}`, ...lines].join("\n") + "\n")
+    .join("");
+}
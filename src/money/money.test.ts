@@ -0,0 +1,101 @@
+import {
+  addDecimals,
+  canonicalAmount,
+  compareDecimals,
+  formatAmount,
+  formatBalance,
+  parseAmount,
+  scaleOf,
+} from "./money";
+import { InvalidAmountError } from "../types";
+
+describe("money", () => {
+  describe("scaleOf", () => {
+    it("should use the currency's minor units", () => {
+      expect(scaleOf("USD")).toBe(2);
+      expect(scaleOf("JPY")).toBe(0);
+      expect(scaleOf("KWD")).toBe(3);
+    });
+
+    it("should default to 2 decimal places for unknown currencies", () => {
+      expect(scaleOf("XYZ")).toBe(2);
+    });
+  });
+
+  describe("parseAmount", () => {
+    it("should parse an amount into minor units", () => {
+      expect(parseAmount("10.5", "USD")).toBe(1050n);
+      expect(parseAmount("10", "USD")).toBe(1000n);
+      expect(parseAmount("500", "JPY")).toBe(500n);
+    });
+
+    it.each(["0.1e2", "1e-9", "-10", "+10", ".5", "10.", " 10", "0x10", "", "abc"])(
+      "should reject %p",
+      (amount) => {
+        expect(() => parseAmount(amount, "USD")).toThrow(InvalidAmountError);
+      }
+    );
+
+    it("should reject more decimal places than the currency has", () => {
+      expect(() => parseAmount("10.123456", "USD")).toThrow(InvalidAmountError);
+      expect(() => parseAmount("10.5", "JPY")).toThrow(InvalidAmountError);
+      expect(parseAmount("10.125", "KWD")).toBe(10125n);
+    });
+
+    it("should reject zero and amounts above the maximum", () => {
+      expect(() => parseAmount("0.00", "USD")).toThrow(InvalidAmountError);
+      expect(() => parseAmount("1000000000.01", "USD")).toThrow(InvalidAmountError);
+      expect(parseAmount("1000000000", "USD")).toBe(100000000000n);
+    });
+
+    it("should reject a missing amount", () => {
+      expect(() => parseAmount(undefined as any, "USD")).toThrow(InvalidAmountError);
+    });
+  });
+
+  describe("canonicalAmount", () => {
+    it("should drop leading and trailing zeros", () => {
+      expect(canonicalAmount("010.50", "USD")).toBe("10.5");
+      expect(canonicalAmount("10.00", "USD")).toBe("10");
+      expect(canonicalAmount("0.01", "USD")).toBe("0.01");
+    });
+  });
+
+  describe("formatAmount", () => {
+    it("should show all the currency's decimal places", () => {
+      expect(formatAmount(1050n, "USD")).toBe("10.50");
+      expect(formatAmount(5n, "USD")).toBe("0.05");
+      expect(formatAmount(-150n, "USD")).toBe("-1.50");
+      expect(formatAmount(500n, "JPY")).toBe("500");
+    });
+  });
+
+  describe("formatBalance", () => {
+    it("should format a stored balance in its currency", () => {
+      expect(formatBalance("10.5", "USD")).toBe("10.50");
+      expect(formatBalance("200", "EUR")).toBe("200.00");
+      expect(formatBalance("200", "JPY")).toBe("200");
+    });
+
+    it("should leave a balance that doesn't fit the currency as is", () => {
+      expect(formatBalance("10.123", "USD")).toBe("10.123");
+    });
+  });
+
+  describe("addDecimals", () => {
+    it("should add without floating point errors", () => {
+      expect(addDecimals("0.1", "0.2")).toBe("0.3");
+      expect(addDecimals("10", "-10.5")).toBe("-0.5");
+      expect(addDecimals("100", "-100")).toBe("0");
+    });
+  });
+
+  describe("compareDecimals", () => {
+    it("should compare by value", () => {
+      expect(compareDecimals("10", "10.00")).toBe(0);
+      expect(compareDecimals("0.1", "0.2")).toBe(-1);
+      expect(compareDecimals("100.01", "100")).toBe(1);
+      expect(compareDecimals("-1", "0")).toBe(-1);
+    });
+  });
+});
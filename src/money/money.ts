@@ -0,0 +1,123 @@
+import { InvalidAmountError } from "../types";
+
+// digits after the decimal point of each currency (ISO 4217 minor units)
+export const CURRENCY_SCALES: Record<string, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CHF: 2,
+  CAD: 2,
+  AUD: 2,
+  SGD: 2,
+  PHP: 2,
+  JPY: 0,
+  KRW: 0,
+  BHD: 3,
+  KWD: 3,
+};
+
+// scale of a currency missing from CURRENCY_SCALES
+export const DEFAULT_SCALE = 2;
+
+// largest amount a single request can move, in major units
+export const MAX_AMOUNT = "1000000000";
+
+// a plain decimal, no sign, exponent or leading dot
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+// a plain decimal as DynamoDB returns it, possibly negative
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+export function scaleOf(currency: string): number {
+  return CURRENCY_SCALES[currency] ?? DEFAULT_SCALE;
+}
+
+// Parses a request amount into minor units, e.g. "10.5" USD is 1050.
+// Throws InvalidAmountError unless it's a positive plain decimal within the currency's scale and MAX_AMOUNT
+export function parseAmount(amount: string, currency: string): bigint {
+  if (typeof amount !== "string" || !AMOUNT_PATTERN.test(amount)) {
+    throw new InvalidAmountError(`${amount} is not a decimal number`);
+  }
+
+  const scale = scaleOf(currency);
+  const fraction = amount.split(".")[1] ?? "";
+  if (fraction.length > scale) {
+    throw new InvalidAmountError(`${currency} amounts have at most ${scale} decimal places`);
+  }
+
+  const units = toUnits(amount, scale);
+  if (units <= 0n) {
+    throw new InvalidAmountError("amount must be positive");
+  }
+  if (units > toUnits(MAX_AMOUNT, scale)) {
+    throw new InvalidAmountError(`amount must not exceed ${MAX_AMOUNT}`);
+  }
+
+  return units;
+}
+
+// the amount as stored in the ledger, e.g. "010.50" is "10.5", the way DynamoDB returns numbers
+export function canonicalAmount(amount: string, currency: string): string {
+  return fromUnits(parseAmount(amount, currency), scaleOf(currency));
+}
+
+// formats minor units with all the currency's decimal places, e.g. 1050 USD is "10.50"
+export function formatAmount(units: bigint, currency: string): string {
+  const scale = scaleOf(currency);
+  const digits = (units < 0n ? -units : units).toString().padStart(scale + 1, "0");
+  const integer = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale);
+
+  return `${units < 0n ? "-" : ""}${integer}${scale > 0 ? `.${fraction}` : ""}`;
+}
+
+// formats a stored balance for display, e.g. "10.5" USD is "10.50"
+export function formatBalance(balance: string, currency: string): string {
+  // a balance written before amounts were checked may not fit the currency, it's shown as is
+  if (!DECIMAL_PATTERN.test(balance) || decimalPlaces(balance) > scaleOf(currency)) {
+    return balance;
+  }
+
+  return formatAmount(toUnits(balance, scaleOf(currency)), currency);
+}
+
+// adds two decimal strings without floating point errors, e.g. "0.1" + "0.2" is "0.3"
+export function addDecimals(a: string, b: string): string {
+  if (!DECIMAL_PATTERN.test(a) || !DECIMAL_PATTERN.test(b)) {
+    return (Number(a) + Number(b)).toString();
+  }
+
+  const scale = Math.max(decimalPlaces(a), decimalPlaces(b));
+  return fromUnits(toUnits(a, scale) + toUnits(b, scale), scale);
+}
+
+// compares two decimal strings, negative when a < b, zero when equal, positive when a > b
+export function compareDecimals(a: string, b: string): number {
+  if (!DECIMAL_PATTERN.test(a) || !DECIMAL_PATTERN.test(b)) {
+    return Math.sign(Number(a) - Number(b));
+  }
+
+  const scale = Math.max(decimalPlaces(a), decimalPlaces(b));
+  const difference = toUnits(a, scale) - toUnits(b, scale);
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+function decimalPlaces(value: string): number {
+  return value.split(".")[1]?.length ?? 0;
+}
+
+// "-1.5" at scale 2 is -150
+function toUnits(value: string, scale: number): bigint {
+  const negative = value.startsWith("-");
+  const [integer, fraction = ""] = value.replace("-", "").split(".");
+  const units = BigInt(integer + fraction.padEnd(scale, "0"));
+  return negative ? -units : units;
+}
+
+// -150 at scale 2 is "-1.5", trailing zeros are dropped
+function fromUnits(units: bigint, scale: number): string {
+  const digits = (units < 0n ? -units : units).toString().padStart(scale + 1, "0");
+  const integer = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale).replace(/0+$/, "");
+
+  return `${units < 0n ? "-" : ""}${integer}${fraction ? `.${fraction}` : ""}`;
+}
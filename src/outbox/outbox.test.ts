@@ -0,0 +1,259 @@
+import { PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { TransactService } from "../transact/transact";
+import { JournalService } from "../journal/journal";
+import { HoldService } from "../holds/holds";
+import {
+  InsufficientBalanceError,
+  OutboxEvent,
+  OutboxEventNotFailedError,
+  OutboxEventNotFoundError,
+  OutboxStatus,
+  TransactionType,
+} from "../types";
+import { OutboxService, toOutboxEvent } from "./outbox";
+
+describe("outbox", () => {
+  let db: InMemoryDynamoDB;
+  let transactService: TransactService;
+  let now: number;
+
+  const eventsOf = () => db.dump(Config.DB_OUTBOX_TABLE).map(toOutboxEvent);
+  const outboxService = (options = {}) => new OutboxService(db, Config, { now: () => now, random: () => 0.5, ...options });
+  const credit = (key: string, userId = "1", amount = "10") =>
+    transactService.transact({ idempotentKey: key, userId, amount, type: TransactionType.CREDIT });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+    now = Date.UTC(2024, 0, 1);
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    transactService = new TransactService(db, Config);
+    for (const userId of ["1", "2"]) {
+      await db.send(
+        new PutItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Item: { userId: { S: userId }, currency: { S: Config.DEFAULT_CURRENCY }, balance: { N: "100" } },
+        })
+      );
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("TransactionPosted", () => {
+    it("should be written with the transaction", async () => {
+      await credit("k1");
+
+      expect(eventsOf()).toEqual([
+        {
+          eventId: "TransactionPosted:k1",
+          type: "TransactionPosted",
+          payload: {
+            idempotentKey: "k1",
+            userId: "1",
+            amount: "10",
+            type: TransactionType.CREDIT,
+            currency: Config.DEFAULT_CURRENCY,
+            timestamp: new Date(now).toISOString(),
+          },
+          createdAt: new Date(now),
+          status: OutboxStatus.PENDING,
+          attempts: 0,
+        },
+      ]);
+    });
+
+    it("should not be written when the transaction isn't", async () => {
+      await expect(
+        transactService.transact({ idempotentKey: "k1", userId: "1", amount: "500", type: TransactionType.DEBIT })
+      ).rejects.toThrow(InsufficientBalanceError);
+
+      expect(eventsOf()).toEqual([]);
+    });
+
+    it("should be written for every kind of posting, once", async () => {
+      await transactService.transfer({ idempotentKey: "t1", fromUserId: "1", toUserId: "2", amount: "5" });
+      await transactService.reverseTransaction({ originalIdempotencyKey: "t1:credit", reversalKey: "r1" });
+      await new JournalService(db, Config).post({
+        entryId: "e1",
+        lines: [
+          { account: "user:1", side: TransactionType.DEBIT, amount: "1" },
+          { account: "fees", side: TransactionType.CREDIT, amount: "1" },
+        ],
+      });
+      const holdService = new HoldService(db, Config);
+      await holdService.placeHold({ holdId: "h1", userId: "2", amount: "3" });
+      await holdService.captureHold({ holdId: "h1" });
+      await transactService.transfer({ idempotentKey: "t1", fromUserId: "1", toUserId: "2", amount: "5" });
+
+      const events = eventsOf();
+      expect(events.map((event) => event.eventId).sort()).toEqual([
+        "TransactionPosted:e1:0",
+        "TransactionPosted:h1:capture",
+        "TransactionPosted:r1",
+        "TransactionPosted:t1:credit",
+        "TransactionPosted:t1:debit",
+      ]);
+      expect(events.find((event) => event.eventId === "TransactionPosted:t1:debit")?.payload).toMatchObject({
+        transferId: "t1",
+        counterpartyUserId: "2",
+      });
+      expect(events.find((event) => event.eventId === "TransactionPosted:r1")?.payload).toMatchObject({
+        reversalOf: "t1:credit",
+      });
+    });
+  });
+
+  describe("dispatch", () => {
+    it("should deliver the due events in order and mark them delivered", async () => {
+      await credit("k1");
+      now += 1;
+      await credit("k2");
+      const delivered: OutboxEvent[] = [];
+
+      const report = await outboxService().dispatch(async (event) => {
+        delivered.push(event);
+      });
+
+      expect(report).toEqual({ delivered: 2, retrying: 0, failed: 0 });
+      expect(delivered.map((event) => [event.eventId, event.attempts])).toEqual([
+        ["TransactionPosted:k1", 1],
+        ["TransactionPosted:k2", 1],
+      ]);
+      expect(db.dump(Config.DB_OUTBOX_TABLE)[0]).toMatchObject({
+        status: { S: OutboxStatus.DELIVERED },
+        expiresAt: { N: String(Math.floor(now / 1000) + Config.OUTBOX_RETENTION_SECONDS) },
+      });
+      expect(db.dump(Config.DB_OUTBOX_TABLE)[0].nextAttemptAt).toBeUndefined();
+      await expect(outboxService().dispatch(async () => {})).resolves.toEqual({ delivered: 0, retrying: 0, failed: 0 });
+    });
+
+    it("should retry a failed delivery after the backoff", async () => {
+      await credit("k1");
+      const sink = jest.fn().mockRejectedValueOnce(new Error("connection refused")).mockResolvedValue(undefined);
+      const service = outboxService({ backoff: { baseDelayMs: 1_000 } });
+
+      await expect(service.dispatch(sink)).resolves.toEqual({ delivered: 0, retrying: 1, failed: 0 });
+      expect(eventsOf()[0]).toMatchObject({ status: OutboxStatus.PENDING, attempts: 1, lastError: "connection refused" });
+
+      // half of the first delay, with random() at 0.5
+      now += 499;
+      await expect(service.dispatch(sink)).resolves.toEqual({ delivered: 0, retrying: 0, failed: 0 });
+      now += 1;
+      await expect(service.dispatch(sink)).resolves.toEqual({ delivered: 1, retrying: 0, failed: 0 });
+      expect(eventsOf()[0]).toMatchObject({ status: OutboxStatus.DELIVERED, attempts: 2 });
+      expect(eventsOf()[0].lastError).toBeUndefined();
+    });
+
+    it("should give up after OUTBOX_MAX_ATTEMPTS", async () => {
+      await credit("k1");
+      const sink = jest.fn().mockRejectedValue(new Error("503"));
+      const service = outboxService();
+
+      for (let attempt = 1; attempt < Config.OUTBOX_MAX_ATTEMPTS; attempt++) {
+        await expect(service.dispatch(sink)).resolves.toMatchObject({ retrying: 1 });
+        now += 60 * 60 * 1000;
+      }
+      await expect(service.dispatch(sink)).resolves.toEqual({ delivered: 0, retrying: 0, failed: 1 });
+
+      expect(eventsOf()[0]).toMatchObject({ status: OutboxStatus.FAILED, attempts: Config.OUTBOX_MAX_ATTEMPTS });
+      now += 60 * 60 * 1000;
+      await service.dispatch(sink);
+      expect(sink).toHaveBeenCalledTimes(Config.OUTBOX_MAX_ATTEMPTS);
+    });
+
+    it("should not deliver an event to two dispatchers at the same time", async () => {
+      await credit("k1");
+      await credit("k2", "2");
+      const sink = jest.fn().mockResolvedValue(undefined);
+
+      const reports = await Promise.all([outboxService().dispatch(sink), outboxService().dispatch(sink)]);
+
+      expect(reports.map((report) => report.delivered).reduce((a, b) => a + b)).toBe(2);
+      expect(sink.mock.calls.map(([event]) => event.eventId).sort()).toEqual([
+        "TransactionPosted:k1",
+        "TransactionPosted:k2",
+      ]);
+    });
+
+    it("should deliver an event again when its dispatcher died while delivering", async () => {
+      await credit("k1");
+      let claimed!: () => void;
+      const isClaimed = new Promise<void>((resolve) => (claimed = resolve));
+      // claimed, then the dispatcher never gets an answer
+      void outboxService().dispatch(() => {
+        claimed();
+        return new Promise(() => {});
+      });
+      await isClaimed;
+      const sink = jest.fn().mockResolvedValue(undefined);
+
+      await outboxService().dispatch(sink);
+      expect(sink).not.toHaveBeenCalled();
+
+      now += 60_000;
+      await outboxService().dispatch(sink);
+      expect(sink).toHaveBeenCalledWith(expect.objectContaining({ eventId: "TransactionPosted:k1", attempts: 2 }));
+    });
+  });
+
+  describe("dead letters", () => {
+    it("should list the failed events and replay one, with its attempts reset", async () => {
+      await credit("k1");
+      await credit("k2");
+      const service = outboxService();
+      for (let attempt = 1; attempt <= Config.OUTBOX_MAX_ATTEMPTS; attempt++) {
+        await service.dispatch(async (event) => {
+          if (event.eventId === "TransactionPosted:k1") {
+            throw new Error("503");
+          }
+        });
+        now += 60 * 60 * 1000;
+      }
+
+      expect(await service.failedEvents()).toEqual([
+        expect.objectContaining({ eventId: "TransactionPosted:k1", attempts: Config.OUTBOX_MAX_ATTEMPTS, lastError: "503" }),
+      ]);
+      await expect(service.replay("TransactionPosted:k1")).resolves.toMatchObject({
+        status: OutboxStatus.PENDING,
+        attempts: 0,
+      });
+      await expect(service.dispatch(async () => {})).resolves.toEqual({ delivered: 1, retrying: 0, failed: 0 });
+      expect(await service.failedEvents()).toEqual([]);
+    });
+
+    it("should only replay a failed event", async () => {
+      await credit("k1");
+
+      await expect(outboxService().replay("TransactionPosted:k1")).rejects.toThrow(OutboxEventNotFailedError);
+      await expect(outboxService().replay("TransactionPosted:k2")).rejects.toThrow(OutboxEventNotFoundError);
+    });
+  });
+
+  describe("poll", () => {
+    it("should dispatch until aborted, adding up the rounds", async () => {
+      await credit("k1");
+      const controller = new AbortController();
+      const sleep = jest.fn(async () => {
+        if (sleep.mock.calls.length === 1) {
+          await credit("k2");
+        } else {
+          controller.abort();
+        }
+      });
+
+      const report = await outboxService({ sleep }).poll(async () => {}, { intervalMs: 10, signal: controller.signal });
+
+      expect(report).toEqual({ delivered: 2, retrying: 0, failed: 0 });
+      expect(sleep).toHaveBeenCalledWith(10);
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DynamoDB,
+  Put,
+  PutItemCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DispatchReport,
+  OutboxEvent,
+  OutboxEventNotFailedError,
+  OutboxEventNotFoundError,
+  OutboxStatus,
+  TConfig,
+} from "../types";
+import { toTransaction } from "../transact/history";
+import { backoffDelay, RetryPolicy, sleep as defaultSleep, Sleep } from "../transact/retry";
+import { OutboxSink } from "./sinks";
+
+// the event of every transaction, written along with it
+export const TRANSACTION_POSTED = "TransactionPosted";
+
+// the index of the pending events, by when they are due
+const PENDING_INDEX = "pendingIndex";
+
+// how many due events a round reads at most
+export const DEFAULT_DISPATCH_BATCH_SIZE = 25;
+
+// the delays between deliveries of an event, full jitter like the transaction retries
+export const DEFAULT_DELIVERY_BACKOFF: Pick<RetryPolicy, "baseDelayMs" | "maxDelayMs"> = {
+  baseDelayMs: 1_000,
+  maxDelayMs: 15 * 60 * 1_000,
+};
+
+// How long a claimed event is left to its dispatcher, longer than the sinks take.
+// If the dispatcher dies while delivering, another one picks the event up after that
+const CLAIM_TIMEOUT_MS = 60_000;
+
+// the attributes linking a transaction to what it's part of, copied to its event
+const TRANSACTION_LINKS = ["transferId", "counterpartyUserId", "reversalOf", "holdId", "entryId"];
+
+export type OutboxServiceOptions = {
+  batchSize?: number;
+  backoff?: Partial<Pick<RetryPolicy, "baseDelayMs" | "maxDelayMs">>;
+  // injectable so tests control the clock and the backoff
+  now?: () => number;
+  random?: () => number;
+  sleep?: Sleep;
+};
+
+// what an event is made of when it's written, the dispatcher keeps track of the rest
+export type NewOutboxEvent = Pick<OutboxEvent, "eventId" | "type" | "payload" | "createdAt">;
+
+// Put of a pending event, due right away. Writing the same eventId twice fails its condition
+export function outboxItem(config: TConfig, event: NewOutboxEvent): { Put: Put } {
+  return {
+    Put: {
+      TableName: config.DB_OUTBOX_TABLE,
+      Item: {
+        eventId: { S: event.eventId },
+        type: { S: event.type },
+        payload: { S: JSON.stringify(event.payload) },
+        createdAt: { N: String(event.createdAt.getTime()) },
+        status: { S: OutboxStatus.PENDING },
+        nextAttemptAt: { N: String(event.createdAt.getTime()) },
+        attempts: { N: "0" },
+      },
+      ConditionExpression: "attribute_not_exists(eventId)",
+    },
+  };
+}
+
+// Put of the TransactionPosted event of a transaction item. Callers write it with the transaction,
+// in the same TransactWriteItems call, so the event exists if and only if the transaction committed
+export function transactionPostedItem(config: TConfig, transaction: Record<string, AttributeValue>): { Put: Put } {
+  const { timestamp, ...fields } = toTransaction(transaction);
+
+  return outboxItem(config, {
+    eventId: `${TRANSACTION_POSTED}:${fields.idempotentKey}`,
+    type: TRANSACTION_POSTED,
+    payload: {
+      ...fields,
+      timestamp: timestamp.toISOString(),
+      ...Object.fromEntries(
+        TRANSACTION_LINKS.filter((name) => transaction[name]?.S).map((name) => [name, transaction[name].S])
+      ),
+      ...(transaction.resultingBalance?.N && { resultingBalance: transaction.resultingBalance.N }),
+    },
+    createdAt: timestamp,
+  });
+}
+
+// maps an Outbox table item to an event
+export function toOutboxEvent(item: Record<string, AttributeValue>): OutboxEvent {
+  return {
+    eventId: item.eventId.S!,
+    type: item.type.S!,
+    payload: JSON.parse(item.payload.S!),
+    createdAt: new Date(Number(item.createdAt.N)),
+    status: item.status.S as OutboxStatus,
+    attempts: Number(item.attempts?.N ?? "0"),
+    ...(item.lastError && { lastError: item.lastError.S }),
+  };
+}
+
+// Class to deliver the events of the Outbox table. Each event is claimed before it's handed to the sink,
+// so dispatchers running side by side don't deliver it at the same time.
+// Delivery is at least once: an event whose delivery failed, or whose dispatcher died, is delivered again
+export class OutboxService {
+  private _client: DynamoDB;
+  private _config: TConfig;
+  private _tableName: string;
+  private _batchSize: number;
+  private _backoff: Pick<RetryPolicy, "baseDelayMs" | "maxDelayMs">;
+  private _now: () => number;
+  private _random?: () => number;
+  private _sleep: Sleep;
+
+  constructor(client: DynamoDB, config: TConfig, options: OutboxServiceOptions = {}) {
+    this._client = client;
+    this._config = config;
+    this._tableName = config.DB_OUTBOX_TABLE;
+    this._batchSize = options.batchSize ?? DEFAULT_DISPATCH_BATCH_SIZE;
+    this._backoff = { ...DEFAULT_DELIVERY_BACKOFF, ...options.backoff };
+    this._now = options.now ?? Date.now;
+    this._random = options.random;
+    this._sleep = options.sleep ?? defaultSleep;
+  }
+
+  // Writes an event on its own, for events that don't come with a change to the balances.
+  // Publishing an eventId that was already written does nothing
+  async publish(event: NewOutboxEvent): Promise<void> {
+    try {
+      await this._client.send(new PutItemCommand(outboxItem(this._config, event).Put));
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+  }
+
+  // the pending events that are due, the longest due first
+  async dueEvents(): Promise<Record<string, AttributeValue>[]> {
+    const response = await this._client.send(
+      new QueryCommand({
+        TableName: this._tableName,
+        IndexName: PENDING_INDEX,
+        KeyConditionExpression: "#status = :pending AND #nextAttemptAt <= :now",
+        ExpressionAttributeNames: { "#status": "status", "#nextAttemptAt": "nextAttemptAt" },
+        ExpressionAttributeValues: {
+          ":pending": { S: OutboxStatus.PENDING },
+          ":now": { N: String(this._now()) },
+        },
+        Limit: this._batchSize,
+      })
+    );
+
+    return response.Items ?? [];
+  }
+
+  // Delivers the events that are due, oldest first. There's no ordering guarantee: a failed delivery is
+  // tried again after a growing delay, until OUTBOX_MAX_ATTEMPTS, and later events are delivered meanwhile
+  async dispatch(sink: OutboxSink): Promise<DispatchReport> {
+    const report: DispatchReport = { delivered: 0, retrying: 0, failed: 0 };
+
+    for (const item of await this.dueEvents()) {
+      const event = await this.claim(item);
+      // another dispatcher got to it first
+      if (!event) {
+        continue;
+      }
+
+      try {
+        await sink(event);
+      } catch (error) {
+        const status = await this.markFailed(event, error);
+        report[status === OutboxStatus.FAILED ? "failed" : "retrying"]++;
+        continue;
+      }
+      await this.markDelivered(event);
+      report.delivered++;
+    }
+
+    return report;
+  }
+
+  // Dispatches every intervalMs until the signal is aborted, right away again while there's a backlog.
+  // Resolves to what every round did, added up
+  async poll(sink: OutboxSink, { intervalMs, signal }: { intervalMs: number; signal: AbortSignal }): Promise<DispatchReport> {
+    const total: DispatchReport = { delivered: 0, retrying: 0, failed: 0 };
+
+    while (!signal.aborted) {
+      const report = await this.dispatch(sink);
+      total.delivered += report.delivered;
+      total.retrying += report.retrying;
+      total.failed += report.failed;
+      if (report.delivered + report.retrying + report.failed < this._batchSize && !signal.aborted) {
+        await this._sleep(intervalMs);
+      }
+    }
+
+    return total;
+  }
+
+  // The dead letters, events whose last delivery failed, the oldest first. Scans the whole table,
+  // it's meant for operators
+  async failedEvents(type?: string): Promise<OutboxEvent[]> {
+    const events: OutboxEvent[] = [];
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+
+    do {
+      const response = await this._client.send(
+        new ScanCommand({
+          TableName: this._tableName,
+          FilterExpression: type === undefined ? "#status = :failed" : "#status = :failed AND #type = :type",
+          ExpressionAttributeNames: { "#status": "status", ...(type !== undefined && { "#type": "type" }) },
+          ExpressionAttributeValues: {
+            ":failed": { S: OutboxStatus.FAILED },
+            ...(type !== undefined && { ":type": { S: type } }),
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+      events.push(...(response.Items ?? []).map(toOutboxEvent));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return events.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Makes a failed event pending again, due right away and with OUTBOX_MAX_ATTEMPTS deliveries ahead of it.
+  // Throws OutboxEventNotFoundError or OutboxEventNotFailedError unless it's a dead letter
+  async replay(eventId: string): Promise<OutboxEvent> {
+    try {
+      const response = await this._client.send(
+        new UpdateItemCommand({
+          TableName: this._tableName,
+          Key: { eventId: { S: eventId } },
+          UpdateExpression: "SET #status = :pending, #nextAttemptAt = :now, #attempts = :zero REMOVE failedAt",
+          ConditionExpression: "#status = :failed",
+          ExpressionAttributeNames: {
+            "#status": "status",
+            "#nextAttemptAt": "nextAttemptAt",
+            "#attempts": "attempts",
+          },
+          ExpressionAttributeValues: {
+            ":pending": { S: OutboxStatus.PENDING },
+            ":failed": { S: OutboxStatus.FAILED },
+            ":now": { N: String(this._now()) },
+            ":zero": { N: "0" },
+          },
+          ReturnValues: "ALL_NEW",
+          ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+        })
+      );
+
+      return toOutboxEvent(response.Attributes!);
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        // without the old item, there's no such event
+        if (!error.Item) {
+          throw new OutboxEventNotFoundError(eventId);
+        }
+        throw new OutboxEventNotFailedError(eventId, error.Item.status.S!);
+      }
+      throw error;
+    }
+  }
+
+  // counts a delivery attempt and keeps the event from other dispatchers for a while,
+  // undefined when it was claimed or settled since it was read
+  private async claim(item: Record<string, AttributeValue>): Promise<OutboxEvent | undefined> {
+    try {
+      const response = await this._client.send(
+        new UpdateItemCommand({
+          TableName: this._tableName,
+          Key: { eventId: item.eventId },
+          UpdateExpression: "SET #nextAttemptAt = :claimedUntil ADD #attempts :one",
+          ConditionExpression: "#status = :pending AND #nextAttemptAt = :seen",
+          ExpressionAttributeNames: {
+            "#status": "status",
+            "#nextAttemptAt": "nextAttemptAt",
+            "#attempts": "attempts",
+          },
+          ExpressionAttributeValues: {
+            ":claimedUntil": { N: String(this._now() + CLAIM_TIMEOUT_MS) },
+            ":one": { N: "1" },
+            ":pending": { S: OutboxStatus.PENDING },
+            ":seen": item.nextAttemptAt,
+          },
+          ReturnValues: "ALL_NEW",
+        })
+      );
+
+      return toOutboxEvent(response.Attributes!);
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  // takes the event out of the pending index, TTL deletes it after OUTBOX_RETENTION_SECONDS
+  private async markDelivered(event: OutboxEvent): Promise<void> {
+    const now = this._now();
+
+    await this._client.send(
+      new UpdateItemCommand({
+        TableName: this._tableName,
+        Key: { eventId: { S: event.eventId } },
+        UpdateExpression: "SET #status = :delivered, deliveredAt = :now, expiresAt = :expiresAt REMOVE #nextAttemptAt, lastError",
+        ExpressionAttributeNames: { "#status": "status", "#nextAttemptAt": "nextAttemptAt" },
+        ExpressionAttributeValues: {
+          ":delivered": { S: OutboxStatus.DELIVERED },
+          ":now": { N: String(now) },
+          ":expiresAt": { N: String(Math.floor(now / 1000) + this._config.OUTBOX_RETENTION_SECONDS) },
+        },
+      })
+    );
+  }
+
+  // Schedules the next attempt, or gives up after the last one. Failed events stay in the table, out of the index.
+  // Resolves to the status the event is left with
+  private async markFailed(event: OutboxEvent, error: unknown): Promise<OutboxStatus> {
+    const now = this._now();
+    const lastError = error instanceof Error ? error.message : String(error);
+    const giveUp = event.attempts >= this._config.OUTBOX_MAX_ATTEMPTS;
+
+    try {
+      await this._client.send(
+        new UpdateItemCommand({
+          TableName: this._tableName,
+          Key: { eventId: { S: event.eventId } },
+          UpdateExpression: giveUp
+            ? "SET #status = :failed, failedAt = :now, lastError = :lastError REMOVE #nextAttemptAt"
+            : "SET #nextAttemptAt = :nextAttemptAt, lastError = :lastError",
+          // unless another dispatcher delivered it in the meantime
+          ConditionExpression: "#status = :pending",
+          ExpressionAttributeNames: { "#status": "status", "#nextAttemptAt": "nextAttemptAt" },
+          ExpressionAttributeValues: {
+            ":pending": { S: OutboxStatus.PENDING },
+            ":lastError": { S: lastError },
+            ...(giveUp
+              ? { ":failed": { S: OutboxStatus.FAILED }, ":now": { N: String(now) } }
+              : { ":nextAttemptAt": { N: String(now + backoffDelay(this._backoff, event.attempts, this._random)) } }),
+          },
+        })
+      );
+    } catch (updateError) {
+      if (!(updateError instanceof ConditionalCheckFailedException)) {
+        throw updateError;
+      }
+    }
+
+    return giveUp ? OutboxStatus.FAILED : OutboxStatus.PENDING;
+  }
+}
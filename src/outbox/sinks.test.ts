@@ -0,0 +1,73 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Config } from "../config";
+import { OutboxEvent, OutboxStatus } from "../types";
+import { createOutboxSink, fileSink, httpSink, stdoutSink } from "./sinks";
+
+describe("sinks", () => {
+  const event: OutboxEvent = {
+    eventId: "TransactionPosted:k1",
+    type: "TransactionPosted",
+    payload: { idempotentKey: "k1", amount: "10" },
+    createdAt: new Date(Date.UTC(2024, 0, 1)),
+    status: OutboxStatus.PENDING,
+    attempts: 1,
+  };
+  const line = JSON.stringify({
+    eventId: "TransactionPosted:k1",
+    type: "TransactionPosted",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    payload: { idempotentKey: "k1", amount: "10" },
+  });
+
+  it("should write a line of JSON to stdout", async () => {
+    const write = jest.fn();
+
+    await stdoutSink(write)(event);
+
+    expect(write).toHaveBeenCalledWith(`${line}\n`);
+  });
+
+  it("should append a line of JSON to the file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "outbox-"));
+    try {
+      const sink = fileSink(join(dir, "events.jsonl"));
+
+      await sink(event);
+      await sink(event);
+
+      expect(readFileSync(join(dir, "events.jsonl"), "utf8")).toBe(`${line}\n${line}\n`);
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("should POST the event, failing unless the response is 2xx", async () => {
+    const fetchFn = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 204 })
+      .mockResolvedValueOnce({ ok: false, status: 500 });
+    const sink = httpSink("http://localhost:9000/events", fetchFn);
+
+    await sink(event);
+    await expect(sink(event)).rejects.toThrow("http://localhost:9000/events responded with 500");
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      "http://localhost:9000/events",
+      expect.objectContaining({
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": "TransactionPosted:k1" },
+        body: `${line}\n`,
+      })
+    );
+  });
+
+  it("should need the file or URL of the configured sink", () => {
+    expect(() => createOutboxSink({ ...Config, OUTBOX_SINK: "file" })).toThrow("OUTBOX_FILE is required");
+    expect(() => createOutboxSink({ ...Config, OUTBOX_SINK: "http" })).toThrow("OUTBOX_URL is required");
+    expect(createOutboxSink({ ...Config, OUTBOX_SINK: "http", OUTBOX_URL: "http://localhost:9000" })).toEqual(
+      expect.any(Function)
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { appendFile } from "fs/promises";
+import { OutboxEvent, TConfig } from "../types";
+
+// Where the dispatcher hands events to. Resolving means the event was delivered,
+// throwing means it's tried again later. An event may be delivered more than once, its eventId tells them apart
+export type OutboxSink = (event: OutboxEvent) => Promise<void>;
+
+// how long the http sink waits for a response
+export const HTTP_SINK_TIMEOUT_MS = 10_000;
+
+// the event as one line of JSON
+function toLine(event: OutboxEvent): string {
+  return `${JSON.stringify({
+    eventId: event.eventId,
+    type: event.type,
+    createdAt: event.createdAt.toISOString(),
+    payload: event.payload,
+  })}\n`;
+}
+
+// writes each event as a line of JSON on stdout
+export function stdoutSink(write: (line: string) => void = (line) => process.stdout.write(line)): OutboxSink {
+  return async (event) => {
+    write(toLine(event));
+  };
+}
+
+// appends each event as a line of JSON to the file
+export function fileSink(path: string): OutboxSink {
+  return async (event) => {
+    await appendFile(path, toLine(event), "utf8");
+  };
+}
+
+// POSTs a JSON body to the URL, throws unless the response is 2xx.
+// Redirects aren't followed, so a webhook can't bounce the POST to another host
+export async function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  fetchFn: typeof fetch = fetch
+): Promise<void> {
+  const response = await fetchFn(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+    redirect: "manual",
+    signal: AbortSignal.timeout(HTTP_SINK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`);
+  }
+}
+
+// POSTs each event as JSON to the URL, any status but 2xx is a failed delivery
+export function httpSink(url: string, fetchFn: typeof fetch = fetch): OutboxSink {
+  return (event) => postJson(url, toLine(event), { "Idempotency-Key": event.eventId }, fetchFn);
+}
+
+// the sink of OUTBOX_SINK, throws when the setting it needs is missing
+export function createOutboxSink(config: TConfig): OutboxSink {
+  switch (config.OUTBOX_SINK) {
+    case "stdout":
+      return stdoutSink();
+    case "file":
+      if (!config.OUTBOX_FILE) {
+        throw new Error("OUTBOX_FILE is required by the file sink");
+      }
+      return fileSink(config.OUTBOX_FILE);
+    case "http":
+      if (!config.OUTBOX_URL) {
+        throw new Error("OUTBOX_URL is required by the http sink");
+      }
+      return httpSink(config.OUTBOX_URL);
+  }
+}
@@ -0,0 +1,171 @@
+import { PutItemCommand, TransactWriteItemsCommand, UpdateItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { TransactService } from "../transact/transact";
+import { TransactionHistoryService } from "../transact/history";
+import { TransactionType, UserNotFoundError } from "../types";
+import { ReconciliationService } from "./reconcile";
+
+describe("ReconciliationService", () => {
+  let db: InMemoryDynamoDB;
+  let transactService: TransactService;
+  let sleep: jest.Mock;
+  let service: ReconciliationService;
+
+  // like npm run seed, a seeded balance is the user's opening balance
+  const putUser = (userId: string, balance?: string) =>
+    db.send(
+      new PutItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Item: {
+          userId: { S: userId },
+          currency: { S: Config.DEFAULT_CURRENCY },
+          ...(balance !== undefined && { balance: { N: balance }, openingBalance: { N: balance } }),
+        },
+      })
+    );
+
+  // a change that doesn't go through the ledger, like a manual edit
+  const setBalance = (userId: string, balance: string) =>
+    db.send(
+      new UpdateItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Key: { userId: { S: userId } },
+        UpdateExpression: "SET balance = :balance",
+        ExpressionAttributeValues: { ":balance": { N: balance } },
+      })
+    );
+
+  const credit = (userId: string, amount: string, key: string, currency?: string) =>
+    transactService.transact({ idempotentKey: key, userId, amount, type: TransactionType.CREDIT, currency });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    transactService = new TransactService(db, Config);
+    sleep = jest.fn().mockResolvedValue(undefined);
+    service = new ReconciliationService(db, Config, { sleep, settleMs: 10 });
+
+    // opens with the default balance, then credited in both currencies
+    await putUser("1", String(Config.DEFAULT_BALANCE));
+    await credit("1", "10", "k1");
+    await credit("1", "5", "k2", "EUR");
+    // never written to, the default balance applies
+    await putUser("2");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should find nothing when the balances add up to the transactions", async () => {
+    const report = await service.reconcile();
+
+    expect(report).toEqual({ checked: 3, mismatches: [] });
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("should not expect the default balance of a user whose first write was a credit", async () => {
+    await putUser("3");
+    await credit("3", "10", "k3");
+
+    await expect(service.reconcile({ userId: "3" })).resolves.toEqual({ checked: 1, mismatches: [] });
+    expect(db.dump(Config.DB_USERS_TABLE).find((user) => user.userId.S === "3")?.balance).toEqual({ N: "10" });
+  });
+
+  it("should report a balance changed outside the ledger", async () => {
+    await setBalance("1", "150");
+
+    const report = await service.reconcile();
+
+    expect(report.mismatches).toEqual([
+      { userId: "1", currency: Config.DEFAULT_CURRENCY, balance: "150", expected: "110", difference: "40" },
+    ]);
+    expect(sleep).toHaveBeenCalledWith(10);
+  });
+
+  it("should report transactions in a currency without a wallet", async () => {
+    await db.send(
+      new PutItemCommand({
+        TableName: Config.DB_TRANSACTIONS_TABLE,
+        Item: {
+          idempotencyKey: { S: "imported" },
+          userId: { S: "2" },
+          amount: { N: "7" },
+          type: { S: TransactionType.CREDIT },
+          currency: { S: "GBP" },
+          timestamp: { N: "1" },
+        },
+      })
+    );
+
+    const report = await service.reconcile({ userId: "2" });
+
+    expect(report).toEqual({
+      checked: 2,
+      mismatches: [{ userId: "2", currency: "GBP", balance: undefined, expected: "7", difference: "-7" }],
+    });
+  });
+
+  it("should not report a mismatch that's gone after settling, like a transaction not yet in the index", async () => {
+    await setBalance("1", "150");
+    sleep.mockImplementation(() => setBalance("1", "110"));
+
+    await expect(service.reconcile()).resolves.toEqual({ checked: 3, mismatches: [] });
+  });
+
+  it("should repair with a correcting entry, leaving the balance as it is", async () => {
+    await setBalance("1", "95.5");
+
+    const report = await service.reconcile({ repair: { reason: "manual edit, ticket 42" } });
+
+    const [mismatch] = report.mismatches;
+    expect(mismatch).toMatchObject({
+      difference: "-14.5",
+      adjustmentKey: expect.stringMatching(/^reconciliation:\d+:1:USD$/),
+    });
+    const { transactions } = await new TransactionHistoryService(db, Config).listTransactions({ userId: "1" });
+    expect(transactions.find((transaction) => transaction.idempotentKey === mismatch.adjustmentKey)).toMatchObject({
+      type: TransactionType.DEBIT,
+      amount: "14.5",
+      adjustmentReason: "manual edit, ticket 42",
+    });
+    expect(db.dump(Config.DB_USERS_TABLE).find((user) => user.userId.S === "1")?.balance).toEqual({ N: "95.5" });
+    const event = db
+      .dump(Config.DB_OUTBOX_TABLE)
+      .find((item) => item.eventId.S === `TransactionPosted:${mismatch.adjustmentKey}`);
+    expect(JSON.parse(event!.payload.S!)).toMatchObject({
+      idempotentKey: mismatch.adjustmentKey,
+      type: TransactionType.DEBIT,
+      amount: "14.5",
+      adjustmentReason: "manual edit, ticket 42",
+    });
+    await expect(service.reconcile()).resolves.toEqual({ checked: 3, mismatches: [] });
+  });
+
+  it("should not repair a balance that changed since it was read", async () => {
+    await setBalance("1", "150");
+    // a credit gets in right before the correcting entry
+    const send = db.send.bind(db);
+    jest.spyOn(db, "send").mockImplementation(async (command: any) => {
+      if (command instanceof TransactWriteItemsCommand && command.input.TransactItems?.[0].ConditionCheck) {
+        await credit("1", "1", "concurrent");
+      }
+      return send(command);
+    });
+
+    const report = await service.reconcile({ repair: { reason: "manual edit" } });
+
+    expect(report.mismatches).toEqual([expect.not.objectContaining({ adjustmentKey: expect.anything() })]);
+    expect(db.dump(Config.DB_TRANSACTIONS_TABLE).some((item) => item.adjustmentReason)).toBe(false);
+  });
+
+  it("should throw UserNotFoundError for an unknown user", async () => {
+    await expect(service.reconcile({ userId: "3" })).rejects.toThrow(UserNotFoundError);
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  AttributeValue,
+  DynamoDB,
+  GetItemCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactionCanceledException,
+  TransactWriteItemsCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  BalanceMismatch,
+  ReconcileInput,
+  ReconciliationReport,
+  TConfig,
+  TransactionType,
+  UserNotFoundError,
+} from "../types";
+import { addDecimals, compareDecimals } from "../money/money";
+import { sleep as defaultSleep, Sleep } from "../transact/retry";
+import { journalItems, SUSPENSE_ACCOUNT, userEntry } from "../journal/journal";
+import { createLogger, Logger } from "../logger/logger";
+import { transactionPostedItem } from "../outbox/outbox";
+
+// the GSI on the Transactions table, keyed by userId
+const USER_ID_INDEX = "userIdIndex";
+
+export type ReconciliationOptions = {
+  // how long to wait before reading a mismatched user again, the index lags the table
+  settleMs?: number;
+  // injectable so tests don't have to wait
+  sleep?: Sleep;
+  // createLogger(config) by default
+  logger?: Logger;
+};
+
+// a stored balance and the item it was read from, which the correcting entry is conditioned on
+type Wallet = {
+  currency: string;
+  balance?: string;
+  // the balance a seeded wallet was written with, before any transaction
+  openingBalance?: string;
+  TableName: string;
+  Key: Record<string, AttributeValue>;
+};
+
+// Class to compare each wallet's balance with the sum of its transactions.
+// The balance is read before the transactions, so a transaction written in between changes the balance
+// and the correcting entry's condition fails instead of adjusting the ledger twice
+export class ReconciliationService {
+  private _client: DynamoDB;
+  private _config: TConfig;
+  private _settleMs: number;
+  private _sleep: Sleep;
+  private _logger: Logger;
+
+  constructor(client: DynamoDB, config: TConfig, options: ReconciliationOptions = {}) {
+    this._client = client;
+    this._config = config;
+    this._settleMs = options.settleMs ?? 2_000;
+    this._sleep = options.sleep ?? defaultSleep;
+    this._logger = options.logger ?? createLogger(config);
+  }
+
+  // Reports the wallets whose balance differs from their transactions, and corrects them with repair.
+  // A mismatch is only reported when it's still there after settleMs
+  async reconcile(input: ReconcileInput = {}): Promise<ReconciliationReport> {
+    let checked = 0;
+    const suspects: string[] = [];
+
+    for await (const userId of this.userIds(input.userId)) {
+      const result = await this.reconcileUser(userId);
+      checked += result.checked;
+      if (result.mismatches.length > 0) {
+        suspects.push(userId);
+      }
+    }
+
+    if (suspects.length > 0) {
+      await this._sleep(this._settleMs);
+    }
+
+    const mismatches: BalanceMismatch[] = [];
+    for (const userId of suspects) {
+      const { wallets, mismatches: confirmed } = await this.reconcileUser(userId);
+      for (const mismatch of confirmed) {
+        const wallet = wallets.find((w) => w.currency === mismatch.currency)!;
+        mismatches.push(input.repair ? await this.repair(mismatch, wallet, input.repair.reason) : mismatch);
+      }
+    }
+
+    return { checked, mismatches };
+  }
+
+  // every user, or only the given one, which must exist
+  private async *userIds(userId: string | undefined): AsyncGenerator<string> {
+    if (userId) {
+      yield userId;
+      return;
+    }
+
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const response = await this._client.send(
+        new ScanCommand({
+          TableName: this._config.DB_USERS_TABLE,
+          ProjectionExpression: "userId",
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+      for (const item of response.Items ?? []) {
+        yield item.userId.S!;
+      }
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  }
+
+  private async reconcileUser(userId: string) {
+    const wallets = await this.readWallets(userId);
+    const net = await this.readLedger(userId);
+
+    // a currency can have transactions without a wallet, e.g. a wallet deleted by hand
+    const currencies = new Set([...wallets.map((wallet) => wallet.currency), ...net.keys()]);
+    for (const currency of currencies) {
+      if (!wallets.some((wallet) => wallet.currency === currency)) {
+        wallets.push({ currency, ...this.location(userId, currency) });
+      }
+    }
+
+    const mismatches: BalanceMismatch[] = [];
+    for (const wallet of wallets) {
+      const opening = this.openingBalance(wallet);
+      const expected = addDecimals(opening, net.get(wallet.currency) ?? "0");
+      const difference = addDecimals(wallet.balance ?? opening, negate(expected));
+      if (compareDecimals(difference, "0") !== 0) {
+        mismatches.push({ userId, currency: wallet.currency, balance: wallet.balance, expected, difference });
+      }
+    }
+
+    return { checked: wallets.length, wallets, mismatches };
+  }
+
+  // A seeded wallet opens with the balance it was seeded with. Without a stored balance, the default currency
+  // shows DEFAULT_BALANCE until the first write. Any other wallet opens at zero, a first credit
+  // stores the amount it credits and nothing more
+  private openingBalance(wallet: Wallet): string {
+    if (wallet.openingBalance !== undefined) {
+      return wallet.openingBalance;
+    }
+    if (wallet.balance === undefined && wallet.currency === this._config.DEFAULT_CURRENCY) {
+      return String(this._config.DEFAULT_BALANCE);
+    }
+    return "0";
+  }
+
+  // the balances as they are now, read consistently
+  private async readWallets(userId: string): Promise<Wallet[]> {
+    const user = await this._client.send(
+      new GetItemCommand({
+        TableName: this._config.DB_USERS_TABLE,
+        Key: { userId: { S: userId } },
+        ConsistentRead: true,
+      })
+    );
+    if (!user.Item) {
+      throw new UserNotFoundError(userId);
+    }
+
+    // a user item in another currency was written before wallets existed
+    const wallets: Wallet[] = [
+      {
+        currency: user.Item.currency?.S ?? this._config.DEFAULT_CURRENCY,
+        balance: user.Item.balance?.N,
+        openingBalance: user.Item.openingBalance?.N,
+        TableName: this._config.DB_USERS_TABLE,
+        Key: { userId: { S: userId } },
+      },
+    ];
+
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const response = await this._client.send(
+        new QueryCommand({
+          TableName: this._config.DB_WALLETS_TABLE,
+          KeyConditionExpression: "userId = :userId",
+          ExpressionAttributeValues: { ":userId": { S: userId } },
+          ConsistentRead: true,
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+      for (const item of response.Items ?? []) {
+        wallets.push({
+          currency: item.currency.S!,
+          balance: item.balance?.N,
+          openingBalance: item.openingBalance?.N,
+          TableName: this._config.DB_WALLETS_TABLE,
+          Key: { userId: item.userId, currency: item.currency },
+        });
+      }
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return wallets;
+  }
+
+  // the credits minus the debits of each currency
+  private async readLedger(userId: string): Promise<Map<string, string>> {
+    const net = new Map<string, string>();
+
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const response = await this._client.send(
+        new QueryCommand({
+          TableName: this._config.DB_TRANSACTIONS_TABLE,
+          IndexName: USER_ID_INDEX,
+          KeyConditionExpression: "userId = :userId",
+          ExpressionAttributeValues: { ":userId": { S: userId } },
+          ProjectionExpression: "#amount, #type, #currency",
+          ExpressionAttributeNames: { "#amount": "amount", "#type": "type", "#currency": "currency" },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+      for (const item of response.Items ?? []) {
+        const currency = item.currency?.S ?? this._config.DEFAULT_CURRENCY;
+        const amount = item.type.S === TransactionType.DEBIT ? negate(item.amount.N!) : item.amount.N!;
+        net.set(currency, addDecimals(net.get(currency) ?? "0", amount));
+      }
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return net;
+  }
+
+  // where a wallet that doesn't exist yet would be, like walletTarget
+  private location(userId: string, currency: string): Pick<Wallet, "TableName" | "Key"> {
+    return currency === this._config.DEFAULT_CURRENCY
+      ? { TableName: this._config.DB_USERS_TABLE, Key: { userId: { S: userId } } }
+      : { TableName: this._config.DB_WALLETS_TABLE, Key: { userId: { S: userId }, currency: { S: currency } } };
+  }
+
+  // Records the difference in the ledger, so the transactions add up to the balance again.
+  // The balance itself is left as it is. Nothing is written if it changed since it was read
+  private async repair(mismatch: BalanceMismatch, wallet: Wallet, reason: string): Promise<BalanceMismatch> {
+    const timestamp = Date.now().toString();
+    const adjustmentKey = `reconciliation:${timestamp}:${mismatch.userId}:${mismatch.currency}`;
+    const credit = compareDecimals(mismatch.difference, "0") > 0;
+    const type = credit ? TransactionType.CREDIT : TransactionType.DEBIT;
+    const amount = credit ? mismatch.difference : negate(mismatch.difference);
+
+    const adjustment: Record<string, AttributeValue> = {
+      idempotencyKey: { S: adjustmentKey },
+      userId: { S: mismatch.userId },
+      amount: { N: amount },
+      type: { S: type },
+      currency: { S: mismatch.currency },
+      adjustmentReason: { S: reason },
+      resultingBalance: { N: mismatch.balance ?? this.openingBalance(wallet) },
+      timestamp: { N: timestamp },
+    };
+
+    try {
+      await this._client.send(
+        new TransactWriteItemsCommand({
+          TransactItems: [
+            {
+              ConditionCheck: {
+                TableName: wallet.TableName,
+                Key: wallet.Key,
+                ConditionExpression:
+                  mismatch.balance === undefined ? "attribute_not_exists(#balance)" : "#balance = :balance",
+                ExpressionAttributeNames: { "#balance": "balance" },
+                ...(mismatch.balance !== undefined && {
+                  ExpressionAttributeValues: { ":balance": { N: mismatch.balance } },
+                }),
+              },
+            },
+            {
+              Put: {
+                TableName: this._config.DB_TRANSACTIONS_TABLE,
+                Item: adjustment,
+                ConditionExpression: "attribute_not_exists(idempotencyKey)",
+              },
+            },
+            transactionPostedItem(this._config, adjustment),
+            // the difference is unexplained, it's booked against the suspense account until someone looks into it
+            ...journalItems(
+              this._config,
+              userEntry(adjustmentKey, mismatch.userId, type, amount, mismatch.currency, SUSPENSE_ACCOUNT),
+              timestamp
+            ),
+          ],
+        })
+      );
+    } catch (error) {
+      if (error instanceof TransactionCanceledException) {
+        this._logger.warn(`Balance of user ${mismatch.userId} in ${mismatch.currency} changed, not repaired`, {
+          userId: mismatch.userId,
+        });
+        return mismatch;
+      }
+      throw error;
+    }
+
+    this._logger.info(`Repaired user ${mismatch.userId} in ${mismatch.currency} with ${adjustmentKey}`, {
+      userId: mismatch.userId,
+      idempotencyKey: adjustmentKey,
+    });
+    return { ...mismatch, adjustmentKey };
+  }
+}
+
+// "5" is "-5" and "-5" is "5"
+function negate(value: string): string {
+  return value.startsWith("-") ? value.slice(1) : `-${value}`;
+}
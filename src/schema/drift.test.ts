@@ -0,0 +1,167 @@
+import { TableDescription } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { Config } from "../config";
+import { MigrationService } from "./migrator";
+import { compareTable, SchemaDriftService } from "./drift";
+import { declaredTables, TableDefinition } from "./tables";
+
+describe("schema drift", () => {
+  const transactions: TableDefinition = declaredTables(Config).find(
+    (table) => table.TableName === Config.DB_TRANSACTIONS_TABLE
+  )!;
+
+  // the Transactions table as DescribeTable returns it
+  const description = (overrides: Partial<TableDescription> = {}): TableDescription => ({
+    TableName: Config.DB_TRANSACTIONS_TABLE,
+    TableStatus: "ACTIVE",
+    KeySchema: [{ AttributeName: "idempotencyKey", KeyType: "HASH" }],
+    AttributeDefinitions: [
+      { AttributeName: "idempotencyKey", AttributeType: "S" },
+      { AttributeName: "userId", AttributeType: "S" },
+      { AttributeName: "timestamp", AttributeType: "N" },
+    ],
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: "userIdIndex",
+        KeySchema: [
+          { AttributeName: "timestamp", KeyType: "RANGE" },
+          { AttributeName: "userId", KeyType: "HASH" },
+        ],
+        Projection: { ProjectionType: "ALL" },
+      },
+    ],
+    ...overrides,
+  });
+
+  describe("SchemaDriftService", () => {
+    let db: InMemoryDynamoDB;
+
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      jest.spyOn(console, "info").mockImplementation(() => {});
+
+      db = new InMemoryDynamoDB();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should find no drift once the migrations are applied", async () => {
+      await new MigrationService(db, Config).up();
+
+      const report = await new SchemaDriftService(db, Config).diff();
+
+      expect(report.blocking).toBe(false);
+      expect(report.tables.filter((table) => table.status !== "ok")).toEqual([]);
+    });
+
+    it("should report a missing table as blocking", async () => {
+      const report = await new SchemaDriftService(db, Config, [transactions]).diff();
+
+      expect(report).toEqual({
+        tables: [
+          {
+            tableName: Config.DB_TRANSACTIONS_TABLE,
+            status: "missing",
+            differences: [{ path: "Table", severity: "blocking", expected: Config.DB_TRANSACTIONS_TABLE }],
+          },
+        ],
+        blocking: true,
+      });
+    });
+  });
+
+  describe("compareTable", () => {
+    it("should ignore the order of the keys", () => {
+      expect(compareTable(transactions, description(), undefined)).toEqual([]);
+    });
+
+    it("should block on a different key schema or attribute type", () => {
+      const actual = description({
+        KeySchema: [{ AttributeName: "id", KeyType: "HASH" }],
+        AttributeDefinitions: [
+          { AttributeName: "id", AttributeType: "S" },
+          { AttributeName: "userId", AttributeType: "S" },
+          { AttributeName: "timestamp", AttributeType: "S" },
+        ],
+      });
+
+      expect(compareTable(transactions, actual, undefined)).toEqual([
+        { path: "KeySchema", severity: "blocking", expected: "idempotencyKey HASH", actual: "id HASH" },
+        { path: "AttributeDefinitions.timestamp", severity: "blocking", expected: "N", actual: "S" },
+      ]);
+    });
+
+    it("should block on a missing index, and not on an extra one", () => {
+      const actual = description({
+        GlobalSecondaryIndexes: [
+          {
+            IndexName: "typeIndex",
+            KeySchema: [{ AttributeName: "type", KeyType: "HASH" }],
+            Projection: { ProjectionType: "KEYS_ONLY" },
+          },
+        ],
+      });
+
+      expect(compareTable(transactions, actual, undefined)).toEqual([
+        {
+          path: "GlobalSecondaryIndexes.userIdIndex",
+          severity: "blocking",
+          expected: "userId HASH, timestamp RANGE",
+          actual: undefined,
+        },
+        { path: "GlobalSecondaryIndexes.typeIndex", severity: "cosmetic", expected: undefined, actual: "type HASH" },
+      ]);
+    });
+
+    it.each([
+      [{ ProjectionType: "KEYS_ONLY" as const }, "KEYS_ONLY"],
+      [{ ProjectionType: "INCLUDE" as const, NonKeyAttributes: ["type", "amount"] }, "INCLUDE(amount, type)"],
+    ])("should block on a narrower projection %p", (projection, formatted) => {
+      const actual = description();
+      actual.GlobalSecondaryIndexes![0].Projection = projection;
+
+      expect(compareTable(transactions, actual, undefined)).toEqual([
+        {
+          path: "GlobalSecondaryIndexes.userIdIndex.Projection",
+          severity: "blocking",
+          expected: "ALL",
+          actual: formatted,
+        },
+      ]);
+    });
+
+    it("should only be cosmetic when the projection includes more than declared", () => {
+      const declared: TableDefinition = {
+        ...transactions,
+        GlobalSecondaryIndexes: [
+          {
+            ...transactions.GlobalSecondaryIndexes[0],
+            Projection: { ProjectionType: "INCLUDE", NonKeyAttributes: ["amount"] },
+          },
+        ],
+      };
+
+      expect(compareTable(declared, description(), undefined)).toEqual([
+        {
+          path: "GlobalSecondaryIndexes.userIdIndex.Projection",
+          severity: "cosmetic",
+          expected: "INCLUDE(amount)",
+          actual: "ALL",
+        },
+      ]);
+    });
+
+    it("should report billing mode and TTL as cosmetic", () => {
+      const actual = description({ BillingModeSummary: { BillingMode: "PAY_PER_REQUEST" } });
+
+      expect(
+        compareTable(transactions, actual, { TimeToLiveStatus: "ENABLED", AttributeName: "expiresAt" })
+      ).toEqual([
+        { path: "BillingMode", severity: "cosmetic", expected: "PROVISIONED", actual: "PAY_PER_REQUEST" },
+        { path: "TimeToLive", severity: "cosmetic", expected: undefined, actual: "expiresAt" },
+      ]);
+    });
+  });
+});
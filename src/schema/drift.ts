@@ -0,0 +1,177 @@
+import {
+  DynamoDB,
+  KeySchemaElement,
+  Projection,
+  ResourceNotFoundException,
+  TableDescription,
+  TimeToLiveDescription,
+} from "@aws-sdk/client-dynamodb";
+import { TConfig } from "../types";
+import { declaredTables, TableDefinition } from "./tables";
+
+// blocking differences break the code, e.g. a missing index, cosmetic ones only cost more or keep stale data
+export type DriftSeverity = "blocking" | "cosmetic";
+
+export type SchemaDifference = {
+  // what differs, e.g. "GlobalSecondaryIndexes.userIdIndex.Projection"
+  path: string;
+  severity: DriftSeverity;
+  // undefined when it's missing on that side
+  expected?: string;
+  actual?: string;
+};
+
+export type TableDrift = {
+  tableName: string;
+  status: "ok" | "missing" | "drifted";
+  differences: SchemaDifference[];
+};
+
+export type SchemaReport = {
+  tables: TableDrift[];
+  // true when any table has a blocking difference
+  blocking: boolean;
+};
+
+// the projections by what they include, a narrower projection than declared leaves attributes out of query results
+const PROJECTION_WIDTH: Record<string, number> = { KEYS_ONLY: 0, INCLUDE: 1, ALL: 2 };
+
+// Class to compare the deployed tables with their declared definitions (see tables.ts).
+// It only reads, with DescribeTable and DescribeTimeToLive
+export class SchemaDriftService {
+  private _client: DynamoDB;
+  private _tables: TableDefinition[];
+
+  constructor(client: DynamoDB, config: TConfig, tables: TableDefinition[] = declaredTables(config)) {
+    this._client = client;
+    this._tables = tables;
+  }
+
+  async diff(): Promise<SchemaReport> {
+    const tables = await Promise.all(this._tables.map((declared) => this.diffTable(declared)));
+
+    return {
+      tables,
+      blocking: tables.some((table) => table.differences.some((difference) => difference.severity === "blocking")),
+    };
+  }
+
+  private async diffTable(declared: TableDefinition): Promise<TableDrift> {
+    const tableName = declared.TableName;
+    let actual: TableDescription | undefined;
+    try {
+      ({ Table: actual } = await this._client.describeTable({ TableName: tableName }));
+    } catch (error) {
+      if (!(error instanceof ResourceNotFoundException)) {
+        throw error;
+      }
+    }
+    if (!actual) {
+      return {
+        tableName,
+        status: "missing",
+        differences: [{ path: "Table", severity: "blocking", expected: tableName }],
+      };
+    }
+
+    const { TimeToLiveDescription } = await this._client.describeTimeToLive({ TableName: tableName });
+    const differences = compareTable(declared, actual, TimeToLiveDescription);
+    return { tableName, status: differences.length > 0 ? "drifted" : "ok", differences };
+  }
+}
+
+// the differences between a declared table and its DescribeTable and DescribeTimeToLive results
+export function compareTable(
+  declared: TableDefinition,
+  actual: TableDescription,
+  timeToLive: TimeToLiveDescription | undefined
+): SchemaDifference[] {
+  const differences: SchemaDifference[] = [];
+  const differ = (path: string, severity: DriftSeverity, expected?: string, actual?: string) => {
+    if (expected !== actual) {
+      differences.push({ path, severity, expected, actual });
+    }
+  };
+
+  differ("KeySchema", "blocking", formatKeySchema(declared.KeySchema), formatKeySchema(actual.KeySchema));
+
+  // only a type change is reported, a missing attribute shows up as a missing key
+  for (const definition of declared.AttributeDefinitions) {
+    const type = actual.AttributeDefinitions?.find((a) => a.AttributeName === definition.AttributeName)?.AttributeType;
+    if (type) {
+      differ(`AttributeDefinitions.${definition.AttributeName}`, "blocking", definition.AttributeType, type);
+    }
+  }
+
+  const actualIndexes = actual.GlobalSecondaryIndexes ?? [];
+  for (const index of declared.GlobalSecondaryIndexes) {
+    const path = `GlobalSecondaryIndexes.${index.IndexName}`;
+    const actualIndex = actualIndexes.find((a) => a.IndexName === index.IndexName);
+    if (!actualIndex) {
+      differ(path, "blocking", formatKeySchema(index.KeySchema), undefined);
+      continue;
+    }
+
+    differ(`${path}.KeySchema`, "blocking", formatKeySchema(index.KeySchema), formatKeySchema(actualIndex.KeySchema));
+    const projection = compareProjection(index.Projection, actualIndex.Projection);
+    if (projection) {
+      differences.push({ path: `${path}.Projection`, ...projection });
+    }
+  }
+  // an extra index costs writes, but the code doesn't know about it
+  for (const index of actualIndexes) {
+    if (!declared.GlobalSecondaryIndexes.some((d) => d.IndexName === index.IndexName)) {
+      differ(`GlobalSecondaryIndexes.${index.IndexName}`, "cosmetic", undefined, formatKeySchema(index.KeySchema));
+    }
+  }
+
+  // provisioned tables that were never switched have no BillingModeSummary
+  differ("BillingMode", "cosmetic", declared.BillingMode, actual.BillingModeSummary?.BillingMode ?? "PROVISIONED");
+
+  // DynamoDB deletes expired items within days, so nothing relies on it for correctness
+  const status = timeToLive?.TimeToLiveStatus;
+  differ(
+    "TimeToLive",
+    "cosmetic",
+    declared.TimeToLiveAttribute,
+    status === "ENABLED" || status === "ENABLING" ? timeToLive?.AttributeName : undefined
+  );
+
+  return differences;
+}
+
+// undefined when the projections are the same
+function compareProjection(
+  declared: Projection,
+  actual: Projection | undefined
+): Pick<SchemaDifference, "severity" | "expected" | "actual"> | undefined {
+  const expected = formatProjection(declared);
+  const got = formatProjection(actual);
+  if (expected === got) {
+    return undefined;
+  }
+
+  const declaredWidth = PROJECTION_WIDTH[declared.ProjectionType ?? "ALL"];
+  const actualWidth = PROJECTION_WIDTH[actual?.ProjectionType ?? "ALL"];
+  const missingAttributes =
+    declared.ProjectionType === "INCLUDE" &&
+    actual?.ProjectionType === "INCLUDE" &&
+    (declared.NonKeyAttributes ?? []).some((name) => !actual.NonKeyAttributes?.includes(name));
+
+  return { severity: actualWidth < declaredWidth || missingAttributes ? "blocking" : "cosmetic", expected, actual: got };
+}
+
+// e.g. "userId HASH, timestamp RANGE"
+function formatKeySchema(keySchema: KeySchemaElement[] | undefined): string | undefined {
+  return keySchema
+    ?.slice()
+    .sort((a, b) => (a.KeyType === "HASH" ? -1 : b.KeyType === "HASH" ? 1 : 0))
+    .map((key) => `${key.AttributeName} ${key.KeyType}`)
+    .join(", ");
+}
+
+// e.g. "ALL" or "INCLUDE(amount, type)"
+function formatProjection(projection: Projection | undefined): string {
+  const type = projection?.ProjectionType ?? "ALL";
+  return type === "INCLUDE" ? `INCLUDE(${[...(projection?.NonKeyAttributes ?? [])].sort().join(", ")})` : type;
+}
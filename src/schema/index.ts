@@ -1,11 +1,12 @@
-import { client } from "../db/client";
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { createClient } from "../db/client";
 import { Config } from "../config";
-import { createTransactionsSchema, createUsersSchema } from "./create";
+import { MigrationService } from "./migrator";
 
 // returns true if the table exists, false otherwise
-export async function checkTableExists(tableName: string) {
+export async function checkTableExists(tableName: string, dynamodb: DynamoDB) {
   try {
-    const response = await client.listTables().then((data) => data.TableNames);
+    const response = await dynamodb.listTables().then((data) => data.TableNames);
     if (response && response.includes(tableName)) {
       return true;
     } else {
@@ -17,22 +18,16 @@ export async function checkTableExists(tableName: string) {
   }
 }
 
-// creates the Users and Transactions tables if they do not exist
-const createSchema = async () => {
+// applies the pending migrations, which create the tables that do not exist
+export const createSchema = async (dynamodb: DynamoDB) => {
   console.log("Creating schema...");
-  if ((await checkTableExists(Config.DB_USERS_TABLE)) === false) {
-    await createUsersSchema();
-  }
-
-  if ((await checkTableExists(Config.DB_TRANSACTIONS_TABLE)) === false) {
-    await createTransactionsSchema();
-  }
+  await new MigrationService(dynamodb, Config).up();
 };
 
 // only run this script if it's executed directly and it's not imported as a module
 if (process.argv[1] === __filename) {
   // script name is this file.
-  createSchema()
+  createSchema(createClient(Config))
     .then(() => {
       console.log("Schema created successfully");
       process.exit(0); // exit with success status code
@@ -0,0 +1,79 @@
+import { Migration } from "../migrator";
+
+// the tables of the first schema, created by createSchema before there were migrations
+export const usersAndTransactions: Migration = {
+  id: "001-users-and-transactions",
+  description: "Create the Users and Transactions tables",
+  up: async ({ config, createTable }) => {
+    await createTable({
+      TableName: config.DB_USERS_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "userId",
+          AttributeType: "S",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "userId",
+          KeyType: "HASH",
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 1,
+        WriteCapacityUnits: 1,
+      },
+    });
+
+    await createTable({
+      TableName: config.DB_TRANSACTIONS_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "idempotencyKey",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "userId",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "timestamp",
+          AttributeType: "N",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "idempotencyKey",
+          KeyType: "HASH",
+        },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: "userIdIndex",
+          KeySchema: [
+            {
+              AttributeName: "userId",
+              KeyType: "HASH",
+            },
+            {
+              // sorts a user's transactions chronologically and allows date range queries
+              AttributeName: "timestamp",
+              KeyType: "RANGE",
+            },
+          ],
+          Projection: {
+            ProjectionType: "ALL",
+          },
+          ProvisionedThroughput: {
+            ReadCapacityUnits: 1,
+            WriteCapacityUnits: 1,
+          },
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    });
+  },
+};
@@ -0,0 +1,27 @@
+import { Migration } from "../migrator";
+
+export const holds: Migration = {
+  id: "002-holds",
+  description: "Create the Holds table",
+  up: async ({ config, createTable }) => {
+    await createTable({
+      TableName: config.DB_HOLDS_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "holdId",
+          AttributeType: "S",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "holdId",
+          KeyType: "HASH",
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 1,
+        WriteCapacityUnits: 1,
+      },
+    });
+  },
+};
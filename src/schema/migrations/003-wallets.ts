@@ -0,0 +1,36 @@
+import { Migration } from "../migrator";
+
+export const wallets: Migration = {
+  id: "003-wallets",
+  description: "Create the Wallets table",
+  up: async ({ config, createTable }) => {
+    await createTable({
+      TableName: config.DB_WALLETS_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "userId",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "currency",
+          AttributeType: "S",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "userId",
+          KeyType: "HASH",
+        },
+        {
+          // one wallet per currency per user
+          AttributeName: "currency",
+          KeyType: "RANGE",
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 1,
+        WriteCapacityUnits: 1,
+      },
+    });
+  },
+};
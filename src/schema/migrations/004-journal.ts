@@ -0,0 +1,36 @@
+import { Migration } from "../migrator";
+
+export const journal: Migration = {
+  id: "004-journal",
+  description: "Create the Journal table",
+  up: async ({ config, createTable }) => {
+    await createTable({
+      TableName: config.DB_JOURNAL_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "entryId",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "line",
+          AttributeType: "N",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "entryId",
+          KeyType: "HASH",
+        },
+        {
+          // the lines of an entry, in the order they were posted
+          AttributeName: "line",
+          KeyType: "RANGE",
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 1,
+        WriteCapacityUnits: 1,
+      },
+    });
+  },
+};
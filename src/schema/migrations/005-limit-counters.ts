@@ -0,0 +1,40 @@
+import { Migration } from "../migrator";
+
+export const limitCounters: Migration = {
+  id: "005-limit-counters",
+  description: "Create the LimitCounters table, expiring the counters of past windows",
+  up: async ({ config, createTable, updateTimeToLive }) => {
+    await createTable({
+      TableName: config.DB_LIMIT_COUNTERS_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "userId",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "counter",
+          AttributeType: "S",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "userId",
+          KeyType: "HASH",
+        },
+        {
+          // the limit and its window, e.g. "daily:USD:2024-01-31"
+          AttributeName: "counter",
+          KeyType: "RANGE",
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 1,
+        WriteCapacityUnits: 1,
+      },
+    });
+    await updateTimeToLive({
+      TableName: config.DB_LIMIT_COUNTERS_TABLE,
+      TimeToLiveSpecification: { Enabled: true, AttributeName: "expiresAt" },
+    });
+  },
+};
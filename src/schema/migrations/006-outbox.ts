@@ -0,0 +1,63 @@
+import { Migration } from "../migrator";
+
+export const outbox: Migration = {
+  id: "006-outbox",
+  description: "Create the Outbox table, with the pending events indexed by when they are due",
+  up: async ({ config, createTable, updateTimeToLive }) => {
+    await createTable({
+      TableName: config.DB_OUTBOX_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "eventId",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "status",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "nextAttemptAt",
+          AttributeType: "N",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "eventId",
+          KeyType: "HASH",
+        },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          // only pending events have a nextAttemptAt, so delivered and failed ones drop out of the index.
+          // NB: every pending event shares the "pending" partition, which gets hot under a heavy write load
+          IndexName: "pendingIndex",
+          KeySchema: [
+            {
+              AttributeName: "status",
+              KeyType: "HASH",
+            },
+            {
+              AttributeName: "nextAttemptAt",
+              KeyType: "RANGE",
+            },
+          ],
+          Projection: {
+            ProjectionType: "ALL",
+          },
+          ProvisionedThroughput: {
+            ReadCapacityUnits: 1,
+            WriteCapacityUnits: 1,
+          },
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 1,
+        WriteCapacityUnits: 1,
+      },
+    });
+    await updateTimeToLive({
+      TableName: config.DB_OUTBOX_TABLE,
+      TimeToLiveSpecification: { Enabled: true, AttributeName: "expiresAt" },
+    });
+  },
+};
@@ -0,0 +1,57 @@
+import { Migration } from "../migrator";
+
+export const webhooks: Migration = {
+  id: "007-webhooks",
+  description: "Create the Webhooks table, with the subscriptions indexed by event type",
+  up: async ({ config, createTable }) => {
+    await createTable({
+      TableName: config.DB_WEBHOOKS_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "subscriptionId",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "eventType",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "createdAt",
+          AttributeType: "N",
+        },
+      ],
+      KeySchema: [
+        {
+          AttributeName: "subscriptionId",
+          KeyType: "HASH",
+        },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: "eventTypeIndex",
+          KeySchema: [
+            {
+              AttributeName: "eventType",
+              KeyType: "HASH",
+            },
+            {
+              AttributeName: "createdAt",
+              KeyType: "RANGE",
+            },
+          ],
+          Projection: {
+            ProjectionType: "ALL",
+          },
+          ProvisionedThroughput: {
+            ReadCapacityUnits: 1,
+            WriteCapacityUnits: 1,
+          },
+        },
+      ],
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 1,
+        WriteCapacityUnits: 1,
+      },
+    });
+  },
+};
@@ -0,0 +1,71 @@
+import { Migration } from "../migrator";
+
+const INDEX_NAME = "userIdIndex";
+
+// Transactions tables created before the timestamp sort key have a userIdIndex keyed by userId alone,
+// which can't order or page a user's transactions by time. 001 adopted them as they were.
+// DynamoDB can't change the key of an index, so it's deleted and created again, backfilled from the table
+export const userIdIndexTimestamp: Migration = {
+  id: "008-user-id-index-timestamp",
+  description: "Replace a userIdIndex without the timestamp sort key on the Transactions table",
+  up: async ({ config, describeTable, updateTable }) => {
+    const table = await describeTable(config.DB_TRANSACTIONS_TABLE);
+    // only planned by 001 in a dry run, with the sort key
+    if (!table) {
+      return;
+    }
+
+    const index = table.GlobalSecondaryIndexes?.find((gsi) => gsi.IndexName === INDEX_NAME);
+    const sorted = index?.KeySchema?.some((key) => key.AttributeName === "timestamp" && key.KeyType === "RANGE");
+    if (sorted) {
+      return;
+    }
+
+    if (index) {
+      await updateTable({
+        TableName: config.DB_TRANSACTIONS_TABLE,
+        GlobalSecondaryIndexUpdates: [{ Delete: { IndexName: INDEX_NAME } }],
+      });
+    }
+    await updateTable({
+      TableName: config.DB_TRANSACTIONS_TABLE,
+      AttributeDefinitions: [
+        {
+          AttributeName: "userId",
+          AttributeType: "S",
+        },
+        {
+          AttributeName: "timestamp",
+          AttributeType: "N",
+        },
+      ],
+      GlobalSecondaryIndexUpdates: [
+        {
+          Create: {
+            IndexName: INDEX_NAME,
+            KeySchema: [
+              {
+                AttributeName: "userId",
+                KeyType: "HASH",
+              },
+              {
+                AttributeName: "timestamp",
+                KeyType: "RANGE",
+              },
+            ],
+            Projection: {
+              ProjectionType: "ALL",
+            },
+            // an on-demand table refuses a provisioned throughput
+            ...(table.BillingModeSummary?.BillingMode !== "PAY_PER_REQUEST" && {
+              ProvisionedThroughput: {
+                ReadCapacityUnits: 1,
+                WriteCapacityUnits: 1,
+              },
+            }),
+          },
+        },
+      ],
+    });
+  },
+};
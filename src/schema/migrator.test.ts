@@ -0,0 +1,231 @@
+import { DynamoDB, ResourceInUseException } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { Config } from "../config";
+import { MIGRATIONS } from "./registry";
+import { Migration, MigrationError, MigrationService } from "./migrator";
+
+describe("MigrationService", () => {
+  let db: InMemoryDynamoDB;
+
+  // adds an index and TTL to the Holds table, the changes createSchema could not make
+  const holdsByUser: Migration = {
+    id: "009-holds-by-user",
+    description: "Index holds by user and expire them",
+    up: async ({ config, updateTable, updateTimeToLive }) => {
+      await updateTable({
+        TableName: config.DB_HOLDS_TABLE,
+        AttributeDefinitions: [{ AttributeName: "userId", AttributeType: "S" }],
+        GlobalSecondaryIndexUpdates: [
+          {
+            Create: {
+              IndexName: "userIdIndex",
+              KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+              Projection: { ProjectionType: "KEYS_ONLY" },
+            },
+          },
+        ],
+        BillingMode: "PAY_PER_REQUEST",
+      });
+      await updateTimeToLive({
+        TableName: config.DB_HOLDS_TABLE,
+        TimeToLiveSpecification: { Enabled: true, AttributeName: "expiresAt" },
+      });
+    },
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("up", () => {
+    it("should apply every migration once, in order", async () => {
+      const service = new MigrationService(db, Config);
+
+      const run = await service.up();
+
+      expect(run.applied).toEqual(MIGRATIONS.map((migration) => migration.id));
+      expect(run.calls.map((call) => [call.migrationId, call.operation, call.input.TableName])).toEqual([
+        [undefined, "CreateTable", Config.DB_MIGRATIONS_TABLE],
+        ["001-users-and-transactions", "CreateTable", Config.DB_USERS_TABLE],
+        ["001-users-and-transactions", "CreateTable", Config.DB_TRANSACTIONS_TABLE],
+        ["002-holds", "CreateTable", Config.DB_HOLDS_TABLE],
+        ["003-wallets", "CreateTable", Config.DB_WALLETS_TABLE],
+        ["004-journal", "CreateTable", Config.DB_JOURNAL_TABLE],
+        ["005-limit-counters", "CreateTable", Config.DB_LIMIT_COUNTERS_TABLE],
+        ["005-limit-counters", "UpdateTimeToLive", Config.DB_LIMIT_COUNTERS_TABLE],
+        ["006-outbox", "CreateTable", Config.DB_OUTBOX_TABLE],
+        ["006-outbox", "UpdateTimeToLive", Config.DB_OUTBOX_TABLE],
+        ["007-webhooks", "CreateTable", Config.DB_WEBHOOKS_TABLE],
+      ]);
+      expect(db.dump(Config.DB_MIGRATIONS_TABLE)).toHaveLength(MIGRATIONS.length);
+
+      await expect(service.up()).resolves.toEqual({ dryRun: false, applied: [], calls: [] });
+    });
+
+    it("should adopt tables created before migrations", async () => {
+      await db.createTable({
+        TableName: Config.DB_USERS_TABLE,
+        AttributeDefinitions: [{ AttributeName: "userId", AttributeType: "S" }],
+        KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+      });
+
+      const run = await new MigrationService(db, Config).up();
+
+      expect(run.applied).toContain("001-users-and-transactions");
+      expect(run.calls.map((call) => call.input.TableName)).not.toContain(Config.DB_USERS_TABLE);
+    });
+
+    it("should replace a userIdIndex without the timestamp sort key", async () => {
+      // the index of the first Transactions tables
+      await db.createTable({
+        TableName: Config.DB_TRANSACTIONS_TABLE,
+        AttributeDefinitions: [
+          { AttributeName: "idempotencyKey", AttributeType: "S" },
+          { AttributeName: "userId", AttributeType: "S" },
+        ],
+        KeySchema: [{ AttributeName: "idempotencyKey", KeyType: "HASH" }],
+        GlobalSecondaryIndexes: [
+          {
+            IndexName: "userIdIndex",
+            KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+            Projection: { ProjectionType: "ALL" },
+          },
+        ],
+      });
+
+      const run = await new MigrationService(db, Config).up();
+
+      expect(
+        run.calls.filter((call) => call.migrationId === "008-user-id-index-timestamp").map((call) => call.input)
+      ).toEqual([
+        expect.objectContaining({ GlobalSecondaryIndexUpdates: [{ Delete: { IndexName: "userIdIndex" } }] }),
+        expect.objectContaining({ GlobalSecondaryIndexUpdates: [{ Create: expect.anything() }] }),
+      ]);
+      const { Table } = await db.describeTable({ TableName: Config.DB_TRANSACTIONS_TABLE });
+      expect(Table?.GlobalSecondaryIndexes?.map((index) => index.KeySchema)).toEqual([
+        [
+          { AttributeName: "userId", KeyType: "HASH" },
+          { AttributeName: "timestamp", KeyType: "RANGE" },
+        ],
+      ]);
+    });
+
+    it("should alter an existing table", async () => {
+      await new MigrationService(db, Config).up();
+
+      const run = await new MigrationService(db, Config, [...MIGRATIONS, holdsByUser]).up();
+
+      expect(run.applied).toEqual(["009-holds-by-user"]);
+      expect(run.calls.map((call) => call.operation)).toEqual(["UpdateTable", "UpdateTimeToLive"]);
+      const { Table } = await db.describeTable({ TableName: Config.DB_HOLDS_TABLE });
+      expect(Table?.GlobalSecondaryIndexes?.map((index) => index.IndexName)).toEqual(["userIdIndex"]);
+      expect(Table?.BillingModeSummary?.BillingMode).toBe("PAY_PER_REQUEST");
+      const { TimeToLiveDescription } = await db.describeTimeToLive({ TableName: Config.DB_HOLDS_TABLE });
+      expect(TimeToLiveDescription).toEqual({ TimeToLiveStatus: "ENABLED", AttributeName: "expiresAt" });
+    });
+
+    it("should plan the calls without making them in a dry run", async () => {
+      await new MigrationService(db, Config).up();
+      const service = new MigrationService(db, Config, [...MIGRATIONS, holdsByUser]);
+
+      const run = await service.up({ dryRun: true });
+
+      expect(run).toMatchObject({ dryRun: true, applied: ["009-holds-by-user"] });
+      expect(run.calls[1]).toEqual({
+        migrationId: "009-holds-by-user",
+        operation: "UpdateTimeToLive",
+        input: {
+          TableName: Config.DB_HOLDS_TABLE,
+          TimeToLiveSpecification: { Enabled: true, AttributeName: "expiresAt" },
+        },
+      });
+      const { Table } = await db.describeTable({ TableName: Config.DB_HOLDS_TABLE });
+      expect(Table?.GlobalSecondaryIndexes).toBeUndefined();
+      expect((await service.status()).map((migration) => migration.appliedAt)).toEqual([
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        undefined,
+      ]);
+    });
+
+    it("should plan the migrations table on a new database without creating anything", async () => {
+      const run = await new MigrationService(db, Config).up({ dryRun: true });
+
+      expect(run.calls[0]).toMatchObject({ operation: "CreateTable", input: { TableName: Config.DB_MIGRATIONS_TABLE } });
+      expect(run.applied).toHaveLength(MIGRATIONS.length);
+      expect((await db.listTables({})).TableNames).toEqual([]);
+    });
+
+    it("should not record a migration that failed, so it runs again", async () => {
+      const failing: Migration = {
+        id: "009-failing",
+        description: "Create a table that exists",
+        up: async ({ config }) => {
+          await db.createTable({
+            TableName: config.DB_USERS_TABLE,
+            AttributeDefinitions: [{ AttributeName: "userId", AttributeType: "S" }],
+            KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+          });
+        },
+      };
+      const service = new MigrationService(db, Config, [...MIGRATIONS, failing]);
+
+      await expect(service.up()).rejects.toThrow(ResourceInUseException);
+
+      expect((await service.status()).map((migration) => migration.appliedAt)[8]).toBeUndefined();
+    });
+
+    it("should wait until the table is ACTIVE again", async () => {
+      // the table is usable, but its new index is still being built
+      const client = {
+        describeTable: jest.fn().mockResolvedValue({
+          Table: { TableStatus: "ACTIVE", GlobalSecondaryIndexes: [{ IndexStatus: "CREATING" }] },
+        }),
+        scan: jest.fn().mockResolvedValue({ Items: [] }),
+        updateTable: jest.fn(),
+      } as unknown as DynamoDB;
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const migration: Migration = {
+        id: "001-update",
+        description: "Update a table",
+        up: ({ updateTable }) => updateTable({ TableName: "table", BillingMode: "PAY_PER_REQUEST" }),
+      };
+
+      const service = new MigrationService(client, Config, [migration], { sleep, pollIntervalMs: 10, maxPolls: 3 });
+
+      await expect(service.up()).rejects.toThrow("Table table is not ACTIVE after 3 checks");
+      expect(sleep).toHaveBeenCalledTimes(3);
+      expect(sleep).toHaveBeenCalledWith(10);
+    });
+  });
+
+  describe("status", () => {
+    it("should list every migration as pending before the first run", async () => {
+      const status = await new MigrationService(db, Config).status();
+
+      expect(status).toEqual(MIGRATIONS.map(({ id, description }) => ({ id, description, appliedAt: undefined })));
+    });
+  });
+
+  it.each([
+    [["002-b", "001-a"], "Migration 001-a is listed after 002-b"],
+    [["001-a", "001-a"], "Duplicate migration id 001-a"],
+  ])("should refuse the migrations %p", (ids, message) => {
+    const migrations = ids.map((id) => ({ id, description: id, up: async () => {} }));
+
+    expect(() => new MigrationService(db, Config, migrations)).toThrow(new MigrationError(message));
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  AttributeValue,
+  CreateTableCommandInput,
+  DynamoDB,
+  ResourceNotFoundException,
+  TableDescription,
+  UpdateTableCommandInput,
+  UpdateTimeToLiveCommandInput,
+} from "@aws-sdk/client-dynamodb";
+import { sleep as defaultSleep, Sleep } from "../transact/retry";
+import { TConfig } from "../types";
+import { createLogger, Logger } from "../logger/logger";
+import { MIGRATIONS } from "./registry";
+
+// what a migration can do to the schema. Each call is applied, or only planned in a dry run
+export type MigrationContext = {
+  config: TConfig;
+  dryRun: boolean;
+  // does nothing when the table exists, so the first migration adopts tables created before migrations
+  createTable: (input: CreateTableCommandInput) => Promise<void>;
+  updateTable: (input: UpdateTableCommandInput) => Promise<void>;
+  // does nothing when TTL is already in the requested state, DynamoDB refuses to set it twice
+  updateTimeToLive: (input: UpdateTimeToLiveCommandInput) => Promise<void>;
+  // undefined when the table doesn't exist
+  describeTable: (tableName: string) => Promise<TableDescription | undefined>;
+};
+
+export type Migration = {
+  // sorts the migrations, e.g. "002-holds". Never renamed once applied
+  id: string;
+  description: string;
+  up: (context: MigrationContext) => Promise<void>;
+};
+
+export type SchemaCall =
+  | { operation: "CreateTable"; input: CreateTableCommandInput }
+  | { operation: "UpdateTable"; input: UpdateTableCommandInput }
+  | { operation: "UpdateTimeToLive"; input: UpdateTimeToLiveCommandInput };
+
+// a call of a migration, or of the setup of the migrations table when migrationId is undefined
+export type PlannedCall = SchemaCall & { migrationId?: string };
+
+export type MigrationStatus = {
+  id: string;
+  description: string;
+  // ISO date, undefined while the migration is pending
+  appliedAt?: string;
+};
+
+export type MigrationRun = {
+  dryRun: boolean;
+  // the ids of the migrations applied, or that would be in a dry run
+  applied: string[];
+  calls: PlannedCall[];
+};
+
+export type MigrationOptions = {
+  // injectable so tests don't have to wait
+  sleep?: Sleep;
+  // how often, and how many times, to check that a table is ACTIVE again after a change
+  pollIntervalMs?: number;
+  maxPolls?: number;
+  // createLogger(config) by default
+  logger?: Logger;
+};
+
+// a migration registry that can't be run, or a table that never became ACTIVE
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+// Class to apply the schema migrations in order, recording each in the migrations table.
+// A migration that fails is not recorded, it runs again on the next up
+export class MigrationService {
+  private _client: DynamoDB;
+  private _config: TConfig;
+  private _tableName: string;
+  private _migrations: Migration[];
+  private _sleep: Sleep;
+  private _pollIntervalMs: number;
+  private _maxPolls: number;
+  private _logger: Logger;
+
+  constructor(client: DynamoDB, config: TConfig, migrations: Migration[] = MIGRATIONS, options: MigrationOptions = {}) {
+    validateMigrations(migrations);
+
+    this._client = client;
+    this._config = config;
+    this._tableName = config.DB_MIGRATIONS_TABLE;
+    this._migrations = migrations;
+    this._sleep = options.sleep ?? defaultSleep;
+    this._pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this._maxPolls = options.maxPolls ?? 300;
+    this._logger = options.logger ?? createLogger(config);
+  }
+
+  // every migration, in order, with when it was applied
+  async status(): Promise<MigrationStatus[]> {
+    const applied = (await this.describeTable(this._tableName)) ? await this.appliedMigrations() : new Map();
+
+    return this._migrations.map((migration) => ({
+      id: migration.id,
+      description: migration.description,
+      appliedAt: applied.get(migration.id),
+    }));
+  }
+
+  // Applies the pending migrations in order and returns the calls made.
+  // With dryRun, nothing is written and the calls are only planned
+  async up({ dryRun = false }: { dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const calls: PlannedCall[] = [];
+
+    await this.context(undefined, dryRun, calls).createTable(migrationsTableSchema(this._tableName));
+    // in a dry run the migrations table may only be planned
+    const applied = (await this.describeTable(this._tableName)) ? await this.appliedMigrations() : new Map();
+    const pending = this._migrations.filter((migration) => !applied.has(migration.id));
+
+    for (const migration of pending) {
+      this._logger.info(`${dryRun ? "Planning" : "Applying"} migration ${migration.id}: ${migration.description}`);
+      await migration.up(this.context(migration.id, dryRun, calls));
+      if (!dryRun) {
+        await this.record(migration);
+      }
+    }
+
+    return { dryRun, applied: pending.map((migration) => migration.id), calls };
+  }
+
+  private context(migrationId: string | undefined, dryRun: boolean, calls: PlannedCall[]): MigrationContext {
+    const apply = async (call: SchemaCall, tableName: string, send: () => Promise<unknown>) => {
+      calls.push({ migrationId, ...call });
+      if (!dryRun) {
+        await send();
+        await this.waitUntilActive(tableName);
+      }
+    };
+
+    return {
+      config: this._config,
+      dryRun,
+      createTable: async (input) => {
+        if (await this.describeTable(input.TableName!)) {
+          this._logger.info(`Table ${input.TableName} exists, not creating it`);
+          return;
+        }
+        await apply({ operation: "CreateTable", input }, input.TableName!, () => this._client.createTable(input));
+      },
+      updateTable: (input) =>
+        apply({ operation: "UpdateTable", input }, input.TableName!, () => this._client.updateTable(input)),
+      updateTimeToLive: async (input) => {
+        const enabled = await this.timeToLiveEnabled(input.TableName!);
+        if (enabled === !!input.TimeToLiveSpecification?.Enabled) {
+          this._logger.info(`TTL of table ${input.TableName} is already ${enabled ? "enabled" : "disabled"}`);
+          return;
+        }
+        await apply({ operation: "UpdateTimeToLive", input }, input.TableName!, () =>
+          this._client.updateTimeToLive(input)
+        );
+      },
+      describeTable: (tableName) => this.describeTable(tableName),
+    };
+  }
+
+  private async describeTable(tableName: string): Promise<TableDescription | undefined> {
+    try {
+      const { Table } = await this._client.describeTable({ TableName: tableName });
+      return Table;
+    } catch (error) {
+      if (error instanceof ResourceNotFoundException) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  // false as well when the table doesn't exist yet, e.g. it's only planned in a dry run
+  private async timeToLiveEnabled(tableName: string): Promise<boolean> {
+    try {
+      const { TimeToLiveDescription } = await this._client.describeTimeToLive({ TableName: tableName });
+      return TimeToLiveDescription?.TimeToLiveStatus === "ENABLED";
+    } catch (error) {
+      if (error instanceof ResourceNotFoundException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // a table stays usable while it's UPDATING, but it refuses another change until it's ACTIVE
+  private async waitUntilActive(tableName: string): Promise<void> {
+    for (let poll = 0; poll < this._maxPolls; poll++) {
+      const table = await this.describeTable(tableName);
+      const indexes = table?.GlobalSecondaryIndexes ?? [];
+      if (table?.TableStatus === "ACTIVE" && indexes.every((index) => index.IndexStatus === "ACTIVE")) {
+        return;
+      }
+      await this._sleep(this._pollIntervalMs);
+    }
+
+    throw new MigrationError(`Table ${tableName} is not ACTIVE after ${this._maxPolls} checks`);
+  }
+
+  // the ids of the applied migrations, with when they were applied
+  private async appliedMigrations(): Promise<Map<string, string>> {
+    const applied = new Map<string, string>();
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const page = await this._client.scan({ TableName: this._tableName, ExclusiveStartKey: exclusiveStartKey });
+      for (const item of page.Items ?? []) {
+        applied.set(item.migrationId.S!, item.appliedAt.S!);
+      }
+      exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return applied;
+  }
+
+  // the condition fails when another run recorded the migration first
+  private async record(migration: Migration): Promise<void> {
+    await this._client.putItem({
+      TableName: this._tableName,
+      Item: {
+        migrationId: { S: migration.id },
+        description: { S: migration.description },
+        appliedAt: { S: new Date().toISOString() },
+      },
+      ConditionExpression: "attribute_not_exists(migrationId)",
+    });
+  }
+}
+
+function migrationsTableSchema(tableName: string): CreateTableCommandInput {
+  return {
+    TableName: tableName,
+    AttributeDefinitions: [{ AttributeName: "migrationId", AttributeType: "S" }],
+    KeySchema: [{ AttributeName: "migrationId", KeyType: "HASH" }],
+    ProvisionedThroughput: {
+      ReadCapacityUnits: 1,
+      WriteCapacityUnits: 1,
+    },
+  };
+}
+
+// the ids decide the order, so they must be unique and already sorted
+function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, i) => {
+    const previous = migrations[i - 1];
+    if (previous && previous.id >= migration.id) {
+      throw new MigrationError(
+        previous.id === migration.id
+          ? `Duplicate migration id ${migration.id}`
+          : `Migration ${migration.id} is listed after ${previous.id}`
+      );
+    }
+  });
+}
@@ -0,0 +1,22 @@
+import { Migration } from "./migrator";
+import { usersAndTransactions } from "./migrations/001-users-and-transactions";
+import { holds } from "./migrations/002-holds";
+import { wallets } from "./migrations/003-wallets";
+import { journal } from "./migrations/004-journal";
+import { limitCounters } from "./migrations/005-limit-counters";
+import { outbox } from "./migrations/006-outbox";
+import { webhooks } from "./migrations/007-webhooks";
+import { userIdIndexTimestamp } from "./migrations/008-user-id-index-timestamp";
+
+// Every migration, in the order they are applied. A change to the schema is a new migration at the end,
+// with the table's definition in tables.ts updated to match. An applied migration is never edited
+export const MIGRATIONS: Migration[] = [
+  usersAndTransactions,
+  holds,
+  wallets,
+  journal,
+  limitCounters,
+  outbox,
+  webhooks,
+  userIdIndexTimestamp,
+];
@@ -0,0 +1,152 @@
+import { AttributeDefinition, BillingMode, KeySchemaElement, Projection } from "@aws-sdk/client-dynamodb";
+import { TConfig } from "../types";
+
+export type IndexDefinition = {
+  IndexName: string;
+  KeySchema: KeySchemaElement[];
+  Projection: Projection;
+};
+
+// the shape a table must have once every migration is applied
+export type TableDefinition = {
+  TableName: string;
+  KeySchema: KeySchemaElement[];
+  // only the attributes of the table and index keys, like DynamoDB keeps them
+  AttributeDefinitions: AttributeDefinition[];
+  GlobalSecondaryIndexes: IndexDefinition[];
+  BillingMode: BillingMode;
+  // the attribute DynamoDB expires items by, undefined when TTL is off
+  TimeToLiveAttribute?: string;
+};
+
+// Every table of the configuration, as the code expects it. A migration that changes a table
+// updates its definition here too, schema diff reports where the deployed tables differ
+export function declaredTables(config: TConfig): TableDefinition[] {
+  return [
+    {
+      TableName: config.DB_USERS_TABLE,
+      KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+      AttributeDefinitions: [{ AttributeName: "userId", AttributeType: "S" }],
+      GlobalSecondaryIndexes: [],
+      BillingMode: "PROVISIONED",
+    },
+    {
+      TableName: config.DB_WALLETS_TABLE,
+      KeySchema: [
+        { AttributeName: "userId", KeyType: "HASH" },
+        { AttributeName: "currency", KeyType: "RANGE" },
+      ],
+      AttributeDefinitions: [
+        { AttributeName: "userId", AttributeType: "S" },
+        { AttributeName: "currency", AttributeType: "S" },
+      ],
+      GlobalSecondaryIndexes: [],
+      BillingMode: "PROVISIONED",
+    },
+    {
+      TableName: config.DB_TRANSACTIONS_TABLE,
+      KeySchema: [{ AttributeName: "idempotencyKey", KeyType: "HASH" }],
+      AttributeDefinitions: [
+        { AttributeName: "idempotencyKey", AttributeType: "S" },
+        { AttributeName: "userId", AttributeType: "S" },
+        { AttributeName: "timestamp", AttributeType: "N" },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          // the history queries it by user, sorted by timestamp
+          IndexName: "userIdIndex",
+          KeySchema: [
+            { AttributeName: "userId", KeyType: "HASH" },
+            { AttributeName: "timestamp", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+      ],
+      BillingMode: "PROVISIONED",
+    },
+    {
+      TableName: config.DB_HOLDS_TABLE,
+      KeySchema: [{ AttributeName: "holdId", KeyType: "HASH" }],
+      AttributeDefinitions: [{ AttributeName: "holdId", AttributeType: "S" }],
+      GlobalSecondaryIndexes: [],
+      BillingMode: "PROVISIONED",
+    },
+    {
+      TableName: config.DB_JOURNAL_TABLE,
+      KeySchema: [
+        { AttributeName: "entryId", KeyType: "HASH" },
+        { AttributeName: "line", KeyType: "RANGE" },
+      ],
+      AttributeDefinitions: [
+        { AttributeName: "entryId", AttributeType: "S" },
+        { AttributeName: "line", AttributeType: "N" },
+      ],
+      GlobalSecondaryIndexes: [],
+      BillingMode: "PROVISIONED",
+    },
+    {
+      TableName: config.DB_LIMIT_COUNTERS_TABLE,
+      KeySchema: [
+        { AttributeName: "userId", KeyType: "HASH" },
+        { AttributeName: "counter", KeyType: "RANGE" },
+      ],
+      AttributeDefinitions: [
+        { AttributeName: "userId", AttributeType: "S" },
+        { AttributeName: "counter", AttributeType: "S" },
+      ],
+      GlobalSecondaryIndexes: [],
+      BillingMode: "PROVISIONED",
+      TimeToLiveAttribute: "expiresAt",
+    },
+    {
+      TableName: config.DB_OUTBOX_TABLE,
+      KeySchema: [{ AttributeName: "eventId", KeyType: "HASH" }],
+      AttributeDefinitions: [
+        { AttributeName: "eventId", AttributeType: "S" },
+        { AttributeName: "status", AttributeType: "S" },
+        { AttributeName: "nextAttemptAt", AttributeType: "N" },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          // the dispatcher queries the pending events by when they are due
+          IndexName: "pendingIndex",
+          KeySchema: [
+            { AttributeName: "status", KeyType: "HASH" },
+            { AttributeName: "nextAttemptAt", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+      ],
+      BillingMode: "PROVISIONED",
+      TimeToLiveAttribute: "expiresAt",
+    },
+    {
+      TableName: config.DB_WEBHOOKS_TABLE,
+      KeySchema: [{ AttributeName: "subscriptionId", KeyType: "HASH" }],
+      AttributeDefinitions: [
+        { AttributeName: "subscriptionId", AttributeType: "S" },
+        { AttributeName: "eventType", AttributeType: "S" },
+        { AttributeName: "createdAt", AttributeType: "N" },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          // the dispatcher looks up the subscriptions to the type of each event
+          IndexName: "eventTypeIndex",
+          KeySchema: [
+            { AttributeName: "eventType", KeyType: "HASH" },
+            { AttributeName: "createdAt", KeyType: "RANGE" },
+          ],
+          Projection: { ProjectionType: "ALL" },
+        },
+      ],
+      BillingMode: "PROVISIONED",
+    },
+    {
+      TableName: config.DB_MIGRATIONS_TABLE,
+      KeySchema: [{ AttributeName: "migrationId", KeyType: "HASH" }],
+      AttributeDefinitions: [{ AttributeName: "migrationId", AttributeType: "S" }],
+      GlobalSecondaryIndexes: [],
+      BillingMode: "PROVISIONED",
+    },
+  ];
+}
@@ -0,0 +1,36 @@
+import * as types from "../types";
+import { ERROR_STATUS, errorResponse } from "./errors";
+
+describe("errorResponse", () => {
+  it("should have a status for every domain error in types.ts", () => {
+    const errorNames = Object.entries(types)
+      .filter(([, value]) => typeof value === "function" && value.prototype instanceof Error)
+      .map(([name]) => name);
+
+    expect(errorNames.filter((name) => !ERROR_STATUS[name])).toEqual([]);
+  });
+
+  it("should map a domain error to its status and message", () => {
+    expect(errorResponse(new types.UserNotFoundError("1"))).toEqual({
+      status: 404,
+      body: { error: "UserNotFoundError", message: "User with ID 1 not found" },
+    });
+    expect(errorResponse(new types.InsufficientBalanceError()).status).toBe(422);
+  });
+
+  it("should use the subclass' own status", () => {
+    expect(errorResponse(new types.DestinationUserNotFoundError("2")).body).toEqual({
+      error: "DestinationUserNotFoundError",
+      message: "Destination user with ID 2 not found",
+    });
+  });
+
+  it("should hide the message of any other error", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(errorResponse(new Error("connection refused to 10.0.0.1"))).toEqual({
+      status: 500,
+      body: { error: "InternalServerError", message: "Internal server error" },
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { Config } from "../config";
+import { createLogger, Logger } from "../logger/logger";
+import { RouteResponse } from "./router";
+
+// HTTP status of every domain error in types.ts, by error name.
+// Subclasses have their own name, e.g. SourceUserNotFoundError, so each is listed
+export const ERROR_STATUS: Record<string, number> = {
+  // malformed requests
+  InvalidUserIdError: 400,
+  InvalidAmountError: 400,
+  InvalidIdempotencyKeyError: 400,
+  InvalidTransactionTypeError: 400,
+  InvalidCursorError: 400,
+  InvalidLimitError: 400,
+  InvalidDateRangeError: 400,
+  InvalidHoldIdError: 400,
+  InvalidHoldExpiryError: 400,
+  InvalidTransferError: 400,
+  InvalidReversalError: 400,
+  InvalidRequestBodyError: 400,
+  InvalidJournalEntryError: 400,
+  InvalidBatchError: 400,
+  InvalidWebhookError: 400,
+
+  // missing resources
+  UserNotFoundError: 404,
+  SourceUserNotFoundError: 404,
+  DestinationUserNotFoundError: 404,
+  WalletNotFoundError: 404,
+  TransactionNotFoundError: 404,
+  HoldNotFoundError: 404,
+  WebhookNotFoundError: 404,
+  OutboxEventNotFoundError: 404,
+
+  // conflicts with the current state, retrying the same request won't help
+  HoldNotActiveError: 409,
+  HoldExpiredError: 409,
+  DuplicateTransactionError: 409,
+  ConcurrentModificationError: 409,
+  OutboxEventNotFailedError: 409,
+
+  // well-formed requests breaking a business rule
+  InsufficientBalanceError: 422,
+  ReversalExceedsOriginalError: 422,
+  HoldCaptureExceedsAmountError: 422,
+  UnbalancedEntryError: 422,
+  BatchAbortedError: 422,
+  LimitExceededError: 422,
+  // reusing a key for a different payload, see the IETF Idempotency-Key header draft
+  IdempotencyKeyMismatchError: 422,
+
+  // transient failures that were retried until the retry policy gave up
+  TransactionFailedError: 503,
+};
+
+export type ErrorBody = {
+  error: string;
+  message: string;
+};
+
+// Maps an error to its response. Anything that isn't a domain error is a 500,
+// and its message is not leaked to the client
+export function errorResponse(error: unknown, logger: Logger = createLogger(Config)): RouteResponse {
+  const name = error instanceof Error ? error.name : undefined;
+  const status = name ? ERROR_STATUS[name] : undefined;
+
+  if (!status) {
+    logger.error("Unhandled error", { error });
+    const body: ErrorBody = { error: "InternalServerError", message: "Internal server error" };
+    return { status: 500, body };
+  }
+
+  const body: ErrorBody = { error: name!, message: (error as Error).message };
+  return { status, body };
+}
@@ -0,0 +1,24 @@
+import { createClient } from "../db/client";
+import { Config } from "../config";
+import { createLogger } from "../logger/logger";
+import { instrumentClient } from "../metrics/instrument";
+import { InMemoryMetricsSink } from "../metrics/metrics";
+import { createServer } from "./server";
+
+// only run this script if it's executed directly and it's not imported as a module
+if (process.argv[1] === __filename) {
+  // every DynamoDB call and the outcome of every transaction are measured, and served on GET /metrics
+  const metrics = new InMemoryMetricsSink();
+  const client = instrumentClient(createClient(Config), metrics);
+  const logger = createLogger(Config);
+  const server = createServer(client, logger, metrics, metrics);
+
+  server.listen(Config.HTTP_PORT, () => {
+    logger.info("Server listening", { port: Config.HTTP_PORT });
+  });
+
+  // stop accepting connections and let the ones in flight finish
+  process.on("SIGTERM", () => {
+    server.close(() => process.exit(0));
+  });
+}
@@ -0,0 +1,98 @@
+import {
+  BatchMode,
+  BatchOptions,
+  CreditLimit,
+  InvalidDateRangeError,
+  InvalidRequestBodyError,
+  TransactionInput,
+  TransactionType,
+  WebhookInput,
+} from "../types";
+
+// parses a JSON object body, throws InvalidRequestBodyError for anything else
+export function parseJsonBody(body: string | undefined): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body ?? "");
+  } catch {
+    throw new InvalidRequestBodyError("not valid JSON");
+  }
+  return asObject(parsed);
+}
+
+// throws InvalidRequestBodyError unless the value is a plain object
+export function asObject(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new InvalidRequestBodyError("expected a JSON object");
+  }
+  return value as Record<string, unknown>;
+}
+
+// an optional string field, amounts included so they're never parsed as floating point numbers
+export function stringField(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new InvalidRequestBodyError(`${name} must be a string`);
+  }
+  return value;
+}
+
+export function parseDate(value: string | null): Date | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new InvalidDateRangeError();
+  }
+  return date;
+}
+
+// a transaction request from a JSON body, the facade validates the values
+export function toTransactionInput(body: Record<string, unknown>, idempotentKey: string | undefined): TransactionInput {
+  return {
+    idempotentKey: idempotentKey ?? "",
+    userId: stringField(body, "userId") ?? "",
+    amount: stringField(body, "amount") ?? "",
+    type: stringField(body, "type") as TransactionType,
+    currency: stringField(body, "currency"),
+  };
+}
+
+// a batch request from a JSON body, e.g. { "mode": "atomic", "transactions": [{ "idempotentKey": "k1", ... }] }
+export function toBatchInput(body: Record<string, unknown>): { inputs: TransactionInput[]; options: BatchOptions } {
+  if (!Array.isArray(body.transactions)) {
+    throw new InvalidRequestBodyError("transactions must be an array");
+  }
+  const concurrency = body.concurrency;
+  if (concurrency !== undefined && typeof concurrency !== "number") {
+    throw new InvalidRequestBodyError("concurrency must be a number");
+  }
+
+  return {
+    inputs: body.transactions.map((transaction) => {
+      const fields = asObject(transaction);
+      return toTransactionInput(fields, stringField(fields, "idempotentKey"));
+    }),
+    // the facade refuses an unknown mode
+    options: { mode: stringField(body, "mode") as BatchMode, concurrency },
+  };
+}
+
+// a credit limit request from a JSON body, e.g. { "creditLimit": "500" }, null removes the limit
+export function toCreditLimitInput(body: Record<string, unknown>, userId: string): Omit<CreditLimit, "currency"> {
+  // a forgotten field must not remove the limit
+  if (!("creditLimit" in body)) {
+    throw new InvalidRequestBodyError("creditLimit is required, null removes the limit");
+  }
+
+  return { userId, creditLimit: stringField(body, "creditLimit") };
+}
+
+// a webhook subscription from a JSON body, e.g. { "eventType": "TransactionPosted", "url": "https://..." }
+export function toWebhookInput(body: Record<string, unknown>): WebhookInput {
+  return { eventType: stringField(body, "eventType") ?? "", url: stringField(body, "url") ?? "" };
+}
@@ -0,0 +1,88 @@
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+// a request, whichever transport it came from (see server.ts and the lambda adapters)
+export type HttpRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  // names are lower case
+  headers: Record<string, string | undefined>;
+  body?: string;
+};
+
+export type RouteRequest = HttpRequest & {
+  // path parameters, e.g. { id: "1" } for /users/:id/balance
+  params: Record<string, string>;
+};
+
+export type RouteResponse = {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+};
+
+export type RouteHandler = (request: RouteRequest) => Promise<RouteResponse>;
+
+type Route = {
+  method: HttpMethod;
+  segments: string[];
+  handler: RouteHandler;
+};
+
+export type RouteMatch =
+  | { kind: "found"; handler: RouteHandler; params: Record<string, string> }
+  // the path exists, but not for this method
+  | { kind: "method-not-allowed"; allowed: HttpMethod[] }
+  | { kind: "not-found" };
+
+// Minimal router matching paths segment by segment, ":name" segments are parameters
+export class Router {
+  private _routes: Route[] = [];
+
+  add(method: HttpMethod, path: string, handler: RouteHandler): this {
+    this._routes.push({ method, segments: splitPath(path), handler });
+    return this;
+  }
+
+  match(method: string, path: string): RouteMatch {
+    const segments = splitPath(path);
+    const allowed: HttpMethod[] = [];
+
+    for (const route of this._routes) {
+      const params = matchSegments(route.segments, segments);
+      if (!params) continue;
+
+      if (route.method === method) {
+        return { kind: "found", handler: route.handler, params };
+      }
+      allowed.push(route.method);
+    }
+
+    return allowed.length > 0 ? { kind: "method-not-allowed", allowed } : { kind: "not-found" };
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | undefined {
+  if (pattern.length !== segments.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(":")) {
+      try {
+        params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+      } catch {
+        // a malformed escape sequence can't be a valid parameter
+        return undefined;
+      }
+    } else if (pattern[i] !== segments[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,348 @@
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { instrumentClient, OK, OPERATIONS_TOTAL } from "../metrics/instrument";
+import { InMemoryMetricsSink } from "../metrics/metrics";
+import { PROMETHEUS_CONTENT_TYPE } from "../metrics/prometheus";
+import { createServer } from "./server";
+
+describe("HTTP server", () => {
+  let db: InMemoryDynamoDB;
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+    });
+    return { status: response.status, headers: response.headers, body: await response.json() };
+  };
+
+  const postTransaction = (key: string, body: unknown) =>
+    request("POST", "/transactions", body, { "Idempotency-Key": key });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    await db.send(
+      new PutItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Item: { userId: { S: "1" }, balance: { N: "100" }, currency: { S: "USD" } },
+      })
+    );
+
+    server = createServer(db);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  describe("health", () => {
+    it("should be live", async () => {
+      const response = await request("GET", "/health");
+
+      expect(response).toMatchObject({ status: 200, body: { status: "ok" } });
+    });
+
+    it("should be ready when every table exists", async () => {
+      const response = await request("GET", "/ready");
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe("ready");
+    });
+
+    it("should not be ready when a table is missing", async () => {
+      await db.deleteTable({ TableName: Config.DB_HOLDS_TABLE });
+
+      const response = await request("GET", "/ready");
+
+      expect(response.status).toBe(503);
+      expect(response.body.tables[Config.DB_HOLDS_TABLE]).toBe(false);
+    });
+  });
+
+  describe("GET /users/:id/balance", () => {
+    it("should return the user's balance", async () => {
+      const response = await request("GET", "/users/1/balance");
+
+      expect(response).toMatchObject({ status: 200, body: { userId: "1", balance: "100.00 USD" } });
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const response = await request("GET", "/users/2/balance");
+
+      expect(response).toMatchObject({ status: 404, body: { error: "UserNotFoundError" } });
+    });
+
+    it("should return 404 for a currency the user doesn't hold", async () => {
+      const response = await request("GET", "/users/1/balance?currency=EUR");
+
+      expect(response).toMatchObject({ status: 404, body: { error: "WalletNotFoundError" } });
+    });
+  });
+
+  describe("/users/:id/credit-limit", () => {
+    it("should set and read the credit limit, and allow debits down to minus the limit", async () => {
+      const put = await request("PUT", "/users/1/credit-limit", { creditLimit: "50" });
+      expect(put).toMatchObject({ status: 200, body: { userId: "1", creditLimit: "50", currency: "USD" } });
+
+      await postTransaction("k1", { userId: "1", amount: "150", type: "debit" });
+      const rejected = await postTransaction("k2", { userId: "1", amount: "0.01", type: "debit" });
+
+      expect(rejected).toMatchObject({ status: 422, body: { message: "Insufficient balance, 0 available" } });
+      expect((await request("GET", "/users/1/credit-limit")).body).toEqual({
+        userId: "1",
+        creditLimit: "50",
+        currency: "USD",
+      });
+      expect((await request("GET", "/users/1/balance?includeOverdraft=true")).body.balance).toBe(
+        "-50.00 USD (0.00 USD overdraft left)"
+      );
+    });
+
+    it("should remove the limit with null, and refuse a body without it", async () => {
+      await request("PUT", "/users/1/credit-limit", { creditLimit: "50" });
+
+      expect(await request("PUT", "/users/1/credit-limit", {})).toMatchObject({
+        status: 400,
+        body: { error: "InvalidRequestBodyError" },
+      });
+      expect((await request("PUT", "/users/1/credit-limit", { creditLimit: null })).body).toEqual({
+        userId: "1",
+        currency: "USD",
+      });
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const response = await request("PUT", "/users/2/credit-limit", { creditLimit: "50" });
+
+      expect(response).toMatchObject({ status: 404, body: { error: "UserNotFoundError" } });
+    });
+  });
+
+  describe("POST /transactions", () => {
+    it("should apply a transaction under the Idempotency-Key header", async () => {
+      const response = await postTransaction("k1", { userId: "1", amount: "10.50", type: "debit" });
+
+      expect(response).toMatchObject({
+        status: 201,
+        body: { idempotentKey: "k1", userId: "1", amount: "10.50", type: "debit", currency: "USD" },
+      });
+      expect((await request("GET", "/users/1/balance")).body.balance).toBe("89.50 USD");
+    });
+
+    it("should apply a replayed request once", async () => {
+      await postTransaction("k1", { userId: "1", amount: "10", type: "credit" });
+      const replay = await postTransaction("k1", { userId: "1", amount: "10", type: "credit" });
+
+      expect(replay.status).toBe(201);
+      expect((await request("GET", "/users/1/balance")).body.balance).toBe("110.00 USD");
+    });
+
+    it("should return 422 when the key was used for a different request", async () => {
+      await postTransaction("k1", { userId: "1", amount: "10", type: "credit" });
+      const response = await postTransaction("k1", { userId: "1", amount: "20", type: "credit" });
+
+      expect(response).toMatchObject({ status: 422, body: { error: "IdempotencyKeyMismatchError" } });
+    });
+
+    it("should return 400 without an Idempotency-Key header", async () => {
+      const response = await request("POST", "/transactions", { userId: "1", amount: "10", type: "credit" });
+
+      expect(response).toMatchObject({ status: 400, body: { error: "InvalidIdempotencyKeyError" } });
+    });
+
+    it("should return 422 when the balance is insufficient", async () => {
+      const response = await postTransaction("k1", { userId: "1", amount: "100.01", type: "debit" });
+
+      expect(response).toMatchObject({ status: 422, body: { error: "InsufficientBalanceError" } });
+    });
+
+    it.each([
+      ["not JSON", "{"],
+      ["not an object", "[]"],
+      ["a numeric amount", { userId: "1", amount: 10, type: "credit" }],
+    ])("should return 400 for a body that is %s", async (_, body) => {
+      const response = await postTransaction("k1", body);
+
+      expect(response).toMatchObject({ status: 400, body: { error: "InvalidRequestBodyError" } });
+    });
+
+    it("should return 400 for an unknown transaction type", async () => {
+      const response = await postTransaction("k1", { userId: "1", amount: "10", type: "withdrawal" });
+
+      expect(response).toMatchObject({ status: 400, body: { error: "InvalidTransactionTypeError" } });
+    });
+  });
+
+  describe("POST /transactions/batch", () => {
+    it("should return a result for each transaction", async () => {
+      const response = await request("POST", "/transactions/batch", {
+        mode: "independent",
+        transactions: [
+          { idempotentKey: "k1", userId: "1", amount: "10", type: "credit" },
+          { idempotentKey: "k2", userId: "2", amount: "10", type: "credit" },
+        ],
+      });
+
+      expect(response).toMatchObject({
+        status: 200,
+        body: {
+          results: [
+            { idempotentKey: "k1", status: "applied" },
+            {
+              idempotentKey: "k2",
+              status: "failed",
+              error: { error: "UserNotFoundError", message: "User with ID 2 not found" },
+            },
+          ],
+        },
+      });
+    });
+
+    it.each([
+      ["without transactions", { mode: "atomic" }, "InvalidRequestBodyError"],
+      ["with an unknown mode", { mode: "eventually", transactions: [] }, "InvalidBatchError"],
+    ])("should return 400 %s", async (_, body, error) => {
+      const response = await request("POST", "/transactions/batch", body);
+
+      expect(response).toMatchObject({ status: 400, body: { error } });
+    });
+  });
+
+  describe("GET /users/:id/transactions", () => {
+    it("should list the user's transactions newest first, a page at a time", async () => {
+      await postTransaction("k1", { userId: "1", amount: "1", type: "credit" });
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      await postTransaction("k2", { userId: "1", amount: "2", type: "credit" });
+
+      const first = await request("GET", "/users/1/transactions?limit=1");
+      const second = await request("GET", `/users/1/transactions?limit=1&cursor=${first.body.cursor}`);
+
+      expect(first.status).toBe(200);
+      expect(first.body.transactions.map((t: any) => t.idempotentKey)).toEqual(["k2"]);
+      expect(second.body.transactions.map((t: any) => t.idempotentKey)).toEqual(["k1"]);
+    });
+
+    it.each([
+      ["limit=abc", "InvalidLimitError"],
+      ["type=withdrawal", "InvalidTransactionTypeError"],
+      ["from=yesterday", "InvalidDateRangeError"],
+      ["cursor=not-a-cursor", "InvalidCursorError"],
+    ])("should return 400 for %s", async (query, error) => {
+      const response = await request("GET", `/users/1/transactions?${query}`);
+
+      expect(response).toMatchObject({ status: 400, body: { error } });
+    });
+  });
+
+  describe("/webhooks", () => {
+    it("should register, list and delete a subscription, only returning the secret once", async () => {
+      const posted = await request("POST", "/webhooks", { eventType: "TransactionPosted", url: "https://example.com/hooks" });
+      expect(posted).toMatchObject({
+        status: 201,
+        body: { subscriptionId: expect.any(String), url: "https://example.com/hooks", secret: expect.any(String) },
+      });
+      const { subscriptionId } = posted.body;
+
+      const listed = await request("GET", "/webhooks?eventType=TransactionPosted");
+      expect(listed).toMatchObject({ status: 200, body: { webhooks: [{ subscriptionId }] } });
+      expect(listed.body.webhooks[0].secret).toBeUndefined();
+
+      expect(await request("DELETE", `/webhooks/${subscriptionId}`)).toMatchObject({ status: 200, body: { subscriptionId } });
+      expect(await request("DELETE", `/webhooks/${subscriptionId}`)).toMatchObject({
+        status: 404,
+        body: { error: "WebhookNotFoundError" },
+      });
+    });
+
+    it("should return 400 for an unknown event type", async () => {
+      const response = await request("POST", "/webhooks", { eventType: "BalanceChanged", url: "https://example.com" });
+
+      expect(response).toMatchObject({ status: 400, body: { error: "InvalidWebhookError" } });
+    });
+  });
+
+  describe("metrics", () => {
+    let metrics: InMemoryMetricsSink;
+
+    const restart = async (exported: boolean) => {
+      metrics = new InMemoryMetricsSink();
+      await new Promise((resolve) => server.close(resolve));
+      server = createServer(instrumentClient(db, metrics), undefined, metrics, exported ? metrics : undefined);
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    };
+
+    it("should only serve GET /metrics with a source, as Prometheus text", async () => {
+      await restart(false);
+      expect((await request("GET", "/metrics")).status).toBe(404);
+
+      await restart(true);
+      await request("GET", "/users/1/balance");
+
+      const response = await fetch(`${baseUrl}/metrics`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe(PROMETHEUS_CONTENT_TYPE);
+      expect(await response.text()).toContain('dynamodb_commands_total{command="GetItem",outcome="ok"} 1\n');
+    });
+
+    it("should count the outcome of every transaction by its error class", async () => {
+      await restart(false);
+
+      await postTransaction("k1", { userId: "1", amount: "10", type: "credit" });
+      await postTransaction("k2", { userId: "1", amount: "500", type: "debit" });
+      await request("POST", "/transactions/batch", {
+        mode: "independent",
+        transactions: [
+          { idempotentKey: "k3", userId: "1", amount: "10", type: "credit" },
+          { idempotentKey: "k4", userId: "2", amount: "10", type: "credit" },
+        ],
+      });
+
+      expect(metrics.counter(OPERATIONS_TOTAL, { operation: "transact", outcome: OK })).toBe(1);
+      expect(metrics.counter(OPERATIONS_TOTAL, { operation: "transact", outcome: "InsufficientBalanceError" })).toBe(1);
+      expect(metrics.counter(OPERATIONS_TOTAL, { operation: "transactBatch", outcome: OK })).toBe(1);
+      expect(metrics.counter(OPERATIONS_TOTAL, { operation: "transactBatchItem", outcome: OK })).toBe(1);
+      expect(metrics.counter(OPERATIONS_TOTAL, { operation: "transactBatchItem", outcome: "UserNotFoundError" })).toBe(1);
+    });
+  });
+
+  describe("routing", () => {
+    it("should return 404 for an unknown route", async () => {
+      const response = await request("GET", "/accounts");
+
+      expect(response).toMatchObject({ status: 404, body: { error: "NotFound" } });
+    });
+
+    it("should send back the correlation id, or a new one", async () => {
+      const sent = await request("GET", "/health", undefined, { "X-Correlation-Id": "c1" });
+      const made = await request("GET", "/health");
+
+      expect(sent.headers.get("x-correlation-id")).toBe("c1");
+      expect(made.headers.get("x-correlation-id")).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it("should return 405 with the allowed methods", async () => {
+      const response = await request("DELETE", "/transactions");
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get("allow")).toBe("POST");
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import http, { IncomingMessage, Server, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { Config } from "../config";
+import { checkTableExists } from "../schema";
+import { createUserBalanceFn, UserService } from "../user/user";
+import { createTransactFn } from "../transact/transact";
+import { createTransactBatchFn } from "../transact/batch";
+import { TransactionHistoryService } from "../transact/history";
+import { WebhookService } from "../webhooks/webhooks";
+import { createLogger, Logger, withLogContext } from "../logger/logger";
+import { countOutcomes, OK, OPERATIONS_TOTAL, outcomeOf } from "../metrics/instrument";
+import { MetricsSink, MetricsSource } from "../metrics/metrics";
+import { PROMETHEUS_CONTENT_TYPE, toPrometheusText } from "../metrics/prometheus";
+import { InvalidRequestBodyError, InvalidTransactionTypeError, TransactionType } from "../types";
+import { errorResponse } from "./errors";
+import {
+  parseDate,
+  parseJsonBody,
+  toBatchInput,
+  toCreditLimitInput,
+  toTransactionInput,
+  toWebhookInput,
+} from "./request";
+import { HttpRequest, RouteResponse, Router } from "./router";
+
+// request bodies are a handful of fields, anything bigger is refused
+const MAX_BODY_BYTES = 64 * 1024;
+
+// the header carrying the idempotent key of POST /transactions
+const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+// the header carrying the id logged with every entry of a request, one is made up when it's missing.
+// It's sent back on the response
+const CORRELATION_ID_HEADER = "x-correlation-id";
+
+// HTTP server exposing the facade functions as JSON routes.
+// With metrics, the outcome of every balance and transaction is counted in them.
+// With a source, usually the sink the client was instrumented with, its metrics are served on GET /metrics
+export function createServer(
+  client: DynamoDB,
+  logger: Logger = createLogger(Config),
+  metrics?: MetricsSink,
+  source?: MetricsSource
+): Server {
+  const router = createRouter(client, logger, metrics, source);
+
+  return http.createServer((req, res) => {
+    toHttpRequest(req)
+      .then(
+        (request) => dispatch(router, request, logger),
+        (error) => errorResponse(error, logger)
+      )
+      .then((response) => send(res, response));
+  });
+}
+
+export function createRouter(
+  client: DynamoDB,
+  logger: Logger = createLogger(Config),
+  metrics?: MetricsSink,
+  source?: MetricsSource
+): Router {
+  const counted = <A extends unknown[], R>(operation: string, fn: (...args: A) => Promise<R>) =>
+    metrics ? countOutcomes(metrics, operation, fn) : fn;
+
+  const getUserBalance = counted("getUserBalance", createUserBalanceFn(client, Config));
+  const transact = counted("transact", createTransactFn(client));
+  const transactBatch = counted("transactBatch", createTransactBatchFn(client));
+  const historyService = new TransactionHistoryService(client, Config);
+  const userService = new UserService(client, Config, { logger });
+  const webhookService = new WebhookService(client, Config);
+
+  const router = new Router()
+    // liveness, the process is up and serving requests
+    .add("GET", "/health", async () => ({ status: 200, body: { status: "ok" } }))
+    // readiness, every table the routes need exists
+    .add("GET", "/ready", async () => {
+      const tableNames = [
+        Config.DB_USERS_TABLE,
+        Config.DB_WALLETS_TABLE,
+        Config.DB_TRANSACTIONS_TABLE,
+        Config.DB_HOLDS_TABLE,
+        Config.DB_JOURNAL_TABLE,
+        Config.DB_LIMIT_COUNTERS_TABLE,
+        Config.DB_OUTBOX_TABLE,
+        Config.DB_WEBHOOKS_TABLE,
+      ];
+      const exists = await Promise.all(tableNames.map((tableName) => checkTableExists(tableName, client)));
+      const tables = Object.fromEntries(tableNames.map((tableName, i) => [tableName, exists[i]]));
+      const ready = exists.every(Boolean);
+
+      return { status: ready ? 200 : 503, body: { status: ready ? "ready" : "unavailable", tables } };
+    })
+    .add("GET", "/users/:id/balance", async ({ params, query }) => {
+      const balance = await getUserBalance({
+        userId: params.id,
+        currency: query.get("currency") ?? undefined,
+        includeOverdraft: query.get("includeOverdraft") === "true",
+      });
+
+      return { status: 200, body: { userId: params.id, balance } };
+    })
+    .add("GET", "/users/:id/credit-limit", async ({ params }) => ({
+      status: 200,
+      body: await userService.getCreditLimit(params.id),
+    }))
+    .add("PUT", "/users/:id/credit-limit", async ({ params, body }) => ({
+      status: 200,
+      body: await userService.setCreditLimit(toCreditLimitInput(parseJsonBody(body), params.id)),
+    }))
+    .add("GET", "/users/:id/transactions", async ({ params, query }) => {
+      const type = query.get("type");
+      if (type !== null && !Object.values(TransactionType).includes(type as TransactionType)) {
+        throw new InvalidTransactionTypeError();
+      }
+      const limit = query.get("limit");
+
+      const page = await historyService.listTransactions({
+        userId: params.id,
+        // not a number is refused by the service like any other invalid limit
+        limit: limit === null ? undefined : Number(limit),
+        cursor: query.get("cursor") ?? undefined,
+        type: type === null ? undefined : (type as TransactionType),
+        from: parseDate(query.get("from")),
+        to: parseDate(query.get("to")),
+      });
+
+      return { status: 200, body: page };
+    })
+    .add("POST", "/transactions", async ({ headers, body }) => {
+      const input = toTransactionInput(parseJsonBody(body), headers[IDEMPOTENCY_KEY_HEADER]);
+
+      // a replay resolves like the original request did
+      await transact(input);
+
+      return {
+        status: 201,
+        body: { ...input, currency: input.currency ?? Config.DEFAULT_CURRENCY },
+      };
+    })
+    // every transaction carries its own idempotentKey, each has a result even when some fail
+    .add("POST", "/transactions/batch", async ({ body }) => {
+      const { inputs, options } = toBatchInput(parseJsonBody(body));
+
+      const results = await transactBatch(inputs, options);
+      // each transaction is counted too, a failed one by its error like on POST /transactions
+      for (const { error } of results) {
+        const outcome = error ? outcomeOf(error) : OK;
+        metrics?.increment(OPERATIONS_TOTAL, { operation: "transactBatchItem", outcome });
+      }
+
+      return {
+        status: 200,
+        body: {
+          results: results.map(({ error, ...result }) => ({
+            ...result,
+            ...(error && { error: errorResponse(error).body }),
+          })),
+        },
+      };
+    })
+    // the response is the only one with the secret the deliveries are signed with
+    .add("POST", "/webhooks", async ({ body }) => ({
+      status: 201,
+      body: await webhookService.register(toWebhookInput(parseJsonBody(body))),
+    }))
+    .add("GET", "/webhooks", async ({ query }) => ({
+      status: 200,
+      body: { webhooks: await webhookService.listWebhooks(query.get("eventType") ?? undefined) },
+    }))
+    .add("DELETE", "/webhooks/:id", async ({ params }) => ({
+      status: 200,
+      body: await webhookService.deleteWebhook(params.id),
+    }));
+
+  if (source) {
+    // scraped by Prometheus, the only route answering with text
+    router.add("GET", "/metrics", async () => ({
+      status: 200,
+      body: toPrometheusText(source),
+      headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE },
+    }));
+  }
+  return router;
+}
+
+// Routes a request and maps any error to its response, it never rejects.
+// Everything logged while it's served has its correlationId, and its idempotencyKey when there's one
+export async function dispatch(
+  router: Router,
+  request: HttpRequest,
+  logger: Logger = createLogger(Config)
+): Promise<RouteResponse> {
+  const correlationId = request.headers[CORRELATION_ID_HEADER] || randomUUID();
+  const idempotencyKey = request.headers[IDEMPOTENCY_KEY_HEADER];
+
+  const response = await withLogContext({ correlationId, ...(idempotencyKey && { idempotencyKey }) }, () =>
+    route(router, request, logger)
+  );
+  return { ...response, headers: { ...response.headers, "X-Correlation-Id": correlationId } };
+}
+
+async function route(router: Router, request: HttpRequest, logger: Logger): Promise<RouteResponse> {
+  const match = router.match(request.method, request.path);
+
+  if (match.kind === "not-found") {
+    return { status: 404, body: { error: "NotFound", message: `No route for ${request.path}` } };
+  }
+  if (match.kind === "method-not-allowed") {
+    return {
+      status: 405,
+      body: { error: "MethodNotAllowed", message: `${request.method} is not allowed on ${request.path}` },
+      headers: { Allow: match.allowed.join(", ") },
+    };
+  }
+
+  try {
+    return await match.handler({ ...request, params: match.params });
+  } catch (error) {
+    return errorResponse(error, logger);
+  }
+}
+
+// reads the whole request, throws InvalidRequestBodyError when the body is too large
+async function toHttpRequest(req: IncomingMessage): Promise<HttpRequest> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new InvalidRequestBodyError(`larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return {
+    method: req.method ?? "GET",
+    path: url.pathname,
+    query: url.searchParams,
+    headers: Object.fromEntries(
+      Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value[0] : value])
+    ),
+    body: chunks.length > 0 ? Buffer.concat(chunks).toString("utf8") : undefined,
+  };
+}
+
+// a string body is text, like /metrics, and is sent as it is
+function send(res: ServerResponse, response: RouteResponse): void {
+  res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers });
+  res.end(typeof response.body === "string" ? response.body : JSON.stringify(response.body));
+}
@@ -0,0 +1,168 @@
+import { PutItemCommand, TransactWriteItemsCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import {
+  BatchAbortedError,
+  BatchItemStatus,
+  IdempotencyKeyMismatchError,
+  InsufficientBalanceError,
+  InvalidAmountError,
+  InvalidBatchError,
+  TransactBatchFunction,
+  TransactionInput,
+  TransactionType,
+  UserNotFoundError,
+} from "../types";
+import { createTransactBatchFn, MAX_ATOMIC_BATCH_SIZE } from "./batch";
+import { createTransactFn } from "./transact";
+
+describe("createTransactBatchFn", () => {
+  let db: InMemoryDynamoDB;
+  let transactBatch: TransactBatchFunction;
+
+  const credit = (key: string, userId: string, amount = "10"): TransactionInput => ({
+    idempotentKey: key,
+    userId,
+    amount,
+    type: TransactionType.CREDIT,
+  });
+
+  const balanceOf = (userId: string) =>
+    db.dump(Config.DB_USERS_TABLE).find((user) => user.userId.S === userId)?.balance?.N;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    for (const userId of ["1", "2", "3"]) {
+      await db.send(
+        new PutItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Item: { userId: { S: userId }, balance: { N: "100" }, currency: { S: "USD" } },
+        })
+      );
+    }
+    transactBatch = createTransactBatchFn(db);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("independent", () => {
+    it("should apply each transaction on its own, with a result for each", async () => {
+      await createTransactFn(db)(credit("k1", "1"));
+      const send = jest.spyOn(db, "send");
+
+      const results = await transactBatch(
+        [
+          credit("k1", "1"),
+          credit("k2", "2"),
+          credit("k3", "4"),
+          { ...credit("k4", "3", "500"), type: TransactionType.DEBIT },
+          credit("k5", "3", "-1"),
+          credit("k6", "3"),
+        ],
+        { mode: "independent", concurrency: 2 }
+      );
+
+      expect(results).toEqual([
+        { idempotentKey: "k1", status: BatchItemStatus.DUPLICATE },
+        { idempotentKey: "k2", status: BatchItemStatus.APPLIED },
+        { idempotentKey: "k3", status: BatchItemStatus.FAILED, error: new UserNotFoundError("4") },
+        { idempotentKey: "k4", status: BatchItemStatus.FAILED, error: expect.any(InsufficientBalanceError) },
+        { idempotentKey: "k5", status: BatchItemStatus.FAILED, error: expect.any(InvalidAmountError) },
+        { idempotentKey: "k6", status: BatchItemStatus.APPLIED },
+      ]);
+      expect(balanceOf("2")).toBe("110");
+      expect(balanceOf("3")).toBe("110");
+      // one BatchGetItem for the users, one for the transactions, then a write per transaction
+      expect(send.mock.calls.map(([command]) => command.constructor.name)).toEqual([
+        "BatchGetItemCommand",
+        "BatchGetItemCommand",
+        ...Array(3).fill("TransactWriteItemsCommand"),
+      ]);
+    });
+
+    it("should fail a transaction whose key was used for a different request", async () => {
+      await createTransactFn(db)(credit("k1", "1"));
+
+      const [result] = await transactBatch([credit("k1", "1", "20")], { mode: "independent" });
+
+      expect(result.error).toBeInstanceOf(IdempotencyKeyMismatchError);
+    });
+  });
+
+  describe("atomic", () => {
+    it("should write every transaction in one TransactWriteItems", async () => {
+      const send = jest.spyOn(db, "send");
+
+      const results = await transactBatch([credit("k1", "1"), credit("k2", "2")], { mode: "atomic" });
+
+      expect(results.map((result) => result.status)).toEqual([BatchItemStatus.APPLIED, BatchItemStatus.APPLIED]);
+      const writes = send.mock.calls.filter(([command]) => command instanceof TransactWriteItemsCommand);
+      expect(writes).toHaveLength(1);
+      expect(balanceOf("1")).toBe("110");
+      expect(balanceOf("2")).toBe("110");
+    });
+
+    it("should write nothing when a transaction fails", async () => {
+      const results = await transactBatch(
+        [credit("k1", "1"), { ...credit("k2", "2", "500"), type: TransactionType.DEBIT }],
+        { mode: "atomic" }
+      );
+
+      expect(results).toEqual([
+        { idempotentKey: "k1", status: BatchItemStatus.FAILED, error: new BatchAbortedError("k2") },
+        { idempotentKey: "k2", status: BatchItemStatus.FAILED, error: expect.any(InsufficientBalanceError) },
+      ]);
+      expect(balanceOf("1")).toBe("100");
+      expect(db.dump(Config.DB_TRANSACTIONS_TABLE)).toEqual([]);
+    });
+
+    it("should not write anything when a transaction is invalid, and skip duplicates", async () => {
+      await createTransactFn(db)(credit("k1", "1"));
+
+      const results = await transactBatch([credit("k1", "1"), credit("k2", "2"), credit("k3", "4")], {
+        mode: "atomic",
+      });
+
+      expect(results.map((result) => [result.status, result.error?.name])).toEqual([
+        [BatchItemStatus.DUPLICATE, undefined],
+        [BatchItemStatus.FAILED, "BatchAbortedError"],
+        [BatchItemStatus.FAILED, "UserNotFoundError"],
+      ]);
+      expect(balanceOf("2")).toBe("100");
+    });
+
+    it.each([
+      ["too many transactions", Array.from({ length: MAX_ATOMIC_BATCH_SIZE + 1 }, (_, i) => credit(`k${i}`, `${i}`))],
+      ["a key used twice", [credit("k1", "1"), credit("k1", "2")]],
+      ["a wallet used twice", [credit("k1", "1"), credit("k2", "1")]],
+    ])("should refuse a batch with %s", async (_, inputs) => {
+      await expect(transactBatch(inputs, { mode: "atomic" })).rejects.toThrow(InvalidBatchError);
+    });
+
+    it("should refuse a batch debiting a user twice towards the same spending limit", async () => {
+      Config.DEBIT_VELOCITY_MAX_COUNT = 5;
+      const debit = (key: string, currency: string): TransactionInput => ({
+        ...credit(key, "1", "1"),
+        type: TransactionType.DEBIT,
+        currency,
+      });
+
+      try {
+        await expect(transactBatch([debit("k1", "USD"), debit("k2", "EUR")], { mode: "atomic" })).rejects.toThrow(
+          InvalidBatchError
+        );
+      } finally {
+        delete Config.DEBIT_VELOCITY_MAX_COUNT;
+      }
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { Config } from "../config";
+import { MAX_TRANSACT_ITEMS } from "../db/client";
+import {
+  BatchAbortedError,
+  BatchItemResult,
+  BatchItemStatus,
+  InvalidBatchError,
+  TransactBatchFunction,
+  TransactionInput,
+  UserNotFoundError,
+} from "../types";
+import { UserService } from "../user/user";
+import { TransactService } from "./transact";
+
+// The most transactions an atomic batch holds. A debit writes up to 8 items (the wallet, the transaction,
+// two journal lines, the outbox event and three limit counters), so the items are counted against MAX_TRANSACT_ITEMS too
+export const MAX_ATOMIC_BATCH_SIZE = 20;
+
+// how many transactions an independent batch writes at the same time, unless told otherwise
+export const DEFAULT_BATCH_CONCURRENCY = 10;
+
+// wrapper that creates a facade function for submitting many transactions at once, like createTransactFn for each.
+// Users and existing transactions are read with BatchGetItem rather than one by one.
+// Throws InvalidBatchError when the batch as a whole can't be processed, nothing is written then
+export function createTransactBatchFn(client: DynamoDB): TransactBatchFunction {
+  const userService = new UserService(client, Config);
+  const transactService = new TransactService(client, Config);
+
+  // a batch packed into one transaction can't touch an item twice
+  const checkAtomicBatch = (inputs: TransactionInput[]) => {
+    if (inputs.length > MAX_ATOMIC_BATCH_SIZE) {
+      throw new InvalidBatchError(`an atomic batch holds at most ${MAX_ATOMIC_BATCH_SIZE} transactions`);
+    }
+
+    const keys = new Set<string>();
+    const wallets = new Set<string>();
+    for (const input of inputs) {
+      const wallet = `${input.userId} in ${transactService.currencyOf(input)}`;
+      if (keys.has(input.idempotentKey)) {
+        throw new InvalidBatchError(`idempotent key ${input.idempotentKey} is used more than once`);
+      }
+      if (wallets.has(wallet)) {
+        throw new InvalidBatchError(`the wallet of user ${wallet} is used more than once`);
+      }
+      keys.add(input.idempotentKey);
+      wallets.add(wallet);
+    }
+  };
+
+  // Debits also write their spending limit counters (see limits.ts), which must fit in the same transaction.
+  // Only valid transactions have items
+  const checkAtomicItems = (inputs: TransactionInput[]) => {
+    const timestamp = Date.now().toString();
+    const counters = new Set<string>();
+    let itemCount = 0;
+    for (const input of inputs) {
+      for (const { counter } of transactService.debitCounters(input, timestamp)) {
+        if (counters.has(`${input.userId} ${counter}`)) {
+          throw new InvalidBatchError(`user ${input.userId} is debited more than once, counting towards ${counter}`);
+        }
+        counters.add(`${input.userId} ${counter}`);
+      }
+      itemCount += transactService.transactItems(input, timestamp).length;
+    }
+    if (itemCount > MAX_TRANSACT_ITEMS) {
+      throw new InvalidBatchError(`an atomic batch writes at most ${MAX_TRANSACT_ITEMS} items, this one ${itemCount}`);
+    }
+  };
+
+  return async (inputs: TransactionInput[], { mode, concurrency = DEFAULT_BATCH_CONCURRENCY }) => {
+    if (mode === "atomic") {
+      checkAtomicBatch(inputs);
+    } else if (mode !== "independent") {
+      throw new InvalidBatchError(`unknown mode ${mode}`);
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidBatchError("concurrency must be a positive integer");
+    }
+
+    const results: (BatchItemResult | undefined)[] = inputs.map(() => undefined);
+    const settle = (i: number, status: BatchItemStatus, error?: unknown) => {
+      results[i] = {
+        idempotentKey: inputs[i].idempotentKey,
+        status,
+        ...(error !== undefined && { error: error as Error }),
+      };
+    };
+    const unsettled = () => inputs.flatMap((_, i) => (results[i] ? [] : [i]));
+
+    // input validation, and the spending limits a debit is over on its own
+    inputs.forEach((input, i) => {
+      try {
+        transactService.validate(input);
+        transactService.checkLimits(input);
+      } catch (error) {
+        settle(i, BatchItemStatus.FAILED, error);
+      }
+    });
+    if (mode === "atomic") {
+      checkAtomicItems(unsettled().map((i) => inputs[i]));
+    }
+
+    // check users exist and which transactions were already processed, a BatchGetItem per 100 keys
+    const valid = unsettled();
+    const [users, existing] = await Promise.all([
+      userService.getUserItems(valid.map((i) => inputs[i].userId)),
+      transactService.checkExistingTransactions(valid.map((i) => inputs[i].idempotentKey)),
+    ]);
+    for (const i of valid) {
+      const input = inputs[i];
+      const existingTransaction = existing.get(input.idempotentKey);
+      if (!users.has(input.userId)) {
+        settle(i, BatchItemStatus.FAILED, new UserNotFoundError(input.userId));
+      } else if (existingTransaction) {
+        // an identical replay is a duplicate, a different request under the same key fails
+        try {
+          transactService.assertReplayMatches(input, existingTransaction);
+          settle(i, BatchItemStatus.DUPLICATE);
+        } catch (error) {
+          settle(i, BatchItemStatus.FAILED, error);
+        }
+      }
+    }
+
+    const pending = unsettled();
+    if (mode === "atomic") {
+      await writeAtomically(transactService, inputs, pending, results, settle);
+    } else {
+      await forEachConcurrently(pending, concurrency, async (i) => {
+        try {
+          await transactService.transact(inputs[i]);
+          settle(i, BatchItemStatus.APPLIED);
+        } catch (error) {
+          settle(i, BatchItemStatus.FAILED, error);
+        }
+      });
+    }
+
+    return results as BatchItemResult[];
+  };
+}
+
+// Writes the pending transactions in one go, unless a transaction already failed.
+// When one fails, the others fail with BatchAbortedError
+async function writeAtomically(
+  transactService: TransactService,
+  inputs: TransactionInput[],
+  pending: number[],
+  results: (BatchItemResult | undefined)[],
+  settle: (i: number, status: BatchItemStatus, error?: unknown) => void
+): Promise<void> {
+  const abort = (failedKey: string) =>
+    pending
+      .filter((i) => !results[i])
+      .forEach((i) => settle(i, BatchItemStatus.FAILED, new BatchAbortedError(failedKey)));
+
+  const failed = results.find((result) => result?.status === BatchItemStatus.FAILED);
+  if (failed) {
+    abort(failed.idempotentKey);
+    return;
+  }
+  if (pending.length === 0) {
+    return;
+  }
+
+  let failures: (Error | undefined)[];
+  try {
+    ({ failures } = await transactService.transactAll(pending.map((i) => inputs[i])));
+  } catch (error) {
+    // not any transaction's fault, e.g. conflicts that were retried until the retry policy gave up
+    pending.forEach((i) => settle(i, BatchItemStatus.FAILED, error));
+    return;
+  }
+  if (failures.length === 0) {
+    pending.forEach((i) => settle(i, BatchItemStatus.APPLIED));
+    return;
+  }
+
+  failures.forEach((failure, j) => failure && settle(pending[j], BatchItemStatus.FAILED, failure));
+  abort(inputs[pending[failures.findIndex((failure) => failure)]].idempotentKey);
+}
+
+// runs the task for every item, with at most limit of them at the same time
+async function forEachConcurrently<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
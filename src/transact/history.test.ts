@@ -0,0 +1,207 @@
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import {
+  decodeCursor,
+  encodeCursor,
+  TransactionHistoryService,
+} from "./history";
+import {
+  InvalidCursorError,
+  InvalidDateRangeError,
+  InvalidLimitError,
+  InvalidUserIdError,
+  TConfig,
+  TransactionType,
+} from "../types";
+
+// Mock the DynamoDB client
+jest.mock("@aws-sdk/client-dynamodb", () => {
+  const mockSend = jest.fn();
+  return {
+    DynamoDB: jest.fn().mockImplementation(() => ({
+      send: mockSend,
+    })),
+    QueryCommand: jest.fn().mockImplementation((params) => params),
+  };
+});
+
+describe("TransactionHistoryService", () => {
+  let historyService: TransactionHistoryService;
+  let mockClient: DynamoDB;
+  let mockConfig: TConfig;
+
+  const item = (key: string, type: TransactionType, timestamp: number) => ({
+    idempotencyKey: { S: key },
+    userId: { S: "user123" },
+    amount: { N: "10" },
+    type: { S: type },
+    timestamp: { N: timestamp.toString() },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockConfig = {
+      DB_TRANSACTIONS_TABLE: "transactions-table",
+    } as TConfig;
+
+    mockClient = new DynamoDB({});
+    (mockClient.send as jest.Mock).mockReset();
+    historyService = new TransactionHistoryService(mockClient, mockConfig);
+  });
+
+  describe("validate", () => {
+    it("should throw InvalidUserIdError when userId is not provided", () => {
+      expect(() => historyService.validate({} as any)).toThrow(InvalidUserIdError);
+    });
+
+    it("should throw InvalidLimitError when limit is out of range", () => {
+      expect(() => historyService.validate({ userId: "user123", limit: 0 })).toThrow(
+        InvalidLimitError
+      );
+      expect(() => historyService.validate({ userId: "user123", limit: 101 })).toThrow(
+        InvalidLimitError
+      );
+      expect(() => historyService.validate({ userId: "user123", limit: 1.5 })).toThrow(
+        InvalidLimitError
+      );
+    });
+
+    it("should throw InvalidDateRangeError when from is after to", () => {
+      expect(() =>
+        historyService.validate({
+          userId: "user123",
+          from: new Date("2024-02-01"),
+          to: new Date("2024-01-01"),
+        })
+      ).toThrow(InvalidDateRangeError);
+    });
+  });
+
+  describe("listTransactions", () => {
+    it("should query the userIdIndex newest first and map the items", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Items: [
+          item("key2", TransactionType.DEBIT, 2000),
+          item("key1", TransactionType.CREDIT, 1000),
+        ],
+      });
+
+      const page = await historyService.listTransactions({ userId: "user123" });
+
+      expect(mockClient.send).toHaveBeenCalledWith({
+        TableName: "transactions-table",
+        IndexName: "userIdIndex",
+        KeyConditionExpression: "userId = :userId",
+        ExpressionAttributeValues: {
+          ":userId": { S: "user123" },
+        },
+        ScanIndexForward: false,
+        Limit: 20,
+        ExclusiveStartKey: undefined,
+      });
+      expect(page.cursor).toBeUndefined();
+      expect(page.transactions).toEqual([
+        {
+          idempotentKey: "key2",
+          userId: "user123",
+          amount: "10",
+          type: TransactionType.DEBIT,
+          timestamp: new Date(2000),
+        },
+        {
+          idempotentKey: "key1",
+          userId: "user123",
+          amount: "10",
+          type: TransactionType.CREDIT,
+          timestamp: new Date(1000),
+        },
+      ]);
+    });
+
+    it("should return a cursor that resumes from the LastEvaluatedKey", async () => {
+      const lastEvaluatedKey = {
+        idempotencyKey: { S: "key2" },
+        userId: { S: "user123" },
+        timestamp: { N: "2000" },
+      };
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Items: [item("key2", TransactionType.DEBIT, 2000)],
+        LastEvaluatedKey: lastEvaluatedKey,
+      });
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
+
+      const first = await historyService.listTransactions({ userId: "user123", limit: 1 });
+      expect(first.cursor).toBeDefined();
+
+      await historyService.listTransactions({
+        userId: "user123",
+        limit: 1,
+        cursor: first.cursor,
+      });
+
+      const params = (mockClient.send as jest.Mock).mock.calls[1][0];
+      expect(params.Limit).toBe(1);
+      expect(params.ExclusiveStartKey).toEqual(lastEvaluatedKey);
+    });
+
+    it("should filter by date range on the sort key and by type", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
+
+      await historyService.listTransactions({
+        userId: "user123",
+        type: TransactionType.CREDIT,
+        from: new Date(1000),
+        to: new Date(5000),
+      });
+
+      const params = (mockClient.send as jest.Mock).mock.calls[0][0];
+      expect(params.KeyConditionExpression).toBe(
+        "userId = :userId AND #timestamp BETWEEN :from AND :to"
+      );
+      expect(params.FilterExpression).toBe("#type = :type");
+      expect(params.ExpressionAttributeNames).toEqual({
+        "#timestamp": "timestamp",
+        "#type": "type",
+      });
+      expect(params.ExpressionAttributeValues).toEqual({
+        ":userId": { S: "user123" },
+        ":from": { N: "1000" },
+        ":to": { N: "5000" },
+        ":type": { S: TransactionType.CREDIT },
+      });
+    });
+
+    it("should support open-ended date ranges", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
+
+      await historyService.listTransactions({ userId: "user123", to: new Date(5000) });
+
+      const params = (mockClient.send as jest.Mock).mock.calls[0][0];
+      expect(params.KeyConditionExpression).toBe("userId = :userId AND #timestamp <= :to");
+    });
+
+    it("should throw InvalidCursorError for a malformed cursor", async () => {
+      await expect(
+        historyService.listTransactions({ userId: "user123", cursor: "not-a-cursor" })
+      ).rejects.toThrow(InvalidCursorError);
+      expect(mockClient.send).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("cursor", () => {
+  const key = { idempotencyKey: { S: "key1" }, userId: { S: "user123" }, timestamp: { N: "1" } };
+
+  it("should round trip a key", () => {
+    expect(decodeCursor(encodeCursor(key), "user123")).toEqual(key);
+  });
+
+  it.each([
+    ["another user's", key, "user456"],
+    ["a missing attribute", { idempotencyKey: key.idempotencyKey, userId: key.userId }, "user123"],
+    ["an extra attribute", { ...key, amount: { N: "10" } }, "user123"],
+    ["a wrongly typed attribute", { ...key, timestamp: { S: "1" } }, "user123"],
+  ])("should refuse %s key", (_, tampered, userId) => {
+    expect(() => decodeCursor(encodeCursor(tampered), userId)).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  AttributeValue,
+  DynamoDB,
+  QueryCommand,
+  QueryCommandInput,
+} from "@aws-sdk/client-dynamodb";
+import {
+  InvalidCursorError,
+  InvalidDateRangeError,
+  InvalidLimitError,
+  InvalidUserIdError,
+  ListTransactionsInput,
+  TConfig,
+  Transaction,
+  TransactionPage,
+  TransactionType,
+} from "../types";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// the GSI on the Transactions table, keyed by userId and sorted by timestamp
+const USER_ID_INDEX = "userIdIndex";
+
+// Class to read a user's transactions. It does not concern about users' existence,
+// a user without transactions simply gets an empty page
+export class TransactionHistoryService {
+  private _client: DynamoDB;
+  private _tableName: string;
+
+  constructor(client: DynamoDB, config: TConfig) {
+    this._client = client;
+    this._tableName = config.DB_TRANSACTIONS_TABLE;
+  }
+
+  // input validation
+  validate(input: ListTransactionsInput): void {
+    if (!input.userId) {
+      throw new InvalidUserIdError();
+    }
+
+    if (
+      input.limit !== undefined &&
+      (!Number.isInteger(input.limit) || input.limit <= 0 || input.limit > MAX_PAGE_SIZE)
+    ) {
+      throw new InvalidLimitError();
+    }
+
+    if (input.from && input.to && input.from.getTime() > input.to.getTime()) {
+      throw new InvalidDateRangeError();
+    }
+  }
+
+  // lists the user's transactions, newest first
+  async listTransactions(input: ListTransactionsInput): Promise<TransactionPage> {
+    this.validate(input);
+
+    const params: QueryCommandInput = {
+      TableName: this._tableName,
+      IndexName: USER_ID_INDEX,
+      KeyConditionExpression: "userId = :userId",
+      ExpressionAttributeValues: {
+        ":userId": { S: input.userId },
+      },
+      // newest first
+      ScanIndexForward: false,
+      Limit: input.limit ?? DEFAULT_PAGE_SIZE,
+      ExclusiveStartKey: input.cursor ? decodeCursor(input.cursor, input.userId) : undefined,
+    };
+
+    // date filtering uses the timestamp sort key, so it doesn't cost extra reads
+    if (input.from || input.to) {
+      params.ExpressionAttributeNames = { "#timestamp": "timestamp" };
+      if (input.from && input.to) {
+        params.KeyConditionExpression += " AND #timestamp BETWEEN :from AND :to";
+      } else if (input.from) {
+        params.KeyConditionExpression += " AND #timestamp >= :from";
+      } else {
+        params.KeyConditionExpression += " AND #timestamp <= :to";
+      }
+      if (input.from) {
+        params.ExpressionAttributeValues![":from"] = { N: input.from.getTime().toString() };
+      }
+      if (input.to) {
+        params.ExpressionAttributeValues![":to"] = { N: input.to.getTime().toString() };
+      }
+    }
+
+    // NB: the type is not part of the index, so this is applied after Limit.
+    // A page can have fewer items than the limit and still have a cursor
+    if (input.type) {
+      params.FilterExpression = "#type = :type";
+      params.ExpressionAttributeNames = {
+        ...params.ExpressionAttributeNames,
+        "#type": "type",
+      };
+      params.ExpressionAttributeValues![":type"] = { S: input.type };
+    }
+
+    const response = await this._client.send(new QueryCommand(params));
+
+    return {
+      transactions: (response.Items ?? []).map(toTransaction),
+      cursor: response.LastEvaluatedKey
+        ? encodeCursor(response.LastEvaluatedKey)
+        : undefined,
+    };
+  }
+}
+
+// maps a Transactions table item to a typed transaction
+export function toTransaction(item: Record<string, AttributeValue>): Transaction {
+  return {
+    idempotentKey: item.idempotencyKey?.S ?? "",
+    userId: item.userId?.S ?? "",
+    amount: item.amount?.N ?? "0",
+    type: item.type?.S as TransactionType,
+    currency: item.currency?.S,
+    ...(item.adjustmentReason && { adjustmentReason: item.adjustmentReason.S }),
+    timestamp: new Date(Number(item.timestamp?.N ?? 0)),
+  };
+}
+
+// the cursor is the LastEvaluatedKey, opaque to clients
+export function encodeCursor(key: Record<string, AttributeValue>): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+// the attributes of a userIdIndex key and their types, a LastEvaluatedKey has exactly these
+const CURSOR_KEY_TYPES: Record<string, "S" | "N"> = { idempotencyKey: "S", userId: "S", timestamp: "N" };
+
+// Throws InvalidCursorError unless the cursor is a key of the userIdIndex for this user,
+// so a tampered cursor or one of another user's history never reaches DynamoDB
+export function decodeCursor(cursor: string, userId: string): Record<string, AttributeValue> {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!key || typeof key !== "object" || Array.isArray(key)) {
+    throw new InvalidCursorError();
+  }
+
+  const entries = Object.entries(key);
+  const valid =
+    entries.length === Object.keys(CURSOR_KEY_TYPES).length &&
+    entries.every(([name, value]) => {
+      const type = CURSOR_KEY_TYPES[name];
+      return (
+        type !== undefined &&
+        !!value &&
+        typeof value === "object" &&
+        Object.keys(value).length === 1 &&
+        typeof value[type] === "string"
+      );
+    });
+  if (!valid || (key as Record<string, AttributeValue>).userId.S !== userId) {
+    throw new InvalidCursorError();
+  }
+  return key as Record<string, AttributeValue>;
+}
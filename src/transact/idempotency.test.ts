@@ -0,0 +1,84 @@
+import {
+  assertSameRequest,
+  fingerprint,
+  storedTransactionFields,
+  transactionFields,
+} from "./idempotency";
+import { IdempotencyKeyMismatchError, TransactionInput, TransactionType } from "../types";
+
+describe("idempotency", () => {
+  const input: TransactionInput = {
+    idempotentKey: "key123",
+    userId: "user123",
+    amount: "100",
+    type: TransactionType.CREDIT,
+  };
+
+  const storedItem = {
+    idempotencyKey: { S: "key123" },
+    userId: { S: "user123" },
+    amount: { N: "100" },
+    type: { S: TransactionType.CREDIT },
+  };
+
+  describe("fingerprint", () => {
+    it("should not depend on the order of the fields", () => {
+      expect(fingerprint({ a: "1", b: "2" })).toBe(fingerprint({ b: "2", a: "1" }));
+    });
+
+    it("should treat equal amounts as the same request", () => {
+      expect(fingerprint(transactionFields(input, "USD"))).toBe(
+        fingerprint(transactionFields({ ...input, amount: "100.00" }, "USD"))
+      );
+    });
+
+    it("should differ when a field differs", () => {
+      expect(fingerprint(transactionFields(input, "USD"))).not.toBe(
+        fingerprint(transactionFields({ ...input, type: TransactionType.DEBIT }, "USD"))
+      );
+    });
+  });
+
+  describe("assertSameRequest", () => {
+    it("should accept an identical replay by fingerprint", () => {
+      const fields = transactionFields(input, "USD");
+      expect(() =>
+        assertSameRequest("key123", fields, {}, fingerprint(fields))
+      ).not.toThrow();
+    });
+
+    it("should accept an identical replay of an item without a fingerprint", () => {
+      expect(() =>
+        assertSameRequest(
+          "key123",
+          transactionFields(input, "USD"),
+          storedTransactionFields(storedItem, "USD")
+        )
+      ).not.toThrow();
+    });
+
+    it("should throw IdempotencyKeyMismatchError with the fields that differ", () => {
+      const replay = { ...input, amount: "50", type: TransactionType.DEBIT };
+      const stored = storedTransactionFields({
+        ...storedItem,
+        fingerprint: { S: fingerprint(transactionFields(input, "USD")) },
+      }, "USD");
+
+      try {
+        assertSameRequest(
+          "key123",
+          transactionFields(replay, "USD"),
+          stored,
+          fingerprint(transactionFields(input, "USD"))
+        );
+        fail("Expected IdempotencyKeyMismatchError was not thrown.");
+      } catch (e) {
+        expect(e).toBeInstanceOf(IdempotencyKeyMismatchError);
+        expect((e as IdempotencyKeyMismatchError).mismatches).toEqual([
+          { field: "amount", stored: "100", received: "50" },
+          { field: "type", stored: TransactionType.CREDIT, received: TransactionType.DEBIT },
+        ]);
+      }
+    });
+  });
+});
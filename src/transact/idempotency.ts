@@ -0,0 +1,143 @@
+import { createHash } from "crypto";
+import { AttributeValue } from "@aws-sdk/client-dynamodb";
+import {
+  IdempotencyKeyMismatch,
+  IdempotencyKeyMismatchError,
+  JournalEntry,
+  PlaceHoldInput,
+  ReversalInput,
+  TransactionInput,
+  TransferInput,
+} from "../types";
+import { addDecimals } from "../money/money";
+
+// the fields identifying a request, keyed by the name reported back on a mismatch
+export type RequestFields = Record<string, string>;
+
+// amounts are compared by value, so "10" and "10.00" are the same request
+const normalizeAmount = (amount: string) => addDecimals(amount, "0");
+
+// requests and items without a currency are in the default currency
+export function transactionFields(input: TransactionInput, defaultCurrency: string): RequestFields {
+  return {
+    userId: input.userId,
+    amount: normalizeAmount(input.amount),
+    type: input.type,
+    currency: input.currency ?? defaultCurrency,
+  };
+}
+
+export function transferFields(input: TransferInput, defaultCurrency: string): RequestFields {
+  return {
+    fromUserId: input.fromUserId,
+    toUserId: input.toUserId,
+    amount: normalizeAmount(input.amount),
+    currency: input.currency ?? defaultCurrency,
+  };
+}
+
+// the amount of a reversal is optional, it only has to match when it was given
+export function reversalFields(input: ReversalInput): RequestFields {
+  return {
+    originalIdempotencyKey: input.originalIdempotencyKey,
+    ...(input.amount !== undefined && { amount: normalizeAmount(input.amount) }),
+  };
+}
+
+export function holdFields(input: PlaceHoldInput, defaultCurrency: string): RequestFields {
+  return {
+    userId: input.userId,
+    amount: normalizeAmount(input.amount),
+    currency: input.currency ?? defaultCurrency,
+  };
+}
+
+// the lines are compared as a whole, in order, e.g. "debit cash 10, credit user:1 10"
+export function entryFields(entry: JournalEntry, defaultCurrency: string): RequestFields {
+  return {
+    currency: entry.currency ?? defaultCurrency,
+    lines: entry.lines.map((line) => `${line.side} ${line.account} ${normalizeAmount(line.amount)}`).join(", "),
+  };
+}
+
+// fields of a stored transaction item, in the same shape as transactionFields
+export function storedTransactionFields(item: Record<string, AttributeValue>, defaultCurrency: string) {
+  return {
+    userId: item.userId?.S,
+    amount: item.amount?.N && normalizeAmount(item.amount.N),
+    type: item.type?.S,
+    currency: item.currency?.S ?? defaultCurrency,
+  };
+}
+
+// fields of the stored debit leg of a transfer, in the same shape as transferFields
+export function storedTransferFields(item: Record<string, AttributeValue>, defaultCurrency: string) {
+  return {
+    fromUserId: item.userId?.S,
+    toUserId: item.counterpartyUserId?.S,
+    amount: item.amount?.N && normalizeAmount(item.amount.N),
+    currency: item.currency?.S ?? defaultCurrency,
+  };
+}
+
+// fields of a stored reversal, in the same shape as reversalFields
+export function storedReversalFields(item: Record<string, AttributeValue>) {
+  return {
+    originalIdempotencyKey: item.reversalOf?.S,
+    amount: item.amount?.N && normalizeAmount(item.amount.N),
+  };
+}
+
+// fields of a stored hold, in the same shape as holdFields
+export function storedHoldFields(item: Record<string, AttributeValue>, defaultCurrency: string) {
+  return {
+    userId: item.userId?.S,
+    amount: item.amount?.N && normalizeAmount(item.amount.N),
+    currency: item.currency?.S ?? defaultCurrency,
+  };
+}
+
+// fields of the stored lines of a journal entry, sorted by line, in the same shape as entryFields
+export function storedEntryFields(items: Record<string, AttributeValue>[]) {
+  return {
+    currency: items[0]?.currency?.S,
+    lines: items
+      .map((item) => `${item.side?.S} ${item.account?.S} ${item.amount?.N && normalizeAmount(item.amount.N)}`)
+      .join(", "),
+  };
+}
+
+// hash of the request, stored with the transaction so replays can be compared cheaply
+export function fingerprint(fields: RequestFields): string {
+  const canonical = Object.keys(fields)
+    .sort()
+    .map((field) => `${field}=${fields[field]}`)
+    .join("&");
+
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+// An identical replay is a no-op, anything else throws with the fields that differ.
+// Items written before fingerprints existed are compared field by field
+export function assertSameRequest(
+  idempotentKey: string,
+  received: RequestFields,
+  stored: Record<string, string | undefined>,
+  storedFingerprint?: string
+): void {
+  if (storedFingerprint && storedFingerprint === fingerprint(received)) {
+    return;
+  }
+
+  const mismatches: IdempotencyKeyMismatch[] = Object.keys(received)
+    .filter((field) => stored[field] !== received[field])
+    .map((field) => ({
+      field,
+      stored: stored[field],
+      received: received[field],
+    }));
+
+  if (mismatches.length > 0) {
+    throw new IdempotencyKeyMismatchError(idempotentKey, mismatches);
+  }
+}
@@ -0,0 +1,103 @@
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import {
+  backoffDelay,
+  DEFAULT_RETRY_POLICY,
+  isRetryable,
+  RetryPolicy,
+  withRetry,
+} from "./retry";
+
+const cancelledWith = (...codes: string[]) =>
+  new TransactionCanceledException({
+    message: "Transaction cancelled",
+    $metadata: {},
+    CancellationReasons: codes.map((Code) => ({ Code })),
+  });
+
+describe("retry", () => {
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: 4,
+    baseDelayMs: 100,
+    maxDelayMs: 300,
+  };
+
+  describe("isRetryable", () => {
+    it("should retry transient conflicts", () => {
+      expect(isRetryable(cancelledWith("None", "TransactionConflict"), policy)).toBe(true);
+      expect(isRetryable(cancelledWith("ThrottlingError"), policy)).toBe(true);
+    });
+
+    it("should never retry a failed condition", () => {
+      expect(isRetryable(cancelledWith("ConditionalCheckFailed"), policy)).toBe(false);
+      expect(
+        isRetryable(cancelledWith("ConditionalCheckFailed", "TransactionConflict"), policy)
+      ).toBe(false);
+    });
+
+    it("should only retry the configured codes", () => {
+      expect(
+        isRetryable(cancelledWith("TransactionConflict"), { ...policy, retryableCodes: [] })
+      ).toBe(false);
+    });
+
+    it("should not retry other errors", () => {
+      expect(isRetryable(new Error("boom"), policy)).toBe(false);
+    });
+  });
+
+  describe("backoffDelay", () => {
+    it("should grow exponentially up to the maximum delay", () => {
+      const max = () => 0.999999;
+      expect(backoffDelay(policy, 1, max)).toBe(99);
+      expect(backoffDelay(policy, 2, max)).toBe(199);
+      expect(backoffDelay(policy, 3, max)).toBe(299);
+      expect(backoffDelay(policy, 10, max)).toBe(299);
+    });
+
+    it("should apply jitter", () => {
+      expect(backoffDelay(policy, 2, () => 0.5)).toBe(100);
+      expect(backoffDelay(policy, 2, () => 0)).toBe(0);
+    });
+  });
+
+  describe("withRetry", () => {
+    it("should retry until the operation succeeds", async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const onRetry = jest.fn();
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(cancelledWith("TransactionConflict"))
+        .mockRejectedValueOnce(cancelledWith("TransactionConflict"))
+        .mockResolvedValueOnce("done");
+
+      const result = await withRetry(fn, policy, { sleep, random: () => 0.5, onRetry });
+
+      expect(result).toBe("done");
+      expect(fn).toHaveBeenNthCalledWith(3, 3);
+      expect(sleep.mock.calls).toEqual([[50], [100]]);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw the last error once attempts are exhausted", async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const error = cancelledWith("TransactionConflict");
+      const fn = jest.fn().mockRejectedValue(error);
+
+      await expect(withRetry(fn, policy, { sleep })).rejects.toBe(error);
+      expect(fn).toHaveBeenCalledTimes(4);
+      expect(sleep).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry a non retryable error", async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const fn = jest.fn().mockRejectedValue(cancelledWith("ConditionalCheckFailed"));
+
+      await expect(withRetry(fn, policy, { sleep })).rejects.toBeInstanceOf(
+        TransactionCanceledException
+      );
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+
+export type RetryPolicy = {
+  // total number of attempts, including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // cancellation reason codes that are worth retrying
+  retryableCodes: string[];
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 50,
+  maxDelayMs: 1_000,
+  retryableCodes: ["TransactionConflict", "ThrottlingError", "ProvisionedThroughputExceeded"],
+};
+
+export type Sleep = (ms: number) => Promise<void>;
+
+export const sleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type RetryOptions = {
+  // injectable so tests don't have to wait
+  sleep?: Sleep;
+  // returns a number in [0, 1), used for jitter
+  random?: () => number;
+  // called before waiting for the next attempt
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+};
+
+// the cancellation reason codes of a failed transaction, empty for any other error
+export function cancellationCodes(error: unknown): string[] {
+  if (!(error instanceof TransactionCanceledException)) {
+    return [];
+  }
+
+  return (error.CancellationReasons ?? [])
+    .map((reason) => reason.Code)
+    .filter((code): code is string => !!code && code !== "None");
+}
+
+// A cancelled transaction is retryable when all its reasons are transient.
+// A failed condition (e.g. insufficient balance) never is, retrying would fail the same way
+export function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  const codes = cancellationCodes(error);
+
+  return (
+    codes.length > 0 &&
+    !codes.includes("ConditionalCheckFailed") &&
+    codes.every((code) => policy.retryableCodes.includes(code))
+  );
+}
+
+// exponential backoff with full jitter, the delay before the given (1-based) retry
+export function backoffDelay(
+  policy: Pick<RetryPolicy, "baseDelayMs" | "maxDelayMs">,
+  retry: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.floor(random() * ceiling);
+}
+
+// runs fn until it succeeds, fails with a non retryable error or runs out of attempts.
+// The error of the last attempt is thrown as is
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {}
+): Promise<T> {
+  const wait = options.sleep ?? sleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error, policy)) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(policy, attempt, options.random);
+      options.onRetry?.(attempt, delayMs, error);
+      await wait(delayMs);
+    }
+  }
+}
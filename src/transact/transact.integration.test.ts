@@ -0,0 +1,194 @@
+import { PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { seed } from "../db/seed";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { UserService } from "../user/user";
+import { jsonWriter, StructuredLogger } from "../logger/logger";
+import { TransactService, createTransactFn, createTransferFn } from "./transact";
+import {
+  IdempotencyKeyMismatchError,
+  InsufficientBalanceError,
+  TransactionType,
+  UserNotFoundError,
+} from "../types";
+
+// These run the services against InMemoryDynamoDB instead of mocking every call,
+// so conditions and transactions are evaluated like DynamoDB would
+describe("transactions against an in-memory DynamoDB", () => {
+  let db: InMemoryDynamoDB;
+  let userService: UserService;
+
+  const createUser = (userId: string, balance?: string) =>
+    db.send(
+      new PutItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Item: {
+          userId: { S: userId },
+          currency: { S: Config.DEFAULT_CURRENCY },
+          ...(balance && { balance: { N: balance } }),
+        },
+      })
+    );
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    userService = new UserService(db, Config);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("createSchema", () => {
+    it("should create every table once", async () => {
+      await createSchema(db);
+
+      const { TableNames } = await db.listTables({});
+      expect(TableNames).toEqual(
+        [
+          Config.DB_HOLDS_TABLE,
+          Config.DB_JOURNAL_TABLE,
+          Config.DB_LIMIT_COUNTERS_TABLE,
+          Config.DB_OUTBOX_TABLE,
+          Config.DB_WEBHOOKS_TABLE,
+          Config.DB_MIGRATIONS_TABLE,
+          Config.DB_TRANSACTIONS_TABLE,
+          Config.DB_USERS_TABLE,
+          Config.DB_WALLETS_TABLE,
+        ].sort()
+      );
+    });
+  });
+
+  describe("seed", () => {
+    it("should create users whose balances can be read", async () => {
+      await seed(db, 5);
+
+      expect(db.dump(Config.DB_USERS_TABLE)).toHaveLength(5);
+      await expect(userService.getUserBalance({ userId: "5" })).resolves.toMatch(/^\d+\.\d{2} USD$/);
+    });
+  });
+
+  describe("createTransactFn", () => {
+    let transact: ReturnType<typeof createTransactFn>;
+
+    beforeEach(async () => {
+      transact = createTransactFn(db);
+      await createUser("1", "100");
+    });
+
+    it("should credit and debit the user's balance", async () => {
+      await transact({ idempotentKey: "k1", userId: "1", amount: "25.50", type: TransactionType.CREDIT });
+      await transact({ idempotentKey: "k2", userId: "1", amount: "0.50", type: TransactionType.DEBIT });
+
+      await expect(userService.getUserBalance({ userId: "1" })).resolves.toBe("125.00 USD");
+    });
+
+    it("should not let a debit overdraw the balance", async () => {
+      await expect(
+        transact({ idempotentKey: "k1", userId: "1", amount: "100.01", type: TransactionType.DEBIT })
+      ).rejects.toThrow(InsufficientBalanceError);
+
+      await expect(userService.getUserBalance({ userId: "1" })).resolves.toBe("100.00 USD");
+      expect(db.dump(Config.DB_TRANSACTIONS_TABLE)).toEqual([]);
+    });
+
+    it("should let only one of two concurrent debits spend the same funds", async () => {
+      const results = await Promise.allSettled([
+        transact({ idempotentKey: "k1", userId: "1", amount: "60", type: TransactionType.DEBIT }),
+        transact({ idempotentKey: "k2", userId: "1", amount: "60", type: TransactionType.DEBIT }),
+      ]);
+
+      expect(results.filter((result) => result.status === "rejected")).toHaveLength(1);
+      await expect(userService.getUserBalance({ userId: "1" })).resolves.toBe("40.00 USD");
+    });
+
+    it("should apply a replayed request only once", async () => {
+      const input = { idempotentKey: "k1", userId: "1", amount: "10", type: TransactionType.CREDIT };
+
+      await transact(input);
+      await transact(input);
+
+      await expect(userService.getUserBalance({ userId: "1" })).resolves.toBe("110.00 USD");
+      expect(db.dump(Config.DB_TRANSACTIONS_TABLE)).toHaveLength(1);
+    });
+
+    it("should reject a different request under the same key", async () => {
+      await transact({ idempotentKey: "k1", userId: "1", amount: "10", type: TransactionType.CREDIT });
+
+      await expect(
+        transact({ idempotentKey: "k1", userId: "1", amount: "20", type: TransactionType.CREDIT })
+      ).rejects.toThrow(IdempotencyKeyMismatchError);
+    });
+
+    it("should throw UserNotFoundError for an unknown user", async () => {
+      await expect(
+        transact({ idempotentKey: "k1", userId: "2", amount: "10", type: TransactionType.CREDIT })
+      ).rejects.toThrow(UserNotFoundError);
+    });
+  });
+
+  describe("TransactService", () => {
+    it("should record the ledger row with the wallet update", async () => {
+      await createUser("1", "100");
+      const transactService = new TransactService(db, Config);
+
+      await transactService.transact({ idempotentKey: "k1", userId: "1", amount: "010.50", type: TransactionType.DEBIT });
+
+      expect(db.dump(Config.DB_TRANSACTIONS_TABLE)).toEqual([
+        expect.objectContaining({ idempotencyKey: { S: "k1" }, amount: { N: "10.5" }, currency: { S: "USD" } }),
+      ]);
+      expect(db.dump(Config.DB_USERS_TABLE)).toEqual([
+        expect.objectContaining({ userId: { S: "1" }, balance: { N: "89.5" }, availableBalance: { N: "89.5" } }),
+      ]);
+    });
+
+    it("should log a refused debit with its user and key, without the balances", async () => {
+      await createUser("1", "100");
+      const lines: string[] = [];
+      const logger = new StructuredLogger(jsonWriter((line) => lines.push(line)));
+      const transactService = new TransactService(db, Config, { logger });
+
+      await expect(
+        transactService.transact({ idempotentKey: "k1", userId: "1", amount: "500", type: TransactionType.DEBIT })
+      ).rejects.toThrow(InsufficientBalanceError);
+
+      const entries = lines.map((line) => JSON.parse(line));
+      expect(entries).toEqual([
+        expect.objectContaining({
+          level: "error",
+          message: "Transaction failed",
+          userId: "1",
+          idempotencyKey: "k1",
+          canceled: true,
+          error: expect.objectContaining({ name: "TransactionCanceledException" }),
+        }),
+        expect.objectContaining({ level: "debug", message: "Transaction canceled", reasons: ["ConditionalCheckFailed"] }),
+      ]);
+      expect(lines.join("")).not.toContain('"100"');
+    });
+  });
+
+  describe("createTransferFn", () => {
+    it("should move money between users in another currency", async () => {
+      await createUser("1");
+      await createUser("2");
+      const transact = createTransactFn(db);
+      const transfer = createTransferFn(db);
+
+      await transact({ idempotentKey: "k1", userId: "1", amount: "50", type: TransactionType.CREDIT, currency: "EUR" });
+      await transfer({ idempotentKey: "t1", fromUserId: "1", toUserId: "2", amount: "20", currency: "EUR" });
+
+      await expect(userService.getUserBalance({ userId: "1", currency: "EUR" })).resolves.toBe("30.00 EUR");
+      await expect(userService.getUserBalance({ userId: "2", currency: "EUR" })).resolves.toBe("20.00 EUR");
+    });
+  });
+});
@@ -3,15 +3,27 @@ import {
   TransactionCanceledException,
 } from "@aws-sdk/client-dynamodb";
 import { TransactService } from "./transact";
+import { fingerprint, transactionFields } from "./idempotency";
 import { Config } from "../config";
 import {
+  ConcurrentModificationError,
+  DestinationUserNotFoundError,
+  IdempotencyKeyMismatchError,
   InsufficientBalanceError,
   InvalidAmountError,
   InvalidIdempotencyKeyError,
+  InvalidReversalError,
   InvalidTransactionTypeError,
+  InvalidTransferError,
+  ReversalExceedsOriginalError,
+  ReversalStatus,
+  SourceUserNotFoundError,
+  TransactionNotFoundError,
   TransactionInput,
   TransactionType,
+  TransferInput,
   UserNotFoundError,
+  WalletNotFoundError,
 } from "../types";
 // import { UserService } from "../user/user";
 
@@ -53,9 +65,14 @@ describe("TransactService", () => {
     mockConfig = {
       DB_TRANSACTIONS_TABLE: "transactions-table",
       DB_USERS_TABLE: "users-table",
+      DB_HOLDS_TABLE: "holds-table",
+      DB_WALLETS_TABLE: "wallets-table",
+      DB_JOURNAL_TABLE: "journal-table",
+      DB_OUTBOX_TABLE: "outbox-table",
       DEFAULT_BALANCE: 100,
       DEFAULT_CURRENCY: "USD",
       USER_SEED_SIZE: 25,
+      HOLD_EXPIRY_SECONDS: 60,
     };
 
     mockClient = new DynamoDB({});
@@ -119,6 +136,32 @@ describe("TransactService", () => {
       expect(() => transactService.validate(input)).toThrow(InvalidAmountError);
     });
 
+    it.each(["0.1e2", "10.123456", "1e-9"])(
+      "should throw InvalidAmountError when amount is %p",
+      (amount) => {
+        const input: TransactionInput = {
+          userId: "user123",
+          idempotentKey: "key123",
+          amount,
+          type: TransactionType.CREDIT,
+        };
+
+        expect(() => transactService.validate(input)).toThrow(InvalidAmountError);
+      }
+    );
+
+    it("should check the decimal places against the currency", () => {
+      const input: TransactionInput = {
+        userId: "user123",
+        idempotentKey: "key123",
+        amount: "10.5",
+        type: TransactionType.CREDIT,
+        currency: "JPY",
+      };
+
+      expect(() => transactService.validate(input)).toThrow(InvalidAmountError);
+    });
+
     it("should throw InvalidTransactionTypeError when type is not provided", () => {
       const input = {
         userId: "user123",
@@ -192,6 +235,11 @@ describe("TransactService", () => {
       type: TransactionType.CREDIT,
     };
 
+    beforeEach(() => {
+      // drop responses queued but not consumed by previous tests
+      (mockClient.send as jest.Mock).mockReset();
+    });
+
     it("should execute credit transaction successfully", async () => {
       // No existing transaction
       (mockClient.send as jest.Mock).mockResolvedValueOnce({ Item: undefined });
@@ -205,12 +253,29 @@ describe("TransactService", () => {
       // Verify the transaction command was called with correct parameters
       const transactWriteCommand = (mockClient.send as jest.Mock).mock
         .calls[0][0];
-      expect(transactWriteCommand.TransactItems).toHaveLength(2);
+      expect(transactWriteCommand.TransactItems).toHaveLength(5);
 
       // Credit operation should use the if_not_exists expression
       expect(
         transactWriteCommand.TransactItems[0].Update.UpdateExpression
-      ).toBe("SET #balance = if_not_exists(#balance, :zero) + :amount");
+      ).toBe(
+        "SET #balance = if_not_exists(#balance, :zero) + :amount, " +
+          "#availableBalance = if_not_exists(#availableBalance, if_not_exists(#balance, :zero)) + :amount"
+      );
+
+      // a journal entry against the funding account
+      const [userLine, cashLine] = transactWriteCommand.TransactItems.slice(2);
+      expect(userLine.Put).toMatchObject({
+        TableName: "journal-table",
+        Item: { entryId: { S: "key123" }, line: { N: "0" }, account: { S: "user:user123" }, side: { S: "credit" } },
+      });
+      expect(cashLine.Put.Item).toMatchObject({ account: { S: "cash" }, side: { S: "debit" }, amount: { N: "100" } });
+
+      // and its event, in the same transaction
+      expect(transactWriteCommand.TransactItems[4].Put).toMatchObject({
+        TableName: "outbox-table",
+        Item: { eventId: { S: "TransactionPosted:key123" }, status: { S: "pending" } },
+      });
     });
 
     it("should execute debit transaction successfully", async () => {
@@ -231,15 +296,23 @@ describe("TransactService", () => {
       // Verify the transaction command was called with correct parameters
       const transactWriteCommand = (mockClient.send as jest.Mock).mock
         .calls[0][0];
-      expect(transactWriteCommand.TransactItems).toHaveLength(2);
+      expect(transactWriteCommand.TransactItems).toHaveLength(5);
 
       // Debit operation should check balance is sufficient
       expect(
         transactWriteCommand.TransactItems[0].Update.UpdateExpression
-      ).toBe("SET #balance = #balance - :amount");
+      ).toBe(
+        "SET #balance = #balance - :amount, " +
+          "#availableBalance = if_not_exists(#availableBalance, #balance) - :amount"
+      );
+      // Held funds can't be debited
       expect(
         transactWriteCommand.TransactItems[0].Update.ConditionExpression
-      ).toBe("attribute_exists(#balance) AND #balance >= :amount");
+      ).toBe(
+        "attribute_exists(#balance) AND #balance >= :amount AND " +
+          "(attribute_not_exists(#availableBalance) OR #availableBalance >= :amount) AND " +
+          "(attribute_not_exists(#currency) OR #currency = :currency)"
+      );
     });
 
     it("should throw InsufficientBalanceError when balance is insufficient for debit", async () => {
@@ -271,6 +344,50 @@ describe("TransactService", () => {
       }
     });
 
+    it("should only touch the wallet in the requested currency", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      await transactService.transact({ ...validInput, currency: "EUR" });
+
+      const [updateWallet, insertTransaction] = (mockClient.send as jest.Mock).mock.calls[0][0]
+        .TransactItems;
+      expect(updateWallet.Update.TableName).toBe("wallets-table");
+      expect(updateWallet.Update.Key).toEqual({
+        userId: { S: "user123" },
+        currency: { S: "EUR" },
+      });
+      // the first credit creates the wallet
+      expect(updateWallet.Update.ConditionExpression).toBeUndefined();
+      expect(insertTransaction.Put.Item.currency).toEqual({ S: "EUR" });
+    });
+
+    it("should throw WalletNotFoundError when debiting a currency the user doesn't hold", async () => {
+      const error = new (TransactionCanceledException as any)("Transaction cancelled");
+      // no old item, the wallet doesn't exist
+      error.CancellationReasons = [{ Code: "ConditionalCheckFailed" }, { Code: "None" }];
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(error);
+
+      await expect(
+        transactService.transact({ ...validInput, type: TransactionType.DEBIT, currency: "EUR" })
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+
+    it("should throw WalletNotFoundError when the user item is in another currency", async () => {
+      const error = new (TransactionCanceledException as any)("Transaction cancelled");
+      error.CancellationReasons = [
+        {
+          Code: "ConditionalCheckFailed",
+          Item: { userId: { S: "user123" }, balance: { N: "500" }, currency: { S: "EUR" } },
+        },
+        { Code: "None" },
+      ];
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(error);
+
+      await expect(
+        transactService.transact({ ...validInput, type: TransactionType.DEBIT })
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+
     it("should handle idempotency race condition", async () => {
       // Transaction fails due to idempotency conflict
       const error = new (TransactionCanceledException as any)(
@@ -301,8 +418,698 @@ describe("TransactService", () => {
       await transactService.transact(validInput);
 
       // Should call once to check, once to transact, and once more to check after conflict
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw IdempotencyKeyMismatchError when a concurrent request used the key for a different payload", async () => {
+      (mockClient.send as jest.Mock).mockReset();
+
+      const error = new (TransactionCanceledException as any)(
+        "Transaction cancelled"
+      );
+      error.CancellationReasons = [
+        { Code: "None" },
+        {
+          Code: "ConditionalCheckFailed",
+          Item: { idempotencyKey: { S: "key123" } },
+        },
+      ];
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(error);
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          idempotencyKey: { S: "key123" },
+          userId: { S: "user123" },
+          amount: { N: "50" },
+          type: { S: TransactionType.CREDIT },
+        },
+      });
+
+      await expect(transactService.transact(validInput)).rejects.toThrow(
+        IdempotencyKeyMismatchError
+      );
+    });
+
+    it("should retry transient conflicts and report the attempts", async () => {
+      (mockClient.send as jest.Mock).mockReset();
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      transactService = new TransactService(mockClient, mockConfig, {
+        sleep,
+        random: () => 0,
+      });
+
+      const error = new (TransactionCanceledException as any)(
+        "Transaction cancelled"
+      );
+      error.CancellationReasons = [{ Code: "TransactionConflict" }, { Code: "None" }];
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(error);
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      await expect(transactService.transact(validInput)).resolves.toEqual({ attempts: 2 });
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw TransactionFailedError with the attempts when conflicts persist", async () => {
+      (mockClient.send as jest.Mock).mockReset();
+      transactService = new TransactService(mockClient, mockConfig, {
+        retryPolicy: { maxAttempts: 2 },
+        sleep: jest.fn().mockResolvedValue(undefined),
+      });
+
+      const error = new (TransactionCanceledException as any)(
+        "Transaction cancelled"
+      );
+      error.CancellationReasons = [{ Code: "TransactionConflict" }, { Code: "None" }];
+      (mockClient.send as jest.Mock)
+        .mockRejectedValueOnce(error)
+        .mockRejectedValueOnce(error);
+
+      await expect(transactService.transact(validInput)).rejects.toMatchObject({
+        name: "TransactionFailedError",
+        attempts: 2,
+        reasons: ["TransactionConflict"],
+      });
+    });
+
+    it("should not retry an insufficient balance", async () => {
+      (mockClient.send as jest.Mock).mockReset();
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      transactService = new TransactService(mockClient, mockConfig, { sleep });
+
+      const error = new (TransactionCanceledException as any)(
+        "Transaction cancelled"
+      );
+      error.CancellationReasons = [{ Code: "ConditionalCheckFailed" }, { Code: "None" }];
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(error);
+
+      await expect(
+        transactService.transact({ ...validInput, type: TransactionType.DEBIT })
+      ).rejects.toThrow(InsufficientBalanceError);
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it("should store the request fingerprint with the transaction", async () => {
+      (mockClient.send as jest.Mock).mockReset();
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      await transactService.transact(validInput);
+
+      const transactWriteCommand = (mockClient.send as jest.Mock).mock
+        .calls[0][0];
+      expect(transactWriteCommand.TransactItems[1].Put.Item.fingerprint).toEqual({
+        S: fingerprint(transactionFields(validInput, "USD")),
+      });
+    });
+  });
+
+  describe("transactWithReceipt", () => {
+    const creditInput: TransactionInput = {
+      userId: "user123",
+      idempotentKey: "key123",
+      amount: "0.2",
+      type: TransactionType.CREDIT,
+    };
+
+    const cancelledWith = (reasons: { Code?: string; Item?: any }[]) => {
+      const error = new (TransactionCanceledException as any)(
+        "Transaction cancelled"
+      );
+      error.CancellationReasons = reasons;
+      return error;
+    };
+
+    beforeEach(() => {
+      // drop responses queued but not consumed by previous tests
+      (mockClient.send as jest.Mock).mockReset();
+    });
+
+    it("should pin the balance it read and record the resulting balance", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      const receipt = await transactService.transactWithReceipt(creditInput, "0.1");
+
+      expect(receipt).toMatchObject({
+        idempotentKey: "key123",
+        userId: "user123",
+        amount: "0.2",
+        type: TransactionType.CREDIT,
+        resultingBalance: "0.3",
+        replayed: false,
+      });
+      expect(receipt.timestamp).toBeInstanceOf(Date);
+
+      const [update, put] = (mockClient.send as jest.Mock).mock.calls[0][0]
+        .TransactItems;
+      expect(update.Update.ConditionExpression).toBe(
+        "attribute_exists(userId) AND (attribute_not_exists(#currency) OR #currency = :currency) AND " +
+          "#balance = :expected"
+      );
+      expect(update.Update.ExpressionAttributeValues[":expected"]).toEqual({ N: "0.1" });
+      expect(put.Put.Item.resultingBalance).toEqual({ N: "0.3" });
+    });
+
+    it("should require the balance to be missing when the user has none", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      const receipt = await transactService.transactWithReceipt(creditInput, undefined);
+
+      expect(receipt.resultingBalance).toBe("0.2");
+      const [update] = (mockClient.send as jest.Mock).mock.calls[0][0].TransactItems;
+      expect(update.Update.ConditionExpression).toBe(
+        "attribute_exists(userId) AND (attribute_not_exists(#currency) OR #currency = :currency) AND " +
+          "attribute_not_exists(#balance)"
+      );
+    });
+
+    it("should keep the debit balance condition", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      const receipt = await transactService.transactWithReceipt(
+        { ...creditInput, amount: "10", type: TransactionType.DEBIT },
+        "100"
+      );
+
+      expect(receipt.resultingBalance).toBe("90");
+      const [update] = (mockClient.send as jest.Mock).mock.calls[0][0].TransactItems;
+      expect(update.Update.ConditionExpression).toBe(
+        "attribute_exists(userId) AND attribute_exists(#balance) AND #balance >= :amount AND " +
+          "(attribute_not_exists(#availableBalance) OR #availableBalance >= :amount) AND " +
+          "(attribute_not_exists(#currency) OR #currency = :currency) AND #balance = :expected"
+      );
+    });
+
+    it("should throw InsufficientBalanceError without writing when the balance is too low", async () => {
+      await expect(
+        transactService.transactWithReceipt(
+          { ...creditInput, amount: "10", type: TransactionType.DEBIT },
+          "5"
+        )
+      ).rejects.toThrow(InsufficientBalanceError);
+      expect(mockClient.send).not.toHaveBeenCalled();
+    });
+
+    it("should retry against the new balance when it changed concurrently", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([
+          {
+            Code: "ConditionalCheckFailed",
+            Item: { userId: { S: "user123" }, balance: { N: "5" } },
+          },
+          { Code: "None" },
+        ])
+      );
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      const receipt = await transactService.transactWithReceipt(creditInput, "0.1");
+
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+      expect(receipt.resultingBalance).toBe("5.2");
+    });
+
+    it("should throw ConcurrentModificationError when the balance keeps changing", async () => {
+      const balanceChanged = cancelledWith([
+        {
+          Code: "ConditionalCheckFailed",
+          Item: { userId: { S: "user123" }, balance: { N: "5" } },
+        },
+        { Code: "None" },
+      ]);
+      (mockClient.send as jest.Mock)
+        .mockRejectedValueOnce(balanceChanged)
+        .mockRejectedValueOnce(balanceChanged)
+        .mockRejectedValueOnce(balanceChanged);
+
+      await expect(
+        transactService.transactWithReceipt(creditInput, "0.1")
+      ).rejects.toThrow(ConcurrentModificationError);
+      expect(mockClient.send).toHaveBeenCalledTimes(3);
+    });
+
+    it("should return the original receipt when the key was processed concurrently", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([{ Code: "None" }, { Code: "ConditionalCheckFailed" }])
+      );
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          idempotencyKey: { S: "key123" },
+          userId: { S: "user123" },
+          amount: { N: "0.2" },
+          type: { S: TransactionType.CREDIT },
+          resultingBalance: { N: "7.2" },
+          timestamp: { N: "1000" },
+        },
+      });
+
+      const receipt = await transactService.transactWithReceipt(creditInput, "0.1");
+
+      expect(receipt).toEqual({
+        idempotentKey: "key123",
+        userId: "user123",
+        amount: "0.2",
+        type: TransactionType.CREDIT,
+        timestamp: new Date(1000),
+        resultingBalance: "7.2",
+        replayed: true,
+      });
+    });
+  });
+
+  describe("reverseTransaction", () => {
+    const originalDebit = {
+      idempotencyKey: { S: "original" },
+      userId: { S: "user123" },
+      amount: { N: "100" },
+      type: { S: TransactionType.DEBIT },
+      timestamp: { N: "1000" },
+    };
+
+    const cancelledWith = (reasons: { Code?: string; Item?: any }[]) => {
+      const error = new (TransactionCanceledException as any)(
+        "Transaction cancelled"
+      );
+      error.CancellationReasons = reasons;
+      return error;
+    };
+
+    beforeEach(() => {
+      // drop responses queued but not consumed by previous tests
+      (mockClient.send as jest.Mock).mockReset();
+    });
+
+    it("should fully reverse a debit by crediting the user", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined }) // reversal key is new
+        .mockResolvedValueOnce({ Item: originalDebit })
+        .mockResolvedValueOnce({});
+
+      await transactService.reverseTransaction({
+        originalIdempotencyKey: "original",
+        reversalKey: "reversal",
+      });
+
+      const [markOriginal, updateBalance, insertReversal] = (mockClient.send as jest.Mock)
+        .mock.calls[2][0].TransactItems;
+      expect(markOriginal.Update.Key).toEqual({ idempotencyKey: { S: "original" } });
+      expect(markOriginal.Update.ConditionExpression).toBe(
+        "attribute_exists(idempotencyKey) AND attribute_not_exists(#reversedAmount)"
+      );
+      expect(markOriginal.Update.ExpressionAttributeValues).toEqual({
+        ":reversedAmount": { N: "100" },
+        ":status": { S: ReversalStatus.FULL },
+      });
+      expect(updateBalance.Update.UpdateExpression).toBe(
+        "SET #balance = if_not_exists(#balance, :zero) + :amount, " +
+          "#availableBalance = if_not_exists(#availableBalance, if_not_exists(#balance, :zero)) + :amount"
+      );
+      expect(updateBalance.Update.ConditionExpression).toBe(
+        "(attribute_not_exists(#currency) OR #currency = :currency)"
+      );
+      expect(insertReversal.Put.Item).toMatchObject({
+        idempotencyKey: { S: "reversal" },
+        userId: { S: "user123" },
+        amount: { N: "100" },
+        type: { S: TransactionType.CREDIT },
+        reversalOf: { S: "original" },
+      });
+    });
+
+    it("should partially reverse a credit by debiting the user", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({
+          Item: {
+            ...originalDebit,
+            type: { S: TransactionType.CREDIT },
+            reversedAmount: { N: "30" },
+          },
+        })
+        .mockResolvedValueOnce({});
+
+      await transactService.reverseTransaction({
+        originalIdempotencyKey: "original",
+        reversalKey: "reversal",
+        amount: "20",
+      });
+
+      const [markOriginal, updateBalance] = (mockClient.send as jest.Mock).mock
+        .calls[2][0].TransactItems;
+      expect(markOriginal.Update.ConditionExpression).toBe(
+        "attribute_exists(idempotencyKey) AND #reversedAmount = :previous"
+      );
+      expect(markOriginal.Update.ExpressionAttributeValues).toEqual({
+        ":reversedAmount": { N: "50" },
+        ":status": { S: ReversalStatus.PARTIAL },
+        ":previous": { N: "30" },
+      });
+      expect(updateBalance.Update.ConditionExpression).toBe(
+        "attribute_exists(#balance) AND #balance >= :amount AND " +
+          "(attribute_not_exists(#availableBalance) OR #availableBalance >= :amount) AND " +
+          "(attribute_not_exists(#currency) OR #currency = :currency)"
+      );
+    });
+
+    it("should refuse to reverse more than what is left of the original", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({
+          Item: { ...originalDebit, reversedAmount: { N: "90" } },
+        });
+
+      await expect(
+        transactService.reverseTransaction({
+          originalIdempotencyKey: "original",
+          reversalKey: "reversal",
+          amount: "20",
+        })
+      ).rejects.toThrow(ReversalExceedsOriginalError);
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw TransactionNotFoundError when the original does not exist", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({ Item: undefined });
+
+      await expect(
+        transactService.reverseTransaction({
+          originalIdempotencyKey: "original",
+          reversalKey: "reversal",
+        })
+      ).rejects.toThrow(TransactionNotFoundError);
+    });
+
+    it("should throw InsufficientBalanceError when a reversed credit was already spent", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({
+          Item: { ...originalDebit, type: { S: TransactionType.CREDIT } },
+        })
+        .mockRejectedValueOnce(
+          cancelledWith([
+            { Code: "None" },
+            { Code: "ConditionalCheckFailed" },
+            { Code: "None" },
+          ])
+        );
+
+      await expect(
+        transactService.reverseTransaction({
+          originalIdempotencyKey: "original",
+          reversalKey: "reversal",
+        })
+      ).rejects.toThrow(InsufficientBalanceError);
+    });
+
+    it("should check what is left again when another reversal got in first", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({ Item: originalDebit })
+        .mockRejectedValueOnce(
+          cancelledWith([
+            { Code: "ConditionalCheckFailed" },
+            { Code: "None" },
+            { Code: "None" },
+          ])
+        )
+        .mockResolvedValueOnce({
+          Item: { ...originalDebit, reversedAmount: { N: "100" } },
+        });
+
+      await expect(
+        transactService.reverseTransaction({
+          originalIdempotencyKey: "original",
+          reversalKey: "reversal",
+        })
+      ).rejects.toThrow(ReversalExceedsOriginalError);
+    });
+
+    it("should do nothing when the reversal was already recorded", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          idempotencyKey: { S: "reversal" },
+          userId: { S: "user123" },
+          amount: { N: "100" },
+          type: { S: TransactionType.CREDIT },
+          reversalOf: { S: "original" },
+        },
+      });
+
+      await transactService.reverseTransaction({
+        originalIdempotencyKey: "original",
+        reversalKey: "reversal",
+      });
+
       expect(mockClient.send).toHaveBeenCalledTimes(1);
     });
+
+    it("should refuse to reverse a reversal", async () => {
+      (mockClient.send as jest.Mock)
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({
+          Item: { ...originalDebit, reversalOf: { S: "another" } },
+        });
+
+      await expect(
+        transactService.reverseTransaction({
+          originalIdempotencyKey: "original",
+          reversalKey: "reversal",
+        })
+      ).rejects.toThrow(InvalidReversalError);
+    });
+  });
+
+  describe("validateTransfer", () => {
+    const validTransfer: TransferInput = {
+      idempotentKey: "key123",
+      fromUserId: "user1",
+      toUserId: "user2",
+      amount: "25",
+    };
+
+    it("should not throw when input is valid", () => {
+      expect(() => transactService.validateTransfer(validTransfer)).not.toThrow();
+    });
+
+    it("should throw InvalidAmountError when amount is invalid", () => {
+      expect(() =>
+        transactService.validateTransfer({ ...validTransfer, amount: "-1" })
+      ).toThrow(InvalidAmountError);
+    });
+
+    it("should throw DestinationUserNotFoundError when toUserId is not provided", () => {
+      expect(() =>
+        transactService.validateTransfer({ ...validTransfer, toUserId: "" })
+      ).toThrow(DestinationUserNotFoundError);
+    });
+
+    it("should throw InvalidTransferError when transferring to the same user", () => {
+      expect(() =>
+        transactService.validateTransfer({ ...validTransfer, toUserId: "user1" })
+      ).toThrow(InvalidTransferError);
+    });
+  });
+
+  describe("transfer", () => {
+    const transferInput: TransferInput = {
+      idempotentKey: "key123",
+      fromUserId: "user1",
+      toUserId: "user2",
+      amount: "25",
+    };
+
+    beforeEach(() => {
+      // drop responses queued but not consumed by previous tests
+      (mockClient.send as jest.Mock).mockReset();
+    });
+
+    const cancelledWith = (reasons: { Code?: string; Item?: any }[]) => {
+      const error = new (TransactionCanceledException as any)(
+        "Transaction cancelled"
+      );
+      error.CancellationReasons = reasons;
+      return error;
+    };
+
+    it("should debit, credit and record both legs in a single transaction", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      await transactService.transfer(transferInput);
+
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+
+      const transactWriteCommand = (mockClient.send as jest.Mock).mock
+        .calls[0][0];
+      const [debit, credit, debitLeg, creditLeg] =
+        transactWriteCommand.TransactItems;
+      expect(transactWriteCommand.TransactItems).toHaveLength(8);
+
+      expect(debit.Update.Key).toEqual({ userId: { S: "user1" } });
+      expect(debit.Update.ConditionExpression).toBe(
+        "attribute_exists(#balance) AND #balance >= :amount AND " +
+          "(attribute_not_exists(#availableBalance) OR #availableBalance >= :amount) AND " +
+          "(attribute_not_exists(#currency) OR #currency = :currency)"
+      );
+      expect(credit.Update.Key).toEqual({ userId: { S: "user2" } });
+      expect(credit.Update.ConditionExpression).toBe(
+        "attribute_exists(userId) AND (attribute_not_exists(#currency) OR #currency = :currency)"
+      );
+
+      expect(debitLeg.Put.Item.idempotencyKey).toEqual({ S: "key123:debit" });
+      expect(debitLeg.Put.Item.type).toEqual({ S: TransactionType.DEBIT });
+      expect(creditLeg.Put.Item.idempotencyKey).toEqual({ S: "key123:credit" });
+      expect(creditLeg.Put.Item.type).toEqual({ S: TransactionType.CREDIT });
+      expect(creditLeg.Put.Item.transferId).toEqual({ S: "key123" });
+
+      // a journal entry from one user's account to the other's
+      const lines = transactWriteCommand.TransactItems.slice(4, 6).map((item: any) => item.Put.Item);
+      expect(lines).toMatchObject([
+        { entryId: { S: "key123" }, account: { S: "user:user1" }, side: { S: TransactionType.DEBIT } },
+        { entryId: { S: "key123" }, account: { S: "user:user2" }, side: { S: TransactionType.CREDIT } },
+      ]);
+
+      // an event for each leg
+      const events = transactWriteCommand.TransactItems.slice(6).map((item: any) => item.Put.Item.eventId);
+      expect(events).toEqual([{ S: "TransactionPosted:key123:debit" }, { S: "TransactionPosted:key123:credit" }]);
+    });
+
+    it("should check the destination user separately in another currency", async () => {
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({});
+
+      await transactService.transfer({ ...transferInput, currency: "EUR" });
+
+      const transactItems = (mockClient.send as jest.Mock).mock.calls[0][0].TransactItems;
+      const [debit, credit, debitLeg, creditLeg, destinationUser] = transactItems;
+      expect(transactItems).toHaveLength(9);
+      expect(debit.Update.TableName).toBe("wallets-table");
+      expect(credit.Update.Key).toEqual({ userId: { S: "user2" }, currency: { S: "EUR" } });
+      expect(credit.Update.ConditionExpression).toBeUndefined();
+      expect(debitLeg.Put.Item.currency).toEqual({ S: "EUR" });
+      expect(creditLeg.Put.Item.currency).toEqual({ S: "EUR" });
+      expect(destinationUser.ConditionCheck).toEqual({
+        TableName: "users-table",
+        Key: { userId: { S: "user2" } },
+        ConditionExpression: "attribute_exists(userId)",
+      });
+    });
+
+    it("should throw WalletNotFoundError when the source doesn't hold the currency", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([
+          { Code: "ConditionalCheckFailed" },
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "None" },
+        ])
+      );
+
+      await expect(
+        transactService.transfer({ ...transferInput, currency: "EUR" })
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+
+    it("should throw SourceUserNotFoundError when the source user is missing", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([
+          { Code: "ConditionalCheckFailed" },
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "None" },
+        ])
+      );
+
+      await expect(transactService.transfer(transferInput)).rejects.toThrow(
+        SourceUserNotFoundError
+      );
+    });
+
+    it("should throw InsufficientBalanceError when the source balance is too low", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([
+          {
+            Code: "ConditionalCheckFailed",
+            Item: { userId: { S: "user1" }, balance: { N: "10" } },
+          },
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "None" },
+        ])
+      );
+
+      await expect(transactService.transfer(transferInput)).rejects.toThrow(
+        InsufficientBalanceError
+      );
+    });
+
+    it("should throw DestinationUserNotFoundError when the destination user is missing", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([
+          { Code: "None" },
+          { Code: "ConditionalCheckFailed" },
+          { Code: "None" },
+          { Code: "None" },
+        ])
+      );
+
+      await expect(transactService.transfer(transferInput)).rejects.toThrow(
+        DestinationUserNotFoundError
+      );
+    });
+
+    it("should do nothing when the transfer was already recorded", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "ConditionalCheckFailed" },
+          { Code: "ConditionalCheckFailed" },
+        ])
+      );
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          idempotencyKey: { S: "key123:debit" },
+          userId: { S: "user1" },
+          counterpartyUserId: { S: "user2" },
+          amount: { N: "25" },
+          type: { S: TransactionType.DEBIT },
+        },
+      });
+
+      await expect(transactService.transfer(transferInput)).resolves.toEqual({ attempts: 1 });
+
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+      expect((mockClient.send as jest.Mock).mock.calls[1][0]).toEqual({
+        TableName: "transactions-table",
+        Key: {
+          idempotencyKey: { S: "key123:debit" },
+        },
+      });
+    });
+
+    it("should throw IdempotencyKeyMismatchError when the key was used for a different transfer", async () => {
+      (mockClient.send as jest.Mock).mockRejectedValueOnce(
+        cancelledWith([
+          { Code: "None" },
+          { Code: "None" },
+          { Code: "ConditionalCheckFailed" },
+          { Code: "ConditionalCheckFailed" },
+        ])
+      );
+      (mockClient.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          idempotencyKey: { S: "key123:debit" },
+          userId: { S: "user1" },
+          counterpartyUserId: { S: "user3" },
+          amount: { N: "25" },
+          type: { S: TransactionType.DEBIT },
+        },
+      });
+
+      await expect(transactService.transfer(transferInput)).rejects.toThrow(
+        IdempotencyKeyMismatchError
+      );
+    });
   });
 });
 
@@ -1,20 +1,93 @@
 import {
+  AttributeValue,
+  CancellationReason,
   DynamoDB,
+  Put,
   TransactWriteItemsCommand,
-  TransactionCanceledException, GetItemCommand
+  TransactionCanceledException, GetItemCommand,
+  TransactWriteItem,
 } from "@aws-sdk/client-dynamodb";
 import { Config } from "../config";
 import {
+  DestinationUserNotFoundError,
+  DuplicateTransactionError,
   InsufficientBalanceError,
-  InvalidAmountError,
   InvalidIdempotencyKeyError, InvalidTransactionTypeError,
+  InvalidReversalError,
+  InvalidTransferError,
+  ReversalExceedsOriginalError,
+  ReversalFunction,
+  ReversalInput,
+  ReversalStatus,
+  SourceUserNotFoundError,
+  ConcurrentModificationError,
   TConfig,
   TransactionFunction,
   TransactionInput,
+  TransactionReceipt,
+  TransactionFailedError,
+  TransactionNotFoundError,
+  TransactionReceiptFunction,
   TransactionType,
-  UserNotFoundError
+  TransactResult,
+  TransferFunction,
+  TransferInput,
+  UserNotFoundError,
+  WalletNotFoundError
 } from "../types";
 import { UserService } from "../user/user";
+import { toTransaction } from "./history";
+import { journalItems, userAccount, userEntry } from "../journal/journal";
+import { batchGetItems } from "../db/batch";
+import { checkDebitLimits, limitCounters, LimitCounter, limitFailure } from "../limits/limits";
+import { transactionPostedItem } from "../outbox/outbox";
+import { createLogger, Logger } from "../logger/logger";
+import {
+  allOf,
+  creditLimitOf,
+  creditWallet,
+  debitWallet,
+  insufficientBalance,
+  isMissingWallet,
+  walletTarget,
+  withOverdraft,
+} from "../wallet/wallet";
+import { addDecimals, canonicalAmount, compareDecimals, parseAmount } from "../money/money";
+import {
+  assertSameRequest,
+  fingerprint,
+  reversalFields,
+  storedReversalFields,
+  storedTransactionFields,
+  storedTransferFields,
+  transactionFields,
+  transferFields,
+} from "./idempotency";
+import {
+  cancellationCodes,
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  Sleep,
+  withRetry,
+} from "./retry";
+
+// how many times transactWithReceipt or reverseTransaction re-read an item that changed under them
+const MAX_STALE_BALANCE_ATTEMPTS = 3;
+
+export type TransactServiceOptions = {
+  // overrides of DEFAULT_RETRY_POLICY for transient transaction conflicts
+  retryPolicy?: Partial<RetryPolicy>;
+  // injectable so tests can run the backoff without waiting
+  sleep?: Sleep;
+  random?: () => number;
+  // createLogger(config) by default
+  logger?: Logger;
+};
+
+// counts the attempts of a write, so they are known even when it fails
+type AttemptTracker = {
+  attempts: number;
+};
 
 // Class to handle transactions. It does not concern about users' existence
 // Unfortunately, we still need to access users tables here to validate balances.
@@ -23,11 +96,21 @@ export class TransactService {
   private _client: DynamoDB;
   private _tableName: string;
   private _usersTableName: string;
+  private _config: TConfig;
+  private _retryPolicy: RetryPolicy;
+  private _sleep?: Sleep;
+  private _random?: () => number;
+  private _logger: Logger;
 
-  constructor(client: DynamoDB, config: TConfig) {
+  constructor(client: DynamoDB, config: TConfig, options: TransactServiceOptions = {}) {
     this._client = client;
     this._tableName = config.DB_TRANSACTIONS_TABLE;
     this._usersTableName = config.DB_USERS_TABLE;
+    this._config = config;
+    this._retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    this._sleep = options.sleep;
+    this._random = options.random;
+    this._logger = options.logger ?? createLogger(config);
   }
 
   // Check if a transaction with the given idempotent key already exists
@@ -44,6 +127,34 @@ export class TransactService {
     return response.Item;
   }
 
+  // Same as checkExistingTransaction for several keys at once, the existing transactions by key
+  async checkExistingTransactions(idempotencyKeys: string[]) {
+    const keys = [...new Set(idempotencyKeys)].map((idempotencyKey) => ({ idempotencyKey: { S: idempotencyKey } }));
+    const items = await batchGetItems(this._client, this._tableName, keys);
+
+    return new Map(items.map((item) => [item.idempotencyKey.S!, item]));
+  }
+
+  // throws IdempotencyKeyMismatchError when the existing transaction was recorded for a different request
+  assertReplayMatches(input: TransactionInput, existing: Record<string, AttributeValue>): void {
+    assertSameRequest(
+      input.idempotentKey,
+      transactionFields(input, this._config.DEFAULT_CURRENCY),
+      storedTransactionFields(existing, this._config.DEFAULT_CURRENCY),
+      existing.fingerprint?.S
+    );
+  }
+
+  // same as assertReplayMatches, against the stored debit leg of a transfer
+  assertTransferReplayMatches(input: TransferInput, existing: Record<string, AttributeValue>): void {
+    assertSameRequest(
+      input.idempotentKey,
+      transferFields(input, this._config.DEFAULT_CURRENCY),
+      storedTransferFields(existing, this._config.DEFAULT_CURRENCY),
+      existing.fingerprint?.S
+    );
+  }
+
   // input validation
   validate(input: TransactionInput): void {
     if (!input.userId) {
@@ -54,127 +165,776 @@ export class TransactService {
       throw new InvalidIdempotencyKeyError();
     }
 
-    if (
-      !input.amount ||
-      isNaN(Number(input.amount)) ||
-      Number(input.amount) <= 0
-    ) {
-      throw new InvalidAmountError();
-    }
+    // throws InvalidAmountError unless it fits the currency
+    parseAmount(input.amount, this.currencyOf(input));
 
-    // if it's not empty, the type system would have already checked it
-    if (!input.type) {
+    // requests coming over HTTP aren't checked by the type system
+    if (!Object.values(TransactionType).includes(input.type)) {
       throw new InvalidTransactionTypeError();
     }
   }
 
-  // this method will not perform any validation
-  async transact(input: TransactionInput): Promise<void> {
-    const isCredit = input.type === TransactionType.CREDIT;
+  // transfer input validation, reusing the same rules for both legs
+  validateTransfer(input: TransferInput): void {
+    this.validate({
+      idempotentKey: input.idempotentKey,
+      userId: input.fromUserId,
+      amount: input.amount,
+      type: TransactionType.DEBIT,
+      currency: input.currency,
+    });
 
-    // prepare credit user balance update
-    const creditUserBalance = {
-      Update: {
-        TableName: this._usersTableName,
-        Key: { userId: { S: input.userId } },
-        UpdateExpression: "SET #balance = if_not_exists(#balance, :zero) + :amount",
-        ExpressionAttributeValues: {
-          ":amount": { N: input.amount },
-          ":zero": { N: "0" },
-        },
-        ExpressionAttributeNames: {
-          "#balance": "balance",
-        }
-      }
+    if (!input.toUserId) {
+      throw new DestinationUserNotFoundError(input.toUserId);
     }
 
-    // prepare debit user balance update
-    const debitUserBalance = {
-      Update: {
-        TableName: this._usersTableName,
-        Key: { userId: { S: input.userId } },
-        UpdateExpression: "SET #balance = #balance - :amount",
-        ExpressionAttributeValues: {
-          ":amount": { N: input.amount },
-        },
-        ExpressionAttributeNames: {
-          "#balance": "balance",
-        },
-        ConditionExpression: "attribute_exists(#balance) AND #balance >= :amount",
-      }
+    if (input.fromUserId === input.toUserId) {
+      throw new InvalidTransferError();
     }
+  }
+
+  // reversal input validation
+  validateReversal(input: ReversalInput): void {
+    if (!input.originalIdempotencyKey || !input.reversalKey) {
+      throw new InvalidIdempotencyKeyError();
+    }
+
+    // the amount is checked once the currency of the original transaction is known
+  }
+
+  // the currency of a request, the default one when it has none
+  currencyOf(input: { currency?: string }): string {
+    return input.currency ?? this._config.DEFAULT_CURRENCY;
+  }
 
-    // prepare insert new transaction
-    const insertNewTransaction = {
+  // prepare insert new transaction
+  private insertNewTransaction(item: Record<string, AttributeValue>): { Put: Put } {
+    return {
       Put: {
         TableName: this._tableName,
-        Item: {
-          idempotencyKey: { S: input.idempotentKey },
-          userId: { S: input.userId },
-          amount: { N: input.amount },
-          type: { S: input.type },
-          // resultingBalance: { S: resultingBalance },
-          timestamp: { N: Date.now().toString() },
-        },
+        Item: item,
         // This ensures we don't overwrite an existing transaction
         ConditionExpression: "attribute_not_exists(idempotencyKey)",
       },
     };
+  }
 
-    try {
-      // console.debug("Performing transaction", {
-      //   updateUserBalance: JSON.stringify(isCredit ? creditUserBalance : debitUserBalance),
-      //   insertNewTransaction: JSON.stringify(insertNewTransaction),
-      // });
-
-      // Perform the transaction as an atomic operation
-      await this._client.send(
-        new TransactWriteItemsCommand({
-          TransactItems: [
-            // First item: Update the user's balance to ensure it has enough balance if debiting
-            isCredit ? creditUserBalance : debitUserBalance,
-            // Second item: Record the transaction for idempotency
-            insertNewTransaction,
-          ],
-        })
-      );
+  // Perform the items as an atomic operation, retrying transient conflicts
+  // with backoff according to the retry policy
+  private async writeTransaction(
+    items: TransactWriteItem[],
+    tracker: AttemptTracker = { attempts: 0 }
+  ): Promise<void> {
+    await withRetry(
+      async (attempt) => {
+        tracker.attempts = attempt;
+        await this._client.send(
+          new TransactWriteItemsCommand({ TransactItems: items })
+        );
+      },
+      this._retryPolicy,
+      { sleep: this._sleep, random: this._random }
+    );
+  }
 
-      return;
-    } catch (error) {
-      console.error("Transaction failed", error instanceof TransactionCanceledException, error, );
-      if (error instanceof TransactionCanceledException) {
-        console.debug("Transaction canceled", error.CancellationReasons);
-        // first statement failed due to condition check
-        if (!isCredit && error.CancellationReasons?.[0]?.Code === "ConditionalCheckFailed") {
-          // the user's balance was not sufficient for debiting
-          throw new InsufficientBalanceError();
+  // Throws LimitExceededError when a debit is over a spending limit on its own, see limits.ts
+  checkLimits(input: TransactionInput): void {
+    if (input.type === TransactionType.DEBIT) {
+      const currency = this.currencyOf(input);
+      checkDebitLimits(this._config, canonicalAmount(input.amount, currency), currency);
+    }
+  }
+
+  // the spending limit counters a debit adds to, none for a credit
+  debitCounters(input: TransactionInput, timestamp: string): LimitCounter[] {
+    if (input.type !== TransactionType.DEBIT) {
+      return [];
+    }
+    const currency = this.currencyOf(input);
+    return limitCounters(this._config, input.userId, canonicalAmount(input.amount, currency), currency, Number(timestamp));
+  }
+
+  // The items of transact: the wallet update, the transaction, the lines of its journal entry,
+  // its event in the outbox and the spending limit counters of a debit (see debitCounters).
+  // A journal entry between the user and the funding account (see JournalService), recorded as a transaction.
+  // A debit may use the overdraft of the credit limit, see debitWallet
+  transactItems(
+    input: TransactionInput,
+    timestamp: string = Date.now().toString(),
+    creditLimit?: string
+  ): TransactWriteItem[] {
+    const isCredit = input.type === TransactionType.CREDIT;
+    const currency = this.currencyOf(input);
+    const amount = canonicalAmount(input.amount, currency);
+
+    const creditUserBalance = creditWallet(this._config, input.userId, amount, currency);
+    const debitUserBalance = debitWallet(this._config, input.userId, amount, currency, creditLimit);
+    const transaction: Record<string, AttributeValue> = {
+      idempotencyKey: { S: input.idempotentKey },
+      userId: { S: input.userId },
+      amount: { N: amount },
+      type: { S: input.type },
+      currency: { S: currency },
+      fingerprint: { S: fingerprint(transactionFields(input, this._config.DEFAULT_CURRENCY)) },
+      // resultingBalance: { S: resultingBalance },
+      timestamp: { N: timestamp },
+    };
+    const insertNewTransaction = this.insertNewTransaction(transaction);
+    const entry = userEntry(input.idempotentKey, input.userId, input.type, amount, currency);
+
+    return [
+      // First item: Update the user's balance to ensure it has enough balance if debiting
+      isCredit ? creditUserBalance : debitUserBalance,
+      // Second item: Record the transaction for idempotency
+      insertNewTransaction,
+      // Then the lines of the journal entry and the event of the transaction
+      ...journalItems(this._config, entry, timestamp),
+      transactionPostedItem(this._config, transaction),
+      // And last what the debit adds to its spending limits
+      ...this.debitCounters(input, timestamp).map((counter) => counter.item),
+    ];
+  }
+
+  // the error of a failed condition on the wallet update of transactItems
+  walletFailure(input: TransactionInput, reason: CancellationReason): Error {
+    const currency = this.currencyOf(input);
+    // a credit only has a condition on the wallet's currency
+    if (input.type === TransactionType.CREDIT || isMissingWallet(this._config, input.userId, currency, reason.Item)) {
+      return new WalletNotFoundError(input.userId, currency);
+    }
+
+    // the user's balance was not sufficient for debiting
+    return insufficientBalance(this._config, currency, reason.Item);
+  }
+
+  // The credit limit to debit the user again with, when the failed condition relied on another one.
+  // item is the wallet as it was when the condition failed
+  private changedCreditLimit(
+    currency: string,
+    item: Record<string, AttributeValue> | undefined,
+    creditLimit: string | undefined
+  ): { creditLimit?: string } | undefined {
+    const current = creditLimitOf(this._config, currency, item);
+    return item && current !== creditLimit ? { creditLimit: current } : undefined;
+  }
+
+  // this method will not perform any validation
+  async transact(input: TransactionInput): Promise<TransactResult> {
+    this.checkLimits(input);
+
+    const tracker: AttemptTracker = { attempts: 0 };
+    const timestamp = Date.now().toString();
+    const counters = this.debitCounters(input, timestamp);
+    // the credit limit is only known once a debit fails without it
+    let creditLimit: string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const items = this.transactItems(input, timestamp, creditLimit);
+
+      try {
+        // Perform the transaction as an atomic operation
+        await this.writeTransaction(items, tracker);
+
+        return { attempts: tracker.attempts };
+      } catch (error) {
+        const logger = this._logger.child({ userId: input.userId, idempotencyKey: input.idempotentKey });
+        logger.error("Transaction failed", { canceled: error instanceof TransactionCanceledException, error });
+        if (error instanceof TransactionCanceledException) {
+          // the codes only, the reasons' items are whole balances
+          logger.debug("Transaction canceled", { reasons: cancellationCodes(error) });
+          // first statement failed due to condition check
+          const walletReason = error.CancellationReasons?.[0];
+          if (walletReason?.Code === "ConditionalCheckFailed") {
+            // try again against the user's credit limit
+            const changed = input.type === TransactionType.DEBIT
+              ? this.changedCreditLimit(this.currencyOf(input), walletReason.Item, creditLimit)
+              : undefined;
+            if (changed && attempt < MAX_STALE_BALANCE_ATTEMPTS) {
+              creditLimit = changed.creditLimit;
+              continue;
+            }
+            throw this.walletFailure(input, walletReason);
+          }
+
+          // Check if the transaction was cancelled due to the idempotency condition
+          const idempotencyConflict = error.CancellationReasons?.some(
+            (reason) =>
+              reason.Code === "ConditionalCheckFailed" &&
+              reason.Item?.idempotencyKey?.S === input.idempotentKey
+          );
+
+          if (idempotencyConflict) {
+            // If there was a race condition where another process inserted the same
+            // transaction between our initial check and the transaction write,
+            // check if the transaction already exists then do nothing
+            const existingTransaction = await this.checkExistingTransaction(input.idempotentKey);
+            if (existingTransaction) {
+              this.assertReplayMatches(input, existingTransaction);
+              return { attempts: tracker.attempts };
+            }
+          }
+
+          // the debit would go over a spending limit
+          const limitExceeded = limitFailure(
+            counters,
+            (error.CancellationReasons ?? []).slice(items.length - counters.length)
+          );
+          if (limitExceeded) {
+            throw limitExceeded;
+          }
+
+          // transient conflicts (e.g. concurrent writes to the same user) were already retried
+          throw new TransactionFailedError(error.message, tracker.attempts, cancellationCodes(error));
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  // Writes the transactions as one atomic operation, with the items of transactItems for each.
+  // Resolves to the errors of the transactions that made it fail, by position, none when it was written.
+  // this method will not perform any validation, nor checkLimits
+  async transactAll(inputs: TransactionInput[]): Promise<TransactResult & { failures: (Error | undefined)[] }> {
+    const timestamp = Date.now().toString();
+    const countersOf = inputs.map((input) => this.debitCounters(input, timestamp));
+    const tracker: AttemptTracker = { attempts: 0 };
+    // like transact, the credit limits are only known once debits fail without them
+    const creditLimits: (string | undefined)[] = inputs.map(() => undefined);
+
+    for (let attempt = 1; ; attempt++) {
+      const itemsOf = inputs.map((input, i) => this.transactItems(input, timestamp, creditLimits[i]));
+
+      try {
+        await this.writeTransaction(itemsOf.flat(), tracker);
+
+        return { attempts: tracker.attempts, failures: [] };
+      } catch (error) {
+        if (!(error instanceof TransactionCanceledException)) {
+          throw error;
+        }
+
+        const reasons = error.CancellationReasons ?? [];
+        let offset = 0;
+        let retry = false;
+        const failures = inputs.map((input, i) => {
+          const inputReasons = reasons.slice(offset, offset + itemsOf[i].length);
+          const [walletReason, ...recordReasons] = inputReasons.slice(0, inputReasons.length - countersOf[i].length);
+          offset += itemsOf[i].length;
+
+          if (walletReason?.Code === "ConditionalCheckFailed") {
+            const changed = input.type === TransactionType.DEBIT
+              ? this.changedCreditLimit(this.currencyOf(input), walletReason.Item, creditLimits[i])
+              : undefined;
+            if (changed) {
+              creditLimits[i] = changed.creditLimit;
+              retry = true;
+            }
+            return this.walletFailure(input, walletReason);
+          }
+          // written by a concurrent request since the batch checked for it
+          if (recordReasons.some((reason) => reason.Code === "ConditionalCheckFailed")) {
+            return new DuplicateTransactionError(input.idempotentKey);
+          }
+          // the debit would go over a spending limit
+          return limitFailure(countersOf[i], inputReasons.slice(inputReasons.length - countersOf[i].length));
+        });
+
+        // try again against the users' credit limits
+        if (retry && attempt < MAX_STALE_BALANCE_ATTEMPTS) {
+          continue;
         }
+        if (failures.every((failure) => !failure)) {
+          throw new TransactionFailedError(error.message, tracker.attempts, cancellationCodes(error));
+        }
+
+        return { attempts: tracker.attempts, failures };
+      }
+    }
+  }
+
+  // Same as transact, but pins the balance read by the caller so the resulting balance
+  // can be recorded with the transaction and returned in the receipt.
+  // If the balance changed in the meantime, the write is retried against the new balance.
+  // A debit may use the overdraft of the user's credit limit, read along with the balance.
+  // this method will not perform any validation
+  async transactWithReceipt(
+    input: TransactionInput,
+    currentBalance: string | undefined,
+    currentCreditLimit?: string
+  ): Promise<TransactionReceipt> {
+    const isCredit = input.type === TransactionType.CREDIT;
+    const currency = this.currencyOf(input);
+    const primary = walletTarget(this._config, input.userId, currency).primary;
+    const amount = canonicalAmount(input.amount, currency);
+    let balance = currentBalance;
+    let creditLimit = currentCreditLimit;
+    this.checkLimits(input);
+
+    for (let attempt = 1; ; attempt++) {
+      // a user without a balance can't be debited
+      if (balance === undefined && !isCredit) {
+        throw new InsufficientBalanceError();
+      }
+      if (!isCredit && compareDecimals(withOverdraft(balance, creditLimit), amount) < 0) {
+        throw new InsufficientBalanceError(withOverdraft(balance, creditLimit));
+      }
+
+      const resultingBalance = addDecimals(balance ?? "0", isCredit ? amount : `-${amount}`);
+      const timestamp = Date.now().toString();
+      const updateUserBalance = isCredit
+        ? creditWallet(this._config, input.userId, amount, currency)
+        : debitWallet(this._config, input.userId, amount, currency, creditLimit);
+      const expectedBalance = balance === undefined
+        ? "attribute_not_exists(#balance)"
+        : "#balance = :expected";
+
+      const item: Record<string, AttributeValue> = {
+        idempotencyKey: { S: input.idempotentKey },
+        userId: { S: input.userId },
+        amount: { N: amount },
+        type: { S: input.type },
+        currency: { S: currency },
+        fingerprint: { S: fingerprint(transactionFields(input, this._config.DEFAULT_CURRENCY)) },
+        resultingBalance: { N: resultingBalance },
+        timestamp: { N: timestamp },
+      };
+      const entry = userEntry(input.idempotentKey, input.userId, input.type, amount, currency);
+      const counters = this.debitCounters(input, timestamp);
+
+      const tracker: AttemptTracker = { attempts: 0 };
 
-        // Check if the transaction was cancelled due to the idempotency condition
-        const idempotencyConflict = error.CancellationReasons?.some(
-          (reason) =>
-            reason.Code === "ConditionalCheckFailed" &&
-            reason.Item?.idempotencyKey?.S === input.idempotentKey
+      try {
+        await this.writeTransaction(
+          [
+            // First item: Update the user's balance, only if it is still the one we computed from
+            {
+              Update: {
+                ...updateUserBalance.Update,
+                // a wallet other than the user item is created by its first credit
+                ConditionExpression: allOf(
+                  primary ? "attribute_exists(userId)" : undefined,
+                  updateUserBalance.Update.ConditionExpression,
+                  expectedBalance
+                ),
+                ExpressionAttributeValues: {
+                  ...updateUserBalance.Update.ExpressionAttributeValues,
+                  ...(balance !== undefined && { ":expected": { N: balance } }),
+                },
+                ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+              },
+            },
+            // Second item: Record the transaction with its resulting balance
+            this.insertNewTransaction(item),
+            // Then the lines of the journal entry, the event and the spending limit counters, like transact
+            ...journalItems(this._config, entry, timestamp),
+            transactionPostedItem(this._config, item),
+            ...counters.map((counter) => counter.item),
+          ],
+          tracker
         );
 
-        if (idempotencyConflict) {
-          // If there was a race condition where another process inserted the same
-          // transaction between our initial check and the transaction write,
-          // check if the transaction already exists then do nothing
+        return toReceipt(item, false);
+      } catch (error) {
+        if (!(error instanceof TransactionCanceledException)) {
+          throw error;
+        }
+
+        const [userReason, transactionReason] = error.CancellationReasons ?? [];
+
+        // the key was processed concurrently, return the original receipt
+        if (transactionReason?.Code === "ConditionalCheckFailed") {
           const existingTransaction = await this.checkExistingTransaction(input.idempotentKey);
           if (existingTransaction) {
-            return;
+            this.assertReplayMatches(input, existingTransaction);
+            return toReceipt(existingTransaction, true);
+          }
+        }
+
+        if (userReason?.Code === "ConditionalCheckFailed") {
+          if (!userReason.Item && primary) {
+            throw new UserNotFoundError(input.userId);
+          }
+          if (!userReason.Item || isMissingWallet(this._config, input.userId, currency, userReason.Item)) {
+            throw new WalletNotFoundError(input.userId, currency);
+          }
+
+          // the funds are held, retrying won't help
+          const availableBalance = userReason.Item.availableBalance?.N;
+          const itemCreditLimit = creditLimitOf(this._config, currency, userReason.Item);
+          if (
+            !isCredit &&
+            availableBalance !== undefined &&
+            compareDecimals(withOverdraft(availableBalance, itemCreditLimit), amount) < 0
+          ) {
+            throw insufficientBalance(this._config, currency, userReason.Item);
+          }
+
+          // the balance or the credit limit changed since it was read, try again with the ones we got back
+          if (attempt < MAX_STALE_BALANCE_ATTEMPTS) {
+            balance = userReason.Item.balance?.N;
+            creditLimit = itemCreditLimit;
+            continue;
+          }
+
+          throw new ConcurrentModificationError(input.userId);
+        }
+
+        // the debit would go over a spending limit
+        const reasons = error.CancellationReasons ?? [];
+        const limitExceeded = limitFailure(counters, reasons.slice(reasons.length - counters.length));
+        if (limitExceeded) {
+          throw limitExceeded;
+        }
+
+        throw new TransactionFailedError(error.message, tracker.attempts, cancellationCodes(error));
+      }
+    }
+  }
+
+  // ledger keys of both legs of a transfer, derived from the client's idempotent key
+  transferKeys(idempotentKey: string) {
+    return {
+      debitKey: `${idempotentKey}:debit`,
+      creditKey: `${idempotentKey}:credit`,
+    };
+  }
+
+  // moves the amount from one user to another in a single atomic operation.
+  // this method will not perform any validation
+  async transfer(input: TransferInput): Promise<TransactResult> {
+    const { debitKey, creditKey } = this.transferKeys(input.idempotentKey);
+    const timestamp = Date.now().toString();
+    const currency = this.currencyOf(input);
+    const amount = canonicalAmount(input.amount, currency);
+    const requestFingerprint = fingerprint(transferFields(input, this._config.DEFAULT_CURRENCY));
+    // the source user's side counts towards their spending limits, like any debit
+    const sourceDebit: TransactionInput = {
+      idempotentKey: debitKey,
+      userId: input.fromUserId,
+      amount,
+      type: TransactionType.DEBIT,
+      currency,
+    };
+    this.checkLimits(sourceDebit);
+    const counters = this.debitCounters(sourceDebit, timestamp);
+
+    const debitLeg: Record<string, AttributeValue> = {
+      idempotencyKey: { S: debitKey },
+      userId: { S: input.fromUserId },
+      amount: { N: amount },
+      type: { S: TransactionType.DEBIT },
+      currency: { S: currency },
+      transferId: { S: input.idempotentKey },
+      counterpartyUserId: { S: input.toUserId },
+      fingerprint: { S: requestFingerprint },
+      timestamp: { N: timestamp },
+    };
+    const creditLeg: Record<string, AttributeValue> = {
+      idempotencyKey: { S: creditKey },
+      userId: { S: input.toUserId },
+      amount: { N: amount },
+      type: { S: TransactionType.CREDIT },
+      currency: { S: currency },
+      transferId: { S: input.idempotentKey },
+      counterpartyUserId: { S: input.fromUserId },
+      fingerprint: { S: requestFingerprint },
+      timestamp: { N: timestamp },
+    };
+
+    const creditDestination = creditWallet(this._config, input.toUserId, amount, currency);
+    const destinationIsPrimary = walletTarget(this._config, input.toUserId, currency).primary;
+
+    const tracker: AttemptTracker = { attempts: 0 };
+    // like transact, the credit limit is only known once the debit fails without it
+    let creditLimit: string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const debitSource = debitWallet(this._config, input.fromUserId, amount, currency, creditLimit);
+
+      try {
+        await this.writeTransaction(
+          [
+            // First item: Debit the source user, returning the item so we can tell a missing user from a low balance
+            debitSource,
+            // Second item: Credit the destination user, which must already exist
+            {
+              Update: {
+                ...creditDestination.Update,
+                ConditionExpression: allOf(
+                  destinationIsPrimary ? "attribute_exists(userId)" : undefined,
+                  creditDestination.Update.ConditionExpression
+                ),
+              },
+            },
+            // Third and fourth items: Record both legs of the transfer for idempotency
+            this.insertNewTransaction(debitLeg),
+            this.insertNewTransaction(creditLeg),
+            // Fifth item: A wallet in another currency is created by its first credit,
+            // so the destination user's existence is checked on its own
+            ...(destinationIsPrimary
+              ? []
+              : [
+                {
+                  ConditionCheck: {
+                    TableName: this._usersTableName,
+                    Key: { userId: { S: input.toUserId } },
+                    ConditionExpression: "attribute_exists(userId)",
+                  },
+                },
+              ]),
+            // Then the lines of the journal entry, from one user's account to the other's
+            ...journalItems(
+              this._config,
+              {
+                entryId: input.idempotentKey,
+                currency,
+                lines: [
+                  { account: userAccount(input.fromUserId), side: TransactionType.DEBIT, amount },
+                  { account: userAccount(input.toUserId), side: TransactionType.CREDIT, amount },
+                ],
+              },
+              timestamp
+            ),
+            // Then the events of both legs
+            transactionPostedItem(this._config, debitLeg),
+            transactionPostedItem(this._config, creditLeg),
+            // And last what the debit adds to the source user's spending limits
+            ...counters.map((counter) => counter.item),
+          ],
+          tracker
+        );
+
+        return { attempts: tracker.attempts };
+      } catch (error) {
+        if (error instanceof TransactionCanceledException) {
+          const [source, destination, debitRecord, , destinationUser] = error.CancellationReasons ?? [];
+
+          // the transfer was already recorded, either earlier or by a concurrent request
+          if (debitRecord?.Code === "ConditionalCheckFailed") {
+            const existingTransaction = await this.checkExistingTransaction(debitKey);
+            if (existingTransaction) {
+              this.assertTransferReplayMatches(input, existingTransaction);
+              return { attempts: tracker.attempts };
+            }
+          }
+
+          if (source?.Code === "ConditionalCheckFailed") {
+            if (isMissingWallet(this._config, input.fromUserId, currency, source.Item)) {
+              throw new WalletNotFoundError(input.fromUserId, currency);
+            }
+            // without the old item, the condition failed because the user does not exist
+            if (!source.Item) {
+              throw new SourceUserNotFoundError(input.fromUserId);
+            }
+            // try again against the source user's credit limit
+            const changed = this.changedCreditLimit(currency, source.Item, creditLimit);
+            if (changed && attempt < MAX_STALE_BALANCE_ATTEMPTS) {
+              creditLimit = changed.creditLimit;
+              continue;
+            }
+            throw insufficientBalance(this._config, currency, source.Item);
+          }
+
+          if (destination?.Code === "ConditionalCheckFailed") {
+            // the destination user exists but holds another currency
+            if (destination.Item) {
+              throw new WalletNotFoundError(input.toUserId, currency);
+            }
+            throw new DestinationUserNotFoundError(input.toUserId);
+          }
+
+          if (destinationUser?.Code === "ConditionalCheckFailed") {
+            throw new DestinationUserNotFoundError(input.toUserId);
+          }
+
+          // the debit would go over a spending limit
+          const reasons = error.CancellationReasons ?? [];
+          const limitExceeded = limitFailure(counters, reasons.slice(reasons.length - counters.length));
+          if (limitExceeded) {
+            throw limitExceeded;
           }
+
+          throw new TransactionFailedError(error.message, tracker.attempts, cancellationCodes(error));
         }
 
-        // If the transaction failed due to the user's balance changing (race condition)
-        // we could retry the transaction, but for simplicity we'll throw an error
-        throw new Error(`Transaction failed: ${error.message}`);
+        throw error;
+      }
+    }
+  }
+
+  // Posts the opposite of an existing transaction, fully or partially, and marks the original
+  // as reversed in the same atomic operation. Reversing a debit always succeeds,
+  // reversing a credit needs the user to still have the balance.
+  // this method will not perform any validation
+  async reverseTransaction(input: ReversalInput): Promise<TransactResult> {
+    const existingReversal = await this.checkExistingTransaction(input.reversalKey);
+    if (existingReversal) {
+      this.assertReversalReplayMatches(input, existingReversal);
+      return { attempts: 0 };
+    }
+
+    // like transact, the credit limit is only known once reversing a credit fails without it
+    let creditLimit: string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const original = await this.checkExistingTransaction(input.originalIdempotencyKey);
+      if (!original) {
+        throw new TransactionNotFoundError(input.originalIdempotencyKey);
+      }
+      if (original.reversalOf) {
+        throw new InvalidReversalError();
+      }
+
+      const userId = original.userId.S!;
+      const currency = original.currency?.S ?? this._config.DEFAULT_CURRENCY;
+      const originalType = original.type.S as TransactionType;
+      const reversedAmount = original.reversedAmount?.N;
+      const remaining = addDecimals(original.amount.N!, `-${reversedAmount ?? "0"}`);
+      const amount = input.amount !== undefined ? canonicalAmount(input.amount, currency) : remaining;
+
+      if (compareDecimals(remaining, "0") <= 0 || compareDecimals(amount, remaining) > 0) {
+        throw new ReversalExceedsOriginalError(input.originalIdempotencyKey, remaining);
       }
 
-      throw error;
+      const newReversedAmount = addDecimals(reversedAmount ?? "0", amount);
+      const status = compareDecimals(newReversedAmount, original.amount.N!) === 0
+        ? ReversalStatus.FULL
+        : ReversalStatus.PARTIAL;
+      const reversalType = originalType === TransactionType.DEBIT
+        ? TransactionType.CREDIT
+        : TransactionType.DEBIT;
+
+      // reversing a credit debits the user, which counts towards their spending limits like any debit
+      const reversalDebit: TransactionInput = {
+        idempotentKey: input.reversalKey,
+        userId,
+        amount,
+        type: reversalType,
+        currency,
+      };
+      this.checkLimits(reversalDebit);
+
+      const timestamp = Date.now().toString();
+      const counters = this.debitCounters(reversalDebit, timestamp);
+      const reversal: Record<string, AttributeValue> = {
+        idempotencyKey: { S: input.reversalKey },
+        userId: { S: userId },
+        amount: { N: amount },
+        type: { S: reversalType },
+        currency: { S: currency },
+        reversalOf: { S: input.originalIdempotencyKey },
+        fingerprint: { S: fingerprint(reversalFields(input)) },
+        timestamp: { N: timestamp },
+      };
+      const tracker: AttemptTracker = { attempts: 0 };
+
+      try {
+        await this.writeTransaction(
+          [
+            // First item: Mark the original as reversed, only if no other reversal got in first
+            {
+              Update: {
+                TableName: this._tableName,
+                Key: { idempotencyKey: { S: input.originalIdempotencyKey } },
+                UpdateExpression: "SET #reversedAmount = :reversedAmount, #reversalStatus = :status",
+                ConditionExpression: reversedAmount === undefined
+                  ? "attribute_exists(idempotencyKey) AND attribute_not_exists(#reversedAmount)"
+                  : "attribute_exists(idempotencyKey) AND #reversedAmount = :previous",
+                ExpressionAttributeNames: {
+                  "#reversedAmount": "reversedAmount",
+                  "#reversalStatus": "reversalStatus",
+                },
+                ExpressionAttributeValues: {
+                  ":reversedAmount": { N: newReversedAmount },
+                  ":status": { S: status },
+                  ...(reversedAmount !== undefined && { ":previous": { N: reversedAmount } }),
+                },
+              },
+            },
+            // Second item: Post the opposite entry to the user's balance
+            reversalType === TransactionType.CREDIT
+              ? creditWallet(this._config, userId, amount, currency)
+              : debitWallet(this._config, userId, amount, currency, creditLimit),
+            // Third item: Record the reversal, linked to the original
+            this.insertNewTransaction(reversal),
+            // Then the lines of the journal entry, against the funding account like the original, and the event
+            ...journalItems(this._config, userEntry(input.reversalKey, userId, reversalType, amount, currency), timestamp),
+            transactionPostedItem(this._config, reversal),
+            // And last what reversing a credit adds to the user's spending limits
+            ...counters.map((counter) => counter.item),
+          ],
+          tracker
+        );
+
+        return { attempts: tracker.attempts };
+      } catch (error) {
+        if (!(error instanceof TransactionCanceledException)) {
+          throw error;
+        }
+
+        const [originalReason, userReason, reversalReason] = error.CancellationReasons ?? [];
+
+        // the reversal was recorded concurrently
+        if (reversalReason?.Code === "ConditionalCheckFailed") {
+          const concurrentReversal = await this.checkExistingTransaction(input.reversalKey);
+          if (concurrentReversal) {
+            this.assertReversalReplayMatches(input, concurrentReversal);
+            return { attempts: tracker.attempts };
+          }
+        }
+
+        if (userReason?.Code === "ConditionalCheckFailed") {
+          if (isMissingWallet(this._config, userId, currency, userReason.Item)) {
+            throw new WalletNotFoundError(userId, currency);
+          }
+          // the credit being reversed was already spent, unless the credit limit covers it
+          const changed = this.changedCreditLimit(currency, userReason.Item, creditLimit);
+          if (changed && attempt < MAX_STALE_BALANCE_ATTEMPTS) {
+            creditLimit = changed.creditLimit;
+            continue;
+          }
+          throw insufficientBalance(this._config, currency, userReason.Item);
+        }
+
+        // another reversal of the same original got in first, check what is left again
+        if (originalReason?.Code === "ConditionalCheckFailed" && attempt < MAX_STALE_BALANCE_ATTEMPTS) {
+          continue;
+        }
+
+        // the debit would go over a spending limit
+        const reasons = error.CancellationReasons ?? [];
+        const limitExceeded = limitFailure(counters, reasons.slice(reasons.length - counters.length));
+        if (limitExceeded) {
+          throw limitExceeded;
+        }
+
+        throw new TransactionFailedError(error.message, tracker.attempts, cancellationCodes(error));
+      }
     }
   }
+
+  // same as assertReplayMatches, against a stored reversal
+  assertReversalReplayMatches(input: ReversalInput, existing: Record<string, AttributeValue>): void {
+    assertSameRequest(
+      input.reversalKey,
+      reversalFields(input),
+      storedReversalFields(existing),
+      existing.fingerprint?.S
+    );
+  }
+}
+
+// maps a Transactions table item to a receipt
+export function toReceipt(
+  item: Record<string, AttributeValue>,
+  replayed: boolean
+): TransactionReceipt {
+  return {
+    ...toTransaction(item),
+    resultingBalance: item.resultingBalance?.N,
+    replayed,
+  };
 }
 
 // wrapper that creates a facade function that matches the type signature in the requirements
@@ -197,11 +957,85 @@ export function createTransactFn(client: DynamoDB): TransactionFunction {
       input.idempotentKey
     );
     if (existing) {
-      // do nothing
-      return; 
+      // an identical replay does nothing, a different request under the same key throws
+      transactService.assertReplayMatches(input, existing);
+      return;
     }
 
     // proceed with the transaction, failing if user doesn't have enough balance if debit
     await transactService.transact(input);
   };
 }
+
+// wrapper that creates a facade function like createTransactFn, resolving to the transaction receipt.
+// A duplicate idempotent key resolves to the receipt of the original transaction
+export function createTransactWithReceiptFn(client: DynamoDB): TransactionReceiptFunction {
+  const userService = new UserService(client, Config);
+  const transactService = new TransactService(client, Config);
+
+  return async (input: TransactionInput) => {
+    // input validation
+    transactService.validate(input);
+
+    // check if user exists
+    const user = await userService.getUserItem(input.userId);
+    if (!user) {
+      throw new UserNotFoundError(input.userId);
+    }
+
+    // check if transaction already exists
+    const existing = await transactService.checkExistingTransaction(
+      input.idempotentKey
+    );
+    if (existing) {
+      transactService.assertReplayMatches(input, existing);
+      return toReceipt(existing, true);
+    }
+
+    // proceed with the transaction, starting from the balance of the wallet
+    const currency = transactService.currencyOf(input);
+    const wallet = currency === Config.DEFAULT_CURRENCY
+      ? user
+      : await userService.getWalletItem(input.userId, currency);
+    return transactService.transactWithReceipt(
+      input,
+      wallet?.balance?.N,
+      creditLimitOf(Config, currency, user)
+    );
+  };
+}
+
+// wrapper that creates a facade function for moving money between two users
+export function createTransferFn(client: DynamoDB): TransferFunction {
+  const transactService = new TransactService(client, Config);
+
+  return async (input: TransferInput) => {
+    // input validation
+    transactService.validateTransfer(input);
+
+    // check if the transfer already exists
+    const { debitKey } = transactService.transferKeys(input.idempotentKey);
+    const existing = await transactService.checkExistingTransaction(debitKey);
+    if (existing) {
+      // an identical replay does nothing, a different request under the same key throws
+      transactService.assertTransferReplayMatches(input, existing);
+      return;
+    }
+
+    // proceed with the transfer, users' existence and balance are checked atomically
+    await transactService.transfer(input);
+  };
+}
+
+// wrapper that creates a facade function for refunding or reversing an existing transaction
+export function createReverseTransactionFn(client: DynamoDB): ReversalFunction {
+  const transactService = new TransactService(client, Config);
+
+  return async (input: ReversalInput) => {
+    // input validation
+    transactService.validateReversal(input);
+
+    // the original is looked up and checked against what is left to reverse
+    await transactService.reverseTransaction(input);
+  };
+}
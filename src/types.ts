@@ -1,9 +1,54 @@
+// see loadConfig in config.ts for where each setting comes from
 export type TConfig = {
   DB_USERS_TABLE: string;
   DB_TRANSACTIONS_TABLE: string;
+  DB_HOLDS_TABLE: string;
+  DB_WALLETS_TABLE: string;
+  // records the schema migrations that were applied
+  DB_MIGRATIONS_TABLE: string;
+  // the double-entry lines of every posting, see JournalService
+  DB_JOURNAL_TABLE: string;
+  // what each user debited per window, see limits.ts
+  DB_LIMIT_COUNTERS_TABLE: string;
+  // the events of every posting until they are delivered, see OutboxService
+  DB_OUTBOX_TABLE: string;
+  // the webhook subscriptions, see WebhookService
+  DB_WEBHOOKS_TABLE: string;
+  // prepended to every table name, e.g. "staging-"
+  DB_TABLE_PREFIX?: string;
+  // the local DynamoDB, unset for real AWS
+  DB_ENDPOINT?: string;
+  DB_REGION: string;
   DEFAULT_BALANCE: number;
-  DEFAULT_CURRENCY: "USD";
+  DEFAULT_CURRENCY: string;
   USER_SEED_SIZE: number;
+  HOLD_EXPIRY_SECONDS: number;
+  HTTP_PORT: number;
+  // spending limits on debits in the default currency, none when unset
+  DEBIT_LIMIT_PER_TRANSACTION?: number;
+  DEBIT_LIMIT_DAILY?: number;
+  DEBIT_LIMIT_MONTHLY?: number;
+  // at most this many debits in any currency per DEBIT_VELOCITY_WINDOW_SECONDS, no cap when unset
+  DEBIT_VELOCITY_MAX_COUNT?: number;
+  DEBIT_VELOCITY_WINDOW_SECONDS: number;
+  // where the outbox dispatcher delivers events: stdout, a file of JSON lines or an HTTP endpoint
+  OUTBOX_SINK: "stdout" | "file" | "http";
+  OUTBOX_FILE?: string;
+  OUTBOX_URL?: string;
+  // an event that failed this many deliveries is left failed
+  OUTBOX_MAX_ATTEMPTS: number;
+  // how long delivered events are kept before TTL deletes them
+  OUTBOX_RETENTION_SECONDS: number;
+  // console keeps the console.* calls, json writes a line of JSON per entry to stderr, see logger.ts
+  LOG_FORMAT: "console" | "json";
+  // entries below this level are dropped
+  LOG_LEVEL: "debug" | "info" | "warn" | "error";
+  // replaces the amounts and balances in log entries
+  LOG_REDACT_AMOUNTS?: boolean;
+  // webhooks must be https URLs, except in the local and test profiles
+  WEBHOOK_REQUIRE_HTTPS: boolean;
+  // comma separated hosts a webhook may reach even though they aren't public, e.g. "localhost,127.0.0.1"
+  WEBHOOK_ALLOWED_HOSTS?: string;
 };
 
 // spec according to the doc
@@ -16,6 +61,16 @@ export type TransactionFunction = {
   (input: TransactionInput): Promise<void>;
 };
 
+// outcome of a write, attempts is more than 1 when transient conflicts were retried
+export type TransactResult = {
+  attempts: number;
+};
+
+// same as TransactionFunction, resolving to the receipt of the write
+export type TransactionReceiptFunction = {
+  (input: TransactionInput): Promise<TransactionReceipt>;
+};
+
 export type Balance = {
   amount?: number;
   currency: string;
@@ -26,6 +81,14 @@ export type User = {
   balance?: Balance;
 };
 
+// the ledger balance, and what is left of it once active holds are taken out
+export type UserBalances = {
+  ledger: Balance;
+  available: Balance;
+  // what is left of the overdraft, when the user has a credit limit in this currency
+  overdraft?: Balance;
+};
+
 export class InvalidUserIdError extends Error {
   constructor() {
     super("Missing required userId field");
@@ -40,8 +103,42 @@ export class UserNotFoundError extends Error {
   }
 }
 
+/**
+ * Error thrown when the user to be debited in a transfer does not exist
+ */
+export class SourceUserNotFoundError extends UserNotFoundError {
+  constructor(userId: string) {
+    super(userId);
+    this.message = `Source user with ID ${userId} not found`;
+    this.name = "SourceUserNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when the user to be credited in a transfer does not exist
+ */
+export class DestinationUserNotFoundError extends UserNotFoundError {
+  constructor(userId: string) {
+    super(userId);
+    this.message = `Destination user with ID ${userId} not found`;
+    this.name = "DestinationUserNotFoundError";
+  }
+}
+
 export type GetUserBalanceInput = {
   userId: string;
+  // without a currency, the balances of all the user's wallets are returned
+  currency?: string;
+  // adds what is left of the overdraft to a balance with a credit limit, e.g. "-20.00 USD (80.00 USD overdraft left)"
+  includeOverdraft?: boolean;
+};
+
+// The overdraft agreed with a user: the default currency balance can go as low as minus the limit.
+// Without a creditLimit, the balance can't go below zero
+export type CreditLimit = {
+  userId: string;
+  creditLimit?: string;
+  currency: string;
 };
 
 // can be an enum, but this is more portable
@@ -59,11 +156,305 @@ export interface TransactionInput {
   userId: string;
   amount: string;
   type: TransactionType;
+  // defaults to the configured DEFAULT_CURRENCY
+  currency?: string;
+}
+
+// atomic batches are written as one transaction, independent ones item by item
+export type BatchMode = "atomic" | "independent";
+
+export interface BatchOptions {
+  mode: BatchMode;
+  // in independent mode, how many transactions are written at the same time
+  concurrency?: number;
+}
+
+export enum BatchItemStatus {
+  APPLIED = "applied",
+  // the idempotent key was already processed for the same request
+  DUPLICATE = "duplicate",
+  FAILED = "failed",
+}
+
+/**
+ * The outcome of a transaction of a batch, in the order they were submitted
+ */
+export interface BatchItemResult {
+  idempotentKey: string;
+  status: BatchItemStatus;
+  // only when failed, one of the errors the transaction would have thrown on its own
+  error?: Error;
+}
+
+export type TransactBatchFunction = {
+  (inputs: TransactionInput[], options: BatchOptions): Promise<BatchItemResult[]>;
+};
+
+/**
+ * Transfer input parameters
+ */
+export interface TransferInput {
+  idempotentKey: string;
+  fromUserId: string;
+  toUserId: string;
+  amount: string;
+  // defaults to the configured DEFAULT_CURRENCY, both users must hold it
+  currency?: string;
+}
+
+export type TransferFunction = {
+  (input: TransferInput): Promise<void>;
+};
+
+/**
+ * Reversal input parameters. Without an amount, whatever is left of the original is reversed
+ */
+export interface ReversalInput {
+  originalIdempotencyKey: string;
+  reversalKey: string;
+  amount?: string;
+}
+
+export type ReversalFunction = {
+  (input: ReversalInput): Promise<void>;
+};
+
+// how much of a transaction has been reversed
+export enum ReversalStatus {
+  PARTIAL = "partial",
+  FULL = "full",
+}
+
+/**
+ * A transaction as recorded in the Transactions table
+ */
+export interface Transaction {
+  idempotentKey: string;
+  userId: string;
+  amount: string;
+  type: TransactionType;
+  // not recorded for transactions written before wallets existed, which are in the default currency
+  currency?: string;
+  // only on the correcting entries written by the reconciliation, why the ledger was adjusted
+  adjustmentReason?: string;
+  timestamp: Date;
+}
+
+/**
+ * The result of a transaction. A replayed receipt is the one of the original write
+ */
+export interface TransactionReceipt extends Transaction {
+  // the user's balance right after this transaction, unknown for transactions recorded without a receipt
+  resultingBalance?: string;
+  replayed: boolean;
+}
+
+/**
+ * Reconciliation parameters. Without a userId, every user is reconciled
+ */
+export interface ReconcileInput {
+  userId?: string;
+  // writes a correcting entry for each mismatch, recording the reason
+  repair?: { reason: string };
+}
+
+/**
+ * A wallet whose balance isn't what its transactions add up to
+ */
+export interface BalanceMismatch {
+  userId: string;
+  currency: string;
+  // the stored balance, undefined when there is none and the opening balance applies
+  balance?: string;
+  // the opening balance plus the credits minus the debits
+  expected: string;
+  // the balance minus the expected one, positive when the user holds more than the ledger explains
+  difference: string;
+  // the key of the correcting entry, once repaired
+  adjustmentKey?: string;
+}
+
+export interface ReconciliationReport {
+  // the number of wallets compared with their transactions
+  checked: number;
+  mismatches: BalanceMismatch[];
+}
+
+/**
+ * A line of a journal entry. The account is a user's wallet, "user:<userId>",
+ * or a system account such as "cash"
+ */
+export interface JournalLine {
+  account: string;
+  side: TransactionType;
+  amount: string;
+}
+
+/**
+ * A balanced posting: the debit lines add up to the credit lines.
+ * The entryId is its idempotent key
+ */
+export interface JournalEntry {
+  entryId: string;
+  // defaults to the configured DEFAULT_CURRENCY, every line is in the same currency
+  currency?: string;
+  lines: JournalLine[];
+}
+
+export type PostEntryFunction = {
+  (entry: JournalEntry): Promise<void>;
+};
+
+/**
+ * The total of an account's lines in a currency
+ */
+export interface AccountBalance {
+  account: string;
+  currency: string;
+  debits: string;
+  credits: string;
+  // the credits minus the debits, a user's wallet balance moves the same way
+  balance: string;
+}
+
+export interface TrialBalance {
+  accounts: AccountBalance[];
+  // the balance of every account added up, by currency
+  totals: { currency: string; debits: string; credits: string; balance: string }[];
+  // true when every total is zero
+  balanced: boolean;
+}
+
+export enum HoldStatus {
+  ACTIVE = "active",
+  CAPTURED = "captured",
+  RELEASED = "released",
+  EXPIRED = "expired",
+}
+
+/**
+ * Funds reserved from a user's available balance, to be captured or released later
+ */
+export interface Hold {
+  holdId: string;
+  userId: string;
+  amount: string;
+  currency: string;
+  status: HoldStatus;
+  // only set once the hold is captured
+  capturedAmount?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Place hold input parameters. holdId doubles as the idempotency key
+ */
+export interface PlaceHoldInput {
+  holdId: string;
+  userId: string;
+  amount: string;
+  // defaults to the configured DEFAULT_CURRENCY
+  currency?: string;
+  // defaults to the configured HOLD_EXPIRY_SECONDS
+  expiresInSeconds?: number;
+}
+
+/**
+ * Capture hold input parameters. Without an amount, the whole hold is captured
+ */
+export interface CaptureHoldInput {
+  holdId: string;
+  amount?: string;
+}
+
+export interface ReleaseHoldInput {
+  holdId: string;
+}
+
+/**
+ * What a sweep of the expired holds did. A hold that failed stays active until the next sweep
+ */
+export interface ExpiredHoldsReport {
+  released: number;
+  failures: { holdId: string; error: string }[];
+}
+
+/**
+ * Transaction history query parameters
+ */
+export interface ListTransactionsInput {
+  userId: string;
+  limit?: number;
+  // opaque value returned by the previous page
+  cursor?: string;
+  type?: TransactionType;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * A page of transactions, newest first.
+ * cursor is only set when there are more transactions to fetch
+ */
+export interface TransactionPage {
+  transactions: Transaction[];
+  cursor?: string;
+}
+
+export enum OutboxStatus {
+  PENDING = "pending",
+  DELIVERED = "delivered",
+  // gave up after OUTBOX_MAX_ATTEMPTS deliveries, kept as a dead letter until it's replayed
+  FAILED = "failed",
+}
+
+/**
+ * An event written in the same atomic operation as the change it describes, delivered later by the dispatcher.
+ * A TransactionPosted event's payload is the transaction, see transactionPostedItem
+ */
+export interface OutboxEvent {
+  eventId: string;
+  type: string;
+  payload: Record<string, unknown>;
+  createdAt: Date;
+  status: OutboxStatus;
+  // deliveries tried so far
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * What one round of the outbox dispatcher did
+ */
+export interface DispatchReport {
+  delivered: number;
+  // failed deliveries that will be tried again
+  retrying: number;
+  // failed deliveries that were the last attempt
+  failed: number;
+}
+
+/**
+ * Where the events of a type are POSTed to, see WebhookService.
+ * The secret signing the deliveries is only returned when the subscription is registered
+ */
+export interface WebhookSubscription {
+  subscriptionId: string;
+  eventType: string;
+  url: string;
+  createdAt: Date;
+  secret?: string;
+}
+
+export interface WebhookInput {
+  eventType: string;
+  url: string;
 }
 
 export class InvalidAmountError extends Error {
-  constructor() {
-    super("Invalid amount");
+  constructor(reason?: string) {
+    super(reason ? `Invalid amount: ${reason}` : "Invalid amount");
     this.name = "InvalidAmountError";
   }
 }
@@ -82,13 +473,227 @@ export class InvalidTransactionTypeError extends Error {
   }
 }
 
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export class InvalidLimitError extends Error {
+  constructor() {
+    super("Invalid limit");
+    this.name = "InvalidLimitError";
+  }
+}
+
+export class InvalidDateRangeError extends Error {
+  constructor() {
+    super("Invalid date range");
+    this.name = "InvalidDateRangeError";
+  }
+}
+
+export class TransactionNotFoundError extends Error {
+  constructor(idempotentKey: string) {
+    super(`Transaction ${idempotentKey} not found`);
+    this.name = "TransactionNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when a reversal would reverse more than what is left of the original transaction
+ */
+export class ReversalExceedsOriginalError extends Error {
+  constructor(idempotentKey: string, remaining: string) {
+    super(`Cannot reverse more than the remaining ${remaining} of transaction ${idempotentKey}`);
+    this.name = "ReversalExceedsOriginalError";
+  }
+}
+
+export class InvalidReversalError extends Error {
+  constructor() {
+    super("A reversal cannot be reversed");
+    this.name = "InvalidReversalError";
+  }
+}
+
+/**
+ * Error thrown when a user doesn't hold the currency of a transaction
+ */
+export class WalletNotFoundError extends Error {
+  constructor(userId: string, currency: string) {
+    super(`User with ID ${userId} has no ${currency} wallet`);
+    this.name = "WalletNotFoundError";
+  }
+}
+
+export class InvalidHoldIdError extends Error {
+  constructor() {
+    super("Missing required holdId field");
+    this.name = "InvalidHoldIdError";
+  }
+}
+
+export class InvalidHoldExpiryError extends Error {
+  constructor() {
+    super("expiresInSeconds must be a positive whole number of seconds");
+    this.name = "InvalidHoldExpiryError";
+  }
+}
+
+export class HoldNotFoundError extends Error {
+  constructor(holdId: string) {
+    super(`Hold ${holdId} not found`);
+    this.name = "HoldNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when capturing or releasing a hold that was already settled
+ */
+export class HoldNotActiveError extends Error {
+  constructor(holdId: string, status: string) {
+    super(`Hold ${holdId} is ${status}`);
+    this.name = "HoldNotActiveError";
+  }
+}
+
+/**
+ * Error thrown when capturing a hold after it expired. Its funds are released instead
+ */
+export class HoldExpiredError extends Error {
+  constructor(holdId: string) {
+    super(`Hold ${holdId} has expired`);
+    this.name = "HoldExpiredError";
+  }
+}
+
+export class HoldCaptureExceedsAmountError extends Error {
+  constructor(holdId: string, amount: string) {
+    super(`Cannot capture more than the ${amount} held by hold ${holdId}`);
+    this.name = "HoldCaptureExceedsAmountError";
+  }
+}
+
+export class InvalidTransferError extends Error {
+  constructor() {
+    super("Cannot transfer to the same user");
+    this.name = "InvalidTransferError";
+  }
+}
+
+export class InvalidJournalEntryError extends Error {
+  constructor(reason: string) {
+    super(`Invalid journal entry: ${reason}`);
+    this.name = "InvalidJournalEntryError";
+  }
+}
+
+export class UnbalancedEntryError extends Error {
+  constructor(entryId: string, debits: string, credits: string) {
+    super(`Journal entry ${entryId} is unbalanced, debits ${debits} and credits ${credits}`);
+    this.name = "UnbalancedEntryError";
+  }
+}
+
+// the spending limits a debit is checked against, see limits.ts
+export type LimitName = "perTransaction" | "daily" | "monthly" | "velocity";
+
+/**
+ * Error thrown when a debit would go over one of the user's spending limits
+ */
+export class LimitExceededError extends Error {
+  readonly limit: LimitName;
+
+  // max describes the limit, e.g. "1000 USD" or "5 debits per 60 seconds"
+  constructor(limit: LimitName, max: string) {
+    super(`Debit refused, it would exceed the ${limit} limit of ${max}`);
+    this.name = "LimitExceededError";
+    this.limit = limit;
+  }
+}
+
+export class InvalidBatchError extends Error {
+  constructor(reason: string) {
+    super(`Invalid batch: ${reason}`);
+    this.name = "InvalidBatchError";
+  }
+}
+
+/**
+ * The error of every transaction of an atomic batch that failed because of another one
+ */
+export class BatchAbortedError extends Error {
+  constructor(failedKey: string) {
+    super(`Batch aborted, transaction ${failedKey} failed`);
+    this.name = "BatchAbortedError";
+  }
+}
+
 /**
  * Error thrown when a user attempts to debit more than their available balance
  */
 export class InsufficientBalanceError extends Error {
-  constructor() {
-    super("Insufficient balance");
+  // what could have been debited, the overdraft left included, when known
+  readonly available?: string;
+
+  constructor(available?: string) {
+    super(available === undefined ? "Insufficient balance" : `Insufficient balance, ${available} available`);
     this.name = "InsufficientBalanceError";
+    this.available = available;
+  }
+}
+
+/**
+ * A field that differs between a replayed request and the one stored under its idempotent key
+ */
+export type IdempotencyKeyMismatch = {
+  field: string;
+  stored?: string;
+  received: string;
+};
+
+/**
+ * Error thrown when an idempotent key is reused for a request with a different payload
+ */
+export class IdempotencyKeyMismatchError extends Error {
+  readonly idempotentKey: string;
+  readonly mismatches: IdempotencyKeyMismatch[];
+
+  constructor(idempotentKey: string, mismatches: IdempotencyKeyMismatch[]) {
+    const fields = mismatches.map((mismatch) => mismatch.field).join(", ");
+    super(`Idempotency key ${idempotentKey} was already used for a different request (${fields})`);
+    this.name = "IdempotencyKeyMismatchError";
+    this.idempotentKey = idempotentKey;
+    this.mismatches = mismatches;
+  }
+}
+
+/**
+ * Error thrown when a transaction was cancelled for a reason other than a domain rule,
+ * after all retry attempts were used
+ */
+export class TransactionFailedError extends Error {
+  readonly attempts: number;
+  // the cancellation reason codes of the last attempt
+  readonly reasons: string[];
+
+  constructor(message: string, attempts: number, reasons: string[] = []) {
+    super(`Transaction failed: ${message}`);
+    this.name = "TransactionFailedError";
+    this.attempts = attempts;
+    this.reasons = reasons;
+  }
+}
+
+/**
+ * Error thrown when a user's balance keeps changing while a transaction is being written
+ */
+export class ConcurrentModificationError extends Error {
+  constructor(userId: string) {
+    super(`Balance of user ${userId} was modified concurrently`);
+    this.name = "ConcurrentModificationError";
   }
 }
 
@@ -101,3 +706,44 @@ export class DuplicateTransactionError extends Error {
     this.name = "DuplicateTransactionError";
   }
 }
+
+/**
+ * Error thrown when an HTTP request body is not the JSON object the route expects
+ */
+export class InvalidRequestBodyError extends Error {
+  constructor(reason: string) {
+    super(`Invalid request body: ${reason}`);
+    this.name = "InvalidRequestBodyError";
+  }
+}
+
+export class InvalidWebhookError extends Error {
+  constructor(reason: string) {
+    super(`Invalid webhook: ${reason}`);
+    this.name = "InvalidWebhookError";
+  }
+}
+
+export class WebhookNotFoundError extends Error {
+  constructor(subscriptionId: string) {
+    super(`Webhook ${subscriptionId} not found`);
+    this.name = "WebhookNotFoundError";
+  }
+}
+
+export class OutboxEventNotFoundError extends Error {
+  constructor(eventId: string) {
+    super(`Outbox event ${eventId} not found`);
+    this.name = "OutboxEventNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when replaying an event that isn't a dead letter
+ */
+export class OutboxEventNotFailedError extends Error {
+  constructor(eventId: string, status: string) {
+    super(`Outbox event ${eventId} is ${status}, only failed events can be replayed`);
+    this.name = "OutboxEventNotFailedError";
+  }
+}
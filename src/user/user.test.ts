@@ -1,6 +1,13 @@
 import { DynamoDBClient, GetItemCommandOutput } from "@aws-sdk/client-dynamodb";
 import { createUserBalanceFn, UserService } from "./user";
-import { TConfig, InvalidUserIdError, UserNotFoundError, UserBalanceFunction } from "../types";
+import {
+  TConfig,
+  InvalidAmountError,
+  InvalidUserIdError,
+  UserNotFoundError,
+  UserBalanceFunction,
+  WalletNotFoundError,
+} from "../types";
 
 // Mock the DynamoDBClient
 jest.mock("@aws-sdk/client-dynamodb", () => {
@@ -10,9 +17,14 @@ jest.mock("@aws-sdk/client-dynamodb", () => {
       send: mockSend,
     })),
     GetItemCommand: jest.fn().mockImplementation((params) => params),
+    QueryCommand: jest.fn().mockImplementation((params) => params),
+    UpdateItemCommand: jest.fn().mockImplementation((params) => params),
+    ConditionalCheckFailedException: class ConditionalCheckFailedException extends Error {},
   };
 });
 
+const { ConditionalCheckFailedException } = jest.requireMock("@aws-sdk/client-dynamodb");
+
 describe("UserService", () => {
   let userService: UserService;
   let mockDb: DynamoDBClient;
@@ -25,6 +37,7 @@ describe("UserService", () => {
       DEFAULT_BALANCE: 100,
       DEFAULT_CURRENCY: "USD",
       DB_USERS_TABLE: "users-table",
+      DB_WALLETS_TABLE: "wallets-table",
     } as TConfig;
 
     mockDb = new DynamoDBClient({});
@@ -48,11 +61,13 @@ describe("UserService", () => {
       };
 
       (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+      // no wallets in other currencies
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
 
       const result = await userService.getUserBalance({ userId: "user123" });
 
-      expect(mockDb.send).toHaveBeenCalledTimes(1);
-      expect(result).toBe("200 EUR");
+      expect(mockDb.send).toHaveBeenCalledTimes(2);
+      expect(result).toBe("200.00 EUR");
     });
 
     it("should return default balance when user balance is undefined", async () => {
@@ -63,11 +78,13 @@ describe("UserService", () => {
         };
   
         (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+        // no wallets in other currencies
+        (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
   
         const result = await userService.getUserBalance({ userId: "user123" });
   
-        expect(mockDb.send).toHaveBeenCalledTimes(1);
-        expect(result).toBe("100 USD");
+        expect(mockDb.send).toHaveBeenCalledTimes(2);
+        expect(result).toBe("100.00 USD");
       });
   
       it("should return default balance when user currency is undefined", async () => {
@@ -79,11 +96,13 @@ describe("UserService", () => {
         };
   
         (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+        // no wallets in other currencies
+        (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
   
         const result = await userService.getUserBalance({ userId: "user123" });
   
-        expect(mockDb.send).toHaveBeenCalledTimes(1);
-        expect(result).toBe("200 USD");
+        expect(mockDb.send).toHaveBeenCalledTimes(2);
+        expect(result).toBe("200.00 USD");
       });
   
     it("should throw UserNotFoundError when user does not exist", async () => {
@@ -110,6 +129,8 @@ describe("UserService", () => {
       };
 
       (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+      // no wallets in other currencies
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
 
       await userService.getUserBalance({ userId: "user123" });
 
@@ -120,6 +141,196 @@ describe("UserService", () => {
         },
       });
     });
+
+    it("should list all wallets when no currency is given", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: { balance: { N: "200" }, currency: { S: "USD" } },
+      });
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Items: [{ userId: { S: "user123" }, currency: { S: "EUR" }, balance: { N: "50" } }],
+      });
+
+      const result = await userService.getUserBalance({ userId: "user123" });
+
+      expect(mockDb.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          TableName: "wallets-table",
+          KeyConditionExpression: "userId = :userId",
+        })
+      );
+      expect(result).toBe("200.00 USD, 50.00 EUR");
+    });
+
+    it("should leave out the default wallet when it has no balance but others do", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Item: { userId: { S: "user123" } } });
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Items: [{ userId: { S: "user123" }, currency: { S: "EUR" }, balance: { N: "50" } }],
+      });
+
+      const result = await userService.getUserBalance({ userId: "user123" });
+
+      expect(result).toBe("50.00 EUR");
+    });
+
+    it("should return the balance of the requested wallet", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: { balance: { N: "200" }, currency: { S: "USD" } },
+      });
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: { userId: { S: "user123" }, currency: { S: "EUR" }, balance: { N: "50" } },
+      });
+
+      const result = await userService.getUserBalance({ userId: "user123", currency: "EUR" });
+
+      expect(mockDb.send).toHaveBeenLastCalledWith({
+        TableName: "wallets-table",
+        Key: {
+          userId: { S: "user123" },
+          currency: { S: "EUR" },
+        },
+      });
+      expect(result).toBe("50.00 EUR");
+    });
+
+    it("should read a user created before wallets existed in its own currency", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: { balance: { N: "200" }, currency: { S: "EUR" } },
+      });
+
+      const result = await userService.getUserBalance({ userId: "user123", currency: "EUR" });
+
+      expect(mockDb.send).toHaveBeenCalledTimes(1);
+      expect(result).toBe("200.00 EUR");
+    });
+
+    it("should throw WalletNotFoundError when the user doesn't hold the currency", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: { balance: { N: "200" }, currency: { S: "USD" } },
+      });
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Item: undefined });
+
+      await expect(
+        userService.getUserBalance({ userId: "user123", currency: "GBP" })
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+  });
+
+  describe("getUserBalances", () => {
+    it("should report the ledger and available balances", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          balance: { N: "200" },
+          availableBalance: { N: "150" },
+          currency: { S: "EUR" },
+        },
+      });
+
+      const result = await userService.getUserBalances({ userId: "user123" });
+
+      expect(result).toEqual({
+        ledger: { amount: 200, currency: "EUR" },
+        available: { amount: 150, currency: "EUR" },
+      });
+    });
+
+    it("should report the balance as available when nothing is on hold", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          balance: { N: "200" },
+        },
+      });
+
+      const result = await userService.getUserBalances({ userId: "user123" });
+
+      expect(result).toEqual({
+        ledger: { amount: 200, currency: "USD" },
+        available: { amount: 200, currency: "USD" },
+      });
+    });
+
+    it("should throw UserNotFoundError when user does not exist", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Item: undefined });
+
+      await expect(
+        userService.getUserBalances({ userId: "nonexistentUser" })
+      ).rejects.toThrow(UserNotFoundError);
+    });
+
+    it("should report the overdraft left with a credit limit", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({
+        Item: {
+          balance: { N: "-20" },
+          availableBalance: { N: "-30" },
+          creditLimit: { N: "100" },
+        },
+      });
+
+      const result = await userService.getUserBalances({ userId: "user123" });
+
+      expect(result.overdraft).toEqual({ amount: 70, currency: "USD" });
+    });
+  });
+
+  describe("credit limit", () => {
+    it("should set the credit limit of an existing user", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({});
+
+      const result = await userService.setCreditLimit({ userId: "user123", creditLimit: "500.50" });
+
+      expect(result).toEqual({ userId: "user123", creditLimit: "500.5", currency: "USD" });
+      expect(mockDb.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          UpdateExpression: "SET #creditLimit = :creditLimit",
+          ConditionExpression: "attribute_exists(userId)",
+          ExpressionAttributeValues: { ":creditLimit": { N: "500.5" } },
+        })
+      );
+    });
+
+    it("should remove the credit limit without one", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({});
+
+      const result = await userService.setCreditLimit({ userId: "user123" });
+
+      expect(result).toEqual({ userId: "user123", creditLimit: undefined, currency: "USD" });
+      expect(mockDb.send).toHaveBeenCalledWith(expect.objectContaining({ UpdateExpression: "REMOVE #creditLimit" }));
+    });
+
+    it("should refuse a limit that isn't a positive amount", async () => {
+      await expect(userService.setCreditLimit({ userId: "user123", creditLimit: "0" })).rejects.toThrow(
+        InvalidAmountError
+      );
+      expect(mockDb.send).not.toHaveBeenCalled();
+    });
+
+    it("should throw UserNotFoundError when setting the limit of an unknown user", async () => {
+      (mockDb.send as jest.Mock).mockRejectedValueOnce(new ConditionalCheckFailedException("failed"));
+
+      await expect(userService.setCreditLimit({ userId: "user123", creditLimit: "10" })).rejects.toThrow(
+        UserNotFoundError
+      );
+    });
+
+    it("should read the credit limit", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Item: { creditLimit: { N: "250" } } });
+
+      await expect(userService.getCreditLimit("user123")).resolves.toEqual({
+        userId: "user123",
+        creditLimit: "250",
+        currency: "USD",
+      });
+    });
+
+    it("should show the overdraft left with the balance when asked", async () => {
+      (mockDb.send as jest.Mock).mockResolvedValue({
+        Item: { balance: { N: "-20" }, currency: { S: "USD" }, creditLimit: { N: "100" } },
+      });
+
+      await expect(
+        userService.getUserBalance({ userId: "user123", currency: "USD", includeOverdraft: true })
+      ).resolves.toBe("-20.00 USD (80.00 USD overdraft left)");
+      await expect(userService.getUserBalance({ userId: "user123", currency: "USD" })).resolves.toBe("-20.00 USD");
+    });
   });
 
   describe("getUserItem", () => {
@@ -207,6 +418,7 @@ describe("createUserBalanceFn", () => {
       DEFAULT_BALANCE: 100,
       DEFAULT_CURRENCY: "USD",
       DB_USERS_TABLE: "users-table",
+      DB_WALLETS_TABLE: "wallets-table",
     } as TConfig;
 
     mockDb = new DynamoDBClient({});
@@ -230,11 +442,13 @@ describe("createUserBalanceFn", () => {
       };
 
       (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+      // no wallets in other currencies
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
 
       const result = await userBalanceFn({ userId: "user123" });
 
-      expect(mockDb.send).toHaveBeenCalledTimes(1);
-      expect(result).toBe("200 EUR");
+      expect(mockDb.send).toHaveBeenCalledTimes(2);
+      expect(result).toBe("200.00 EUR");
     });
 
     it("should return default balance when user balance is undefined", async () => {
@@ -245,11 +459,13 @@ describe("createUserBalanceFn", () => {
         };
   
         (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+        // no wallets in other currencies
+        (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
   
         const result = await userBalanceFn({ userId: "user123" });
   
-        expect(mockDb.send).toHaveBeenCalledTimes(1);
-        expect(result).toBe("100 USD");
+        expect(mockDb.send).toHaveBeenCalledTimes(2);
+        expect(result).toBe("100.00 USD");
       });
   
       it("should return default balance when user currency is undefined", async () => {
@@ -261,11 +477,13 @@ describe("createUserBalanceFn", () => {
         };
   
         (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+        // no wallets in other currencies
+        (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
   
         const result = await userBalanceFn({ userId: "user123" });
   
-        expect(mockDb.send).toHaveBeenCalledTimes(1);
-        expect(result).toBe("200 USD");
+        expect(mockDb.send).toHaveBeenCalledTimes(2);
+        expect(result).toBe("200.00 USD");
       });
   
     it("should throw UserNotFoundError when user does not exist", async () => {
@@ -292,6 +510,8 @@ describe("createUserBalanceFn", () => {
       };
 
       (mockDb.send as jest.Mock).mockResolvedValueOnce(mockResponse);
+      // no wallets in other currencies
+      (mockDb.send as jest.Mock).mockResolvedValueOnce({ Items: [] });
 
       await userBalanceFn({ userId: "user123" });
 
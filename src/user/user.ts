@@ -1,12 +1,31 @@
 import {
   Balance,
+  CreditLimit,
   GetUserBalanceInput,
   TConfig,
   InvalidUserIdError,
   UserNotFoundError,
   UserBalanceFunction,
+  UserBalances,
+  WalletNotFoundError,
 } from "../types";
-import { DynamoDBClient, GetItemCommand } from "@aws-sdk/client-dynamodb";
+import {
+  AttributeValue,
+  DynamoDBClient,
+  ConditionalCheckFailedException,
+  GetItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { canonicalAmount, formatBalance } from "../money/money";
+import { batchGetItems } from "../db/batch";
+import { creditLimitOf, overdraftLeft } from "../wallet/wallet";
+import { createLogger, Logger } from "../logger/logger";
+
+export type UserServiceOptions = {
+  // createLogger(config) by default
+  logger?: Logger;
+};
 
 // wrapper that creates a facade function that matches the type signature in the requirements
 export function createUserBalanceFn(
@@ -24,14 +43,20 @@ export function createUserBalanceFn(
 
 export class UserService {
   private _client: DynamoDBClient;
+  private _config: TConfig;
   private _defaultBalance: Balance;
   private _tableName: string;
+  private _walletsTableName: string;
+  private _logger: Logger;
 
   // it's a good practice to inject dependencies instead of using them directly
   // this allows for easier testing and better separation of concerns
-  constructor(client: DynamoDBClient, config: TConfig) {
+  constructor(client: DynamoDBClient, config: TConfig, options: UserServiceOptions = {}) {
     this._client = client;
+    this._config = config;
     this._tableName = config.DB_USERS_TABLE;
+    this._walletsTableName = config.DB_WALLETS_TABLE;
+    this._logger = options.logger ?? createLogger(config);
     this._defaultBalance = {
       amount: config.DEFAULT_BALANCE,
       currency: config.DEFAULT_CURRENCY,
@@ -52,6 +77,127 @@ export class UserService {
     return response.Item;
   }
 
+  // Get the user items of several users at once, by userId. Users that don't exist are left out
+  async getUserItems(userIds: string[]) {
+    const keys = [...new Set(userIds)].map((userId) => ({ userId: { S: userId } }));
+    const items = await batchGetItems(this._client, this._tableName, keys);
+
+    return new Map(items.map((item) => [item.userId.S!, item]));
+  }
+
+  // Get the user's wallet item in a currency other than the default one from DynamoDB
+  async getWalletItem(userId: string, currency: string) {
+    const response = await this._client.send(
+      new GetItemCommand({
+        TableName: this._walletsTableName,
+        Key: {
+          userId: { S: userId },
+          currency: { S: currency },
+        },
+      })
+    );
+
+    return response.Item;
+  }
+
+  // Get all the user's wallet items in other currencies than the default one
+  async listWalletItems(userId: string) {
+    const items: Record<string, AttributeValue>[] = [];
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+
+    do {
+      const response = await this._client.send(
+        new QueryCommand({
+          TableName: this._walletsTableName,
+          KeyConditionExpression: "userId = :userId",
+          ExpressionAttributeValues: {
+            ":userId": { S: userId },
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      items.push(...(response.Items ?? []));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  // Sets the overdraft agreed with the user on the default currency balance, without a limit it is removed.
+  // Lowering the limit below the current overdraft only stops further debits
+  async setCreditLimit(input: Omit<CreditLimit, "currency">): Promise<CreditLimit> {
+    if (!input.userId) {
+      throw new InvalidUserIdError();
+    }
+    const currency = this._config.DEFAULT_CURRENCY;
+    // throws InvalidAmountError unless it fits the currency, no overdraft is no limit rather than zero
+    const creditLimit = input.creditLimit === undefined ? undefined : canonicalAmount(input.creditLimit, currency);
+
+    try {
+      await this._client.send(
+        new UpdateItemCommand({
+          TableName: this._tableName,
+          Key: { userId: { S: input.userId } },
+          UpdateExpression: creditLimit === undefined ? "REMOVE #creditLimit" : "SET #creditLimit = :creditLimit",
+          ConditionExpression: "attribute_exists(userId)",
+          ExpressionAttributeNames: { "#creditLimit": "creditLimit" },
+          ExpressionAttributeValues: creditLimit === undefined ? undefined : { ":creditLimit": { N: creditLimit } },
+        })
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new UserNotFoundError(input.userId);
+      }
+      throw error;
+    }
+
+    return { userId: input.userId, creditLimit, currency };
+  }
+
+  // Get the overdraft agreed with the user, see setCreditLimit
+  async getCreditLimit(userId: string): Promise<CreditLimit> {
+    if (!userId) {
+      throw new InvalidUserIdError();
+    }
+    const item = await this.getUserItem(userId);
+    if (!item) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const currency = this._config.DEFAULT_CURRENCY;
+    return { userId, creditLimit: creditLimitOf(this._config, currency, item), currency };
+  }
+
+  // the balance held on the user item itself, in the default currency
+  // or in the currency it had before wallets existed (see migrateLegacyWallets)
+  private formatUserBalance(userId: string, item: Record<string, AttributeValue>, includeOverdraft = false): string {
+    const { balance, currency } = item;
+
+    // balance could be undefined
+    if (!balance) {
+      this._logger.warn(`No balance for user ${userId}, returning default`, { userId });
+
+      // NB: The requirement says that the function should return the default balance
+      // nothing about backfilling the user balance with the default value
+      // May need to change this in the future if the requirement changes
+      // Creating/Updating the User balance here violates the Single Responsibility Principle
+
+      return formatWallet(String(this._defaultBalance.amount), this._defaultBalance.currency);
+    }
+
+    // currency might be undefined, so we use the ?. notation to support optional chaining
+    const userCurrency = currency?.S || this._defaultBalance.currency;
+    const creditLimit = creditLimitOf(this._config, userCurrency, item);
+    if (!includeOverdraft || creditLimit === undefined) {
+      return formatWallet(balance.N!, userCurrency);
+    }
+
+    // the overdraft left after the funds on hold
+    const left = overdraftLeft(item.availableBalance?.N ?? balance.N!, creditLimit);
+    return `${formatWallet(balance.N!, userCurrency)} (${formatWallet(left, userCurrency)} overdraft left)`;
+  }
+
   // make sure the method adhers to the interface
   getUserBalance: UserBalanceFunction = async (input: GetUserBalanceInput) => {
     // validation
@@ -63,25 +209,81 @@ export class UserService {
     const item = await this.getUserItem(input.userId);
 
     // check the result
-    if (item) {
-      const { balance, currency } = item;
+    if (!item) {
+      throw new UserNotFoundError(input.userId);
+    }
 
-      // balance could be undefined
-      if (!balance) {
-        console.warn(`No balance for user ${input.userId}, returning default`);
+    const userCurrency = item.currency?.S || this._defaultBalance.currency;
 
-        // NB: The requirement says that the function should return the default balance
-        // nothing about backfilling the user balance with the default value
-        // May need to change this in the future if the requirement changes
-        // Creating/Updating the User balance here violates the Single Responsibility Principle
+    // a single wallet
+    if (input.currency) {
+      if (input.currency === userCurrency) {
+        return this.formatUserBalance(input.userId, item, input.includeOverdraft);
+      }
 
-        return `${this._defaultBalance.amount} ${this._defaultBalance.currency}`;
+      const wallet = await this.getWalletItem(input.userId, input.currency);
+      if (!wallet?.balance?.N) {
+        throw new WalletNotFoundError(input.userId, input.currency);
       }
 
-      // currency might be undefined, so we use the ?. notation to support optional chaining
-      return `${balance.N} ${currency?.S || this._defaultBalance.currency}`;
+      return formatWallet(wallet.balance.N, input.currency);
+    }
+
+    // all wallets, the user item only counts as one when it has a balance or nothing else does
+    const wallets = await this.listWalletItems(input.userId);
+    const balances = wallets
+      .filter((wallet) => wallet.balance?.N && wallet.currency?.S)
+      .map((wallet) => formatWallet(wallet.balance.N!, wallet.currency.S!));
+
+    if (item.balance || balances.length === 0) {
+      balances.unshift(this.formatUserBalance(input.userId, item, input.includeOverdraft));
     }
 
-    throw new UserNotFoundError(input.userId);
+    return balances.join(", ");
   };
+
+  // Get both the ledger balance and the available balance, which excludes funds on hold.
+  // Without holds, both are the same
+  async getUserBalances(input: GetUserBalanceInput): Promise<UserBalances> {
+    // validation
+    if (!input.userId) {
+      throw new InvalidUserIdError();
+    }
+
+    const user = await this.getUserItem(input.userId);
+    if (!user) {
+      throw new UserNotFoundError(input.userId);
+    }
+
+    const userCurrency = user.currency?.S || this._defaultBalance.currency;
+    const currency = input.currency ?? userCurrency;
+    const item = currency === userCurrency
+      ? user
+      : await this.getWalletItem(input.userId, currency);
+    if (!item) {
+      throw new WalletNotFoundError(input.userId, currency);
+    }
+
+    const ledger = item.balance?.N !== undefined
+      ? Number(item.balance.N)
+      : this._defaultBalance.amount;
+    const available = item.availableBalance?.N !== undefined
+      ? Number(item.availableBalance.N)
+      : ledger;
+
+    const creditLimit = creditLimitOf(this._config, currency, item);
+
+    return {
+      ledger: { amount: ledger, currency },
+      available: { amount: available, currency },
+      ...(creditLimit !== undefined && {
+        overdraft: { amount: Number(overdraftLeft(String(available), creditLimit)), currency },
+      }),
+    };
+  }
+}
+
+// e.g. "10.5" USD is "10.50 USD"
+function formatWallet(balance: string, currency: string): string {
+  return `${formatBalance(balance, currency)} ${currency}`;
 }
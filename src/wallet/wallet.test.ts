@@ -0,0 +1,161 @@
+import { PutItemCommand, UpdateItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { TransactService } from "../transact/transact";
+import { HoldService } from "../holds/holds";
+import { JournalService } from "../journal/journal";
+import { InsufficientBalanceError, TransactionType } from "../types";
+import { debitWallet, overdraftLeft, withOverdraft } from "./wallet";
+
+describe("wallet", () => {
+  describe("debitWallet", () => {
+    it("should require the balance to cover the amount without a credit limit", () => {
+      const { Update } = debitWallet(Config, "1", "10");
+
+      expect(Update.ConditionExpression).toContain("#balance >= :amount");
+      expect(Update.ExpressionAttributeValues).not.toHaveProperty(":floor");
+    });
+
+    it("should let the balance go down to minus the credit limit, pinning the limit", () => {
+      const { Update } = debitWallet(Config, "1", "10", Config.DEFAULT_CURRENCY, "25.5");
+
+      expect(Update.ConditionExpression).toContain("#balance >= :floor");
+      expect(Update.ConditionExpression).toContain("#creditLimit = :creditLimit");
+      expect(Update.ExpressionAttributeValues).toMatchObject({
+        ":floor": { N: "-15.5" },
+        ":creditLimit": { N: "25.5" },
+      });
+    });
+
+    it("should ignore the credit limit in another currency", () => {
+      const { Update } = debitWallet(Config, "1", "10", "EUR", "25");
+
+      expect(Update.ConditionExpression).not.toContain("#creditLimit");
+    });
+  });
+
+  it.each([
+    ["10", "5", "15"],
+    ["-3", "5", "2"],
+    ["-8", "5", "0"],
+  ])("withOverdraft of %p with a limit of %p should be %p", (balance, creditLimit, expected) => {
+    expect(withOverdraft(balance, creditLimit)).toBe(expected);
+  });
+
+  it.each([
+    ["10", "5", "5"],
+    ["-3", "5", "2"],
+    ["-8", "5", "0"],
+  ])("overdraftLeft of %p with a limit of %p should be %p", (balance, creditLimit, expected) => {
+    expect(overdraftLeft(balance, creditLimit)).toBe(expected);
+  });
+
+  describe("overdraft", () => {
+    let db: InMemoryDynamoDB;
+    let transactService: TransactService;
+
+    const putUser = (userId: string, balance: string, creditLimit?: string) =>
+      db.send(
+        new PutItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Item: {
+            userId: { S: userId },
+            currency: { S: Config.DEFAULT_CURRENCY },
+            balance: { N: balance },
+            ...(creditLimit !== undefined && { creditLimit: { N: creditLimit } }),
+          },
+        })
+      );
+
+    const balanceOf = (userId: string) =>
+      db.dump(Config.DB_USERS_TABLE).find((user) => user.userId.S === userId)?.balance?.N;
+
+    const debit = (key: string, amount: string) =>
+      transactService.transact({ idempotentKey: key, userId: "1", amount, type: TransactionType.DEBIT });
+
+    beforeEach(async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      jest.spyOn(console, "debug").mockImplementation(() => {});
+
+      db = new InMemoryDynamoDB();
+      await createSchema(db);
+      transactService = new TransactService(db, Config);
+
+      await putUser("1", "10", "50");
+      await putUser("2", "0");
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should debit into the overdraft, down to minus the credit limit", async () => {
+      await debit("k1", "40");
+      await debit("k2", "20");
+
+      expect(balanceOf("1")).toBe("-50");
+      await expect(debit("k3", "0.01")).rejects.toThrow(new InsufficientBalanceError("0"));
+    });
+
+    it("should tell how much was available, the overdraft included", async () => {
+      const error = await debit("k1", "60.01").catch((error) => error);
+
+      expect(error).toBeInstanceOf(InsufficientBalanceError);
+      expect(error.available).toBe("60");
+      expect(balanceOf("1")).toBe("10");
+    });
+
+    it("should behave as before without a credit limit", async () => {
+      await putUser("1", "10");
+
+      await expect(debit("k1", "10.01")).rejects.toThrow(new InsufficientBalanceError("10"));
+    });
+
+    it("should follow a credit limit removed since it was pinned", async () => {
+      await debit("k1", "15");
+      // the limit is gone, the balance can't go any lower
+      await db.send(
+        new UpdateItemCommand({
+          TableName: Config.DB_USERS_TABLE,
+          Key: { userId: { S: "1" } },
+          UpdateExpression: "REMOVE creditLimit",
+        })
+      );
+
+      await expect(debit("k2", "1")).rejects.toThrow(InsufficientBalanceError);
+      expect(balanceOf("1")).toBe("-5");
+    });
+
+    it("should use the overdraft for transfers, receipts and journal entries", async () => {
+      await transactService.transfer({ idempotentKey: "t1", fromUserId: "1", toUserId: "2", amount: "30" });
+      const receipt = await transactService.transactWithReceipt(
+        { idempotentKey: "r1", userId: "1", amount: "10", type: TransactionType.DEBIT },
+        "-20",
+        "50"
+      );
+      await new JournalService(db, Config).post({
+        entryId: "e1",
+        lines: [
+          { account: "user:1", side: TransactionType.DEBIT, amount: "5" },
+          { account: "fees", side: TransactionType.CREDIT, amount: "5" },
+        ],
+      });
+
+      expect(receipt.resultingBalance).toBe("-30");
+      expect(balanceOf("1")).toBe("-35");
+      expect(balanceOf("2")).toBe("30");
+    });
+
+    it("should reserve the overdraft with a hold", async () => {
+      const holdService = new HoldService(db, Config);
+
+      await holdService.placeHold({ holdId: "h1", userId: "1", amount: "55" });
+
+      await expect(debit("k1", "5.01")).rejects.toThrow(new InsufficientBalanceError("5"));
+      await expect(holdService.placeHold({ holdId: "h2", userId: "1", amount: "6" })).rejects.toThrow(
+        InsufficientBalanceError
+      );
+    });
+  });
+});
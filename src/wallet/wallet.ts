@@ -0,0 +1,198 @@
+import { AttributeValue, Update } from "@aws-sdk/client-dynamodb";
+import { InsufficientBalanceError, TConfig } from "../types";
+import { addDecimals, compareDecimals } from "../money/money";
+
+// Where a user's balance in a currency is stored, and the condition that the update must satisfy
+export type WalletTarget = {
+  TableName: string;
+  Key: Record<string, AttributeValue>;
+  // true when the wallet is the Users item itself
+  primary: boolean;
+  ConditionExpression?: string;
+  ExpressionAttributeNames: Record<string, string>;
+  ExpressionAttributeValues: Record<string, AttributeValue>;
+};
+
+// The default currency is held on the Users item, like before wallets existed.
+// Any other currency is a separate item in the Wallets table.
+// A user item in another currency (written before wallets existed) must be migrated first,
+// see migrateLegacyWallets
+export function walletTarget(config: TConfig, userId: string, currency: string): WalletTarget {
+  if (currency === config.DEFAULT_CURRENCY) {
+    return {
+      TableName: config.DB_USERS_TABLE,
+      Key: { userId: { S: userId } },
+      primary: true,
+      ConditionExpression: "(attribute_not_exists(#currency) OR #currency = :currency)",
+      ExpressionAttributeNames: { "#currency": "currency" },
+      ExpressionAttributeValues: { ":currency": { S: currency } },
+    };
+  }
+
+  return {
+    TableName: config.DB_WALLETS_TABLE,
+    Key: { userId: { S: userId }, currency: { S: currency } },
+    primary: false,
+    ExpressionAttributeNames: {},
+    ExpressionAttributeValues: {},
+  };
+}
+
+// true when a failed condition on the wallet's balance update means the user doesn't hold the currency.
+// item is the wallet as it was when the condition failed
+export function isMissingWallet(
+  config: TConfig,
+  userId: string,
+  currency: string,
+  item: Record<string, AttributeValue> | undefined
+): boolean {
+  const wallet = walletTarget(config, userId, currency);
+  if (!wallet.primary) {
+    return !item;
+  }
+
+  // the user item is in another currency
+  return !!item?.currency?.S && item.currency.S !== currency;
+}
+
+// prepare credit wallet balance update.
+// The available balance (see HoldService) starts as the balance the first time it is touched
+export function creditWallet(
+  config: TConfig,
+  userId: string,
+  amount: string,
+  currency: string = config.DEFAULT_CURRENCY
+): { Update: Update } {
+  const wallet = walletTarget(config, userId, currency);
+
+  return {
+    Update: {
+      TableName: wallet.TableName,
+      Key: wallet.Key,
+      UpdateExpression:
+        "SET #balance = if_not_exists(#balance, :zero) + :amount, " +
+        "#availableBalance = if_not_exists(#availableBalance, if_not_exists(#balance, :zero)) + :amount",
+      ConditionExpression: wallet.ConditionExpression,
+      ExpressionAttributeValues: {
+        ":amount": { N: amount },
+        ":zero": { N: "0" },
+        ...wallet.ExpressionAttributeValues,
+      },
+      ExpressionAttributeNames: {
+        "#balance": "balance",
+        "#availableBalance": "availableBalance",
+        ...wallet.ExpressionAttributeNames,
+      },
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+    },
+  };
+}
+
+// prepare debit wallet balance update, held funds can't be debited.
+// With the user's credit limit, the balance may go as low as minus the limit, see debitFloor
+export function debitWallet(
+  config: TConfig,
+  userId: string,
+  amount: string,
+  currency: string = config.DEFAULT_CURRENCY,
+  creditLimit?: string
+): { Update: Update } {
+  const wallet = walletTarget(config, userId, currency);
+  const floor = debitFloor(wallet, amount, creditLimit);
+
+  return {
+    Update: {
+      TableName: wallet.TableName,
+      Key: wallet.Key,
+      UpdateExpression:
+        "SET #balance = #balance - :amount, " +
+        "#availableBalance = if_not_exists(#availableBalance, #balance) - :amount",
+      ExpressionAttributeValues: {
+        ":amount": { N: amount },
+        ...floor.ExpressionAttributeValues,
+        ...wallet.ExpressionAttributeValues,
+      },
+      ExpressionAttributeNames: {
+        "#balance": "balance",
+        "#availableBalance": "availableBalance",
+        ...floor.ExpressionAttributeNames,
+        ...wallet.ExpressionAttributeNames,
+      },
+      ConditionExpression: allOf(
+        `attribute_exists(#balance) AND #balance >= ${floor.operand} AND ` +
+          `(attribute_not_exists(#availableBalance) OR #availableBalance >= ${floor.operand})`,
+        floor.ConditionExpression,
+        wallet.ConditionExpression
+      ),
+      // without the old item, the condition failed because the wallet does not exist
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+    },
+  };
+}
+
+// The lowest balance a debit of the amount can start from, as an expression operand.
+// Conditions can't do arithmetic, so the floor is computed here from the credit limit the caller read,
+// and the limit is pinned: when it changed, the condition fails and the caller retries with the new one
+// (see creditLimitOf). Only the wallet on the Users item has a credit limit
+export function debitFloor(
+  wallet: WalletTarget,
+  amount: string,
+  creditLimit: string | undefined
+): Pick<WalletTarget, "ConditionExpression" | "ExpressionAttributeNames" | "ExpressionAttributeValues"> & {
+  operand: string;
+} {
+  if (!wallet.primary || creditLimit === undefined) {
+    return {
+      operand: ":amount",
+      ConditionExpression: undefined,
+      ExpressionAttributeNames: {},
+      ExpressionAttributeValues: {},
+    };
+  }
+
+  return {
+    operand: ":floor",
+    ConditionExpression: "#creditLimit = :creditLimit",
+    ExpressionAttributeNames: { "#creditLimit": "creditLimit" },
+    ExpressionAttributeValues: {
+      ":floor": { N: addDecimals(amount, `-${creditLimit}`) },
+      ":creditLimit": { N: creditLimit },
+    },
+  };
+}
+
+// the credit limit of the wallet, only the user item in the default currency has one
+export function creditLimitOf(
+  config: TConfig,
+  currency: string,
+  item: Record<string, AttributeValue> | undefined
+): string | undefined {
+  return currency === config.DEFAULT_CURRENCY ? item?.creditLimit?.N : undefined;
+}
+
+// what can still be debited from a balance, the overdraft left included. Never below zero
+export function withOverdraft(balance: string | undefined, creditLimit: string | undefined): string {
+  const available = addDecimals(balance ?? "0", creditLimit ?? "0");
+  return compareDecimals(available, "0") < 0 ? "0" : available;
+}
+
+// what is left of the overdraft once a negative balance is taken out of the credit limit. Never below zero
+export function overdraftLeft(balance: string, creditLimit: string): string {
+  return compareDecimals(balance, "0") < 0 ? withOverdraft(balance, creditLimit) : creditLimit;
+}
+
+// the error of a debit the wallet can't cover, item is the wallet as it was when the condition failed
+export function insufficientBalance(
+  config: TConfig,
+  currency: string,
+  item: Record<string, AttributeValue> | undefined
+): InsufficientBalanceError {
+  const balance = item?.availableBalance?.N ?? item?.balance?.N;
+  return new InsufficientBalanceError(withOverdraft(balance, creditLimitOf(config, currency, item)));
+}
+
+// joins condition expressions, skipping the missing ones
+export function allOf(...conditions: (string | undefined)[]): string | undefined {
+  const present = conditions.filter((condition): condition is string => !!condition);
+  return present.length > 0 ? present.join(" AND ") : undefined;
+}
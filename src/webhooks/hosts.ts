@@ -0,0 +1,75 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Resolves a hostname to every address it has, injectable so tests don't need DNS
+export type Lookup = (hostname: string) => Promise<string[]>;
+
+export const dnsLookup: Lookup = async (hostname) =>
+  (await lookup(hostname, { all: true })).map(({ address }) => address);
+
+// the addresses a webhook must not reach: this host, private networks, link-local (the cloud metadata
+// endpoint 169.254.169.254), shared, reserved, multicast and broadcast ranges
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+// NB: an IPv4-mapped address like ::ffff:127.0.0.1, which URLs write as ::ffff:7f00:1, is checked against the IPv4 ranges
+
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) {
+    return false;
+  }
+  return !NON_PUBLIC.check(address, version === 4 ? "ipv4" : "ipv6");
+}
+
+// the hostname of a URL, without the brackets of an IPv6 address
+export function hostnameOf(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+}
+
+// A hostname is public unless it's an address of NON_PUBLIC or localhost.
+// Other names are only known once they're resolved, see assertPublicHost
+export function isPublicHostname(hostname: string): boolean {
+  if (isIP(hostname) !== 0) {
+    return isPublicAddress(hostname);
+  }
+  return hostname !== "localhost" && !hostname.endsWith(".localhost");
+}
+
+// Throws unless every address of the hostname is public, so a name pointing at an internal address
+// is refused when it's delivered to
+export async function assertPublicHost(hostname: string, resolve: Lookup = dnsLookup): Promise<void> {
+  if (!isPublicHostname(hostname)) {
+    throw new Error(`${hostname} is not a public host`);
+  }
+  if (isIP(hostname) !== 0) {
+    return;
+  }
+  const addresses = await resolve(hostname);
+  const internal = addresses.find((address) => !isPublicAddress(address));
+  if (addresses.length === 0 || internal) {
+    throw new Error(`${hostname} resolves to ${internal ?? "no address"}, not a public address`);
+  }
+}
@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// the headers of a signed delivery, receivers read them in lower case
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+// how old a delivery receivers accept by default, so a captured one can't be sent again much later
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// HMAC-SHA256 of "<timestamp>.<body>" in hex, the timestamp in seconds is signed along with the body
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// the headers signing a delivery of the body made at timestamp
+export function signatureHeaders(secret: string, timestamp: number, body: string): Record<string, string> {
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: `sha256=${signPayload(secret, timestamp, body)}`,
+  };
+}
+
+// What a receiver checks: the signature is the body's, and it was made within toleranceSeconds of now.
+// headers are by lower case name, like node's http module gives them
+export function verifySignature(
+  secret: string,
+  body: string,
+  headers: Record<string, string | string[] | undefined>,
+  { now = Date.now(), toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS } = {}
+): boolean {
+  const timestamp = Number(headers[TIMESTAMP_HEADER.toLowerCase()]);
+  const signature = headers[SIGNATURE_HEADER.toLowerCase()];
+  if (!Number.isInteger(timestamp) || typeof signature !== "string") {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(`sha256=${signPayload(secret, timestamp, body)}`);
+  const received = Buffer.from(signature);
+  // constant time, so the signature can't be guessed a byte at a time
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
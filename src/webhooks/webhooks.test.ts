@@ -0,0 +1,260 @@
+import http, { IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { InMemoryDynamoDB } from "../db/memory";
+import { createSchema } from "../schema";
+import { Config } from "../config";
+import { OutboxService } from "../outbox/outbox";
+import { InvalidWebhookError, OutboxStatus, TConfig, TransactionType, WebhookNotFoundError } from "../types";
+import { TransactService } from "../transact/transact";
+import { signatureHeaders, verifySignature } from "./signature";
+import { assertPublicHost, isPublicAddress } from "./hosts";
+import { WEBHOOK_DELIVERY, WebhookService, webhookSink } from "./webhooks";
+
+describe("webhooks", () => {
+  let db: InMemoryDynamoDB;
+  let server: Server;
+  let baseUrl: string;
+  let now: number;
+  // what the stub server received, and the status it answers with by path
+  let received: { path: string; headers: IncomingHttpHeaders; body: string }[];
+  let statuses: Record<string, number>;
+
+  // the stub server is on the loopback
+  const config: TConfig = { ...Config, OUTBOX_MAX_ATTEMPTS: 2, WEBHOOK_ALLOWED_HOSTS: "127.0.0.1" };
+  const webhookService = () => new WebhookService(db, config, { now: () => now });
+  const outboxService = () => new OutboxService(db, config, { now: () => now, random: () => 0.5 });
+  const next = jest.fn();
+  const dispatch = () => outboxService().dispatch(webhookSink(webhookService(), next));
+  const credit = (key: string) =>
+    new TransactService(db, config).transact({ idempotentKey: key, userId: "1", amount: "10", type: TransactionType.CREDIT });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+    now = Date.UTC(2024, 0, 1);
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    next.mockReset().mockResolvedValue(undefined);
+
+    db = new InMemoryDynamoDB();
+    await createSchema(db);
+    await db.send(
+      new PutItemCommand({
+        TableName: Config.DB_USERS_TABLE,
+        Item: { userId: { S: "1" }, currency: { S: Config.DEFAULT_CURRENCY }, balance: { N: "100" } },
+      })
+    );
+
+    received = [];
+    statuses = {};
+    server = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      received.push({ path: req.url!, headers: req.headers, body: Buffer.concat(chunks).toString("utf8") });
+      res.writeHead(statuses[req.url!] ?? 204).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  describe("subscriptions", () => {
+    it("should register, list and delete them, the secret only returned once", async () => {
+      const service = webhookService();
+      const first = await service.register({ eventType: "TransactionPosted", url: `${baseUrl}/a` });
+      now += 1;
+      const second = await service.register({ eventType: "TransactionPosted", url: `${baseUrl}/b` });
+
+      expect(first).toEqual({
+        subscriptionId: expect.any(String),
+        eventType: "TransactionPosted",
+        url: `${baseUrl}/a`,
+        createdAt: new Date(now - 1),
+        secret: expect.stringMatching(/^[0-9a-f]{64}$/),
+      });
+      expect(await service.listWebhooks("TransactionPosted")).toEqual(
+        [first, second].map(({ secret, ...subscription }) => subscription)
+      );
+
+      await expect(service.deleteWebhook(first.subscriptionId)).resolves.toMatchObject({ url: `${baseUrl}/a` });
+      expect((await service.listWebhooks()).map((subscription) => subscription.subscriptionId)).toEqual([
+        second.subscriptionId,
+      ]);
+      await expect(service.deleteWebhook(first.subscriptionId)).rejects.toThrow(WebhookNotFoundError);
+    });
+
+    it.each([
+      [{ eventType: "BalanceChanged", url: "https://example.com" }],
+      [{ eventType: "TransactionPosted", url: "example.com/hooks" }],
+      [{ eventType: "TransactionPosted", url: "ftp://example.com/hooks" }],
+      [{ eventType: "TransactionPosted", url: "http://localhost:8080/hooks" }],
+      [{ eventType: "TransactionPosted", url: "http://169.254.169.254/latest/meta-data" }],
+      [{ eventType: "TransactionPosted", url: "https://10.0.0.5/hooks" }],
+      [{ eventType: "TransactionPosted", url: "https://[::1]/hooks" }],
+      [{ eventType: "TransactionPosted", url: "https://[::ffff:192.168.1.1]/hooks" }],
+      [{ eventType: "TransactionPosted", url: "https://167772165/hooks" }],
+    ])("should refuse %p", async (input) => {
+      await expect(webhookService().register(input)).rejects.toThrow(InvalidWebhookError);
+    });
+
+    it("should require https when WEBHOOK_REQUIRE_HTTPS is set", async () => {
+      const service = new WebhookService(db, { ...config, WEBHOOK_REQUIRE_HTTPS: true });
+
+      await expect(service.register({ eventType: "TransactionPosted", url: "http://example.com/hooks" })).rejects.toThrow(
+        "url must be an https URL"
+      );
+      await expect(service.register({ eventType: "TransactionPosted", url: "https://example.com/hooks" })).resolves.toMatchObject({
+        url: "https://example.com/hooks",
+      });
+    });
+  });
+
+  describe("delivery", () => {
+    it("should POST each event signed to every subscription, then hand it to the next sink", async () => {
+      const a = await webhookService().register({ eventType: "TransactionPosted", url: `${baseUrl}/a` });
+      const b = await webhookService().register({ eventType: "TransactionPosted", url: `${baseUrl}/b` });
+      await credit("k1");
+
+      // the event is queued for both subscriptions, which are delivered by the next round
+      await expect(dispatch()).resolves.toEqual({ delivered: 1, retrying: 0, failed: 0 });
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ eventId: "TransactionPosted:k1" }));
+      await expect(dispatch()).resolves.toEqual({ delivered: 2, retrying: 0, failed: 0 });
+
+      expect(received.map((request) => request.path).sort()).toEqual(["/a", "/b"]);
+      for (const { path, headers, body } of received) {
+        const secret = path === "/a" ? a.secret! : b.secret!;
+        expect(verifySignature(secret, body, headers)).toBe(true);
+        expect(headers["idempotency-key"]).toBe("TransactionPosted:k1");
+        expect(JSON.parse(body)).toMatchObject({
+          eventId: "TransactionPosted:k1",
+          type: "TransactionPosted",
+          payload: { idempotentKey: "k1", amount: "10" },
+        });
+      }
+      // each subscription has its own secret
+      const toA = received.find((request) => request.path === "/a")!;
+      expect(verifySignature(b.secret!, toA.body, toA.headers)).toBe(false);
+    });
+
+    it("should retry a failing subscription alone, and leave a dead letter an operator can replay", async () => {
+      await webhookService().register({ eventType: "TransactionPosted", url: `${baseUrl}/a` });
+      const b = await webhookService().register({ eventType: "TransactionPosted", url: `${baseUrl}/b` });
+      statuses["/b"] = 500;
+      await credit("k1");
+      await dispatch();
+
+      await expect(dispatch()).resolves.toEqual({ delivered: 1, retrying: 1, failed: 0 });
+      now += 60 * 60 * 1000;
+      await expect(dispatch()).resolves.toEqual({ delivered: 0, retrying: 0, failed: 1 });
+      now += 60 * 60 * 1000;
+      await dispatch();
+      expect(received.map((request) => request.path).sort()).toEqual(["/a", "/b", "/b"]);
+
+      const deliveryId = `${WEBHOOK_DELIVERY}:${b.subscriptionId}:TransactionPosted:k1`;
+      expect(await outboxService().failedEvents(WEBHOOK_DELIVERY)).toEqual([
+        expect.objectContaining({
+          eventId: deliveryId,
+          status: OutboxStatus.FAILED,
+          attempts: 2,
+          lastError: `${baseUrl}/b responded with 500`,
+        }),
+      ]);
+
+      statuses["/b"] = 200;
+      await expect(outboxService().replay(deliveryId)).resolves.toMatchObject({ status: OutboxStatus.PENDING, attempts: 0 });
+      await expect(dispatch()).resolves.toEqual({ delivered: 1, retrying: 0, failed: 0 });
+      expect(received).toHaveLength(4);
+      expect(await outboxService().failedEvents()).toEqual([]);
+    });
+
+    it("should fail the delivery to a name resolving to an address that isn't public", async () => {
+      const lookup = jest.fn().mockResolvedValue(["93.184.216.34", "10.0.0.5"]);
+      const fetchFn = jest.fn();
+      const service = new WebhookService(db, config, { now: () => now, fetchFn, lookup });
+      await service.register({ eventType: "TransactionPosted", url: "https://hooks.example.com/a" });
+      await credit("k1");
+      await outboxService().dispatch(webhookSink(service, next));
+
+      await expect(outboxService().dispatch(webhookSink(service, next))).resolves.toEqual({
+        delivered: 0,
+        retrying: 1,
+        failed: 0,
+      });
+      expect(lookup).toHaveBeenCalledWith("hooks.example.com");
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+
+    it("should drop the queued deliveries of a deleted subscription", async () => {
+      const a = await webhookService().register({ eventType: "TransactionPosted", url: `${baseUrl}/a` });
+      await credit("k1");
+      await dispatch();
+
+      await webhookService().deleteWebhook(a.subscriptionId);
+
+      await expect(dispatch()).resolves.toEqual({ delivered: 1, retrying: 0, failed: 0 });
+      expect(received).toEqual([]);
+    });
+
+    it("should queue an event once when the next sink failed", async () => {
+      await webhookService().register({ eventType: "TransactionPosted", url: `${baseUrl}/a` });
+      await credit("k1");
+      next.mockRejectedValueOnce(new Error("connection refused"));
+
+      await expect(dispatch()).resolves.toEqual({ delivered: 0, retrying: 1, failed: 0 });
+      now += 60 * 60 * 1000;
+      await expect(dispatch()).resolves.toEqual({ delivered: 2, retrying: 0, failed: 0 });
+      await dispatch();
+
+      expect(received).toHaveLength(1);
+    });
+  });
+
+  describe("hosts", () => {
+    it.each([
+      ["93.184.216.34", true],
+      ["2606:2800:220:1:248:1893:25c8:1946", true],
+      ["127.0.0.1", false],
+      ["169.254.169.254", false],
+      ["172.20.1.1", false],
+      ["100.64.0.1", false],
+      ["fd00::1", false],
+      ["fe80::1", false],
+      ["::ffff:127.0.0.1", false],
+      ["example.com", false],
+    ])("should tell whether %s is a public address", (address, expected) => {
+      expect(isPublicAddress(address)).toBe(expected);
+    });
+
+    it("should refuse a name without addresses, or with one that isn't public", async () => {
+      await expect(assertPublicHost("example.com", async () => ["93.184.216.34"])).resolves.toBeUndefined();
+      await expect(assertPublicHost("example.com", async () => ["192.168.0.1"])).rejects.toThrow(
+        "example.com resolves to 192.168.0.1, not a public address"
+      );
+      await expect(assertPublicHost("example.com", async () => [])).rejects.toThrow("not a public address");
+      await expect(assertPublicHost("api.localhost")).rejects.toThrow("api.localhost is not a public host");
+    });
+  });
+
+  describe("verifySignature", () => {
+    const body = JSON.stringify({ eventId: "TransactionPosted:k1" });
+    const lowerCase = (headers: Record<string, string>) =>
+      Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+    it("should refuse a changed body, another secret or an old timestamp", () => {
+      const timestamp = Math.floor(now / 1000);
+      const headers = lowerCase(signatureHeaders("secret", timestamp, body));
+
+      expect(verifySignature("secret", body, headers, { now })).toBe(true);
+      expect(verifySignature("secret", `${body} `, headers, { now })).toBe(false);
+      expect(verifySignature("other", body, headers, { now })).toBe(false);
+      expect(verifySignature("secret", body, headers, { now: now + 6 * 60 * 1000 })).toBe(false);
+      expect(verifySignature("secret", body, {}, { now })).toBe(false);
+    });
+  });
+});
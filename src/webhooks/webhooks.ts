@@ -0,0 +1,259 @@
+import { randomBytes, randomUUID } from "crypto";
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDB,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  ScanCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  InvalidWebhookError,
+  OutboxEvent,
+  TConfig,
+  WebhookInput,
+  WebhookNotFoundError,
+  WebhookSubscription,
+} from "../types";
+import { OutboxService, TRANSACTION_POSTED } from "../outbox/outbox";
+import { OutboxSink, postJson } from "../outbox/sinks";
+import { signatureHeaders } from "./signature";
+import { assertPublicHost, dnsLookup, hostnameOf, isPublicHostname, Lookup } from "./hosts";
+
+// the outbox event of one event's delivery to one subscription
+export const WEBHOOK_DELIVERY = "WebhookDelivery";
+
+// the event types a webhook can subscribe to
+export const WEBHOOK_EVENT_TYPES = [TRANSACTION_POSTED];
+
+// the index of the subscriptions, by event type
+const EVENT_TYPE_INDEX = "eventTypeIndex";
+
+export type WebhookServiceOptions = {
+  // injectable so tests control the clock and the HTTP calls
+  now?: () => number;
+  fetchFn?: typeof fetch;
+  lookup?: Lookup;
+};
+
+// what a WebhookDelivery event carries, the event as it's POSTed to the subscription
+type DeliveryPayload = {
+  subscriptionId: string;
+  event: { eventId: string; type: string; createdAt: string; payload: Record<string, unknown> };
+};
+
+// maps a Webhooks table item to a subscription, without its secret
+function toWebhookSubscription(item: Record<string, AttributeValue>): WebhookSubscription {
+  return {
+    subscriptionId: item.subscriptionId.S!,
+    eventType: item.eventType.S!,
+    url: item.url.S!,
+    createdAt: new Date(Number(item.createdAt.N)),
+  };
+}
+
+function assertEventType(eventType: string): void {
+  if (!WEBHOOK_EVENT_TYPES.includes(eventType)) {
+    throw new InvalidWebhookError(`unknown event type ${eventType}, expected one of ${WEBHOOK_EVENT_TYPES.join(", ")}`);
+  }
+}
+
+// Class to manage the webhook subscriptions and deliver events to them.
+// Each event is queued in the outbox once per subscription to its type, see webhookSink, so a subscriber
+// failing doesn't hold the others back: every delivery has its own retries, and is a dead letter once they run out
+export class WebhookService {
+  private _client: DynamoDB;
+  private _config: TConfig;
+  private _tableName: string;
+  private _outboxService: OutboxService;
+  private _now: () => number;
+  private _fetchFn: typeof fetch;
+  private _lookup: Lookup;
+  private _requireHttps: boolean;
+  private _allowedHosts: Set<string>;
+
+  constructor(client: DynamoDB, config: TConfig, options: WebhookServiceOptions = {}) {
+    this._client = client;
+    this._config = config;
+    this._tableName = config.DB_WEBHOOKS_TABLE;
+    this._now = options.now ?? Date.now;
+    this._fetchFn = options.fetchFn ?? fetch;
+    this._lookup = options.lookup ?? dnsLookup;
+    this._requireHttps = config.WEBHOOK_REQUIRE_HTTPS;
+    this._allowedHosts = new Set(
+      (config.WEBHOOK_ALLOWED_HOSTS ?? "")
+        .split(",")
+        .map((host) => host.trim().toLowerCase())
+        .filter(Boolean)
+    );
+    this._outboxService = new OutboxService(client, config, { now: this._now });
+  }
+
+  // Subscribes the URL to an event type. The secret signing its deliveries is only returned here.
+  // The URL must reach a public host, unless it's one of WEBHOOK_ALLOWED_HOSTS, so the signed POSTs
+  // can't be aimed at this network or the cloud metadata endpoint
+  async register(input: WebhookInput): Promise<WebhookSubscription> {
+    assertEventType(input.eventType);
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      throw new InvalidWebhookError("url must be an absolute URL");
+    }
+    if (url.protocol !== "https:" && (this._requireHttps || url.protocol !== "http:")) {
+      throw new InvalidWebhookError(`url must be an ${this._requireHttps ? "https" : "http or https"} URL`);
+    }
+    const hostname = hostnameOf(url);
+    if (!this._allowedHosts.has(hostname) && !isPublicHostname(hostname)) {
+      throw new InvalidWebhookError(`${hostname} is not a public host`);
+    }
+
+    const subscription = {
+      subscriptionId: randomUUID(),
+      eventType: input.eventType,
+      url: url.toString(),
+      createdAt: new Date(this._now()),
+      secret: randomBytes(32).toString("hex"),
+    };
+    await this._client.send(
+      new PutItemCommand({
+        TableName: this._tableName,
+        Item: {
+          subscriptionId: { S: subscription.subscriptionId },
+          eventType: { S: subscription.eventType },
+          url: { S: subscription.url },
+          createdAt: { N: String(subscription.createdAt.getTime()) },
+          secret: { S: subscription.secret },
+        },
+        ConditionExpression: "attribute_not_exists(subscriptionId)",
+      })
+    );
+
+    return subscription;
+  }
+
+  // the subscriptions to an event type, or all of them, the oldest first
+  async listWebhooks(eventType?: string): Promise<WebhookSubscription[]> {
+    if (eventType !== undefined) {
+      assertEventType(eventType);
+    }
+    const subscriptions: WebhookSubscription[] = [];
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+
+    do {
+      const response = await this._client.send(
+        eventType === undefined
+          ? new ScanCommand({ TableName: this._tableName, ExclusiveStartKey: exclusiveStartKey })
+          : new QueryCommand({
+              TableName: this._tableName,
+              IndexName: EVENT_TYPE_INDEX,
+              KeyConditionExpression: "eventType = :eventType",
+              ExpressionAttributeValues: { ":eventType": { S: eventType } },
+              ExclusiveStartKey: exclusiveStartKey,
+            })
+      );
+      subscriptions.push(...(response.Items ?? []).map(toWebhookSubscription));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return subscriptions.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Unsubscribes, resolves to the deleted subscription. Its queued deliveries are dropped when they're due
+  async deleteWebhook(subscriptionId: string): Promise<WebhookSubscription> {
+    try {
+      const response = await this._client.send(
+        new DeleteItemCommand({
+          TableName: this._tableName,
+          Key: { subscriptionId: { S: subscriptionId } },
+          ConditionExpression: "attribute_exists(subscriptionId)",
+          ReturnValues: "ALL_OLD",
+        })
+      );
+
+      return toWebhookSubscription(response.Attributes!);
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new WebhookNotFoundError(subscriptionId);
+      }
+      throw error;
+    }
+  }
+
+  // Queues a WebhookDelivery event for every subscription to the event's type, resolves to how many.
+  // Queueing the same event again doesn't deliver it twice
+  async enqueueDeliveries(event: OutboxEvent): Promise<number> {
+    if (!WEBHOOK_EVENT_TYPES.includes(event.type)) {
+      return 0;
+    }
+    const subscriptions = await this.listWebhooks(event.type);
+
+    for (const { subscriptionId } of subscriptions) {
+      const payload: DeliveryPayload = {
+        subscriptionId,
+        event: {
+          eventId: event.eventId,
+          type: event.type,
+          createdAt: event.createdAt.toISOString(),
+          payload: event.payload,
+        },
+      };
+      await this._outboxService.publish({
+        eventId: `${WEBHOOK_DELIVERY}:${subscriptionId}:${event.eventId}`,
+        type: WEBHOOK_DELIVERY,
+        payload,
+        createdAt: new Date(this._now()),
+      });
+    }
+
+    return subscriptions.length;
+  }
+
+  // POSTs a WebhookDelivery event's event to its subscription, signed with the subscription's secret.
+  // Throws unless the response is 2xx. The Idempotency-Key header is the eventId, the same on every attempt.
+  // The host is resolved first, a name that points at an address that isn't public is a failed delivery
+  async deliver(delivery: OutboxEvent): Promise<void> {
+    const { subscriptionId, event } = delivery.payload as DeliveryPayload;
+    const response = await this._client.send(
+      new GetItemCommand({
+        TableName: this._tableName,
+        Key: { subscriptionId: { S: subscriptionId } },
+        ConsistentRead: true,
+      })
+    );
+    // unsubscribed since it was queued, there's no one to deliver to
+    if (!response.Item) {
+      return;
+    }
+
+    const url = response.Item.url.S!;
+    const hostname = hostnameOf(new URL(url));
+    if (!this._allowedHosts.has(hostname)) {
+      await assertPublicHost(hostname, this._lookup);
+    }
+
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(this._now() / 1000);
+    await postJson(
+      url,
+      body,
+      { "Idempotency-Key": event.eventId, ...signatureHeaders(response.Item.secret.S!, timestamp, body) },
+      this._fetchFn
+    );
+  }
+}
+
+// The sink of the outbox dispatcher, wrapping the configured one.
+// An event is queued for its subscriptions then handed to next, a WebhookDelivery event is POSTed
+export function webhookSink(service: WebhookService, next: OutboxSink): OutboxSink {
+  return async (event) => {
+    if (event.type === WEBHOOK_DELIVERY) {
+      return service.deliver(event);
+    }
+    // queued first: when next fails, the event is handed to both again, and queueing it again does nothing
+    await service.enqueueDeliveries(event);
+    await next(event);
+  };
+}